@@ -0,0 +1,90 @@
+// Service worker for offline reading.
+// Book data lives in IndexedDB (see src/services/OfflineService.ts); this worker serves the
+// app shell and the media the app saved into OFFLINE_ASSETS_CACHE when the network is down.
+
+const APP_CACHE = 'app-shell-v1';
+const OFFLINE_ASSETS_CACHE = 'offline-book-assets-v1';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(APP_CACHE)
+      .then((cache) => cache.addAll(['/', '/index.html']))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key !== APP_CACHE && key !== OFFLINE_ASSETS_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isApiRequest = (url) => {
+  return url.pathname.includes('/rest/v1/') ||
+    url.pathname.includes('/auth/v1/') ||
+    url.pathname.includes('/functions/v1/');
+};
+
+// Pinned book media: cache first, except range requests (video seeking) which the
+// cached full response can't answer, so those only fall back to it when offline
+const serveOfflineAsset = async (request, cached) => {
+  if (!request.headers.has('range')) {
+    return cached;
+  }
+
+  try {
+    return await fetch(request);
+  } catch {
+    return cached;
+  }
+};
+
+// App shell: network first so deploys show up immediately, cache when offline
+const serveAppShell = async (request) => {
+  const cache = await caches.open(APP_CACHE);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+
+    if (request.mode === 'navigate') {
+      const shell = await cache.match('/index.html');
+      if (shell) return shell;
+    }
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (isApiRequest(url)) return;
+
+  event.respondWith((async () => {
+    const assets = await caches.open(OFFLINE_ASSETS_CACHE);
+    const cached = await assets.match(request.url, { ignoreVary: true });
+    if (cached) {
+      return serveOfflineAsset(request, cached);
+    }
+
+    if (url.origin === self.location.origin) {
+      return serveAppShell(request);
+    }
+
+    return fetch(request);
+  })());
+});
@@ -0,0 +1,195 @@
+// A stand-in for the ai-gateway Edge Function, for working on the app without any AI keys.
+// Run `npm run ai:stub` and set VITE_AI_GATEWAY_URL=http://localhost:8787 in .env.
+// Replies are canned: placeholder pictures, silent audio and a made-up practice book.
+// Set AI_STUB_BUDGET=child or AI_STUB_BUDGET=classroom to answer as if that daily AI budget were used up.
+import http from 'node:http';
+
+const PORT = Number(process.env.AI_STUB_PORT) || 8787;
+const USED_UP_BUDGET = process.env.AI_STUB_BUDGET;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-learner-id',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'Retry-After',
+};
+
+const SECONDS_PER_CHARACTER = 0.06;
+const STREAM_WORD_DELAY_MS = 120;
+
+// 16-bit mono PCM silence, long enough to "read" the text
+const silentWav = (seconds) => {
+  const sampleRate = 8000;
+  const dataSize = Math.max(1, Math.ceil(seconds * sampleRate)) * 2;
+  const wav = Buffer.alloc(44 + dataSize);
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + dataSize, 4);
+  wav.write('WAVE', 8);
+  wav.write('fmt ', 12);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20); // PCM
+  wav.writeUInt16LE(1, 22); // mono
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write('data', 36);
+  wav.writeUInt32LE(dataSize, 40);
+  return wav;
+};
+
+const escapeXml = (text) => text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const placeholderImage = (prompt) => Buffer.from(
+  `<svg xmlns="http://www.w3.org/2000/svg" width="600" height="800" viewBox="0 0 600 800">
+  <rect width="600" height="800" fill="#ede9fe"/>
+  <circle cx="300" cy="330" r="120" fill="#c4b5fd"/>
+  <foreignObject x="60" y="500" width="480" height="240">
+    <div xmlns="http://www.w3.org/1999/xhtml" style="font: 22px sans-serif; color: #5b21b6; text-align: center;">
+      ${escapeXml(prompt.slice(0, 200))}
+    </div>
+  </foreignObject>
+</svg>`
+);
+
+const stubStory = (subject) =>
+  `Once upon a time there was a ${subject || 'smiling sun'}. It was kind to everyone, and everyone was kind back.`;
+
+const stubPage = (number) => ({
+  title: `Page ${number}`,
+  text: `On page ${number}, the little fox found a shiny red ball and shared it with a friend.`,
+  image_prompt: 'a little fox holding a shiny red ball in a sunny meadow',
+  quiz: {
+    question: 'What did the little fox find?',
+    options: ['A red ball', 'A blue hat', 'A green apple'],
+    correct_index: 0,
+    spelling_word: 'ball',
+    spelling_hint: 'You can throw and catch it',
+  },
+});
+
+// Answers in the JSON shape the prompt asks for, so book drafts, page rewrites,
+// translations and word definitions all parse
+const draftReply = (prompt) => {
+  const definitionWord = prompt.match(/^Explain the .+? word "([^"]+)"/);
+  if (definitionWord) {
+    return { definition: `A practice meaning for "${definitionWord[1]}".`, syllables: [definitionWord[1]] };
+  }
+
+  const shapeStart = prompt.indexOf('in this shape:');
+  let shape = {};
+  try {
+    shape = JSON.parse(prompt.slice(shapeStart + 'in this shape:'.length));
+  } catch {
+    // Not a JSON prompt; the defaults below are fine
+  }
+
+  if (Array.isArray(shape.pages)) {
+    const pageCount = Number(prompt.match(/^Write a (\d+)-page/)?.[1]) || 3;
+    return {
+      title: 'The Little Fox (practice book)',
+      description: 'A made-up book from the local AI stub.',
+      characters: 'a small orange fox with a white-tipped tail',
+      pages: Array.from({ length: pageCount }, (_, index) => stubPage(index + 1)),
+    };
+  }
+  if ('image_prompt' in shape) {
+    return stubPage(Number(prompt.match(/fresh version of page (\d+)/)?.[1]) || 1);
+  }
+  // Translations: the page comes back unchanged
+  return shape;
+};
+
+const jsonReplies = {
+  'idea': () => ({ idea: 'A friendly robot drinking a milkshake' }),
+  'describe-drawing': () => ({ subject: 'smiling sun' }),
+  'story': ({ subject }) => ({ story: stubStory(subject) }),
+  'draft': ({ prompt }) => ({ text: JSON.stringify(draftReply(String(prompt || ''))) }),
+  'ocr': () => ({ text: 'ball', confidence: 0.85 }),
+  'tts-timestamps': ({ text = '' }) => {
+    const characters = Array.from(String(text));
+    return {
+      audio_base64: silentWav(characters.length * SECONDS_PER_CHARACTER).toString('base64'),
+      alignment: {
+        characters,
+        character_start_times_seconds: characters.map((_, index) => index * SECONDS_PER_CHARACTER),
+        character_end_times_seconds: characters.map((_, index) => (index + 1) * SECONDS_PER_CHARACTER),
+      },
+    };
+  },
+  'conversation-end': () => ({ ended: true }),
+};
+
+const mediaReplies = {
+  'image': ({ prompt = '' }) => ({ type: 'image/svg+xml', data: placeholderImage(String(prompt)) }),
+  'tts': ({ text = '' }) => ({ type: 'audio/wav', data: silentWav(String(text).length * SECONDS_PER_CHARACTER) }),
+  'story-audio': () => ({ type: 'audio/wav', data: silentWav(3) }),
+};
+
+const send = (res, status, type, data) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': type });
+  res.end(data);
+};
+
+const sendJson = (res, status, body) => send(res, status, 'application/json', JSON.stringify(body));
+
+// The story word by word, as Server-Sent Events like the real gateway sends
+const streamStory = (res, { subject }) => {
+  res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  const words = stubStory(subject).split(/(?<= )/);
+  const timer = setInterval(() => {
+    const word = words.shift();
+    if (word === undefined) {
+      clearInterval(timer);
+      res.end('event: done\ndata: {}\n\n');
+      return;
+    }
+    res.write(`data: ${JSON.stringify({ text: word })}\n\n`);
+  }, STREAM_WORD_DELAY_MS);
+  res.on('close', () => clearInterval(timer));
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    return send(res, 200, 'text/plain', 'ok');
+  }
+  if (req.method !== 'POST') {
+    return sendJson(res, 405, { error: 'Method not allowed' });
+  }
+
+  const endpoint = new URL(req.url, `http://localhost:${PORT}`).pathname.split('/').filter(Boolean).pop() || '';
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    let body;
+    try {
+      body = raw ? JSON.parse(raw) : {};
+    } catch {
+      return sendJson(res, 400, { error: 'Request body must be JSON' });
+    }
+    console.log(`[ai-stub] ${endpoint}`);
+
+    if (USED_UP_BUDGET && endpoint !== 'conversation-end') {
+      return sendJson(res, 429, { error: "Today's AI budget has been used up", code: 'budget', reason: USED_UP_BUDGET });
+    }
+
+    if (jsonReplies[endpoint]) {
+      return sendJson(res, 200, jsonReplies[endpoint](body));
+    }
+    if (endpoint === 'story-stream') {
+      return streamStory(res, body);
+    }
+    if (mediaReplies[endpoint]) {
+      const { type, data } = mediaReplies[endpoint](body);
+      return send(res, 200, type, data);
+    }
+    if (endpoint === 'voice-agent' || endpoint === 'conversation') {
+      return sendJson(res, 503, { error: 'Live voice and video conversations need the real AI gateway' });
+    }
+    return sendJson(res, 404, { error: `Unknown AI gateway endpoint "${endpoint}"` });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`AI gateway stub listening on http://localhost:${PORT}`);
+});
@@ -1,22 +1,18 @@
 import React from 'react';
-import { AlertTriangle } from 'lucide-react';
+import { AlertTriangle, Printer } from 'lucide-react';
 import BookContent from './components/BookContent';
 import LibraryPage from './components/LibraryPage';
 import EndPage from './components/EndPage';
+import ProgressDashboard from './components/ProgressDashboard';
+import WordPractice from './components/WordPractice';
 import { BookProvider, BookContext } from './context/BookContext';
 import { Book } from './types/Book';
+import { QuizAnswer } from './types/Quiz';
 import SettingsModal from './components/SettingsModal';
+import PrintBookModal from './components/PrintBookModal';
+import { OfflineService } from './services/OfflineService';
 
-type AppState = 'library' | 'story' | 'end';
-
-interface QuizAnswer {
-  pageTitle: string;
-  multipleChoiceQuestion: string;
-  multipleChoiceAnswer: string;
-  spellingWord: string;
-  spellingAnswer: string;
-  isCorrect: boolean;
-}
+type AppState = 'library' | 'story' | 'end' | 'dashboard' | 'practice';
 
 function App() {
   const [showSupabaseWarning, setShowSupabaseWarning] = React.useState(false);
@@ -35,6 +31,12 @@ function App() {
     }
   }, []);
 
+  // Send quiz results answered offline once the connection is back
+  React.useEffect(() => {
+    if (!OfflineService.isSupported()) return;
+    return OfflineService.getInstance().startSync();
+  }, []);
+
   const handleSelectBook = (book: Book) => {
     setSelectedBook(book);
     setAppState('story');
@@ -61,10 +63,26 @@ function App() {
       <LibraryPage 
         onSelectBook={handleSelectBook}
         onBack={() => {}} // No back action from library
+        onOpenDashboard={() => setAppState('dashboard')}
+        onOpenWordPractice={() => setAppState('practice')}
       />
     );
   }
 
+  // Show parent progress dashboard
+  if (appState === 'dashboard') {
+    return <ProgressDashboard onBack={handleReturnToLibrary} />;
+  }
+
+  // Show spelling word practice; the provider only supplies the reading voice, no book is loaded
+  if (appState === 'practice') {
+    return (
+      <BookProvider>
+        <WordPractice onBack={handleReturnToLibrary} />
+      </BookProvider>
+    );
+  }
+
   // Show end page
   if (appState === 'end') {
     return (
@@ -72,7 +90,7 @@ function App() {
         onReturnToLanding={handleReturnToLibrary}
         quizAnswers={quizAnswers}
         totalScore={totalScore}
-        maxScore={quizAnswers.length * 2} // 2 points per page (multiple choice + spelling)
+        maxScore={quizAnswers.reduce((sum, answer) => sum + answer.maxScore, 0)}
       />
     );
   }
@@ -128,7 +146,10 @@ function App() {
                 )}
               </div>
             </div>
-            <SettingsButton />
+            <div className="flex items-center gap-2">
+              {selectedBook && <PrintButton book={selectedBook} />}
+              <SettingsButton />
+            </div>
           </div>
         </header>
         
@@ -163,6 +184,25 @@ const BookInitializer = ({ book }: { book: Book | null }) => {
   return null;
 };
 
+const PrintButton = ({ book }: { book: Book }) => {
+  const [isOpen, setIsOpen] = React.useState(false);
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="p-2 rounded-full bg-purple-100 hover:bg-purple-200 transition-colors"
+        aria-label="Print book"
+        title="Print book as PDF"
+      >
+        <Printer className="w-5 h-5 text-purple-600" />
+      </button>
+
+      {isOpen && <PrintBookModal book={book} onClose={() => setIsOpen(false)} />}
+    </>
+  );
+};
+
 const SettingsButton = () => {
   const [isOpen, setIsOpen] = React.useState(false);
   
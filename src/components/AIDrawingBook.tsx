@@ -17,8 +17,9 @@ import {
   Zap,
   Download,
   Eye,
+  Printer,
 } from "lucide-react";
-import { GeminiService } from "../services/GeminiService";
+import { AIProviderService } from "../services/AIProviderService";
 import { useAIDrawingBookLogic } from "../hooks/useAIDrawingBookLogic";
 import ColorPalette from "./ColorPalette";
 import HistoryThumbnails from "./HistoryThumbnails";
@@ -48,6 +49,7 @@ const AIDrawingBook: React.FC<AIDrawingBookProps> = ({ onBack }) => {
     isGeneratingStory,
     isTypingStory,
     displayedStory,
+    canReadStory,
     showStorySection,
     setShowStorySection,
     error,
@@ -65,6 +67,8 @@ const AIDrawingBook: React.FC<AIDrawingBookProps> = ({ onBack }) => {
     ffmpegLoaded,
     ffmpegLoading,
     generateAndDownloadVideo,
+    isCreatingColoringBook,
+    downloadColoringBook,
 
     // Pen tool state
     togglePenMode,
@@ -101,7 +105,7 @@ const AIDrawingBook: React.FC<AIDrawingBookProps> = ({ onBack }) => {
   } = useAIDrawingBookLogic();
 
   // API Key Check UI
-  if (!GeminiService.getApiKey()) {
+  if (!AIProviderService.getTextGenerator().isConfigured()) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-purple-400 via-pink-500 to-blue-600 flex items-center justify-center p-4">
         <div className="bg-white/10 backdrop-blur-lg rounded-3xl shadow-2xl p-8 max-w-md text-center border border-white/20">
@@ -112,7 +116,7 @@ const AIDrawingBook: React.FC<AIDrawingBookProps> = ({ onBack }) => {
             AI Magic Needs Setup
           </h2>
           <p className="text-white/80 mb-6 leading-relaxed">
-            To unlock the full AI drawing experience, please configure your Gemini API key in the environment variables.
+            To unlock the full AI drawing experience, please set up the AI gateway in the environment variables, or pick the offline fakes in Settings.
           </p>
           <button
             onClick={onBack}
@@ -300,6 +304,20 @@ const AIDrawingBook: React.FC<AIDrawingBookProps> = ({ onBack }) => {
                           <Trash2 size={20} />
                           <span>Clear</span>
                         </button>
+
+                        <button
+                          onClick={downloadColoringBook}
+                          disabled={isCreatingColoringBook || history.length === 0}
+                          className="flex items-center justify-center gap-1 px-2 bg-gradient-to-r from-purple-500 to-indigo-500 text-white font-bold rounded-2xl shadow-lg hover:shadow-xl transition-all duration-300 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none border border-white/20"
+                          title="Download your pictures as a printable coloring book"
+                        >
+                          {isCreatingColoringBook ? (
+                            <Loader size={20} className="animate-spin" />
+                          ) : (
+                            <Printer size={20} />
+                          )}
+                          <span>Print</span>
+                        </button>
                     </h4>
 
                     {/* gallery */}
@@ -380,11 +398,11 @@ const AIDrawingBook: React.FC<AIDrawingBookProps> = ({ onBack }) => {
                       </button>
                     )}
 
-                    {/* Read Aloud Button */}
-                    {!isTypingStory && story && (
+                    {/* Read Aloud Button - available from the first finished sentence */}
+                    {canReadStory && (
                       <button
                         className="flex items-center justify-center gap-1 px-3 py-1 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-full font-semibold shadow-lg hover:shadow-xl transition-all duration-300 transform hover:scale-105 border border-white/20 text-sm"
-                        onClick={() => handleReadStory('pollinations')}
+                        onClick={() => handleReadStory()}
                         disabled={isReadingStory}
                       >
                         {isReadingStory ? (
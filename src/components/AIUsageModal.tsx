@@ -0,0 +1,210 @@
+import { useState, useEffect } from 'react';
+import { X, Gauge, Loader } from 'lucide-react';
+import { UsageService } from '../services/UsageService';
+import { UsageCap, UsageMetric, UsageReportRow, UsageScope } from '../types/Usage';
+import { METRIC_LABELS, SCOPE_LABELS, USAGE_METRICS, summarizeUsage } from '../utils/usage';
+
+interface AIUsageModalProps {
+  onClose: () => void;
+}
+
+const PERIODS = [
+  { days: 1, label: 'Today' },
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' }
+];
+
+const SCOPES: UsageScope[] = ['child', 'classroom'];
+
+const capKey = (scope: UsageScope, metric: UsageMetric) => `${scope}:${metric}`;
+
+const AIUsageModal = ({ onClose }: AIUsageModalProps) => {
+  const [days, setDays] = useState(7);
+  const [rows, setRows] = useState<UsageReportRow[]>([]);
+  const [caps, setCaps] = useState<UsageCap[]>([]);
+  // What's typed in each cap field; empty means no limit
+  const [capInputs, setCapInputs] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingCap, setSavingCap] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadCaps = async () => {
+      try {
+        const usageService = UsageService.getInstance();
+        const loaded = await usageService.getCaps();
+        setCaps(loaded);
+        setCapInputs(Object.fromEntries(loaded.map(cap => [
+          capKey(cap.scope, cap.metric),
+          cap.daily_limit === null ? '' : String(cap.daily_limit)
+        ])));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load AI usage caps');
+      }
+    };
+
+    loadCaps();
+  }, []);
+
+  useEffect(() => {
+    const loadReport = async () => {
+      setIsLoading(true);
+      try {
+        const usageService = UsageService.getInstance();
+        setRows(await usageService.getReport(days));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load AI usage');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [days]);
+
+  const handleCapSave = async (scope: UsageScope, metric: UsageMetric) => {
+    const key = capKey(scope, metric);
+    const input = (capInputs[key] ?? '').trim();
+    const dailyLimit = input === '' ? null : Math.max(0, parseInt(input, 10) || 0);
+    const current = caps.find(cap => cap.scope === scope && cap.metric === metric);
+    if (current && current.daily_limit === dailyLimit) return;
+
+    setSavingCap(key);
+    setError(null);
+
+    try {
+      const usageService = UsageService.getInstance();
+      await usageService.updateCap(scope, metric, dailyLimit);
+      setCaps(prev => prev.map(cap => cap.scope === scope && cap.metric === metric ? { ...cap, daily_limit: dailyLimit } : cap));
+      setCapInputs(prev => ({ ...prev, [key]: dailyLimit === null ? '' : String(dailyLimit) }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update AI usage cap');
+    } finally {
+      setSavingCap(null);
+    }
+  };
+
+  const summaries = summarizeUsage(rows);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate__animated animate__fadeIn">
+      <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto animate__animated animate__slideInDown">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <Gauge size={22} className="text-purple-600" />
+            AI Usage
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-full hover:bg-gray-100"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <p className="text-sm text-gray-600">
+            What the AI features used, for each classroom (a signed-in account) and each child on it. Caps apply per day and reset at midnight UTC; a child or class that reaches one is asked to come back tomorrow. Child caps only apply while a child is selected in the app.
+          </p>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+
+          <section className="space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <h3 className="font-semibold text-gray-800">Usage</h3>
+              <select
+                value={days}
+                onChange={(e) => setDays(Number(e.target.value))}
+                className="p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-purple-500"
+              >
+                {PERIODS.map(period => (
+                  <option key={period.days} value={period.days}>{period.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-6 text-purple-600">
+                <Loader size={24} className="animate-spin" />
+              </div>
+            ) : summaries.length === 0 ? (
+              <p className="text-sm text-gray-500 py-4 text-center">No AI features were used in this period.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-3 font-medium">Classroom / child</th>
+                      {USAGE_METRICS.map(metric => (
+                        <th key={metric} className="py-2 px-3 font-medium text-right">{METRIC_LABELS[metric]}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {summaries.map(summary => (
+                      <tr key={`${summary.userId}:${summary.learnerId ?? ''}`} className={summary.learnerId ? '' : 'bg-purple-50/50'}>
+                        <td className={`py-2 pr-3 ${summary.learnerId ? 'pl-6 text-gray-700' : 'font-medium text-gray-800'}`}>
+                          {summary.learnerId ? summary.learnerName : summary.email || summary.userId}
+                        </td>
+                        {USAGE_METRICS.map(metric => (
+                          <td key={metric} className="py-2 px-3 text-right tabular-nums text-gray-700">
+                            {(summary.totals[metric] ?? 0).toLocaleString()}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="font-semibold text-gray-800">Daily caps</h3>
+            <p className="text-xs text-gray-500">Leave a cap empty for no limit. Each call sets aside its expected cost before it starts, so totals only go over when a call uses more than expected.</p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-3 font-medium"></th>
+                    {USAGE_METRICS.map(metric => (
+                      <th key={metric} className="py-2 px-3 font-medium">{METRIC_LABELS[metric]}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {SCOPES.map(scope => (
+                    <tr key={scope}>
+                      <td className="py-2 pr-3 font-medium text-gray-800 whitespace-nowrap">{SCOPE_LABELS[scope]}</td>
+                      {USAGE_METRICS.map(metric => {
+                        const key = capKey(scope, metric);
+                        return (
+                          <td key={metric} className="py-2 px-3">
+                            <input
+                              type="number"
+                              min={0}
+                              placeholder="No limit"
+                              value={capInputs[key] ?? ''}
+                              onChange={(e) => setCapInputs(prev => ({ ...prev, [key]: e.target.value }))}
+                              onBlur={() => handleCapSave(scope, metric)}
+                              disabled={savingCap === key}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:opacity-50"
+                            />
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AIUsageModal;
@@ -1,4 +1,5 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Mic, Square, RotateCcw, X, Loader } from 'lucide-react';
 import { useBook } from '../context/BookContext';
 import PageTurner from './PageTurner';
 import Controls from './Controls';
@@ -8,15 +9,26 @@ import ConversationalAIButton from './ConversationalAIButton';
 import { QuizModal } from './QuizModal';
 import ProgressIndicator from './ProgressIndicator';
 import TavusConversationVideo from './TavusConversationVideo';
+import { QuizAnswer } from '../types/Quiz';
+import { getQuizMaxScore } from './quiz/questionRegistry';
+import { useAdaptiveQuiz } from '../hooks/useAdaptiveQuiz';
+import { useReadAloud } from '../hooks/useReadAloud';
+import { splitWords } from '../utils/narration';
+import { parseStoryMarkup, stripStoryMarkup } from '../utils/storyMarkup';
+import { DEFAULT_BOOK_LANGUAGE, getNativeLanguageLabel, isRightToLeft } from '../utils/languages';
+import { WordMatch } from '../utils/readAloud';
+import { findSentence, normalizeLookupWord } from '../utils/dictionary';
+import WordPopover from './WordPopover';
 
-interface QuizAnswer {
-  pageTitle: string;
-  multipleChoiceQuestion: string;
-  multipleChoiceAnswer: string;
-  spellingWord: string;
-  spellingAnswer: string;
-  isCorrect: boolean;
-}
+// Each character's lines get their own colour, in order of appearance on the book
+const SPEAKER_COLORS = ['text-blue-700', 'text-pink-700', 'text-emerald-700', 'text-orange-700', 'text-indigo-700', 'text-rose-700'];
+
+// How each word looks once the child has read it aloud in practice mode
+const READ_ALOUD_CLASSES: Record<WordMatch, string> = {
+  correct: 'bg-green-100 text-green-800',
+  misread: 'bg-red-100 text-red-700 underline decoration-wavy',
+  skipped: 'bg-red-50 text-red-400 line-through'
+};
 
 interface BookContentProps {
   onStoryComplete?: (answers: QuizAnswer[], totalScore: number) => void;
@@ -24,15 +36,26 @@ interface BookContentProps {
 
 const BookContent = ({ onStoryComplete }: BookContentProps) => {
   const { 
+    currentBook,
     currentPage,
     totalPages,
     pageContent,
+    sourcePageContent,
+    availableLanguages,
+    readingLanguage,
+    setReadingLanguage,
+    pageLanguage,
+    showBilingual,
+    setShowBilingual,
+    bookSpeakers,
     currentWord,
     isReading,
     hasStartedReading,
     isLoading,
     error,
-    readingComplete
+    readingComplete,
+    toggleReading,
+    recordReadAloud
   } = useBook();
 
   const [isPageTurning, setIsPageTurning] = useState(false);
@@ -42,6 +65,18 @@ const BookContent = ({ onStoryComplete }: BookContentProps) => {
   const [aiMessages, setAiMessages] = useState<any[]>([]);
   
   const textContainerRef = useRef<HTMLDivElement>(null);
+  const { quiz, level: quizLevel } = useAdaptiveQuiz(pageContent.quiz);
+  const quizMaxScore = getQuizMaxScore(quiz);
+
+  const pageWords = useMemo(() => splitWords(pageContent.text), [pageContent.text]);
+  const readAloud = useReadAloud(pageWords, pageLanguage, recordReadAloud);
+  const { reset: resetReadAloud } = readAloud;
+  const isPracticing = readAloud.isListening || readAloud.isScoring || readAloud.score !== null;
+  const [tappedWord, setTappedWord] = useState<{ text: string; anchor: DOMRect } | null>(null);
+
+  const bookLanguage = currentBook?.language || DEFAULT_BOOK_LANGUAGE;
+  // The original is only worth showing alongside when this page is actually translated
+  const isBilingual = showBilingual && pageLanguage !== bookLanguage;
 
   useEffect(() => {
     setIsPageTurning(true);
@@ -59,11 +94,11 @@ const BookContent = ({ onStoryComplete }: BookContentProps) => {
       hasStartedReading,
       isReading,
       currentWord,
-      totalWords: pageContent?.text ? pageContent.text.split(/\s+/).length : 0
+      totalWords: pageContent?.text ? splitWords(pageContent.text).length : 0
     });
 
     if (pageContent && pageContent.text) {
-      const words = pageContent.text.split(/\s+/).filter(word => word.length > 0);
+      const words = splitWords(pageContent.text);
       const totalWords = words.length;
       const isComplete = readingComplete || currentWord >= totalWords;
       
@@ -86,25 +121,74 @@ const BookContent = ({ onStoryComplete }: BookContentProps) => {
     setIsPageComplete(false);
     setShowQuiz(false);
     setQuizScore(0);
-  }, [currentPage]);
+    setTappedWord(null);
+    resetReadAloud();
+  }, [currentPage, resetReadAloud]);
+
+  // The child reads the page themselves, so the narrator stops
+  const startReadAloud = () => {
+    if (isReading) {
+      toggleReading();
+    }
+    readAloud.start();
+  };
+
+  // Tapping a word pauses the narrator so the popover can say the word
+  const openWord = (text: string, target: HTMLElement) => {
+    if (!normalizeLookupWord(text) || readAloud.isListening) return;
+    if (isReading) {
+      toggleReading();
+    }
+    setTappedWord({ text, anchor: target.getBoundingClientRect() });
+  };
+
+  const closeWord = useCallback(() => setTappedWord(null), []);
 
   const renderHighlightedText = (text: string) => {
-    const words = text.split(/\s+/).filter(word => word.length > 0);
+    const words = parseStoryMarkup(text);
     console.log('Rendering highlighted text:', { currentWord, totalWords: words.length });
     
     return (
       <div className="leading-relaxed">
-        {words.map((word, index) => (
-          <span
-            key={index}
-            className={`word-highlight inline-block transition-all duration-300 mx-1 px-1 py-0.5 rounded ${
-              index === currentWord ? 'bg-yellow-300 shadow-md transform scale-110 animate-pulse font-bold text-purple-800' : 
-              index < currentWord ? 'bg-green-100 text-green-800' : 'text-gray-800'
-            }`}
-          >
-            {word}
-          </span>
-        ))}
+        {words.map((word, index) => {
+          const speakerColor = word.speaker
+            ? SPEAKER_COLORS[Math.max(bookSpeakers.indexOf(word.speaker), 0) % SPEAKER_COLORS.length]
+            : 'text-gray-800';
+          const startsLine = word.speaker !== null && words[index - 1]?.speaker !== word.speaker;
+
+          return (
+            <React.Fragment key={index}>
+              {word.pauseBefore > 0 && index > 0 && (
+                <span className="inline-block mx-1 text-gray-300 select-none" aria-hidden="true">·</span>
+              )}
+              {startsLine && (
+                <span className={`inline-block ml-1 px-1.5 py-0.5 rounded-full bg-white/80 text-xs font-semibold align-middle ${speakerColor}`}>
+                  {word.speaker}
+                </span>
+              )}
+              <span
+                role="button"
+                tabIndex={0}
+                onClick={(e) => openWord(word.text, e.currentTarget)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    openWord(word.text, e.currentTarget);
+                  }
+                }}
+                className={`word-highlight inline-block cursor-pointer hover:ring-2 hover:ring-purple-200 focus:outline-none focus:ring-2 focus:ring-purple-400 transition-all duration-300 mx-1 px-1 py-0.5 rounded ${
+                  word.emphasis ? 'italic font-semibold' : ''
+                } ${
+                  isPracticing ? (readAloud.matches[index] ? READ_ALOUD_CLASSES[readAloud.matches[index]!] : speakerColor) :
+                  index === currentWord ? 'bg-yellow-300 shadow-md transform scale-110 animate-pulse font-bold text-purple-800' : 
+                  index < currentWord ? 'bg-green-100 text-green-800' : speakerColor
+                }`}
+              >
+                {word.text}
+              </span>
+            </React.Fragment>
+          );
+        })}
       </div>
     );
   };
@@ -118,7 +202,7 @@ const BookContent = ({ onStoryComplete }: BookContentProps) => {
     return `You are helping a child read a story. 
     Current page: ${currentPage + 1} of ${totalPages}
     Page title: "${pageContent.title}"
-    Story text: "${pageContent.text}"
+    Story text: "${stripStoryMarkup(pageContent.text)}"
     
     You can help with:
     - Explaining difficult words
@@ -180,12 +264,48 @@ const BookContent = ({ onStoryComplete }: BookContentProps) => {
         totalPages={totalPages}
         isPageComplete={isPageComplete}
         quizScore={quizScore}
+        quizMaxScore={quizMaxScore}
       />
       
       {/* Page Settings Bar */}
       <div className="bg-white border-b border-gray-200 p-2">
         <div className="flex items-center justify-between max-w-6xl mx-auto">
           <div className="flex items-center gap-4">
+            {/* Reading Language */}
+            {availableLanguages.length > 1 && (
+              <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+                <label className="flex items-center gap-2">
+                  <span>🌐</span>
+                  <select
+                    value={readingLanguage}
+                    onChange={(e) => setReadingLanguage(e.target.value)}
+                    className="p-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-purple-500"
+                    aria-label="Reading language"
+                  >
+                    {availableLanguages.map(language => (
+                      <option key={language} value={language}>{getNativeLanguageLabel(language)}</option>
+                    ))}
+                  </select>
+                </label>
+                {readingLanguage !== bookLanguage && (
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={showBilingual}
+                      onChange={(e) => setShowBilingual(e.target.checked)}
+                      className="accent-purple-600"
+                    />
+                    Side by side with {getNativeLanguageLabel(bookLanguage)}
+                  </label>
+                )}
+                {pageLanguage !== readingLanguage && (
+                  <span className="text-amber-600">
+                    This page isn't translated yet, showing {getNativeLanguageLabel(pageLanguage)}
+                  </span>
+                )}
+              </div>
+            )}
+
             {/* Background Music Status */}
             {pageContent.backgroundMusic && (
               <div className="flex items-center gap-2 text-sm text-gray-600">
@@ -196,10 +316,16 @@ const BookContent = ({ onStoryComplete }: BookContentProps) => {
 
           {/* Reading Status */}
           <div className="text-sm text-gray-600">
+            {readAloud.isListening && (
+              <span className="flex items-center gap-2 text-red-600">
+                <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
+                Listening... read the page aloud
+              </span>
+            )}
             {isReading && (
               <span className="flex items-center gap-2">
                 <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                Reading... ({currentWord + 1} of {pageContent.text.split(/\s+/).filter(w => w.length > 0).length} words)
+                Reading... ({currentWord + 1} of {splitWords(pageContent.text).length} words)
               </span>
             )}
             {isPageComplete && (
@@ -224,44 +350,108 @@ const BookContent = ({ onStoryComplete }: BookContentProps) => {
             isPageTurning ? 'opacity-0' : 'opacity-100 animate__animated animate__fadeIn'
           }`}
         >
-          <div className="w-full md:w-1/2 p-6 md:p-10 flex flex-col justify-center">
+          <div className={`w-full ${isBilingual ? 'md:w-2/3' : 'md:w-1/2'} p-6 md:p-10 flex flex-col justify-center`}>
             <div className="bg-white/95 backdrop-blur-sm p-6 rounded-xl shadow-lg animate__animated animate__slideInLeft max-h-full overflow-hidden">
               {/* Page Title */}
               {pageContent.title && (
-                <h2 className="text-2xl md:text-3xl font-bold text-purple-700 mb-4 animate__animated animate__fadeInDown">
+                <h2
+                  lang={pageLanguage}
+                  dir={isRightToLeft(pageLanguage) ? 'rtl' : 'ltr'}
+                  className="text-2xl md:text-3xl font-bold text-purple-700 mb-4 animate__animated animate__fadeInDown"
+                >
                   {pageContent.title}
                 </h2>
               )}
               
-              {/* Text Container */}
-              <div 
-                ref={textContainerRef}
-                className="text-xl md:text-2xl leading-relaxed text-gray-800 font-medium mb-4 overflow-y-auto max-h-80 pr-2"
-                style={{
-                  scrollbarWidth: 'thin',
-                  scrollbarColor: '#8B5CF6 #E5E7EB'
-                }}
-              >
-                <style jsx>{`
-                  div::-webkit-scrollbar {
-                    width: 8px;
-                  }
-                  div::-webkit-scrollbar-track {
-                    background: #F3F4F6;
-                    border-radius: 10px;
-                  }
-                  div::-webkit-scrollbar-thumb {
-                    background: linear-gradient(45deg, #8B5CF6, #EC4899);
-                    border-radius: 10px;
-                    border: 2px solid #F3F4F6;
-                  }
-                  div::-webkit-scrollbar-thumb:hover {
-                    background: linear-gradient(45deg, #7C3AED, #DB2777);
-                  }
-                `}</style>
-                {renderHighlightedText(pageContent.text)}
+              <div className={isBilingual ? 'grid grid-cols-1 md:grid-cols-2 gap-4' : undefined}>
+                {/* Text Container */}
+                <div 
+                  ref={textContainerRef}
+                  lang={pageLanguage}
+                  dir={isRightToLeft(pageLanguage) ? 'rtl' : 'ltr'}
+                  className="text-xl md:text-2xl leading-relaxed text-gray-800 font-medium mb-4 overflow-y-auto max-h-80 pr-2"
+                  style={{
+                    scrollbarWidth: 'thin',
+                    scrollbarColor: '#8B5CF6 #E5E7EB'
+                  }}
+                >
+                  <style jsx>{`
+                    div::-webkit-scrollbar {
+                      width: 8px;
+                    }
+                    div::-webkit-scrollbar-track {
+                      background: #F3F4F6;
+                      border-radius: 10px;
+                    }
+                    div::-webkit-scrollbar-thumb {
+                      background: linear-gradient(45deg, #8B5CF6, #EC4899);
+                      border-radius: 10px;
+                      border: 2px solid #F3F4F6;
+                    }
+                    div::-webkit-scrollbar-thumb:hover {
+                      background: linear-gradient(45deg, #7C3AED, #DB2777);
+                    }
+                  `}</style>
+                  {renderHighlightedText(pageContent.text)}
+                </div>
+
+                {/* The original text, for reading the two languages side by side */}
+                {isBilingual && (
+                  <div
+                    lang={bookLanguage}
+                    dir={isRightToLeft(bookLanguage) ? 'rtl' : 'ltr'}
+                    className="text-lg md:text-xl leading-relaxed text-gray-500 mb-4 overflow-y-auto max-h-80 md:border-l md:pl-4 border-gray-200"
+                  >
+                    {sourcePageContent.title && (
+                      <p className="font-semibold text-gray-600 mb-2">{sourcePageContent.title}</p>
+                    )}
+                    <p className="whitespace-pre-wrap">{stripStoryMarkup(sourcePageContent.text)}</p>
+                  </div>
+                )}
               </div>
               
+              {/* Read-aloud practice result */}
+              {readAloud.isScoring && (
+                <div className="flex items-center gap-2 text-sm text-gray-600 mb-2">
+                  <Loader size={16} className="animate-spin" />
+                  Checking your reading...
+                </div>
+              )}
+              {readAloud.error && (
+                <div className="p-2 mb-2 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{readAloud.error}</div>
+              )}
+              {readAloud.score && (
+                <div className="p-3 mb-2 bg-purple-50 border border-purple-200 rounded-lg text-sm animate__animated animate__fadeIn">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-semibold text-purple-800">
+                      ⭐ {readAloud.score.wordsCorrectPerMinute} words a minute · {readAloud.score.correctWords} of {readAloud.score.totalWords} words right
+                    </p>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={startReadAloud}
+                        className="p-1 rounded-full text-purple-700 hover:bg-purple-100"
+                        title="Try again"
+                      >
+                        <RotateCcw size={16} />
+                      </button>
+                      <button
+                        onClick={resetReadAloud}
+                        className="p-1 rounded-full text-gray-500 hover:bg-gray-100"
+                        title="Close"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                  </div>
+                  {readAloud.score.misreadWords.length > 0 && (
+                    <p className="text-red-700 mt-1">Tricky words: {readAloud.score.misreadWords.join(', ')}</p>
+                  )}
+                  {readAloud.score.skippedWords.length > 0 && (
+                    <p className="text-gray-600 mt-1">Missed out: {readAloud.score.skippedWords.join(', ')}</p>
+                  )}
+                </div>
+              )}
+
               {isPageComplete && (
                 <div className="text-sm text-green-600 font-semibold mt-2 animate__animated animate__bounceIn">
                   ✓ Page completed - Quiz will appear shortly!
@@ -307,19 +497,35 @@ const BookContent = ({ onStoryComplete }: BookContentProps) => {
             pageContent={pageContent} 
             currentPage={currentPage}
             totalPages={totalPages}
+            language={pageLanguage}
           />
         </div>
 
         {/* Read Button */}
-        <div className="absolute bottom-4 left-4">
+        <div className="absolute bottom-4 left-4 flex items-center gap-3">
           <Controls />
+          {readAloud.isSupported && (
+            <button
+              onClick={readAloud.isListening ? readAloud.stop : startReadAloud}
+              disabled={readAloud.isScoring}
+              className={`flex items-center gap-2 h-12 px-4 rounded-full text-white font-semibold shadow-lg border-4 border-white transition-all duration-300 transform hover:scale-105 disabled:opacity-60 ${
+                readAloud.isListening
+                  ? 'bg-gradient-to-r from-red-500 to-orange-500 animate-pulse'
+                  : 'bg-gradient-to-r from-green-500 to-teal-500'
+              }`}
+              aria-label={readAloud.isListening ? 'Stop reading aloud' : 'Read the page aloud yourself'}
+            >
+              {readAloud.isListening ? <Square size={18} /> : <Mic size={18} />}
+              <span>{readAloud.isListening ? 'Done' : 'You read it'}</span>
+            </button>
+          )}
         </div>
       </div>
       
       <div className="bg-white p-4 flex flex-wrap items-center justify-between gap-4 border-t border-gray-200 animate__animated animate__slideInUp">
         <div className="flex items-center gap-4 mx-auto sm:mx-0">
           <PageCounter current={currentPage + 1} total={totalPages} />
-          <PageTurner isLocked={quizScore < 2} />
+          <PageTurner isLocked={quizScore < quizMaxScore} />
         </div>
         
         {/* AI Messages */}
@@ -338,10 +544,20 @@ const BookContent = ({ onStoryComplete }: BookContentProps) => {
       {showQuiz && (
         <QuizModal
           onClose={() => setShowQuiz(false)}
-          pageContent={pageContent}
+          pageContent={{ ...pageContent, quiz }}
+          level={quizLevel}
           onScoreUpdate={setQuizScore}
         />
       )}
+
+      {tappedWord && (
+        <WordPopover
+          word={tappedWord.text}
+          sentence={findSentence(stripStoryMarkup(pageContent.text), tappedWord.text)}
+          anchor={tappedWord.anchor}
+          onClose={closeWord}
+        />
+      )}
     </div>
   );
 };
@@ -54,14 +54,7 @@ const ConversationalAIButton = ({
         onMessage?.(message);
       });
 
-      if (ElevenLabsService.useSignedUrl()) {
-        const response = await fetch(ElevenLabsService.getSignedUrlEndpoint());
-        if (!response.ok) {
-          throw new Error('Failed to get signed URL');
-        }
-        const signedUrl = await response.text();
-        options.signedUrl = signedUrl;
-      }
+      options.signedUrl = await ElevenLabsService.getSignedUrl();
 
       await startConversation(options);
     } catch (err: any) {
@@ -200,7 +193,7 @@ const ConversationalAIButton = ({
                     Configure your ElevenLabs settings in environment variables to start chatting.
                   </p>
                   <p className="text-orange-600 text-xs mt-1">
-                    Check your .env file for VITE_ELEVENLABS_AGENT_ID
+                    Check your .env file for VITE_SUPABASE_URL or VITE_AI_GATEWAY_URL
                   </p>
                 </div>
               </div>
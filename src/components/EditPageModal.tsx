@@ -1,8 +1,22 @@
-import React, { useState } from 'react';
-import { X, Save, Loader, Music } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { X, Save, Loader, Music, History, Undo2 } from 'lucide-react';
+import { QuizData } from '../types/Quiz';
+import { WordTiming } from '../types/Narration';
+import { PageRevision } from '../types/Revision';
+import { SupabaseService } from '../services/SupabaseService';
+import { DraftService } from '../services/DraftService';
+import { createFallbackQuiz } from '../utils/quizData';
+import { PageFields, fromPageSnapshot, toPageSnapshot } from '../utils/pageRevisions';
+import QuizEditor from './quiz/QuizEditor';
+import NarrationEditor from './NarrationEditor';
+import MediaUrlField from './MediaUrlField';
+import PageHistoryPanel from './PageHistoryPanel';
+import { validateQuiz } from './quiz/questionRegistry';
 
 interface EditPageModalProps {
   onClose: () => void;
+  bookId?: string;
+  pageNumber: number;
   pageContent: {
     title: string;
     text: string;
@@ -10,16 +24,9 @@ interface EditPageModalProps {
     video: string;
     background: string;
     backgroundMusic?: string;
-    quiz?: {
-      multipleChoice: {
-        question: string;
-        options: { text: string; isCorrect: boolean; }[];
-      };
-      spelling: {
-        word: string;
-        hint: string;
-      };
-    };
+    narrationAudio?: string;
+    narrationTimings?: WordTiming[];
+    quiz?: QuizData;
   };
   onSave: (content: {
     title: string;
@@ -28,43 +35,84 @@ interface EditPageModalProps {
     video: string;
     background: string;
     backgroundMusic?: string;
-    quiz?: {
-      multipleChoice: {
-        question: string;
-        options: { text: string; isCorrect: boolean; }[];
-      };
-      spelling: {
-        word: string;
-        hint: string;
-      };
-    };
+    narrationAudio?: string;
+    narrationTimings?: WordTiming[];
+    quiz?: QuizData;
   }) => Promise<void>;
 }
 
-const EditPageModal = ({ onClose, pageContent, onSave }: EditPageModalProps) => {
-  const [content, setContent] = useState({
-    ...pageContent,
-    video: pageContent.video || pageContent.image, // Fallback to image if no video
-    backgroundMusic: pageContent.backgroundMusic || '',
-    quiz: pageContent.quiz || {
-      multipleChoice: {
-        question: "What happened in this part of the story?",
-        options: [
-          { text: pageContent.text.substring(0, 50) + "...", isCorrect: true },
-          { text: "Something else happened...", isCorrect: false },
-          { text: "None of the above", isCorrect: false }
-        ]
-      },
-      spelling: {
-        word: pageContent.text.split(' ').find(word => word.length > 4) || "story",
-        hint: "Try spelling this word from the story"
-      }
-    }
-  });
+const toEditorContent = (page: PageFields): PageFields => ({
+  ...page,
+  video: page.video || page.image, // Fallback to image if no video
+  backgroundMusic: page.backgroundMusic || '',
+  quiz: page.quiz || createFallbackQuiz(page.text)
+});
+
+const EditPageModal = ({ onClose, bookId, pageNumber, pageContent, onSave }: EditPageModalProps) => {
+  const [content, setContent] = useState<EditPageModalProps['pageContent']>(() => toEditorContent(pageContent));
 
   const [showQuizEdit, setShowQuizEdit] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
+  // Set once the live page is found; pages not in the database yet are saved directly
+  const [pageId, setPageId] = useState<string | null>(null);
+  const [hasDraft, setHasDraft] = useState(false);
+  const [revisions, setRevisions] = useState<PageRevision[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const quizErrors = content.quiz ? validateQuiz(content.quiz) : [];
+
+  // Open the page's unpublished draft, if it has one, rather than the live version
+  useEffect(() => {
+    if (!bookId) return;
+
+    let isCancelled = false;
+    const loadDraft = async () => {
+      try {
+        const livePage = await SupabaseService.getInstance().getStoryPage(pageNumber, bookId);
+        if (!livePage || isCancelled) return;
+
+        const draftService = DraftService.getInstance();
+        const [draft, pageRevisions] = await Promise.all([
+          draftService.getPageDraft(livePage.id),
+          draftService.getPageRevisions(livePage.id)
+        ]);
+        if (isCancelled) return;
+
+        setPageId(livePage.id);
+        setRevisions(pageRevisions);
+        if (draft) {
+          setContent(toEditorContent(fromPageSnapshot(draft.content)));
+          setHasDraft(true);
+        }
+      } catch (error) {
+        console.warn('Failed to load page draft:', error);
+      }
+    };
+
+    loadDraft();
+    return () => {
+      isCancelled = true;
+    };
+  }, [bookId, pageNumber]);
+
+  const handleRestore = (revision: PageRevision) => {
+    setContent(toEditorContent(fromPageSnapshot(revision.content)));
+    setShowHistory(false);
+  };
+
+  const handleDiscardDraft = async () => {
+    if (!pageId || !window.confirm('Discard the unpublished changes to this page?')) return;
+
+    setSaveError(null);
+    try {
+      await DraftService.getInstance().discardPageDraft(pageId);
+      setContent(toEditorContent(pageContent));
+      setHasDraft(false);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to discard draft');
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -72,6 +120,12 @@ const EditPageModal = ({ onClose, pageContent, onSave }: EditPageModalProps) =>
   };
 
   const handleSave = async () => {
+    if (quizErrors.length > 0) {
+      setShowQuizEdit(true);
+      setSaveError(`Please fix the quiz before saving: ${quizErrors[0]}`);
+      return;
+    }
+
     setIsSaving(true);
     setSaveError(null);
     
@@ -85,26 +139,18 @@ const EditPageModal = ({ onClose, pageContent, onSave }: EditPageModalProps) =>
     }
   };
 
-  const updateMultipleChoiceOption = (index: number, text: string, isCorrect: boolean) => {
-    setContent(prev => ({
-      ...prev,
-      quiz: {
-        ...prev.quiz!,
-        multipleChoice: {
-          ...prev.quiz!.multipleChoice,
-          options: prev.quiz!.multipleChoice.options.map((opt, i) => 
-            i === index ? { text, isCorrect } : { ...opt, isCorrect: isCorrect ? false : opt.isCorrect }
-          )
-        }
-      }
-    }));
-  };
-
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate__animated animate__fadeIn">
       <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto animate__animated animate__zoomIn">
         <div className="flex items-center justify-between p-4 border-b">
-          <h2 className="text-xl font-bold text-gray-800 animate__animated animate__fadeInLeft">Edit Page Content</h2>
+          <h2 className="text-xl font-bold text-gray-800 animate__animated animate__fadeInLeft flex items-center gap-2">
+            Edit Page Content
+            {hasDraft && (
+              <span className="px-2 py-0.5 text-xs font-semibold bg-yellow-100 text-yellow-800 rounded-full">
+                Unpublished draft
+              </span>
+            )}
+          </h2>
           <button 
             onClick={onClose}
             className="p-1 rounded-full hover:bg-gray-100 animate__animated animate__fadeInRight"
@@ -137,6 +183,10 @@ const EditPageModal = ({ onClose, pageContent, onSave }: EditPageModalProps) =>
               className="w-full h-32 p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
               required
             />
+            <p className="text-xs text-gray-500">
+              Use <code>*words*</code> for emphasis, <code>[Hoppy: "Hello!"]</code> for a character's lines
+              (read in their own voice) and <code>[pause]</code> or <code>[pause 1.5]</code> for a pause in seconds.
+            </p>
           </div>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -144,11 +194,12 @@ const EditPageModal = ({ onClose, pageContent, onSave }: EditPageModalProps) =>
               <label className="block text-sm font-medium text-gray-700">
                 Video URL
               </label>
-              <input
-                type="url"
+              <MediaUrlField
                 value={content.video}
-                onChange={(e) => setContent({ ...content, video: e.target.value })}
-                className="w-full p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+                onChange={(url) => setContent({ ...content, video: url })}
+                kind="video"
+                bookId={bookId}
+                className="flex-1 min-w-0 p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
                 required
               />
               <div className="mt-2">
@@ -169,11 +220,12 @@ const EditPageModal = ({ onClose, pageContent, onSave }: EditPageModalProps) =>
               <label className="block text-sm font-medium text-gray-700">
                 Fallback Image URL
               </label>
-              <input
-                type="url"
+              <MediaUrlField
                 value={content.image}
-                onChange={(e) => setContent({ ...content, image: e.target.value })}
-                className="w-full p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+                onChange={(url) => setContent({ ...content, image: url })}
+                kind="image"
+                bookId={bookId}
+                className="flex-1 min-w-0 p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
                 required
               />
               <div className="mt-2">
@@ -194,11 +246,12 @@ const EditPageModal = ({ onClose, pageContent, onSave }: EditPageModalProps) =>
             <label className="block text-sm font-medium text-gray-700">
               Background Image URL
             </label>
-            <input
-              type="url"
+            <MediaUrlField
               value={content.background}
-              onChange={(e) => setContent({ ...content, background: e.target.value })}
-              className="w-full p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+              onChange={(url) => setContent({ ...content, background: url })}
+              kind="image"
+              bookId={bookId}
+              className="flex-1 min-w-0 p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
               required
             />
             <div className="mt-2">
@@ -220,11 +273,12 @@ const EditPageModal = ({ onClose, pageContent, onSave }: EditPageModalProps) =>
               <Music size={16} className="text-purple-600" />
               Background Music URL (Optional)
             </label>
-            <input
-              type="url"
-              value={content.backgroundMusic}
-              onChange={(e) => setContent({ ...content, backgroundMusic: e.target.value })}
-              className="w-full p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+            <MediaUrlField
+              value={content.backgroundMusic || ''}
+              onChange={(url) => setContent({ ...content, backgroundMusic: url })}
+              kind="audio"
+              bookId={bookId}
+              className="flex-1 min-w-0 p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
               placeholder="https://example.com/background-music.mp3"
             />
             {content.backgroundMusic && (
@@ -246,109 +300,55 @@ const EditPageModal = ({ onClose, pageContent, onSave }: EditPageModalProps) =>
             </p>
           </div>
 
-          <div className="space-y-4 animate__animated animate__fadeInUp animate__delay-3s">
-            <button
-              type="button"
-              onClick={() => setShowQuizEdit(!showQuizEdit)}
-              className="text-purple-600 hover:text-purple-700 font-medium transition-all duration-300 transform hover:scale-105"
-            >
-              {showQuizEdit ? 'Hide Quiz Editor' : 'Edit Quiz Questions'}
-            </button>
-
-            {showQuizEdit && (
-              <div className="space-y-6 p-4 bg-gray-50 rounded-lg animate__animated animate__slideInDown">
-                <div className="space-y-4">
-                  <h3 className="font-medium text-gray-900">Multiple Choice Question</h3>
-                  <div className="space-y-2">
-                    <label className="block text-sm font-medium text-gray-700">
-                      Question
-                    </label>
-                    <input
-                      type="text"
-                      value={content.quiz?.multipleChoice.question}
-                      onChange={(e) => setContent(prev => ({
-                        ...prev,
-                        quiz: {
-                          ...prev.quiz!,
-                          multipleChoice: {
-                            ...prev.quiz!.multipleChoice,
-                            question: e.target.value
-                          }
-                        }
-                      }))}
-                      className="w-full p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
-                    />
-                  </div>
+          {/* Narration Track Section */}
+          <div className="animate__animated animate__fadeInUp animate__delay-2s">
+            <NarrationEditor
+              bookId={bookId}
+              pageNumber={pageNumber}
+              text={content.text}
+              audioUrl={content.narrationAudio}
+              timings={content.narrationTimings}
+              onChange={(narration) => setContent(prev => ({ ...prev, ...narration }))}
+            />
+          </div>
 
-                  <div className="space-y-4">
-                    <label className="block text-sm font-medium text-gray-700">
-                      Answer Options
-                    </label>
-                    {content.quiz?.multipleChoice.options.map((option, index) => (
-                      <div key={index} className="flex items-center gap-3 animate__animated animate__fadeInLeft" style={{ animationDelay: `${index * 0.1}s` }}>
-                        <input
-                          type="radio"
-                          checked={option.isCorrect}
-                          onChange={() => updateMultipleChoiceOption(index, option.text, true)}
-                          className="w-4 h-4 text-purple-600"
-                        />
-                        <input
-                          type="text"
-                          value={option.text}
-                          onChange={(e) => updateMultipleChoiceOption(index, e.target.value, option.isCorrect)}
-                          className="flex-1 p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
-                        />
-                      </div>
-                    ))}
-                  </div>
-                </div>
+          <div className="space-y-4 animate__animated animate__fadeInUp animate__delay-3s">
+            <div className="flex flex-wrap items-center gap-6">
+              <button
+                type="button"
+                onClick={() => setShowQuizEdit(!showQuizEdit)}
+                className="text-purple-600 hover:text-purple-700 font-medium transition-all duration-300 transform hover:scale-105"
+              >
+                {showQuizEdit ? 'Hide Quiz Editor' : 'Edit Quiz Questions'}
+              </button>
+              {pageId && (
+                <button
+                  type="button"
+                  onClick={() => setShowHistory(!showHistory)}
+                  className="flex items-center gap-1 text-purple-600 hover:text-purple-700 font-medium transition-all duration-300 transform hover:scale-105"
+                >
+                  <History size={16} />
+                  {showHistory ? 'Hide History' : `History (${revisions.length})`}
+                </button>
+              )}
+            </div>
 
-                <div className="space-y-4">
-                  <h3 className="font-medium text-gray-900">Spelling Question</h3>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <label className="block text-sm font-medium text-gray-700">
-                        Word to Spell
-                      </label>
-                      <input
-                        type="text"
-                        value={content.quiz?.spelling.word}
-                        onChange={(e) => setContent(prev => ({
-                          ...prev,
-                          quiz: {
-                            ...prev.quiz!,
-                            spelling: {
-                              word: e.target.value,
-                              hint: `This word has ${e.target.value.length} letters`
-                            }
-                          }
-                        }))}
-                        className="w-full p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
-                      />
-                    </div>
+            {showHistory && (
+              <div className="p-4 bg-gray-50 rounded-lg animate__animated animate__slideInDown">
+                <PageHistoryPanel
+                  revisions={revisions}
+                  current={toPageSnapshot(content)}
+                  onRestore={handleRestore}
+                />
+              </div>
+            )}
 
-                    <div className="space-y-2">
-                      <label className="block text-sm font-medium text-gray-700">
-                        Hint
-                      </label>
-                      <input
-                        type="text"
-                        value={content.quiz?.spelling.hint}
-                        onChange={(e) => setContent(prev => ({
-                          ...prev,
-                          quiz: {
-                            ...prev.quiz!,
-                            spelling: {
-                              ...prev.quiz!.spelling,
-                              hint: e.target.value
-                            }
-                          }
-                        }))}
-                        className="w-full p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
-                      />
-                    </div>
-                  </div>
-                </div>
+            {showQuizEdit && (
+              <div className="p-4 bg-gray-50 rounded-lg animate__animated animate__slideInDown">
+                <QuizEditor
+                  quiz={content.quiz || { questions: [] }}
+                  onChange={(quiz) => setContent(prev => ({ ...prev, quiz }))}
+                />
               </div>
             )}
           </div>
@@ -361,6 +361,17 @@ const EditPageModal = ({ onClose, pageContent, onSave }: EditPageModalProps) =>
           )}
           
           <div className="flex justify-end gap-2 animate__animated animate__fadeInUp animate__delay-4s">
+            {hasDraft && (
+              <button
+                type="button"
+                onClick={handleDiscardDraft}
+                disabled={isSaving}
+                className="flex items-center gap-2 px-4 py-2 mr-auto text-red-600 border border-red-200 rounded-md hover:bg-red-50 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Undo2 size={16} />
+                Discard Draft
+              </button>
+            )}
             <button
               type="button"
               onClick={onClose}
@@ -382,7 +393,7 @@ const EditPageModal = ({ onClose, pageContent, onSave }: EditPageModalProps) =>
               ) : (
                 <>
                   <Save size={16} />
-                  Save Changes
+                  {pageId ? 'Save Draft' : 'Save Changes'}
                 </>
               )}
             </button>
@@ -1,15 +1,8 @@
 import React from 'react';
 import { Home, Trophy, Star, Heart, Sparkles, RotateCcw } from 'lucide-react';
 import confetti from 'canvas-confetti';
-
-interface QuizAnswer {
-  pageTitle: string;
-  multipleChoiceQuestion: string;
-  multipleChoiceAnswer: string;
-  spellingWord: string;
-  spellingAnswer: string;
-  isCorrect: boolean;
-}
+import { QuizAnswer } from '../types/Quiz';
+import { questionRegistry } from './quiz/questionRegistry';
 
 interface EndPageProps {
   onReturnToLanding: () => void;
@@ -109,17 +102,15 @@ const EndPage = ({ onReturnToLanding, quizAnswers, totalScore, maxScore }: EndPa
                 </h3>
                 
                 <div className="space-y-3 text-left">
-                  <div className="bg-white/70 rounded-lg p-3">
-                    <p className="text-sm font-semibold text-purple-600">Multiple Choice:</p>
-                    <p className="text-sm text-gray-700">{answer.multipleChoiceQuestion}</p>
-                    <p className="text-sm font-medium text-purple-800">Your answer: {answer.multipleChoiceAnswer}</p>
-                  </div>
-                  
-                  <div className="bg-white/70 rounded-lg p-3">
-                    <p className="text-sm font-semibold text-purple-600">Spelling Challenge:</p>
-                    <p className="text-sm text-gray-700">Word: "{answer.spellingWord}"</p>
-                    <p className="text-sm font-medium text-purple-800">Your spelling: {answer.spellingAnswer}</p>
-                  </div>
+                  {answer.results.map(result => (
+                    <div key={result.questionId} className="bg-white/70 rounded-lg p-3">
+                      <p className="text-sm font-semibold text-purple-600">
+                        {questionRegistry[result.kind].label}: {result.score}/{result.maxScore}
+                      </p>
+                      <p className="text-sm text-gray-700">{result.prompt}</p>
+                      <p className="text-sm font-medium text-purple-800">Your answer: {result.response}</p>
+                    </div>
+                  ))}
                 </div>
               </div>
             ))}
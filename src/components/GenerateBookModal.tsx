@@ -0,0 +1,426 @@
+import { useState, useEffect, useMemo } from 'react';
+import { X, Wand2, Loader, RefreshCw, Image as ImageIcon, Save, ArrowLeft } from 'lucide-react';
+import { Book, SUBJECT_ICONS } from '../types/Book';
+import { BookDraft, BookDraftRequest, DraftPage, MAX_DRAFT_PAGES, MIN_DRAFT_PAGES } from '../types/BookDraft';
+import { BookGeneratorService } from '../services/BookGeneratorService';
+import { AIProviderService } from '../services/AIProviderService';
+import { DEFAULT_BOOK_LANGUAGE, SUPPORTED_LANGUAGES } from '../utils/languages';
+
+interface GenerateBookModalProps {
+  onClose: () => void;
+  onCreated: (book: Book) => void;
+}
+
+type PageTask = 'text' | 'image';
+
+const randomSeed = () => Math.floor(Math.random() * 1000000);
+
+const describeQuiz = (page: DraftPage): string[] => {
+  return page.quiz.questions.map(question => {
+    if (question.kind === 'multiple-choice') {
+      const answer = question.options.find(option => option.isCorrect)?.text || '?';
+      return `${question.question} (${answer})`;
+    }
+    if (question.kind === 'spelling') {
+      return `Spell "${question.word}"${question.hint ? ` - ${question.hint}` : ''}`;
+    }
+    return question.kind;
+  });
+};
+
+const GenerateBookModal = ({ onClose, onCreated }: GenerateBookModalProps) => {
+  const [request, setRequest] = useState<BookDraftRequest>({
+    topic: '',
+    subject: 'STORY',
+    difficulty_level: 'beginner',
+    target_age_min: 4,
+    target_age_max: 7,
+    page_count: 5,
+    language: DEFAULT_BOOK_LANGUAGE
+  });
+  const [author, setAuthor] = useState('');
+  const [publisher, setPublisher] = useState('');
+  const [isActive, setIsActive] = useState(true);
+  const [draft, setDraft] = useState<BookDraft | null>(null);
+  const [illustrations, setIllustrations] = useState<(Blob | null)[]>([]);
+  const [pageTasks, setPageTasks] = useState<Record<number, PageTask>>({});
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const generator = BookGeneratorService.getInstance();
+  const isConfigured = AIProviderService.getTextGenerator().isConfigured() &&
+    AIProviderService.getImageGenerator().isConfigured();
+
+  const previewUrls = useMemo(
+    () => illustrations.map(blob => blob ? URL.createObjectURL(blob) : null),
+    [illustrations]
+  );
+
+  useEffect(() => {
+    return () => previewUrls.forEach(url => url && URL.revokeObjectURL(url));
+  }, [previewUrls]);
+
+  const setPageTask = (index: number, task: PageTask | null) => {
+    setPageTasks(prev => {
+      const next = { ...prev };
+      if (task) {
+        next[index] = task;
+      } else {
+        delete next[index];
+      }
+      return next;
+    });
+  };
+
+  const illustrate = async (bookDraft: BookDraft, index: number, seed?: number) => {
+    setPageTask(index, 'image');
+    try {
+      const blob = await generator.illustratePage(bookDraft, bookDraft.pages[index], seed);
+      setIllustrations(prev => prev.map((existing, i) => i === index ? blob : existing));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create illustration');
+    } finally {
+      setPageTask(index, null);
+    }
+  };
+
+  const handleDraft = async () => {
+    if (!request.topic.trim()) {
+      setError('Describe what the book should be about');
+      return;
+    }
+    if (request.target_age_min > request.target_age_max) {
+      setError('The minimum age must not be above the maximum age');
+      return;
+    }
+
+    setIsDrafting(true);
+    setError(null);
+    try {
+      const newDraft = await generator.draftBook({ ...request, topic: request.topic.trim() });
+      setDraft(newDraft);
+      setIllustrations(newDraft.pages.map(() => null));
+      setIsDrafting(false);
+
+      // One at a time, so the image service isn't flooded and pages fill in top to bottom
+      for (let index = 0; index < newDraft.pages.length; index++) {
+        await illustrate(newDraft, index);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to draft the book');
+      setIsDrafting(false);
+    }
+  };
+
+  const updatePage = (index: number, updates: Partial<DraftPage>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      pages: prev.pages.map((page, i) => i === index ? { ...page, ...updates } : page)
+    });
+  };
+
+  const handleRewritePage = async (index: number) => {
+    if (!draft) return;
+
+    setPageTask(index, 'text');
+    setError(null);
+    try {
+      const page = await generator.redraftPage(request, draft, index);
+      const updatedDraft = { ...draft, pages: draft.pages.map((existing, i) => i === index ? page : existing) };
+      updatePage(index, page);
+      await illustrate(updatedDraft, index, randomSeed());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rewrite the page');
+      setPageTask(index, null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!author.trim() || !publisher.trim()) {
+      setError('Author and publisher are required');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const book = await generator.saveBook(request, draft, illustrations, {
+        author: author.trim(),
+        publisher: publisher.trim(),
+        is_active: isActive
+      });
+      onCreated(book);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the book');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isBusy = isDrafting || isSaving || Object.keys(pageTasks).length > 0;
+
+  const renderRequestForm = () => (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">What should the book be about?</label>
+        <textarea
+          value={request.topic}
+          onChange={(e) => setRequest({ ...request, topic: e.target.value })}
+          rows={3}
+          placeholder="e.g. A shy hedgehog who learns to share her garden with a family of rabbits"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
+          <select
+            value={request.subject}
+            onChange={(e) => setRequest({ ...request, subject: e.target.value as Book['subject'] })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            {(Object.keys(SUBJECT_ICONS) as Book['subject'][]).map(subject => (
+              <option key={subject} value={subject}>{SUBJECT_ICONS[subject]} {subject}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Difficulty</label>
+          <select
+            value={request.difficulty_level}
+            onChange={(e) => setRequest({ ...request, difficulty_level: e.target.value as Book['difficulty_level'] })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            <option value="beginner">Beginner</option>
+            <option value="intermediate">Intermediate</option>
+            <option value="advanced">Advanced</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Ages</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              max={18}
+              value={request.target_age_min}
+              onChange={(e) => setRequest({ ...request, target_age_min: parseInt(e.target.value) || 1 })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+            <span className="text-gray-500">to</span>
+            <input
+              type="number"
+              min={1}
+              max={18}
+              value={request.target_age_max}
+              onChange={(e) => setRequest({ ...request, target_age_max: parseInt(e.target.value) || 1 })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Pages</label>
+          <input
+            type="number"
+            min={MIN_DRAFT_PAGES}
+            max={MAX_DRAFT_PAGES}
+            value={request.page_count}
+            onChange={(e) => setRequest({
+              ...request,
+              page_count: Math.min(MAX_DRAFT_PAGES, Math.max(MIN_DRAFT_PAGES, parseInt(e.target.value) || MIN_DRAFT_PAGES))
+            })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Language</label>
+          <select
+            value={request.language}
+            onChange={(e) => setRequest({ ...request, language: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            {SUPPORTED_LANGUAGES.map(language => (
+              <option key={language.code} value={language.code}>{language.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <button
+        onClick={handleDraft}
+        disabled={isDrafting || !isConfigured}
+        className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-60"
+      >
+        {isDrafting ? <Loader size={18} className="animate-spin" /> : <Wand2 size={18} />}
+        <span>{isDrafting ? 'Writing your book...' : 'Draft Book'}</span>
+      </button>
+    </div>
+  );
+
+  const renderReview = (bookDraft: BookDraft) => (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <input
+          type="text"
+          value={bookDraft.title}
+          onChange={(e) => setDraft({ ...bookDraft, title: e.target.value })}
+          className="w-full px-3 py-2 text-lg font-bold border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        />
+        <textarea
+          value={bookDraft.description}
+          onChange={(e) => setDraft({ ...bookDraft, description: e.target.value })}
+          rows={2}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        />
+      </div>
+
+      {bookDraft.pages.map((page, index) => {
+        const task = pageTasks[index];
+        const previewUrl = previewUrls[index];
+
+        return (
+          <div key={index} className="flex flex-col sm:flex-row gap-4 p-4 border rounded-xl bg-gray-50">
+            <div className="w-full sm:w-40 h-52 shrink-0 rounded-lg bg-white border flex items-center justify-center overflow-hidden">
+              {task === 'image' ? (
+                <Loader size={24} className="animate-spin text-purple-600" />
+              ) : previewUrl ? (
+                <img src={previewUrl} alt={page.title} className="w-full h-full object-cover" />
+              ) : (
+                <ImageIcon size={32} className="text-gray-300" />
+              )}
+            </div>
+
+            <div className="flex-1 space-y-2 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-semibold text-purple-600">Page {index + 1}</span>
+                <input
+                  type="text"
+                  value={page.title}
+                  onChange={(e) => updatePage(index, { title: e.target.value })}
+                  className="flex-1 px-2 py-1 text-sm font-medium border border-gray-300 rounded-md"
+                />
+              </div>
+              <textarea
+                value={page.text}
+                onChange={(e) => updatePage(index, { text: e.target.value })}
+                rows={4}
+                disabled={task === 'text'}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md disabled:opacity-60"
+              />
+              <ul className="text-xs text-gray-600 list-disc list-inside">
+                {describeQuiz(page).map((line, lineIndex) => <li key={lineIndex}>{line}</li>)}
+              </ul>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => handleRewritePage(index)}
+                  disabled={!!task || isSaving}
+                  className="flex items-center gap-1 px-3 py-1 text-sm bg-purple-100 text-purple-700 rounded-md hover:bg-purple-200 disabled:opacity-50"
+                >
+                  {task === 'text' ? <Loader size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                  <span>Rewrite page</span>
+                </button>
+                <button
+                  onClick={() => illustrate(bookDraft, index, randomSeed())}
+                  disabled={!!task || isSaving}
+                  className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded-md hover:bg-blue-200 disabled:opacity-50"
+                >
+                  <ImageIcon size={14} />
+                  <span>New picture</span>
+                </button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Author</label>
+          <input
+            type="text"
+            value={author}
+            onChange={(e) => setAuthor(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Publisher</label>
+          <input
+            type="text"
+            value={publisher}
+            onChange={(e) => setPublisher(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-3 text-gray-800">
+        <input
+          type="checkbox"
+          checked={isActive}
+          onChange={(e) => setIsActive(e.target.checked)}
+          className="w-4 h-4 accent-purple-600"
+        />
+        Show in the library straight away
+      </label>
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => setDraft(null)}
+          disabled={isBusy}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+        >
+          <ArrowLeft size={18} />
+          <span>Start over</span>
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isBusy}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-60"
+        >
+          {isSaving ? <Loader size={18} className="animate-spin" /> : <Save size={18} />}
+          <span>{isSaving ? 'Saving book...' : 'Save Book'}</span>
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate__animated animate__fadeIn">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col animate__animated animate__slideInDown">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <Wand2 size={22} className="text-purple-600" />
+            Generate Book
+          </h2>
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="p-1 rounded-full hover:bg-gray-100"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {!isConfigured && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              Set VITE_SUPABASE_URL or VITE_AI_GATEWAY_URL to draft and illustrate books with AI.
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+
+          {draft ? renderReview(draft) : renderRequestForm()}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GenerateBookModal;
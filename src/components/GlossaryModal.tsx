@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { X, Save, Loader, Wand2, Trash2, Edit } from 'lucide-react';
+import { useBook } from '../context/BookContext';
+import { DictionaryService } from '../services/DictionaryService';
+import { AIProviderService } from '../services/AIProviderService';
+import { GlossaryEntryInput } from '../types/Glossary';
+import { DEFAULT_BOOK_LANGUAGE, getLanguageLabel, isRightToLeft } from '../utils/languages';
+import { findSentence, guessSyllables, normalizeLookupWord } from '../utils/dictionary';
+import { stripStoryMarkup } from '../utils/storyMarkup';
+
+interface GlossaryModalProps {
+  onClose: () => void;
+}
+
+const EMPTY_ENTRY: GlossaryEntryInput = { word: '', definition: '', syllables: '' };
+
+const GlossaryModal = ({ onClose }: GlossaryModalProps) => {
+  const { currentBook, glossary, sourcePageContent, refreshStoryData } = useBook();
+  const bookLanguage = currentBook?.language || DEFAULT_BOOK_LANGUAGE;
+  const direction = isRightToLeft(bookLanguage) ? 'rtl' : 'ltr';
+
+  const [entry, setEntry] = useState<GlossaryEntryInput>(EMPTY_ENTRY);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isTextConfigured = AIProviderService.getTextGenerator().isConfigured();
+  const word = normalizeLookupWord(entry.word);
+  const existing = glossary.find(item => item.word === word);
+
+  const handleSuggest = async () => {
+    if (!word) return;
+
+    setIsSuggesting(true);
+    setError(null);
+    try {
+      const sentence = findSentence(stripStoryMarkup(sourcePageContent.text), word);
+      const suggestion = await DictionaryService.getInstance().defineWord(word, sentence, bookLanguage);
+      setEntry(prev => ({ ...prev, definition: suggestion.definition, syllables: suggestion.syllables.join('-') }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to suggest a definition');
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!currentBook) return;
+    if (!word || !entry.definition.trim()) {
+      setError('Add the word and its meaning before saving.');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await DictionaryService.getInstance().saveGlossaryEntry(currentBook.id, entry);
+      await refreshStoryData();
+      setEntry(EMPTY_ENTRY);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save glossary entry');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (entryId: string, entryWord: string) => {
+    if (!window.confirm(`Remove "${entryWord}" from the glossary?`)) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await DictionaryService.getInstance().deleteGlossaryEntry(entryId);
+      await refreshStoryData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete glossary entry');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    handleSave();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate__animated animate__fadeIn">
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto animate__animated animate__zoomIn">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800">Glossary</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-100">
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Readers can tap any word to hear it and see what it means. Words listed here use your
+            {' '}{getLanguageLabel(bookLanguage)} definition; other words are explained by Gemini.
+          </p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Word</label>
+              <input
+                type="text"
+                value={entry.word}
+                onChange={(e) => setEntry({ ...entry, word: e.target.value })}
+                dir={direction}
+                className="w-full p-2 border rounded-md focus:ring-2 focus:ring-purple-500"
+                placeholder="e.g. butterfly"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Syllables</label>
+              <input
+                type="text"
+                value={entry.syllables}
+                onChange={(e) => setEntry({ ...entry, syllables: e.target.value })}
+                dir={direction}
+                className="w-full p-2 border rounded-md focus:ring-2 focus:ring-purple-500"
+                placeholder={word ? guessSyllables(word, bookLanguage).join('-') : 'but-ter-fly'}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Meaning</label>
+            <textarea
+              value={entry.definition}
+              onChange={(e) => setEntry({ ...entry, definition: e.target.value })}
+              dir={direction}
+              className="w-full h-20 p-2 border rounded-md focus:ring-2 focus:ring-purple-500"
+              placeholder="A short, friendly explanation for young readers..."
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex items-center justify-end gap-2">
+            <button
+              type="button"
+              onClick={handleSuggest}
+              disabled={!word || isSuggesting || isSaving || !isTextConfigured}
+              title={isTextConfigured ? undefined : 'Set up the AI gateway to suggest definitions with AI'}
+              className="flex items-center gap-2 px-4 py-2 mr-auto bg-blue-100 text-blue-700 rounded-md hover:bg-blue-200 transition-colors disabled:opacity-50"
+            >
+              {isSuggesting ? <Loader size={16} className="animate-spin" /> : <Wand2 size={16} />}
+              {isSuggesting ? 'Suggesting...' : 'Suggest with AI'}
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving || isSuggesting}
+              className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50"
+            >
+              {isSaving ? <Loader size={16} className="animate-spin" /> : <Save size={16} />}
+              {existing ? 'Update Word' : 'Add Word'}
+            </button>
+          </div>
+
+          <div className="border-t pt-4">
+            {glossary.length === 0 ? (
+              <p className="text-sm text-gray-500">No words in this book's glossary yet.</p>
+            ) : (
+              <ul className="divide-y">
+                {glossary.map(item => (
+                  <li key={item.id} className="flex items-start justify-between gap-3 py-2" dir={direction}>
+                    <div>
+                      <p className="font-semibold text-gray-800">
+                        {item.word}
+                        {item.syllables && <span className="ml-2 text-sm font-normal text-gray-500">{item.syllables}</span>}
+                      </p>
+                      <p className="text-sm text-gray-600">{item.definition}</p>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => setEntry({ word: item.word, definition: item.definition, syllables: item.syllables || '' })}
+                        className="p-2 text-purple-600 rounded-full hover:bg-purple-50"
+                        title="Edit"
+                      >
+                        <Edit size={16} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(item.id, item.word)}
+                        disabled={isSaving}
+                        className="p-2 text-red-600 rounded-full hover:bg-red-50 disabled:opacity-50"
+                        title="Delete"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryModal;
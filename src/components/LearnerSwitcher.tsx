@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { ChevronDown, Plus, Trash2, UserCircle, X } from 'lucide-react';
+import { useLearner } from '../hooks/useLearner';
+import { LEARNER_AVATARS } from '../types/Learner';
+
+const LearnerSwitcher = () => {
+  const { parent, learners, activeLearner, selectLearner, addLearner, removeLearner } = useLearner();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState<string>(LEARNER_AVATARS[0]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Profiles belong to a signed-in parent account
+  if (!parent) return null;
+
+  const handleAdd = async () => {
+    if (!name.trim()) return;
+
+    try {
+      setError(null);
+      await addLearner(name.trim(), avatar);
+      setName('');
+      setIsAdding(false);
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add learner');
+    }
+  };
+
+  const handleRemove = async (learnerId: string, learnerName: string) => {
+    if (!window.confirm(`Remove ${learnerName}'s profile and reading history?`)) return;
+
+    try {
+      setError(null);
+      await removeLearner(learnerId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove learner');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors"
+      >
+        {activeLearner ? (
+          <>
+            <span className="text-lg">{activeLearner.avatar}</span>
+            <span className="text-sm font-medium">{activeLearner.name}</span>
+          </>
+        ) : (
+          <>
+            <UserCircle size={16} />
+            <span className="text-sm font-medium">Who's reading?</span>
+          </>
+        )}
+        <ChevronDown size={14} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white rounded-lg shadow-xl border z-50 p-3 space-y-2 animate__animated animate__fadeIn">
+          {learners.length === 0 && !isAdding && (
+            <p className="text-sm text-gray-500">Add a profile for each child to save their reading progress.</p>
+          )}
+
+          {learners.map(learner => (
+            <div
+              key={learner.id}
+              className={`flex items-center gap-2 p-2 rounded-lg ${
+                activeLearner?.id === learner.id ? 'bg-purple-100' : 'hover:bg-gray-50'
+              }`}
+            >
+              <button
+                onClick={() => {
+                  selectLearner(learner.id);
+                  setIsOpen(false);
+                }}
+                className="flex-1 flex items-center gap-2 text-left"
+              >
+                <span className="text-xl">{learner.avatar}</span>
+                <span className="text-sm font-medium text-gray-800">{learner.name}</span>
+              </button>
+              <button
+                onClick={() => handleRemove(learner.id, learner.name)}
+                className="p-1 text-red-500 hover:bg-red-50 rounded"
+                aria-label={`Remove ${learner.name}`}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+
+          {activeLearner && (
+            <button
+              onClick={() => {
+                selectLearner(null);
+                setIsOpen(false);
+              }}
+              className="w-full text-left text-xs text-gray-500 hover:text-gray-700 px-2"
+            >
+              Read without a profile
+            </button>
+          )}
+
+          {isAdding ? (
+            <div className="space-y-2 pt-2 border-t">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                  className="flex-1 p-2 border rounded-md text-sm focus:ring-2 focus:ring-purple-500"
+                  placeholder="Child's name"
+                  autoFocus
+                />
+                <button
+                  onClick={() => setIsAdding(false)}
+                  className="p-1 text-gray-500 hover:bg-gray-100 rounded"
+                  aria-label="Cancel"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {LEARNER_AVATARS.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setAvatar(option)}
+                    className={`text-xl p-1 rounded ${avatar === option ? 'bg-purple-100 ring-2 ring-purple-400' : 'hover:bg-gray-100'}`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={handleAdd}
+                disabled={!name.trim()}
+                className="w-full py-2 bg-purple-600 text-white text-sm rounded-md hover:bg-purple-700 disabled:opacity-50"
+              >
+                Add Profile
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => setIsAdding(true)}
+              className="w-full flex items-center gap-1 px-2 py-2 text-sm text-purple-600 hover:bg-purple-50 rounded-md"
+            >
+              <Plus size={14} />
+              Add learner
+            </button>
+          )}
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LearnerSwitcher;
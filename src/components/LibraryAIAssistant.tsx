@@ -1,7 +1,9 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { MessageCircle, X, Mic, MicOff, Video, VideoOff, Loader, AlertTriangle, Minimize2, Maximize2, Volume2, VolumeX, Settings, RefreshCw, BookOpen } from 'lucide-react';
 import { Book as BookType } from '../types/Book';
-import { TavusService, TavusConversation } from '../services/TavusService';
+import { TavusService } from '../services/TavusService';
+import { TavusConversation } from '../types/AIGateway';
+import { explainAIError } from '../utils/aiErrors';
 
 // Declare Daily types for TypeScript
 declare global {
@@ -119,17 +121,6 @@ const LibraryAIAssistant: React.FC<LibraryAIAssistantProps> = ({
     }
   };
 
-  // No longer needed as we use existing persona from env
-  const checkLibraryPersona = () => {
-    const personaId = TavusService.getPersonaId();
-    // const defaultPersonaId = TavusService.getPersonaId();
-    
-    if (!personaId ) {
-      throw new Error('No persona ID configured. Please set either VITE_TAVUS_LIBRARY_PERSONA_ID or VITE_TAVUS_PERSONA_ID in your .env');
-    }
-    return true;
-  };
-
   const initializeAIAssistant = async () => {
     if (!TavusService.isConfigured()) {
       setError('Tavus not configured. Please check your environment variables.');
@@ -146,15 +137,13 @@ const LibraryAIAssistant: React.FC<LibraryAIAssistantProps> = ({
     setConnectionStatus('Initializing AI assistant...');
 
     try {
-      // Step 1: Verify library persona exists
-      checkLibraryPersona();
-
-      // Step 2: Create conversation with actual book catalog
+      // Step 1: Create conversation with actual book catalog; the gateway supplies the persona
       setConnectionStatus('Creating conversation with book catalog...');
       console.log('🎬 Creating Tavus conversation with actual books:', books.length);
       console.log('📚 Available books:', books.map(b => `${b.title} (${b.subject})`));
       
-      const newConversation = await TavusService.createLibraryConversation(books);
+      // Talk in the child's browser language when Tavus supports it
+      const newConversation = await TavusService.createLibraryConversation(books, navigator.language);
       console.log('✅ conversation created:', newConversation);
       
       setConversation(newConversation);
@@ -162,7 +151,7 @@ const LibraryAIAssistant: React.FC<LibraryAIAssistantProps> = ({
       
       setConnectionStatus('Conversation created with book restrictions! Joining...');
       
-      // Step 3: Join the conversation
+      // Step 2: Join the conversation
       await joinConversation(newConversation.conversation_url);
 
       // First wrap-up attempt at 45 seconds
@@ -229,7 +218,7 @@ const LibraryAIAssistant: React.FC<LibraryAIAssistantProps> = ({
       }, CONVERSATION_DURATION);
 
     } catch (err: any) {
-      setError(err.message || 'Failed to create conversation');
+      setError(explainAIError(err, 'Failed to create conversation'));
       setConnectionStatus('Failed to create conversation');
       console.error('❌ Error creating conversation:', err);
     } finally {
@@ -755,7 +744,7 @@ const LibraryAIAssistant: React.FC<LibraryAIAssistantProps> = ({
             <AlertTriangle size={16} className="text-orange-600" />
             <div>
               <p className="text-orange-700 text-xs font-medium">AI Assistant not configured</p>
-              <p className="text-orange-600 text-xs">Add VITE_TAVUS_API_KEY and VITE_TAVUS_REPLICA_ID to .env</p>
+              <p className="text-orange-600 text-xs">Set VITE_SUPABASE_URL or VITE_AI_GATEWAY_URL in .env</p>
             </div>
           </div>
         </div>
@@ -1,15 +1,33 @@
-import React, { useState, useEffect } from 'react';
-import { Book, ArrowLeft, Search, Filter, Star, Clock, Users, Settings, Plus, Trash2, Edit, Save, X, LogIn, LogOut, Shield, AlertCircle, RotateCcw, Menu } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Book, ArrowLeft, Search, Filter, Star, Clock, Users, Settings, Plus, Trash2, Edit, Save, X, LogIn, LogOut, Shield, AlertCircle, RotateCcw, Menu, BarChart3, Gauge, Download, CheckCircle, Loader, Upload, Package, BookDown, SpellCheck, Wand2, Send, Languages } from 'lucide-react';
 import { BookService } from '../services/BookService';
 import { AuthService, User } from '../services/AuthService';
 import { Book as BookType, SUBJECT_COLORS, SUBJECT_ICONS } from '../types/Book';
 import AuthModal from './AuthModal';
+import RoleManagerModal from './RoleManagerModal';
+import AIUsageModal from './AIUsageModal';
+import GenerateBookModal from './GenerateBookModal';
+import MediaUrlField from './MediaUrlField';
 import LibraryAIAssistant from './LibraryAIAssistant';
 import AIDrawingBook from './AIDrawingBook';
+import LearnerSwitcher from './LearnerSwitcher';
+import { useLearner } from '../hooks/useLearner';
+import { OfflineService } from '../services/OfflineService';
+import { SupabaseService } from '../services/SupabaseService';
+import { BookPackageService } from '../services/BookPackageService';
+import { TranslationService } from '../services/TranslationService';
+import { DictionaryService } from '../services/DictionaryService';
+import { DraftService } from '../services/DraftService';
+import { EpubService } from '../services/EpubService';
+import { downloadBlob, toFileSlug } from '../utils/fileUtils';
+import { canDeleteBooks, canEditContent, canManageAIUsage, canManageRoles, ROLE_LABELS } from '../utils/permissions';
+import { DEFAULT_BOOK_LANGUAGE, SUPPORTED_LANGUAGES, getLanguageLabel } from '../utils/languages';
 
 interface LibraryPageProps {
   onSelectBook: (book: BookType) => void;
   onBack: () => void;
+  onOpenDashboard: () => void;
+  onOpenWordPractice: () => void;
 }
 
 interface BookFormData {
@@ -24,9 +42,10 @@ interface BookFormData {
   target_age_min: number;
   target_age_max: number;
   is_active: boolean;
+  language: string;
 }
 
-const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
+const LibraryPage = ({ onSelectBook, onBack, onOpenDashboard, onOpenWordPractice }: LibraryPageProps) => {
   const [books, setBooks] = useState<BookType[]>([]);
   const [filteredBooks, setFilteredBooks] = useState<BookType[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -45,6 +64,19 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
   const [showRecommendations, setShowRecommendations] = useState(false);
   const [showAIDrawingBook, setShowAIDrawingBook] = useState(false);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
+  const [showRoleManager, setShowRoleManager] = useState(false);
+  const [showAIUsage, setShowAIUsage] = useState(false);
+  const [offlineBookIds, setOfflineBookIds] = useState<string[]>([]);
+  const [savingOfflineId, setSavingOfflineId] = useState<string | null>(null);
+  const [exportingBookId, setExportingBookId] = useState<string | null>(null);
+  const [exportingEpubId, setExportingEpubId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [showGenerateBook, setShowGenerateBook] = useState(false);
+  // Unpublished drafts per book, only loaded for authors
+  const [draftCounts, setDraftCounts] = useState<Record<string, number>>({});
+  const [publishingBookId, setPublishingBookId] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { progressByBook, activeLearner } = useLearner();
 
   const [formData, setFormData] = useState<BookFormData>({
     title: '',
@@ -57,10 +89,13 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
     difficulty_level: 'beginner',
     target_age_min: 3,
     target_age_max: 12,
-    is_active: true
+    is_active: true,
+    language: DEFAULT_BOOK_LANGUAGE
   });
 
   const authService = AuthService.getInstance();
+  const canEdit = canEditContent(currentUser);
+  const canDelete = canDeleteBooks(currentUser);
 
   // Check authentication status on mount
   useEffect(() => {
@@ -109,6 +144,13 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
     loadBooks();
   }, [currentUser]);
 
+  useEffect(() => {
+    if (!OfflineService.isSupported()) return;
+    OfflineService.getInstance().getBookIds()
+      .then(setOfflineBookIds)
+      .catch(error => console.warn('Failed to load offline books:', error));
+  }, []);
+
   useEffect(() => {
     filterBooks();
   }, [books, searchTerm, selectedSubject, selectedDifficulty]);
@@ -140,6 +182,12 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
       }
 
       setBooks(data || []);
+
+      if (canEdit) {
+        DraftService.getInstance().getDraftCounts()
+          .then(setDraftCounts)
+          .catch(error => console.warn('Failed to load draft counts:', error));
+      }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to load books';
       console.error('Error loading books:', errorMessage);
@@ -149,13 +197,113 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
         setError('Your session has expired. Please sign in again to manage books.');
         setCurrentUser(null);
       } else {
-        setError(errorMessage);
+        // Fall back to the books saved for offline reading
+        const offlineBooks = OfflineService.isSupported()
+          ? await OfflineService.getInstance().getBooks().catch(() => [])
+          : [];
+
+        if (offlineBooks.length > 0) {
+          setBooks(offlineBooks.map(record => record.book));
+          setError("You're offline. Showing books saved for offline reading.");
+        } else {
+          setError(errorMessage);
+        }
       }
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handlePublishBook = async (book: BookType) => {
+    setPublishingBookId(book.id);
+    setError(null);
+    try {
+      await DraftService.getInstance().publishBook(book.id);
+      await loadBooks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to publish book');
+    } finally {
+      setPublishingBookId(null);
+    }
+  };
+
+  const handleToggleOffline = async (book: BookType) => {
+    setSavingOfflineId(book.id);
+    setError(null);
+
+    try {
+      const offlineService = OfflineService.getInstance();
+
+      if (offlineBookIds.includes(book.id)) {
+        await offlineService.removeBook(book.id);
+      } else {
+        const supabaseService = SupabaseService.getInstance();
+        const pages = await supabaseService.getAllStoryPages(book.id);
+        if (pages.length === 0) {
+          throw new Error('This book has no pages to save yet');
+        }
+        const [translations, glossary] = await Promise.all([
+          TranslationService.getInstance().getBookTranslations(book.id),
+          DictionaryService.getInstance().getGlossary(book.id)
+        ]);
+        await offlineService.saveBook(book, pages, translations, glossary);
+      }
+
+      setOfflineBookIds(await offlineService.getBookIds());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update offline books');
+    } finally {
+      setSavingOfflineId(null);
+    }
+  };
+
+  const handleExportBook = async (book: BookType) => {
+    setExportingBookId(book.id);
+    setError(null);
+
+    try {
+      const blob = await BookPackageService.getInstance().exportBook(book);
+      downloadBlob(blob, `${toFileSlug(book.title)}.book.zip`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export book');
+    } finally {
+      setExportingBookId(null);
+    }
+  };
+
+  const handleExportEpub = async (book: BookType) => {
+    setExportingEpubId(book.id);
+    setError(null);
+
+    try {
+      const blob = await EpubService.getInstance().exportBook(book);
+      downloadBlob(blob, `${toFileSlug(book.title)}.epub`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export EPUB');
+    } finally {
+      setExportingEpubId(null);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires onChange
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    setError(null);
+
+    try {
+      await BookPackageService.getInstance().importBook(file);
+      await loadBooks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import book');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const filterBooks = () => {
     let filtered = books;
 
@@ -246,7 +394,8 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
       difficulty_level: 'beginner',
       target_age_min: 3,
       target_age_max: 12,
-      is_active: true
+      is_active: true,
+      language: DEFAULT_BOOK_LANGUAGE
     });
   };
 
@@ -259,13 +408,17 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
       setShowAuthModal(true);
       return;
     }
+    if (!canEdit) {
+      setError('Your account needs the author role to add books.');
+      return;
+    }
     resetForm();
     setEditingBook(null);
     setShowAddBook(true);
     setShowMobileMenu(false);
   };
 
-  const handleEditBook = (book: BookType) => {
+  const handleEditBook = async (book: BookType) => {
     if (authConfigError) {
       setError('Authentication is not configured. Please check your Supabase environment variables.');
       return;
@@ -274,6 +427,10 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
       setShowAuthModal(true);
       return;
     }
+    if (!canEdit) {
+      setError('Your account needs the author role to edit books.');
+      return;
+    }
     setFormData({
       title: book.title,
       subject: book.subject,
@@ -285,10 +442,27 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
       difficulty_level: book.difficulty_level,
       target_age_min: book.target_age_min,
       target_age_max: book.target_age_max,
-      is_active: book.is_active ?? true
+      is_active: book.is_active ?? true,
+      language: book.language || DEFAULT_BOOK_LANGUAGE
     });
     setEditingBook(book);
     setShowAddBook(true);
+
+    // Pick up where the last unpublished edit left off
+    if (book.is_active) {
+      try {
+        const draft = await DraftService.getInstance().getBookDraft(book.id);
+        if (draft) {
+          setFormData({
+            ...draft.details,
+            description: draft.details.description || '',
+            language: draft.details.language || book.language || DEFAULT_BOOK_LANGUAGE
+          });
+        }
+      } catch (err) {
+        console.warn('Failed to load book draft:', err);
+      }
+    }
   };
 
   const handleSaveBook = async () => {
@@ -296,12 +470,19 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
       setError('Authentication required to save books');
       return;
     }
+    if (!canEdit) {
+      setError('Your account needs the author role to save books');
+      return;
+    }
 
     try {
       setError(null); // Clear any previous errors
       const bookService = BookService.getInstance();
       
-      if (editingBook) {
+      if (editingBook?.is_active) {
+        // Readers keep seeing the published details until the book is published again
+        await DraftService.getInstance().saveBookDraft(editingBook.id, formData);
+      } else if (editingBook) {
         // Update existing book
         await bookService.updateBook(editingBook.id, formData);
       } else {
@@ -333,6 +514,10 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
       setError('Authentication required to delete books');
       return;
     }
+    if (!canDelete) {
+      setError('Only admins can delete books');
+      return;
+    }
 
     try {
       setError(null); // Clear any previous errors
@@ -495,6 +680,17 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
             
             {/* Desktop Controls */}
             <div className="hidden lg:flex items-center gap-3">
+              <LearnerSwitcher />
+              {activeLearner && (
+                <button
+                  onClick={onOpenWordPractice}
+                  className="flex items-center gap-2 px-3 py-2 bg-pink-100 text-pink-700 rounded-lg hover:bg-pink-200 transition-colors"
+                >
+                  <SpellCheck size={16} />
+                  <span>Word Practice</span>
+                </button>
+              )}
+
               {/* Auth Configuration Warning */}
               {authConfigError && (
                 <div className="flex items-center gap-2 px-3 py-2 bg-yellow-100 text-yellow-700 rounded-lg">
@@ -508,8 +704,33 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
                 <div className="flex items-center gap-3">
                   <div className="flex items-center gap-2 px-3 py-2 bg-green-100 text-green-700 rounded-lg">
                     <Shield size={16} />
-                    <span className="text-sm font-medium">Admin: {currentUser.email}</span>
+                    <span className="text-sm font-medium">{ROLE_LABELS[currentUser.role]}: {currentUser.email}</span>
                   </div>
+                  {canManageRoles(currentUser) && (
+                    <button
+                      onClick={() => setShowRoleManager(true)}
+                      className="flex items-center gap-2 px-3 py-2 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 transition-colors"
+                    >
+                      <Users size={16} />
+                      <span>Roles</span>
+                    </button>
+                  )}
+                  {canManageAIUsage(currentUser) && (
+                    <button
+                      onClick={() => setShowAIUsage(true)}
+                      className="flex items-center gap-2 px-3 py-2 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 transition-colors"
+                    >
+                      <Gauge size={16} />
+                      <span>AI Usage</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={onOpenDashboard}
+                    className="flex items-center gap-2 px-3 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors"
+                  >
+                    <BarChart3 size={16} />
+                    <span>Progress</span>
+                  </button>
                   <button
                     onClick={handleSignOut}
                     className="flex items-center gap-2 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
@@ -524,26 +745,62 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
                   className="flex items-center gap-2 px-4 py-2 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 transition-colors"
                 >
                   <LogIn size={20} />
-                  <span>Admin Login</span>
+                  <span>Sign In</span>
                 </button>
               ) : null}
 
-              {/* Add Book Button */}
-              <button
-                onClick={handleAddBook}
-                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors transform hover:scale-105 ${
-                  currentUser && !authConfigError
-                    ? 'bg-green-600 text-white hover:bg-green-700' 
-                    : 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                }`}
-                disabled={!currentUser || !!authConfigError}
-                title={authConfigError ? 'Authentication not configured' : !currentUser ? 'Admin login required' : 'Add new book'}
-              >
-                <Plus size={20} />
-                <span>Add Book</span>
-              </button>
+              {/* Add Book Button - hidden from signed-in readers */}
+              {(!currentUser || canEdit) && (
+                <button
+                  onClick={handleAddBook}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors transform hover:scale-105 ${
+                    currentUser && !authConfigError
+                      ? 'bg-green-600 text-white hover:bg-green-700' 
+                      : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                  }`}
+                  disabled={!currentUser || !!authConfigError}
+                  title={authConfigError ? 'Authentication not configured' : !currentUser ? 'Sign in required' : 'Add new book'}
+                >
+                  <Plus size={20} />
+                  <span>Add Book</span>
+                </button>
+              )}
+
+              {/* Generate Book Button - authors and admins */}
+              {currentUser && canEdit && !authConfigError && (
+                <button
+                  onClick={() => setShowGenerateBook(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+                  title="Draft an illustrated book with AI"
+                >
+                  <Wand2 size={20} />
+                  <span>Generate Book</span>
+                </button>
+              )}
+
+              {/* Import Book Button - authors and admins */}
+              {currentUser && canEdit && !authConfigError && (
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={isImporting}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-60"
+                  title="Import a book package (.zip)"
+                >
+                  {isImporting ? <Loader size={20} className="animate-spin" /> : <Upload size={20} />}
+                  <span>{isImporting ? 'Importing...' : 'Import Book'}</span>
+                </button>
+              )}
             </div>
 
+            {/* Shared by the desktop and mobile Import Book buttons */}
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              onChange={handleImportFile}
+              className="hidden"
+            />
+
             {/* Mobile Menu Button */}
             <div className="lg:hidden">
               <button
@@ -560,6 +817,17 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
           {showMobileMenu && (
             <div className="lg:hidden mt-4 p-4 bg-gray-50 rounded-lg border animate__animated animate__slideInDown">
               <div className="space-y-3">
+                <LearnerSwitcher />
+                {activeLearner && (
+                  <button
+                    onClick={onOpenWordPractice}
+                    className="w-full flex items-center gap-2 px-3 py-2 bg-pink-100 text-pink-700 rounded-lg hover:bg-pink-200 transition-colors"
+                  >
+                    <SpellCheck size={16} />
+                    <span>Word Practice</span>
+                  </button>
+                )}
+
                 {/* Auth Configuration Warning */}
                 {authConfigError && (
                   <div className="flex items-center gap-2 px-3 py-2 bg-yellow-100 text-yellow-700 rounded-lg">
@@ -573,8 +841,39 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
                   <div className="space-y-2">
                     <div className="flex items-center gap-2 px-3 py-2 bg-green-100 text-green-700 rounded-lg">
                       <Shield size={16} />
-                      <span className="text-sm font-medium">Admin: {currentUser.email}</span>
+                      <span className="text-sm font-medium">{ROLE_LABELS[currentUser.role]}: {currentUser.email}</span>
                     </div>
+                    {canManageRoles(currentUser) && (
+                      <button
+                        onClick={() => {
+                          setShowRoleManager(true);
+                          setShowMobileMenu(false);
+                        }}
+                        className="w-full flex items-center gap-2 px-3 py-2 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 transition-colors"
+                      >
+                        <Users size={16} />
+                        <span>Roles</span>
+                      </button>
+                    )}
+                    {canManageAIUsage(currentUser) && (
+                      <button
+                        onClick={() => {
+                          setShowAIUsage(true);
+                          setShowMobileMenu(false);
+                        }}
+                        className="w-full flex items-center gap-2 px-3 py-2 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 transition-colors"
+                      >
+                        <Gauge size={16} />
+                        <span>AI Usage</span>
+                      </button>
+                    )}
+                    <button
+                      onClick={onOpenDashboard}
+                      className="w-full flex items-center gap-2 px-3 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors"
+                    >
+                      <BarChart3 size={16} />
+                      <span>Progress</span>
+                    </button>
                     <button
                       onClick={handleSignOut}
                       className="w-full flex items-center gap-2 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
@@ -592,24 +891,55 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
                     className="w-full flex items-center gap-2 px-4 py-2 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 transition-colors"
                   >
                     <LogIn size={20} />
-                    <span>Admin Login</span>
+                    <span>Sign In</span>
                   </button>
                 ) : null}
 
-                {/* Add Book Button */}
-                <button
-                  onClick={handleAddBook}
-                  className={`w-full flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
-                    currentUser && !authConfigError
-                      ? 'bg-green-600 text-white hover:bg-green-700' 
-                      : 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                  }`}
-                  disabled={!currentUser || !!authConfigError}
-                  title={authConfigError ? 'Authentication not configured' : !currentUser ? 'Admin login required' : 'Add new book'}
-                >
-                  <Plus size={20} />
-                  <span>Add Book</span>
-                </button>
+                {/* Add Book Button - hidden from signed-in readers */}
+                {(!currentUser || canEdit) && (
+                  <button
+                    onClick={handleAddBook}
+                    className={`w-full flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                      currentUser && !authConfigError
+                        ? 'bg-green-600 text-white hover:bg-green-700' 
+                        : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                    }`}
+                    disabled={!currentUser || !!authConfigError}
+                    title={authConfigError ? 'Authentication not configured' : !currentUser ? 'Sign in required' : 'Add new book'}
+                  >
+                    <Plus size={20} />
+                    <span>Add Book</span>
+                  </button>
+                )}
+
+                {/* Generate Book Button - authors and admins */}
+                {currentUser && canEdit && !authConfigError && (
+                  <button
+                    onClick={() => {
+                      setShowGenerateBook(true);
+                      setShowMobileMenu(false);
+                    }}
+                    className="w-full flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+                  >
+                    <Wand2 size={20} />
+                    <span>Generate Book</span>
+                  </button>
+                )}
+
+                {/* Import Book Button - authors and admins */}
+                {currentUser && canEdit && !authConfigError && (
+                  <button
+                    onClick={() => {
+                      importInputRef.current?.click();
+                      setShowMobileMenu(false);
+                    }}
+                    disabled={isImporting}
+                    className="w-full flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-60"
+                  >
+                    {isImporting ? <Loader size={20} className="animate-spin" /> : <Upload size={20} />}
+                    <span>{isImporting ? 'Importing...' : 'Import Book'}</span>
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -769,6 +1099,26 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
                   </div>
                 )}
                 
+                {/* Reading progress for the active learner */}
+                {book.is_active && progressByBook[book.id] && (
+                  <div className="absolute bottom-2 right-2 px-2 py-1 rounded-full bg-white/90 text-xs font-bold shadow">
+                    {progressByBook[book.id].completed_at ? (
+                      <span className="text-green-700">✓ Finished</span>
+                    ) : (
+                      <span className="text-purple-700">
+                        📖 Page {progressByBook[book.id].current_page + 1}
+                        {progressByBook[book.id].total_pages > 0 && ` of ${progressByBook[book.id].total_pages}`}
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                {canEdit && draftCounts[book.id] > 0 && (
+                  <div className="absolute top-10 left-2 px-2 py-1 rounded-full bg-yellow-100 text-yellow-800 text-xs font-bold shadow">
+                    ✏️ {draftCounts[book.id]} unpublished
+                  </div>
+                )}
+
                 {/* Coming Soon overlay for inactive books */}
                 {!book.is_active && (
                   <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center rounded-lg">
@@ -781,8 +1131,8 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
                   </div>
                 )}
                 
-                {/* Action buttons overlay - only show for authenticated users */}
-                {currentUser && !authConfigError && (
+                {/* Action buttons overlay - only show for authors and admins */}
+                {canEdit && !authConfigError && (
                   <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-30 transition-all duration-300 flex items-center justify-center opacity-0 group-hover:opacity-100">
                     <div className="flex gap-2">
                       <button
@@ -798,13 +1148,39 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
-                          setDeletingBook(book);
+                          handleExportBook(book);
                         }}
-                        className="p-2 bg-red-600 text-white rounded-full hover:bg-red-700 transition-colors transform hover:scale-110"
-                        title="Delete book"
+                        disabled={exportingBookId === book.id}
+                        className="p-2 bg-green-600 text-white rounded-full hover:bg-green-700 transition-colors transform hover:scale-110"
+                        title="Export book package"
                       >
-                        <Trash2 size={16} />
+                        {exportingBookId === book.id ? <Loader size={16} className="animate-spin" /> : <Package size={16} />}
                       </button>
+                      {draftCounts[book.id] > 0 && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handlePublishBook(book);
+                          }}
+                          disabled={publishingBookId === book.id}
+                          className="p-2 bg-yellow-500 text-white rounded-full hover:bg-yellow-600 transition-colors transform hover:scale-110"
+                          title="Publish unpublished changes"
+                        >
+                          {publishingBookId === book.id ? <Loader size={16} className="animate-spin" /> : <Send size={16} />}
+                        </button>
+                      )}
+                      {canDelete && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setDeletingBook(book);
+                          }}
+                          className="p-2 bg-red-600 text-white rounded-full hover:bg-red-700 transition-colors transform hover:scale-110"
+                          title="Delete book"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      )}
                     </div>
                   </div>
                 )}
@@ -831,7 +1207,7 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
                 )}
 
                 {/* Age Range */}
-                <div className="flex items-center gap-4 text-xs text-gray-500">
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-gray-500">
                   <div className="flex items-center gap-1">
                     <Users size={12} />
                     <span>Ages {book.target_age_min}-{book.target_age_max}</span>
@@ -840,6 +1216,46 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
                     <Clock size={12} />
                     <span>Interactive</span>
                   </div>
+                  <div className="flex items-center gap-1">
+                    <Languages size={12} />
+                    <span>{getLanguageLabel(book.language || DEFAULT_BOOK_LANGUAGE)}</span>
+                  </div>
+                  {book.is_active && (
+                    <button
+                      onClick={() => handleExportEpub(book)}
+                      disabled={exportingEpubId === book.id}
+                      className="ml-auto flex items-center gap-1 px-2 py-1 rounded-full bg-gray-100 text-gray-600 hover:bg-gray-200 transition-colors"
+                      title="Download as EPUB for e-readers"
+                    >
+                      {exportingEpubId === book.id ? (
+                        <Loader size={12} className="animate-spin" />
+                      ) : (
+                        <BookDown size={12} />
+                      )}
+                      <span>EPUB</span>
+                    </button>
+                  )}
+                  {book.is_active && OfflineService.isSupported() && (
+                    <button
+                      onClick={() => handleToggleOffline(book)}
+                      disabled={savingOfflineId === book.id}
+                      className={`flex items-center gap-1 px-2 py-1 rounded-full transition-colors ${
+                        offlineBookIds.includes(book.id)
+                          ? 'bg-green-100 text-green-700 hover:bg-green-200'
+                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                      }`}
+                      title={offlineBookIds.includes(book.id) ? 'Remove offline copy' : 'Save for offline reading'}
+                    >
+                      {savingOfflineId === book.id ? (
+                        <Loader size={12} className="animate-spin" />
+                      ) : offlineBookIds.includes(book.id) ? (
+                        <CheckCircle size={12} />
+                      ) : (
+                        <Download size={12} />
+                      )}
+                      <span>{offlineBookIds.includes(book.id) ? 'Offline' : 'Save offline'}</span>
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -858,7 +1274,11 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
                     ? '🔒 Coming Soon' 
                     : book.title === 'Creative Art Adventures' && book.subject === 'ART' 
                       ? 'Start Drawing' 
-                      : 'Start Reading'
+                      : progressByBook[book.id]?.completed_at
+                        ? 'Read Again'
+                        : progressByBook[book.id]
+                          ? 'Continue Reading'
+                          : 'Start Reading'
                   }
                 </button>
               </div>
@@ -905,6 +1325,28 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
         />
       )}
 
+      {/* Role Manager Modal */}
+      {showGenerateBook && (
+        <GenerateBookModal
+          onClose={() => setShowGenerateBook(false)}
+          onCreated={() => {
+            setShowGenerateBook(false);
+            loadBooks();
+          }}
+        />
+      )}
+
+      {showRoleManager && currentUser && (
+        <RoleManagerModal
+          currentUser={currentUser}
+          onClose={() => setShowRoleManager(false)}
+        />
+      )}
+
+      {showAIUsage && (
+        <AIUsageModal onClose={() => setShowAIUsage(false)} />
+      )}
+
       {/* Recommendations Modal */}
       {showRecommendations && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -958,7 +1400,7 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
       )}
 
       {/* Add/Edit Book Modal */}
-      {showAddBook && currentUser && !authConfigError && (
+      {showAddBook && canEdit && !authConfigError && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
             <div className="flex items-center justify-between p-6 border-b">
@@ -1046,28 +1488,43 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Thumbnail URL</label>
-                  <input
-                    type="url"
+                  <MediaUrlField
                     value={formData.thumbnail_url}
-                    onChange={(e) => setFormData({ ...formData, thumbnail_url: e.target.value })}
-                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500"
+                    onChange={(url) => setFormData({ ...formData, thumbnail_url: url })}
+                    kind="image"
+                    bookId={editingBook?.id}
+                    className="flex-1 min-w-0 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500"
                     required
                   />
                 </div>
                 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Cover Image URL</label>
-                  <input
-                    type="url"
+                  <MediaUrlField
                     value={formData.cover_image_url}
-                    onChange={(e) => setFormData({ ...formData, cover_image_url: e.target.value })}
-                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500"
+                    onChange={(url) => setFormData({ ...formData, cover_image_url: url })}
+                    kind="image"
+                    bookId={editingBook?.id}
+                    className="flex-1 min-w-0 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500"
                     required
                   />
                 </div>
               </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Language</label>
+                  <select
+                    value={formData.language}
+                    onChange={(e) => setFormData({ ...formData, language: e.target.value })}
+                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500"
+                  >
+                    {SUPPORTED_LANGUAGES.map(language => (
+                      <option key={language.code} value={language.code}>{language.label}</option>
+                    ))}
+                  </select>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Difficulty</label>
                   <select
@@ -1145,7 +1602,12 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
               </div>
             </div>
             
-            <div className="p-6 border-t flex justify-end gap-2">
+            <div className="p-6 border-t flex justify-end items-center gap-2">
+              {editingBook?.is_active && (
+                <p className="mr-auto text-xs text-gray-500">
+                  This book is live, so changes are saved as a draft until you publish them.
+                </p>
+              )}
               <button
                 onClick={() => {
                   setShowAddBook(false);
@@ -1161,7 +1623,7 @@ const LibraryPage = ({ onSelectBook, onBack }: LibraryPageProps) => {
                 className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
               >
                 <Save size={16} />
-                {editingBook ? 'Update Book' : 'Add Book'}
+                {editingBook?.is_active ? 'Save Draft' : editingBook ? 'Update Book' : 'Add Book'}
               </button>
             </div>
           </div>
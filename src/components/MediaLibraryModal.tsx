@@ -0,0 +1,280 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { X, Upload, Loader, Trash2, FolderOpen, Image as ImageIcon, Film, Music, SearchX, CheckCircle } from 'lucide-react';
+import { MediaItem, MediaKind } from '../types/Media';
+import { MediaLibraryService } from '../services/MediaLibraryService';
+import {
+  MEDIA_ACCEPT,
+  MEDIA_KIND_LABELS,
+  SHARED_MEDIA_FOLDER,
+  formatFileSize,
+  getMediaFolder
+} from '../utils/mediaLibrary';
+
+interface MediaLibraryModalProps {
+  // Book whose folder opens first; without one only the shared folder is available
+  bookId?: string;
+  kind: MediaKind;
+  onSelect: (url: string) => void;
+  onClose: () => void;
+}
+
+const KIND_ICONS: Record<MediaKind, React.ElementType> = {
+  image: ImageIcon,
+  video: Film,
+  audio: Music
+};
+
+const MediaLibraryModal = ({ bookId, kind, onSelect, onClose }: MediaLibraryModalProps) => {
+  const [folder, setFolder] = useState(getMediaFolder(bookId));
+  const [items, setItems] = useState<MediaItem[]>([]);
+  const [unusedPaths, setUnusedPaths] = useState<Set<string> | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const [isCheckingUnused, setIsCheckingUnused] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const mediaService = MediaLibraryService.getInstance();
+  const KindIcon = KIND_ICONS[kind];
+  const visibleItems = items.filter(item => item.kind === kind);
+  const unusedItems = unusedPaths ? visibleItems.filter(item => unusedPaths.has(item.path)) : [];
+
+  const loadItems = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    setUnusedPaths(null);
+    try {
+      setItems(await MediaLibraryService.getInstance().listMedia(folder));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load media');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [folder]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  const uploadFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    setError(null);
+    setUploadingCount(count => count + files.length);
+    for (const file of files) {
+      try {
+        const item = await mediaService.uploadMedia(folder, file);
+        setItems(prev => [item, ...prev]);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : `Failed to upload ${file.name}`);
+      } finally {
+        setUploadingCount(count => count - 1);
+      }
+    }
+  };
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Reset so picking the same file again still fires onChange
+    e.target.value = '';
+    uploadFiles(files);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    uploadFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleDelete = async (toDelete: MediaItem[], areUnused = false) => {
+    const message = areUnused
+      ? `Delete ${toDelete.length} unused file${toDelete.length === 1 ? '' : 's'}?`
+      : `Delete ${toDelete[0].name}? Pages still using it will show a broken link.`;
+    if (!window.confirm(message)) return;
+
+    setError(null);
+    try {
+      await mediaService.deleteMedia(toDelete);
+      const deletedPaths = new Set(toDelete.map(item => item.path));
+      setItems(prev => prev.filter(item => !deletedPaths.has(item.path)));
+      setUnusedPaths(prev => prev && new Set([...prev].filter(path => !deletedPaths.has(path))));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete media');
+    }
+  };
+
+  const handleFindUnused = async () => {
+    setIsCheckingUnused(true);
+    setError(null);
+    try {
+      const unused = await mediaService.findUnusedMedia(items);
+      setUnusedPaths(new Set(unused.map(item => item.path)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check which media is in use');
+    } finally {
+      setIsCheckingUnused(false);
+    }
+  };
+
+  const renderPreview = (item: MediaItem) => {
+    if (item.thumbnailUrl) {
+      return <img src={item.thumbnailUrl} alt={item.name} className="w-full h-full object-cover" />;
+    }
+    if (item.kind === 'image') {
+      return <img src={item.url} alt={item.name} className="w-full h-full object-cover" loading="lazy" />;
+    }
+    const Icon = KIND_ICONS[item.kind];
+    return <Icon size={32} className="text-gray-400" />;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[60] p-4 animate__animated animate__fadeIn">
+      <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] flex flex-col animate__animated animate__slideInDown">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <FolderOpen size={22} className="text-purple-600" />
+            Media Library · {MEDIA_KIND_LABELS[kind]}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-full hover:bg-gray-100"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="flex flex-wrap items-center gap-2">
+            {bookId && (
+              <button
+                onClick={() => setFolder(getMediaFolder(bookId))}
+                className={`px-3 py-1 rounded-full text-sm ${folder !== SHARED_MEDIA_FOLDER ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+              >
+                This book
+              </button>
+            )}
+            <button
+              onClick={() => setFolder(SHARED_MEDIA_FOLDER)}
+              className={`px-3 py-1 rounded-full text-sm ${folder === SHARED_MEDIA_FOLDER ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            >
+              Shared
+            </button>
+
+            <div className="ml-auto flex items-center gap-2">
+              {unusedPaths && unusedItems.length > 0 && (
+                <button
+                  onClick={() => handleDelete(unusedItems, true)}
+                  className="flex items-center gap-1 px-3 py-1 text-sm bg-red-100 text-red-700 rounded-md hover:bg-red-200"
+                >
+                  <Trash2 size={14} />
+                  <span>Delete {unusedItems.length} unused</span>
+                </button>
+              )}
+              <button
+                onClick={handleFindUnused}
+                disabled={isCheckingUnused || items.length === 0}
+                className="flex items-center gap-1 px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+                title="Find files no book or page uses any more"
+              >
+                {isCheckingUnused ? <Loader size={14} className="animate-spin" /> : <SearchX size={14} />}
+                <span>Find unused</span>
+              </button>
+            </div>
+          </div>
+
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            onClick={() => fileInputRef.current?.click()}
+            className={`flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed rounded-xl cursor-pointer transition-colors ${
+              isDragging ? 'border-purple-500 bg-purple-50' : 'border-gray-300 hover:border-purple-400'
+            }`}
+          >
+            {uploadingCount > 0 ? <Loader size={28} className="animate-spin text-purple-600" /> : <Upload size={28} className="text-purple-600" />}
+            <p className="text-sm text-gray-600">
+              {uploadingCount > 0 ? `Uploading ${uploadingCount} file${uploadingCount === 1 ? '' : 's'}...` : 'Drop files here or click to upload'}
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={MEDIA_ACCEPT[kind]}
+              multiple
+              onChange={handleFileInput}
+              className="hidden"
+            />
+          </div>
+
+          {unusedPaths && (
+            <p className="text-sm text-gray-600">
+              {unusedItems.length === 0
+                ? 'Every file in this folder is used by a book or page.'
+                : `${unusedItems.length} file${unusedItems.length === 1 ? ' is' : 's are'} not used by any book or page.`}
+            </p>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 py-10 text-gray-600">
+              <Loader size={20} className="animate-spin" />
+              <span>Loading media...</span>
+            </div>
+          ) : visibleItems.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-10 text-gray-500">
+              <KindIcon size={32} />
+              <p className="text-sm">No {MEDIA_KIND_LABELS[kind].toLowerCase()} in this folder yet.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+              {visibleItems.map(item => (
+                <div key={item.path} className="group relative border rounded-lg overflow-hidden bg-gray-50">
+                  <button
+                    onClick={() => onSelect(item.url)}
+                    className="w-full h-28 flex items-center justify-center bg-white"
+                    title={`Use ${item.name}`}
+                  >
+                    {renderPreview(item)}
+                  </button>
+                  <div className="p-2 text-xs">
+                    <p className="truncate font-medium text-gray-800" title={item.name}>{item.name}</p>
+                    <p className="text-gray-500">{formatFileSize(item.size)}</p>
+                  </div>
+                  {unusedPaths?.has(item.path) && (
+                    <span className="absolute top-1 left-1 px-2 py-0.5 text-[10px] font-semibold bg-yellow-100 text-yellow-800 rounded-full">
+                      Unused
+                    </span>
+                  )}
+                  <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => onSelect(item.url)}
+                      className="p-1 bg-green-600 text-white rounded-full"
+                      title="Use this file"
+                    >
+                      <CheckCircle size={14} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete([item])}
+                      className="p-1 bg-red-600 text-white rounded-full"
+                      title="Delete"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MediaLibraryModal;
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { FolderOpen } from 'lucide-react';
+import { MediaKind } from '../types/Media';
+import MediaLibraryModal from './MediaLibraryModal';
+
+interface MediaUrlFieldProps {
+  value: string;
+  onChange: (url: string) => void;
+  kind: MediaKind;
+  bookId?: string;
+  required?: boolean;
+  placeholder?: string;
+  className?: string;
+}
+
+// A URL input with a button that opens the media library; pasting a URL still works
+const MediaUrlField = ({ value, onChange, kind, bookId, required, placeholder, className }: MediaUrlFieldProps) => {
+  const [showLibrary, setShowLibrary] = useState(false);
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <input
+          type="url"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={className}
+          required={required}
+          placeholder={placeholder}
+        />
+        <button
+          type="button"
+          onClick={() => setShowLibrary(true)}
+          className="flex items-center gap-1 px-3 bg-purple-100 text-purple-700 rounded-md hover:bg-purple-200 transition-colors shrink-0"
+          title="Choose or upload from the media library"
+        >
+          <FolderOpen size={16} />
+          <span className="text-sm">Library</span>
+        </button>
+      </div>
+
+      {/* Portalled so the dialog isn't inside the parent form or its scrolling modal */}
+      {showLibrary && createPortal(
+        <MediaLibraryModal
+          bookId={bookId}
+          kind={kind}
+          onSelect={(url) => {
+            onChange(url);
+            setShowLibrary(false);
+          }}
+          onClose={() => setShowLibrary(false)}
+        />,
+        document.body
+      )}
+    </>
+  );
+};
+
+export default MediaUrlField;
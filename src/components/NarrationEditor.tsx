@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Mic, Upload, FileJson, Wand2, Trash2, Loader, AlertTriangle } from 'lucide-react';
+import { WordTiming } from '../types/Narration';
+import { NarrationService } from '../services/NarrationService';
+import { AIProviderService } from '../services/AIProviderService';
+import { parseAlignmentFile, splitWords, timingsMatchText } from '../utils/narration';
+
+interface NarrationEditorProps {
+  bookId?: string;
+  pageNumber: number;
+  text: string;
+  audioUrl?: string;
+  timings?: WordTiming[];
+  onChange: (narration: { narrationAudio?: string; narrationTimings?: WordTiming[] }) => void;
+}
+
+const NarrationEditor = ({ bookId, pageNumber, text, audioUrl, timings, onChange }: NarrationEditorProps) => {
+  const [isWorking, setIsWorking] = useState<'upload' | 'generate' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const voice = AIProviderService.getSpeechSynthesizer();
+  const canGenerate = voice.isConfigured() && voice.hasWordTimings;
+  const generateTitle = !voice.isConfigured() ? 'AI gateway not configured' :
+    !voice.hasWordTimings ? `${voice.label} voices have no word timings; pick another voice in Settings` :
+    'Generate audio and word timings';
+
+  const wordCount = splitWords(text).length;
+  const hasTimings = !!timings && timings.length > 0;
+  const isOutOfDate = hasTimings && !timingsMatchText(timings, text);
+
+  const handleAudioUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !bookId) return;
+
+    setIsWorking('upload');
+    setError(null);
+
+    try {
+      const narrationService = NarrationService.getInstance();
+      const extension = file.name.split('.').pop() || 'mp3';
+      const url = await narrationService.uploadAudio(bookId, pageNumber, file, extension);
+      onChange({ narrationAudio: url, narrationTimings: timings });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload audio');
+    } finally {
+      setIsWorking(null);
+    }
+  };
+
+  const handleTimingsUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+
+    try {
+      const parsed = parseAlignmentFile(JSON.parse(await file.text()));
+      onChange({ narrationAudio: audioUrl, narrationTimings: parsed });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read alignment file');
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!bookId || !text.trim()) return;
+
+    setIsWorking('generate');
+    setError(null);
+
+    try {
+      const narrationService = NarrationService.getInstance();
+      const narration = await narrationService.generatePageNarration(bookId, pageNumber, text);
+      onChange({ narrationAudio: narration.audioUrl, narrationTimings: narration.timings });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate narration');
+    } finally {
+      setIsWorking(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-700 flex items-center gap-2">
+        <Mic size={16} className="text-purple-600" />
+        Narration Track (Optional)
+      </label>
+
+      <input
+        type="url"
+        value={audioUrl || ''}
+        onChange={(e) => onChange({ narrationAudio: e.target.value || undefined, narrationTimings: timings })}
+        className="w-full p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+        placeholder="https://example.com/page-narration.mp3"
+      />
+
+      {audioUrl && (
+        <audio src={audioUrl} controls className="w-full max-w-xs" />
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <label className={`flex items-center gap-2 px-3 py-2 text-sm rounded-md transition-colors ${
+          bookId && !isWorking ? 'bg-blue-100 text-blue-700 hover:bg-blue-200 cursor-pointer' : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+        }`}>
+          {isWorking === 'upload' ? <Loader size={14} className="animate-spin" /> : <Upload size={14} />}
+          Upload Audio
+          <input type="file" accept="audio/*" className="hidden" onChange={handleAudioUpload} disabled={!bookId || !!isWorking} />
+        </label>
+
+        <label className="flex items-center gap-2 px-3 py-2 text-sm rounded-md bg-blue-100 text-blue-700 hover:bg-blue-200 cursor-pointer transition-colors">
+          <FileJson size={14} />
+          Load Timings File
+          <input type="file" accept=".json,application/json" className="hidden" onChange={handleTimingsUpload} />
+        </label>
+
+        <button
+          type="button"
+          onClick={handleGenerate}
+          disabled={!bookId || !canGenerate || !!isWorking}
+          title={generateTitle}
+          className="flex items-center gap-2 px-3 py-2 text-sm rounded-md bg-purple-100 text-purple-700 hover:bg-purple-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isWorking === 'generate' ? <Loader size={14} className="animate-spin" /> : <Wand2 size={14} />}
+          Generate with {voice.label}
+        </button>
+
+        {(audioUrl || hasTimings) && (
+          <button
+            type="button"
+            onClick={() => onChange({ narrationAudio: undefined, narrationTimings: undefined })}
+            className="flex items-center gap-2 px-3 py-2 text-sm rounded-md bg-red-50 text-red-600 hover:bg-red-100 transition-colors"
+          >
+            <Trash2 size={14} />
+            Remove
+          </button>
+        )}
+      </div>
+
+      {hasTimings && !isOutOfDate && (
+        <p className="text-xs text-green-700">Word timings loaded for all {wordCount} words.</p>
+      )}
+
+      {isOutOfDate && (
+        <div className="flex items-start gap-2 p-2 bg-yellow-50 border border-yellow-200 rounded-md text-xs text-yellow-800">
+          <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+          <span>
+            Timings cover {timings?.length} words but the page text has {wordCount}. Regenerate or load a new timings
+            file, otherwise this page is read with the browser voice.
+          </span>
+        </div>
+      )}
+
+      {audioUrl && !hasTimings && (
+        <p className="text-xs text-yellow-700">Add a timings file so words can be highlighted while the track plays.</p>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <p className="text-xs text-gray-500">
+        A recorded track with word timings replaces the browser voice for this page. Timings files may be
+        a list of {'{ word, start, end }'} in seconds or an ElevenLabs alignment.
+      </p>
+    </div>
+  );
+};
+
+export default NarrationEditor;
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { RotateCcw, CheckCircle } from 'lucide-react';
+import { PageRevision, PageSnapshot } from '../types/Revision';
+import { SNAPSHOT_FIELD_LABELS, TextChange, diffWords, getChangedFields } from '../utils/pageRevisions';
+
+interface PageHistoryPanelProps {
+  revisions: PageRevision[];
+  // What the editor holds now; each revision is compared against it
+  current: PageSnapshot;
+  onRestore: (revision: PageRevision) => void;
+}
+
+const CHANGE_CLASSES: Record<TextChange['type'], string> = {
+  same: 'text-gray-700',
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-700 line-through'
+};
+
+const DiffText = ({ before, after }: { before: string; after: string }) => (
+  <p className="text-sm whitespace-pre-wrap">
+    {diffWords(before, after).map((change, index) => (
+      <span key={index} className={CHANGE_CLASSES[change.type]}>{change.text}</span>
+    ))}
+  </p>
+);
+
+const PageHistoryPanel = ({ revisions, current, onRestore }: PageHistoryPanelProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(revisions[0]?.id ?? null);
+  const selected = revisions.find(revision => revision.id === selectedId);
+  // Reads as "what restoring would change": from the editor's content to the revision's
+  const changedFields = selected ? getChangedFields(current, selected.content) : [];
+  const otherChanges = changedFields.filter(field => field !== 'title' && field !== 'text');
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-500">No saved versions of this page yet.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-4">
+      <ul className="space-y-1 max-h-72 overflow-y-auto">
+        {revisions.map(revision => (
+          <li key={revision.id}>
+            <button
+              type="button"
+              onClick={() => setSelectedId(revision.id)}
+              className={`w-full text-left p-2 rounded-md text-xs border transition-colors ${
+                revision.id === selectedId ? 'border-purple-400 bg-purple-50' : 'border-transparent hover:bg-gray-100'
+              }`}
+            >
+              <span className="flex items-center justify-between gap-2">
+                <span className="font-medium text-gray-800">{new Date(revision.created_at).toLocaleString()}</span>
+                {revision.status === 'published' && (
+                  <span className="px-1.5 py-0.5 rounded-full bg-green-100 text-green-700 text-[10px] font-semibold">Published</span>
+                )}
+              </span>
+              <span className="block text-gray-500 truncate">{revision.author_email || 'Unknown author'}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <div className="space-y-3 min-w-0">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-medium text-gray-800">Changes if you restore this version</p>
+            <button
+              type="button"
+              onClick={() => onRestore(selected)}
+              disabled={changedFields.length === 0}
+              className="flex items-center gap-1 px-3 py-1 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50"
+            >
+              <RotateCcw size={14} />
+              Restore
+            </button>
+          </div>
+
+          {changedFields.length === 0 ? (
+            <p className="flex items-center gap-2 text-sm text-gray-500">
+              <CheckCircle size={16} className="text-green-500" />
+              Same as the page in the editor.
+            </p>
+          ) : (
+            <>
+              {changedFields.includes('title') && (
+                <div className="p-2 bg-white border rounded-md">
+                  <p className="text-xs font-medium text-gray-500 mb-1">{SNAPSHOT_FIELD_LABELS.title}</p>
+                  <DiffText before={current.title} after={selected.content.title} />
+                </div>
+              )}
+              {changedFields.includes('text') && (
+                <div className="p-2 bg-white border rounded-md max-h-48 overflow-y-auto">
+                  <p className="text-xs font-medium text-gray-500 mb-1">{SNAPSHOT_FIELD_LABELS.text}</p>
+                  <DiffText before={current.text} after={selected.content.text} />
+                </div>
+              )}
+              {otherChanges.length > 0 && (
+                <p className="text-sm text-gray-600">
+                  Also changes: {otherChanges.map(field => SNAPSHOT_FIELD_LABELS[field]).join(', ')}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PageHistoryPanel;
@@ -1,53 +1,213 @@
-import React, { useState } from 'react';
-import { Plus, Trash2, Save, X, AlertTriangle } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import {
+  DndContext,
+  DragEndEvent,
+  KeyboardSensor,
+  MouseSensor,
+  TouchSensor,
+  closestCenter,
+  useSensor,
+  useSensors
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { Plus, Trash2, X, AlertTriangle, GripVertical, Copy, ArrowUpToLine, ArrowDownToLine } from 'lucide-react';
 import { useBook } from '../context/BookContext';
+import { useAuth } from '../hooks/useAuth';
+import { SupabaseService, StoryPage } from '../services/SupabaseService';
+import { stripStoryMarkup } from '../utils/storyMarkup';
 
 interface PageManagerProps {
   onClose: () => void;
 }
 
+type PageRow = Pick<StoryPage, 'id' | 'title' | 'text'>;
+
+const SortablePageRow = ({
+  page,
+  position,
+  isCurrent,
+  isBusy,
+  canDelete,
+  onInsert,
+  onDuplicate,
+  onDelete
+}: {
+  page: PageRow;
+  position: number;
+  isCurrent: boolean;
+  isBusy: boolean;
+  canDelete: boolean;
+  onInsert: (position: number) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}) => {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: page.id,
+    disabled: isBusy
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={`flex items-center gap-2 p-2 border rounded-lg bg-white ${
+        isCurrent ? 'border-purple-400' : 'border-gray-200'
+      } ${isDragging ? 'z-50 shadow-2xl opacity-90' : ''}`}
+    >
+      <button
+        {...listeners}
+        {...attributes}
+        style={{ touchAction: 'none' }}
+        className="p-1 text-gray-400 hover:text-gray-600 cursor-grab active:cursor-grabbing"
+        aria-label={`Drag page ${position}`}
+      >
+        <GripVertical size={18} />
+      </button>
+      <span className="w-7 h-7 flex items-center justify-center rounded-full bg-purple-100 text-purple-700 text-sm font-bold shrink-0">
+        {position}
+      </span>
+      <span className="flex-1 text-sm text-gray-800 truncate" title={page.title || stripStoryMarkup(page.text)}>
+        {page.title || stripStoryMarkup(page.text) || 'Untitled page'}
+      </span>
+      <div className="flex items-center shrink-0">
+        <button
+          onClick={() => onInsert(position)}
+          disabled={isBusy}
+          className="p-1.5 rounded text-gray-500 hover:bg-gray-100 hover:text-green-600 disabled:opacity-50"
+          title="Add a page before this one"
+        >
+          <ArrowUpToLine size={16} />
+        </button>
+        <button
+          onClick={() => onInsert(position + 1)}
+          disabled={isBusy}
+          className="p-1.5 rounded text-gray-500 hover:bg-gray-100 hover:text-green-600 disabled:opacity-50"
+          title="Add a page after this one"
+        >
+          <ArrowDownToLine size={16} />
+        </button>
+        <button
+          onClick={onDuplicate}
+          disabled={isBusy}
+          className="p-1.5 rounded text-gray-500 hover:bg-gray-100 hover:text-blue-600 disabled:opacity-50"
+          title="Duplicate page"
+        >
+          <Copy size={16} />
+        </button>
+        <button
+          onClick={onDelete}
+          disabled={isBusy || !canDelete}
+          className="p-1.5 rounded text-gray-500 hover:bg-gray-100 hover:text-red-600 disabled:opacity-50"
+          title={canDelete ? 'Delete page' : 'Cannot delete the last remaining page'}
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
 const PageManager = ({ onClose }: PageManagerProps) => {
   const { 
+    currentBook,
     totalPages, 
     currentPage,
     addNewPage,
+    duplicatePage,
+    reorderPages,
     deletePage,
     refreshStoryData,
     isLoading 
   } = useBook();
+  const { canEditContent } = useAuth();
 
+  const [pageRows, setPageRows] = useState<PageRow[]>([]);
   const [isDeleting, setIsDeleting] = useState(false);
   const [deletePageNumber, setDeletePageNumber] = useState<number | null>(null);
   const [isAdding, setIsAdding] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  const handleAddPage = async () => {
-    setIsAdding(true);
+  const bookId = currentBook?.id;
+  const isBusy = isAdding || isDeleting || isSaving || isLoading;
+
+  const sensors = useSensors(
+    useSensor(MouseSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(TouchSensor, { activationConstraint: { delay: 150, tolerance: 8 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const loadPageRows = useCallback(async () => {
+    if (!bookId) return;
+
+    try {
+      setPageRows(await SupabaseService.getInstance().getAllStoryPages(bookId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load pages');
+    }
+  }, [bookId]);
+
+  useEffect(() => {
+    loadPageRows();
+  }, [loadPageRows]);
+
+  // Runs a page change, then reloads both the reader and this list
+  const runPageChange = async (change: () => Promise<void>, failureMessage: string) => {
+    setError(null);
     try {
-      await addNewPage();
-      await refreshStoryData();
-    } catch (error) {
-      console.error('Failed to add page:', error);
-    } finally {
-      setIsAdding(false);
+      await change();
+    } catch (err) {
+      console.error(`${failureMessage}:`, err);
+      setError(err instanceof Error ? err.message : failureMessage);
     }
+    await refreshStoryData();
+    await loadPageRows();
+  };
+
+  const handleAddPage = async (position?: number) => {
+    setIsAdding(true);
+    await runPageChange(() => addNewPage(position), 'Failed to add page');
+    setIsAdding(false);
+  };
+
+  const handleDuplicatePage = async (pageId: string) => {
+    setIsAdding(true);
+    await runPageChange(() => duplicatePage(pageId), 'Failed to duplicate page');
+    setIsAdding(false);
   };
 
   const handleDeletePage = async (pageNumber: number) => {
     setIsDeleting(true);
-    try {
-      await deletePage(pageNumber);
-      await refreshStoryData();
-      setDeletePageNumber(null);
-    } catch (error) {
-      console.error('Failed to delete page:', error);
-    } finally {
-      setIsDeleting(false);
-    }
+    await runPageChange(() => deletePage(pageNumber), 'Failed to delete page');
+    setDeletePageNumber(null);
+    setIsDeleting(false);
+  };
+
+  const handleDragEnd = async ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id || isBusy) return;
+
+    const oldIndex = pageRows.findIndex(page => page.id === active.id);
+    const newIndex = pageRows.findIndex(page => page.id === over.id);
+    const reordered = arrayMove(pageRows, oldIndex, newIndex);
+
+    // Show the new order straight away; the reload afterwards corrects it if saving failed
+    setPageRows(reordered);
+    setDeletePageNumber(null);
+    setIsSaving(true);
+    await runPageChange(() => reorderPages(reordered.map(page => page.id)), 'Failed to reorder pages');
+    setIsSaving(false);
   };
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate__animated animate__fadeIn">
-      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto animate__animated animate__slideInDown">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto animate__animated animate__slideInDown">
         <div className="flex items-center justify-between p-4 border-b">
           <h2 className="text-xl font-bold text-gray-800">Manage Pages</h2>
           <button 
@@ -70,62 +230,43 @@ const PageManager = ({ onClose }: PageManagerProps) => {
             </p>
           </div>
 
-          {/* Add New Page */}
-          <div className="space-y-3">
-            <h3 className="font-medium text-gray-800">Add New Page</h3>
-            <button
-              onClick={handleAddPage}
-              disabled={isAdding || isLoading}
-              className="w-full flex items-center justify-center gap-2 p-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isAdding ? (
-                <>
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                  Adding...
-                </>
-              ) : (
-                <>
-                  <Plus size={20} />
-                  Add New Page
-                </>
-              )}
-            </button>
-            <p className="text-xs text-gray-500">
-              This will add a new blank page at the end of the story
-            </p>
-          </div>
-
-          {/* Delete Page */}
-          <div className="space-y-3">
-            <h3 className="font-medium text-gray-800">Delete Page</h3>
-            
-            {totalPages <= 1 ? (
-              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
-                <div className="flex items-center gap-2">
-                  <AlertTriangle size={16} className="text-yellow-600" />
-                  <p className="text-yellow-700 text-sm">
-                    Cannot delete the last remaining page
-                  </p>
-                </div>
-              </div>
-            ) : (
-              <>
-                <div className="grid grid-cols-3 gap-2 max-h-32 overflow-y-auto">
-                  {Array.from({ length: totalPages }, (_, index) => (
-                    <button
-                      key={index}
-                      onClick={() => setDeletePageNumber(index + 1)}
-                      className={`p-2 text-sm rounded border transition-all duration-300 ${
-                        deletePageNumber === index + 1
-                          ? 'bg-red-100 border-red-300 text-red-700'
-                          : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
-                      }`}
-                    >
-                      Page {index + 1}
-                    </button>
-                  ))}
+          {canEditContent ? (
+            <>
+              {/* Pages */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-medium text-gray-800">Pages</h3>
+                  {isSaving && (
+                    <span className="flex items-center gap-1 text-xs text-gray-500">
+                      <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-purple-600"></div>
+                      Saving order...
+                    </span>
+                  )}
                 </div>
 
+                <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+                  <SortableContext items={pageRows.map(page => page.id)} strategy={verticalListSortingStrategy}>
+                    <div className="space-y-2">
+                      {pageRows.map((page, index) => (
+                        <SortablePageRow
+                          key={page.id}
+                          page={page}
+                          position={index + 1}
+                          isCurrent={index === currentPage}
+                          isBusy={isBusy}
+                          canDelete={pageRows.length > 1}
+                          onInsert={handleAddPage}
+                          onDuplicate={() => handleDuplicatePage(page.id)}
+                          onDelete={() => setDeletePageNumber(index + 1)}
+                        />
+                      ))}
+                    </div>
+                  </SortableContext>
+                </DndContext>
+                <p className="text-xs text-gray-500">
+                  Drag a page by its handle to move it. Use the arrows to add a blank page before or after it.
+                </p>
+
                 {deletePageNumber && (
                   <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
                     <div className="flex items-center gap-2 mb-2">
@@ -140,7 +281,7 @@ const PageManager = ({ onClose }: PageManagerProps) => {
                     <div className="flex gap-2">
                       <button
                         onClick={() => handleDeletePage(deletePageNumber)}
-                        disabled={isDeleting}
+                        disabled={isBusy}
                         className="flex items-center gap-1 px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700 transition-all duration-300 disabled:opacity-50"
                       >
                         {isDeleting ? (
@@ -164,9 +305,47 @@ const PageManager = ({ onClose }: PageManagerProps) => {
                     </div>
                   </div>
                 )}
-              </>
-            )}
-          </div>
+
+                {error && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+                )}
+              </div>
+
+              {/* Add New Page */}
+              <div className="space-y-3">
+                <h3 className="font-medium text-gray-800">Add New Page</h3>
+                <button
+                  onClick={() => handleAddPage()}
+                  disabled={isBusy}
+                  className="w-full flex items-center justify-center gap-2 p-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isAdding ? (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                      Adding...
+                    </>
+                  ) : (
+                    <>
+                      <Plus size={20} />
+                      Add New Page
+                    </>
+                  )}
+                </button>
+                <p className="text-xs text-gray-500">
+                  This will add a new blank page at the end of the story
+                </p>
+              </div>
+            </>
+          ) : (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <AlertTriangle size={16} className="text-yellow-600" />
+                <p className="text-yellow-700 text-sm">
+                  Sign in with an author account to add, move or delete pages
+                </p>
+              </div>
+            </div>
+          )}
         </div>
         
         <div className="p-4 border-t flex justify-end">
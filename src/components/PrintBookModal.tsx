@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { X, Printer, Loader } from 'lucide-react';
+import { Book } from '../types/Book';
+import { SupabaseService } from '../services/SupabaseService';
+import { OfflineService } from '../services/OfflineService';
+import { createBookPdf } from '../utils/pdfExport';
+import { downloadBlob, toFileSlug } from '../utils/fileUtils';
+
+interface PrintBookModalProps {
+  book: Book;
+  onClose: () => void;
+}
+
+const PrintBookModal = ({ book, onClose }: PrintBookModalProps) => {
+  const [includeQuiz, setIncludeQuiz] = useState(true);
+  const [includeAnswers, setIncludeAnswers] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPages = async () => {
+    try {
+      return await SupabaseService.getInstance().getAllStoryPages(book.id);
+    } catch (err) {
+      // Printing a book saved for offline reading still works without a connection
+      const offlineCopy = OfflineService.isSupported()
+        ? await OfflineService.getInstance().getBook(book.id)
+        : null;
+      if (offlineCopy) return offlineCopy.pages;
+      throw err;
+    }
+  };
+
+  const handleDownload = async () => {
+    setIsGenerating(true);
+    setError(null);
+
+    try {
+      const pages = await loadPages();
+      if (pages.length === 0) {
+        throw new Error('This book has no pages to print');
+      }
+
+      const blob = await createBookPdf(book, pages, { includeQuiz, includeAnswers: includeQuiz && includeAnswers });
+      downloadBlob(blob, `${toFileSlug(book.title)}.pdf`);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create PDF');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate__animated animate__fadeIn">
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full animate__animated animate__slideInDown">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <Printer size={22} className="text-purple-600" />
+            Print Book
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-full hover:bg-gray-100"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Creates a PDF with a title page and one page per story page, ready to print for the classroom.
+          </p>
+
+          <label className="flex items-center gap-3 text-gray-800">
+            <input
+              type="checkbox"
+              checked={includeQuiz}
+              onChange={(e) => setIncludeQuiz(e.target.checked)}
+              className="w-4 h-4 accent-purple-600"
+            />
+            Add a quiz worksheet at the end
+          </label>
+
+          <label className={`flex items-center gap-3 ml-7 ${includeQuiz ? 'text-gray-800' : 'text-gray-400'}`}>
+            <input
+              type="checkbox"
+              checked={includeAnswers}
+              disabled={!includeQuiz}
+              onChange={(e) => setIncludeAnswers(e.target.checked)}
+              className="w-4 h-4 accent-purple-600"
+            />
+            Include an answer key
+          </label>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+
+          <button
+            onClick={handleDownload}
+            disabled={isGenerating}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-60"
+          >
+            {isGenerating ? <Loader size={18} className="animate-spin" /> : <Printer size={18} />}
+            <span>{isGenerating ? 'Creating PDF...' : 'Download PDF'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrintBookModal;
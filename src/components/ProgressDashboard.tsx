@@ -0,0 +1,410 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, BarChart3, BookOpen, CheckCircle, Clock, Download, SpellCheck, Loader, Gauge, Mic } from 'lucide-react';
+import { useLearner } from '../hooks/useLearner';
+import { LearnerService } from '../services/LearnerService';
+import { BookService } from '../services/BookService';
+import { Book } from '../types/Book';
+import { QuizAttempt, ReadAloudAttempt, ReadingProgress } from '../types/Learner';
+import {
+  AccuracyPoint,
+  formatReadingTime,
+  getAccuracyOverTime,
+  getBookProgressSummary,
+  getFluencySummary,
+  getMisspelledWords
+} from '../utils/progressStats';
+import { downloadCsv, toCsv } from '../utils/fileUtils';
+import { describeSkill, estimateSkill } from '../utils/adaptiveQuiz';
+
+interface ProgressDashboardProps {
+  onBack: () => void;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 30;
+
+const AccuracyChart = ({ points }: { points: AccuracyPoint[] }) => {
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500 py-8 text-center">No quizzes finished yet.</p>;
+  }
+
+  const innerWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const innerHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  const x = (index: number) => CHART_PADDING + (points.length === 1 ? innerWidth / 2 : (index / (points.length - 1)) * innerWidth);
+  const y = (accuracy: number) => CHART_PADDING + (1 - accuracy) * innerHeight;
+  const path = points.map((point, index) => `${index === 0 ? 'M' : 'L'} ${x(index)} ${y(point.accuracy)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Quiz accuracy over time">
+      {[0, 0.5, 1].map(level => (
+        <g key={level}>
+          <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y(level)} y2={y(level)} stroke="#e5e7eb" />
+          <text x={CHART_PADDING - 6} y={y(level) + 4} textAnchor="end" className="fill-gray-400 text-[10px]">
+            {level * 100}%
+          </text>
+        </g>
+      ))}
+      <path d={path} fill="none" stroke="#9333ea" strokeWidth={3} strokeLinejoin="round" />
+      {points.map((point, index) => (
+        <g key={point.date}>
+          <circle cx={x(index)} cy={y(point.accuracy)} r={5} fill="#9333ea">
+            <title>{`${point.date}: ${point.score}/${point.maxScore}`}</title>
+          </circle>
+          {(points.length <= 8 || index % Math.ceil(points.length / 8) === 0) && (
+            <text x={x(index)} y={CHART_HEIGHT - 8} textAnchor="middle" className="fill-gray-500 text-[10px]">
+              {point.date.slice(5)}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+const ProgressDashboard = ({ onBack }: ProgressDashboardProps) => {
+  const { learners, activeLearner, setAdaptiveQuizzes } = useLearner();
+  const [selectedLearnerId, setSelectedLearnerId] = useState<string | null>(activeLearner?.id || learners[0]?.id || null);
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [progress, setProgress] = useState<ReadingProgress[]>([]);
+  const [readAloudAttempts, setReadAloudAttempts] = useState<ReadAloudAttempt[]>([]);
+  const [books, setBooks] = useState<Book[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSavingAdaptive, setIsSavingAdaptive] = useState(false);
+
+  const selectedLearner = learners.find(learner => learner.id === selectedLearnerId) || null;
+
+  useEffect(() => {
+    if (!selectedLearnerId && learners.length > 0) {
+      setSelectedLearnerId(learners[0].id);
+    }
+  }, [learners, selectedLearnerId]);
+
+  useEffect(() => {
+    const loadBooks = async () => {
+      try {
+        const bookService = BookService.getInstance();
+        setBooks(await bookService.getAllBooks());
+      } catch (err) {
+        console.warn('Failed to load books for dashboard:', err);
+      }
+    };
+
+    loadBooks();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedLearnerId) return;
+
+    const loadLearnerData = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const learnerService = LearnerService.getInstance();
+        const [loadedAttempts, loadedProgress, loadedReadAloud] = await Promise.all([
+          learnerService.getQuizAttempts(selectedLearnerId),
+          learnerService.getAllProgress(selectedLearnerId),
+          learnerService.getReadAloudAttempts(selectedLearnerId)
+        ]);
+        setAttempts(loadedAttempts);
+        setProgress(loadedProgress);
+        setReadAloudAttempts(loadedReadAloud);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load progress');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadLearnerData();
+  }, [selectedLearnerId]);
+
+  const getBookTitle = (bookId: string) => books.find(book => book.id === bookId)?.title || 'Unknown book';
+
+  const accuracyPoints = getAccuracyOverTime(attempts);
+  const misspelledWords = getMisspelledWords(attempts);
+  const bookSummary = getBookProgressSummary(progress);
+  const fluency = getFluencySummary(readAloudAttempts);
+  const skill = selectedLearner?.skill_rating ?? estimateSkill(attempts);
+
+  const handleToggleAdaptive = async () => {
+    if (!selectedLearner) return;
+
+    setIsSavingAdaptive(true);
+    setError(null);
+    try {
+      await setAdaptiveQuizzes(selectedLearner.id, !selectedLearner.adaptive_quizzes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update quiz difficulty');
+    } finally {
+      setIsSavingAdaptive(false);
+    }
+  };
+  const overallScore = attempts.reduce((total, attempt) => total + attempt.score, 0);
+  const overallMax = attempts.reduce((total, attempt) => total + attempt.max_score, 0);
+
+  const handleExport = () => {
+    if (!selectedLearner) return;
+
+    // One row per question so spreadsheets can pivot by kind, book or day
+    const rows = attempts.flatMap(attempt => (attempt.results || []).map(result => [
+      selectedLearner.name,
+      getBookTitle(attempt.book_id),
+      attempt.page_number,
+      attempt.page_title,
+      attempt.created_at,
+      result.kind,
+      result.prompt,
+      result.expected,
+      result.response,
+      result.score,
+      result.maxScore,
+      result.isCorrect
+    ]));
+
+    const csv = toCsv(
+      ['learner', 'book', 'page_number', 'page_title', 'answered_at', 'question_kind', 'prompt', 'expected', 'response', 'score', 'max_score', 'is_correct'],
+      rows
+    );
+    const safeName = selectedLearner.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    downloadCsv(csv, `progress-${safeName}-${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-pink-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 py-4 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={onBack}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              <ArrowLeft size={20} />
+              <span>Library</span>
+            </button>
+            <div className="flex items-center gap-3">
+              <BarChart3 size={32} className="text-purple-600" />
+              <div>
+                <h2 className="text-2xl font-bold text-gray-800">Progress Dashboard</h2>
+                <p className="text-gray-600">See how each reader is doing</p>
+              </div>
+            </div>
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={!selectedLearner || attempts.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download size={18} />
+            <span>Export CSV</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {learners.length === 0 ? (
+          <div className="bg-white rounded-xl shadow p-8 text-center text-gray-600">
+            Add a learner profile from the library to start tracking progress.
+          </div>
+        ) : (
+          <>
+            {/* Learner tabs */}
+            <div className="flex flex-wrap gap-2">
+              {learners.map(learner => (
+                <button
+                  key={learner.id}
+                  onClick={() => setSelectedLearnerId(learner.id)}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-full transition-colors ${
+                    learner.id === selectedLearnerId
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-white text-gray-700 hover:bg-purple-50 border'
+                  }`}
+                >
+                  <span className="text-lg">{learner.avatar}</span>
+                  <span className="font-medium">{learner.name}</span>
+                </button>
+              ))}
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+            )}
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12 text-purple-600">
+                <Loader size={32} className="animate-spin" />
+              </div>
+            ) : (
+              <>
+                {/* Summary cards */}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="bg-white rounded-xl shadow p-4">
+                    <div className="flex items-center gap-2 text-gray-500 text-sm"><BarChart3 size={16} /> Quiz accuracy</div>
+                    <p className="text-2xl font-bold text-purple-700">
+                      {overallMax > 0 ? `${Math.round((overallScore / overallMax) * 100)}%` : '—'}
+                    </p>
+                  </div>
+                  <div className="bg-white rounded-xl shadow p-4">
+                    <div className="flex items-center gap-2 text-gray-500 text-sm"><BookOpen size={16} /> Books started</div>
+                    <p className="text-2xl font-bold text-blue-700">{bookSummary.started}</p>
+                  </div>
+                  <div className="bg-white rounded-xl shadow p-4">
+                    <div className="flex items-center gap-2 text-gray-500 text-sm"><CheckCircle size={16} /> Books finished</div>
+                    <p className="text-2xl font-bold text-green-700">{bookSummary.finished}</p>
+                  </div>
+                  <div className="bg-white rounded-xl shadow p-4">
+                    <div className="flex items-center gap-2 text-gray-500 text-sm"><Clock size={16} /> Reading time</div>
+                    <p className="text-2xl font-bold text-orange-600">{formatReadingTime(bookSummary.readingSeconds)}</p>
+                  </div>
+                </div>
+
+                {/* Adaptive difficulty */}
+                {selectedLearner && (
+                  <div className="bg-white rounded-xl shadow p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <div>
+                      <div className="flex items-center gap-2 text-gray-500 text-sm"><Gauge size={16} /> Quiz difficulty</div>
+                      <p className="text-gray-800">
+                        {selectedLearner.adaptive_quizzes
+                          ? `Adaptive: ${describeSkill(skill)} (${Math.round(skill * 100)}/100)`
+                          : 'Standard questions for every book'}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Adaptive quizzes give easier or harder versions of each question based on recent results.
+                      </p>
+                    </div>
+                    <button
+                      onClick={handleToggleAdaptive}
+                      disabled={isSavingAdaptive}
+                      className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-60 ${
+                        selectedLearner.adaptive_quizzes
+                          ? 'bg-purple-600 text-white hover:bg-purple-700'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {selectedLearner.adaptive_quizzes ? 'Adaptive on' : 'Adaptive off'}
+                    </button>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                  {/* Accuracy chart */}
+                  <div className="lg:col-span-2 bg-white rounded-xl shadow p-4">
+                    <h3 className="font-bold text-gray-800 mb-2">Quiz accuracy over time</h3>
+                    <AccuracyChart points={accuracyPoints} />
+                  </div>
+
+                  {/* Misspelled words */}
+                  <div className="bg-white rounded-xl shadow p-4">
+                    <h3 className="font-bold text-gray-800 mb-2 flex items-center gap-2">
+                      <SpellCheck size={18} className="text-pink-600" />
+                      Tricky spelling words
+                    </h3>
+                    {misspelledWords.length === 0 ? (
+                      <p className="text-sm text-gray-500">No misspellings yet. 🎉</p>
+                    ) : (
+                      <ul className="space-y-2">
+                        {misspelledWords.map(entry => (
+                          <li key={entry.word} className="flex items-center justify-between text-sm">
+                            <span className="font-medium text-gray-800">{entry.word}</span>
+                            <span className="text-gray-500">missed {entry.misses} of {entry.attempts}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+
+                {/* Read-aloud fluency */}
+                <div className="bg-white rounded-xl shadow p-4">
+                  <h3 className="font-bold text-gray-800 mb-2 flex items-center gap-2">
+                    <Mic size={18} className="text-green-600" />
+                    Reading aloud
+                  </h3>
+                  {fluency.attempts === 0 ? (
+                    <p className="text-sm text-gray-500">No read-aloud practice yet. Tap "You read it" on any page.</p>
+                  ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="grid grid-cols-3 gap-2 text-center">
+                        <div>
+                          <p className="text-2xl font-bold text-green-700">{fluency.latestWordsCorrectPerMinute}</p>
+                          <p className="text-xs text-gray-500">words/min last time</p>
+                        </div>
+                        <div>
+                          <p className="text-2xl font-bold text-blue-700">{fluency.averageWordsCorrectPerMinute}</p>
+                          <p className="text-xs text-gray-500">words/min average</p>
+                        </div>
+                        <div>
+                          <p className="text-2xl font-bold text-purple-700">
+                            {fluency.accuracy !== null ? `${Math.round(fluency.accuracy * 100)}%` : '—'}
+                          </p>
+                          <p className="text-xs text-gray-500">words read right</p>
+                        </div>
+                        <p className="col-span-3 text-xs text-gray-500">
+                          {fluency.attempts} {fluency.attempts === 1 ? 'page' : 'pages'} read aloud
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-sm font-medium text-gray-700 mb-1">Tricky words to read</p>
+                        {fluency.trickyWords.length === 0 ? (
+                          <p className="text-sm text-gray-500">Every word read right. 🎉</p>
+                        ) : (
+                          <div className="flex flex-wrap gap-2">
+                            {fluency.trickyWords.map(entry => (
+                              <span key={entry.word} className="px-2 py-1 bg-red-50 text-red-700 rounded-full text-sm">
+                                {entry.word} ×{entry.misses}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {/* Books */}
+                <div className="bg-white rounded-xl shadow p-4">
+                  <h3 className="font-bold text-gray-800 mb-2">Books</h3>
+                  {progress.length === 0 ? (
+                    <p className="text-sm text-gray-500">No books opened yet.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 border-b">
+                          <th className="py-2">Book</th>
+                          <th className="py-2">Pages reached</th>
+                          <th className="py-2">Reading time</th>
+                          <th className="py-2">Status</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {progress.map(entry => (
+                          <tr key={entry.id} className="border-b last:border-0">
+                            <td className="py-2 font-medium text-gray-800">{getBookTitle(entry.book_id)}</td>
+                            <td className="py-2">{entry.furthest_page + 1}{entry.total_pages > 0 && ` / ${entry.total_pages}`}</td>
+                            <td className="py-2">{formatReadingTime(entry.reading_seconds)}</td>
+                            <td className="py-2">
+                              {entry.completed_at ? (
+                                <span className="text-green-700 font-medium">Finished</span>
+                              ) : (
+                                <span className="text-blue-700">In progress</span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
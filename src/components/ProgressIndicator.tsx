@@ -6,14 +6,15 @@ interface ProgressIndicatorProps {
   totalPages: number;
   isPageComplete: boolean;
   quizScore: number;
+  quizMaxScore: number;
 }
 
-const ProgressIndicator = ({ currentPage, totalPages, isPageComplete, quizScore }: ProgressIndicatorProps) => {
+const ProgressIndicator = ({ currentPage, totalPages, isPageComplete, quizScore, quizMaxScore }: ProgressIndicatorProps) => {
   const getPageStatus = (pageIndex: number) => {
     if (pageIndex < currentPage) {
       return 'completed';
     } else if (pageIndex === currentPage) {
-      if (isPageComplete && quizScore >= 3) {
+      if (isPageComplete && quizScore >= quizMaxScore) {
         return 'completed';
       } else if (isPageComplete) {
         return 'quiz-pending';
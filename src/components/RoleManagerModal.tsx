@@ -0,0 +1,102 @@
+import { useState, useEffect } from 'react';
+import { X, Shield, Loader } from 'lucide-react';
+import { AuthService, User, UserRole, USER_ROLES } from '../services/AuthService';
+import { ROLE_LABELS } from '../utils/permissions';
+
+interface RoleManagerModalProps {
+  currentUser: User;
+  onClose: () => void;
+}
+
+const RoleManagerModal = ({ currentUser, onClose }: RoleManagerModalProps) => {
+  const [profiles, setProfiles] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadProfiles = async () => {
+      try {
+        const authService = AuthService.getInstance();
+        setProfiles(await authService.getProfiles());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load accounts');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadProfiles();
+  }, []);
+
+  const handleRoleChange = async (userId: string, role: UserRole) => {
+    setSavingId(userId);
+    setError(null);
+
+    try {
+      const authService = AuthService.getInstance();
+      await authService.updateRole(userId, role);
+      setProfiles(prev => prev.map(profile => profile.id === userId ? { ...profile, role } : profile));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update role');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate__animated animate__fadeIn">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto animate__animated animate__slideInDown">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <Shield size={22} className="text-purple-600" />
+            Manage Roles
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-full hover:bg-gray-100"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Readers can only read. Authors can add and edit books and pages. Admins can also delete books and change roles.
+          </p>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-6 text-purple-600">
+              <Loader size={24} className="animate-spin" />
+            </div>
+          ) : (
+            <ul className="divide-y">
+              {profiles.map(profile => (
+                <li key={profile.id} className="flex items-center justify-between gap-3 py-2">
+                  <span className="text-sm text-gray-800 truncate">{profile.email || profile.id}</span>
+                  <select
+                    value={profile.role}
+                    onChange={(e) => handleRoleChange(profile.id, e.target.value as UserRole)}
+                    // Keep at least this admin around so nobody locks themselves out
+                    disabled={savingId === profile.id || profile.id === currentUser.id}
+                    className="p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+                  >
+                    {USER_ROLES.map(role => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RoleManagerModal;
@@ -1,11 +1,15 @@
-import React, { useState } from 'react';
-import { X, Edit, MessageCircle, Info, Plus, Trash2 } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Edit, MessageCircle, Info, Plus, Trash2, Send, Loader, Languages, BookA, Cpu } from 'lucide-react';
 import { useBook } from '../context/BookContext';
+import { useAuth } from '../hooks/useAuth';
 import EditPageModal from './EditPageModal';
 import PageManager from './PageManager';
+import TranslatePageModal from './TranslatePageModal';
+import GlossaryModal from './GlossaryModal';
 import ConversationalAIButton from './ConversationalAIButton';
-import { ElevenLabsService } from '../services/ElevenLabsService';
-import { GeminiService } from '../services/GeminiService';
+import { AIProviderService, AI_CAPABILITY_LABELS, AI_PROVIDER_OPTIONS } from '../services/AIProviderService';
+import { DraftService } from '../services/DraftService';
+import { AICapability, AIProviderConfig } from '../types/AIProviders';
 
 interface SettingsModalProps {
   onClose: () => void;
@@ -22,12 +26,64 @@ const SettingsModal = ({ onClose }: SettingsModalProps) => {
     setPitch,
     volume,
     setVolume,
-    pageContent,
-    updatePageContent
+    bookSpeakers,
+    getSpeakerVoice,
+    setSpeakerVoice,
+    sourcePageContent,
+    updatePageContent,
+    refreshStoryData,
+    currentBook,
+    currentPage
   } = useBook();
+  const { canEditContent } = useAuth();
 
   const [showEdit, setShowEdit] = useState(false);
   const [showPageManager, setShowPageManager] = useState(false);
+  const [showTranslate, setShowTranslate] = useState(false);
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [draftCount, setDraftCount] = useState(0);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [publishError, setPublishError] = useState<string | null>(null);
+  const [aiProviders, setAIProviders] = useState<AIProviderConfig>(() => AIProviderService.getConfig());
+
+  const bookId = currentBook?.id;
+
+  const loadDraftCount = useCallback(async () => {
+    if (!bookId || !canEditContent) return;
+
+    try {
+      const counts = await DraftService.getInstance().getDraftCounts();
+      setDraftCount(counts[bookId] || 0);
+    } catch (error) {
+      console.warn('Failed to load draft count:', error);
+    }
+  }, [bookId, canEditContent]);
+
+  useEffect(() => {
+    loadDraftCount();
+  }, [loadDraftCount]);
+
+  const handlePublish = async () => {
+    if (!bookId) return;
+
+    setIsPublishing(true);
+    setPublishError(null);
+    try {
+      await DraftService.getInstance().publishBook(bookId);
+      setDraftCount(0);
+      await refreshStoryData();
+    } catch (error) {
+      setPublishError(error instanceof Error ? error.message : 'Failed to publish changes');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleProviderChange = (capability: AICapability, providerId: string) => {
+    const updated = { ...aiProviders, [capability]: providerId };
+    AIProviderService.saveConfig(updated);
+    setAIProviders(updated);
+  };
 
   const handleAIMessage = (message: any) => {
     console.log('Settings AI Message:', message);
@@ -42,8 +98,10 @@ const SettingsModal = ({ onClose }: SettingsModalProps) => {
     - Volume: ${Math.round(volume * 100)}%
     
     AI Configuration Status:
-    - ElevenLabs: ${ElevenLabsService.isConfigured() ? 'Configured' : 'Not configured'}
-    - Gemini API: ${GeminiService.getApiKey() ? 'Configured' : 'Not configured'}
+    - Text: ${AIProviderService.getTextGenerator().label}
+    - Pictures: ${AIProviderService.getImageGenerator().label}
+    - Voices: ${AIProviderService.getSpeechSynthesizer().label}
+    - AI gateway: ${AIProviderService.getTextGenerator().isConfigured() ? 'Configured' : 'Not configured'}
     
     You can help with:
     - Explaining what each setting does
@@ -173,25 +231,131 @@ const SettingsModal = ({ onClose }: SettingsModalProps) => {
             </div>
           </div>
 
-          {/* Page Management */}
-          <div className="space-y-2 animate__animated animate__fadeInUp animate__delay-6s">
-            <div className="grid grid-cols-2 gap-2">
-              <button
-                onClick={() => setShowPageManager(true)}
-                className="flex items-center justify-center gap-2 p-3 bg-blue-100 text-blue-600 rounded-lg hover:bg-blue-200 transition-all duration-300 transform hover:scale-105"
-              >
-                <Plus size={20} />
-                <span>Manage Pages</span>
-              </button>
-              <button
-                onClick={() => setShowEdit(true)}
-                className="flex items-center justify-center gap-2 p-3 bg-purple-100 text-purple-600 rounded-lg hover:bg-purple-200 transition-all duration-300 transform hover:scale-105"
-              >
-                <Edit size={20} />
-                <span>Edit Current</span>
-              </button>
+          {/* Character Voices - one per speaker tagged in the book's text */}
+          {bookSpeakers.length > 0 && (
+            <div className="space-y-3 animate__animated animate__fadeInUp animate__delay-5s">
+              <h3 className="text-sm font-medium text-gray-700">Character Voices</h3>
+              {bookSpeakers.map(speaker => {
+                const speakerVoice = getSpeakerVoice(speaker);
+                return (
+                  <div key={speaker} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-semibold text-gray-800">{speaker}</span>
+                      <select
+                        value={speakerVoice.voiceName || ''}
+                        onChange={(e) => setSpeakerVoice(speaker, { ...speakerVoice, voiceName: e.target.value || null })}
+                        className="flex-1 max-w-[60%] p-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      >
+                        <option value="">Narrator's voice</option>
+                        {availableVoices.map(voice => (
+                          <option key={voice.name} value={voice.name}>
+                            {voice.name} ({voice.lang})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-gray-600">
+                      Pitch {speakerVoice.pitch.toFixed(1)}
+                      <input
+                        type="range"
+                        min="0.5"
+                        max="2"
+                        step="0.1"
+                        value={speakerVoice.pitch}
+                        onChange={(e) => setSpeakerVoice(speaker, { ...speakerVoice, pitch: Number(e.target.value) })}
+                        className="flex-1 accent-purple-600"
+                      />
+                    </label>
+                  </div>
+                );
+              })}
             </div>
+          )}
+
+          {/* AI Providers - which backend serves each AI feature on this device */}
+          <div className="space-y-3 animate__animated animate__fadeInUp animate__delay-5s">
+            <h3 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+              <Cpu size={16} className="text-purple-600" />
+              AI Providers
+            </h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {(Object.keys(AI_PROVIDER_OPTIONS) as AICapability[]).map(capability => (
+                <label key={capability} className="text-xs text-gray-600 space-y-1">
+                  <span>{AI_CAPABILITY_LABELS[capability]}</span>
+                  <select
+                    value={aiProviders[capability]}
+                    onChange={(e) => handleProviderChange(capability, e.target.value)}
+                    className="w-full p-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  >
+                    {AI_PROVIDER_OPTIONS[capability].map(option => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              Offline fakes give the same made-up answers every time, for trying things out without the AI gateway.
+            </p>
           </div>
+
+          {/* Page Management - authors and admins only */}
+          {canEditContent && (
+            <div className="space-y-2 animate__animated animate__fadeInUp animate__delay-6s">
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => setShowPageManager(true)}
+                  className="flex items-center justify-center gap-2 p-3 bg-blue-100 text-blue-600 rounded-lg hover:bg-blue-200 transition-all duration-300 transform hover:scale-105"
+                >
+                  <Plus size={20} />
+                  <span>Manage Pages</span>
+                </button>
+                <button
+                  onClick={() => setShowEdit(true)}
+                  className="flex items-center justify-center gap-2 p-3 bg-purple-100 text-purple-600 rounded-lg hover:bg-purple-200 transition-all duration-300 transform hover:scale-105"
+                >
+                  <Edit size={20} />
+                  <span>Edit Current</span>
+                </button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => setShowTranslate(true)}
+                  className="flex items-center justify-center gap-2 p-3 bg-teal-100 text-teal-700 rounded-lg hover:bg-teal-200 transition-all duration-300 transform hover:scale-105"
+                >
+                  <Languages size={20} />
+                  <span>Translate Current Page</span>
+                </button>
+                <button
+                  onClick={() => setShowGlossary(true)}
+                  className="flex items-center justify-center gap-2 p-3 bg-amber-100 text-amber-700 rounded-lg hover:bg-amber-200 transition-all duration-300 transform hover:scale-105"
+                >
+                  <BookA size={20} />
+                  <span>Edit Glossary</span>
+                </button>
+              </div>
+
+              {draftCount > 0 && (
+                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg space-y-2">
+                  <p className="text-sm text-yellow-800">
+                    {draftCount} unpublished {draftCount === 1 ? 'change' : 'changes'}. Readers see the last published version until you publish.
+                  </p>
+                  <button
+                    onClick={handlePublish}
+                    disabled={isPublishing}
+                    className="w-full flex items-center justify-center gap-2 p-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-all duration-300 disabled:opacity-50"
+                  >
+                    {isPublishing ? <Loader size={18} className="animate-spin" /> : <Send size={18} />}
+                    <span>{isPublishing ? 'Publishing...' : 'Publish Changes'}</span>
+                  </button>
+                </div>
+              )}
+
+              {publishError && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{publishError}</div>
+              )}
+            </div>
+          )}
         </div>
         
         <div className="p-4 border-t flex justify-end animate__animated animate__fadeInUp animate__delay-7s">
@@ -203,15 +367,28 @@ const SettingsModal = ({ onClose }: SettingsModalProps) => {
           </button>
         </div>
 
-        {showEdit && (
+        {showEdit && canEditContent && (
           <EditPageModal
-            onClose={() => setShowEdit(false)}
-            pageContent={pageContent}
+            onClose={() => {
+              setShowEdit(false);
+              loadDraftCount();
+            }}
+            bookId={currentBook?.id}
+            pageNumber={currentPage + 1}
+            pageContent={sourcePageContent}
             onSave={updatePageContent}
           />
         )}
 
-        {showPageManager && (
+        {showTranslate && canEditContent && (
+          <TranslatePageModal onClose={() => setShowTranslate(false)} />
+        )}
+
+        {showGlossary && canEditContent && (
+          <GlossaryModal onClose={() => setShowGlossary(false)} />
+        )}
+
+        {showPageManager && canEditContent && (
           <PageManager
             onClose={() => setShowPageManager(false)}
           />
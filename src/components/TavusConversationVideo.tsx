@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { X, Video, VideoOff, Loader, AlertTriangle, Maximize2, Minimize2, ExternalLink, Mic, MicOff, Volume2, VolumeX, Phone, PhoneOff } from 'lucide-react';
-import { TavusService, TavusConversation } from '../services/TavusService';
+import { TavusService } from '../services/TavusService';
+import { ConversationRequest, TavusConversation } from '../types/AIGateway';
+import { DEFAULT_BOOK_LANGUAGE, getTavusLanguage } from '../utils/languages';
+import { explainAIError } from '../utils/aiErrors';
 
 // Declare Daily types for TypeScript
 declare global {
@@ -13,9 +16,11 @@ interface TavusConversationVideoProps {
   pageContent: any;
   currentPage: number;
   totalPages: number;
+  // BCP 47 code of the language the page is being read in
+  language?: string;
 }
 
-const TavusConversationVideo = ({ pageContent, currentPage, totalPages }: TavusConversationVideoProps) => {
+const TavusConversationVideo = ({ pageContent, currentPage, totalPages, language = DEFAULT_BOOK_LANGUAGE }: TavusConversationVideoProps) => {
   const [isMinimized, setIsMinimized] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -30,7 +35,6 @@ const TavusConversationVideo = ({ pageContent, currentPage, totalPages }: TavusC
   const videoRef = useRef<HTMLVideoElement>(null);
   const callObjectRef = useRef<any>(null);
   const conversationIdRef = useRef<string | null>(null);
-  const apiKeyRef = useRef<string | null>(null);
 
   // Load Daily.co script
   useEffect(() => {
@@ -61,8 +65,8 @@ const TavusConversationVideo = ({ pageContent, currentPage, totalPages }: TavusC
       }
 
       // Then terminate the conversation if we have the ID
-      if (conversationIdRef.current && apiKeyRef.current) {
-        await terminateConversationAPI(conversationIdRef.current, apiKeyRef.current);
+      if (conversationIdRef.current) {
+        await TavusService.endConversation(conversationIdRef.current);
       }
 
       // Reset all state
@@ -71,7 +75,6 @@ const TavusConversationVideo = ({ pageContent, currentPage, totalPages }: TavusC
       setReplicaConnected(false);
       setConnectionStatus('Ready to start');
       conversationIdRef.current = null;
-      apiKeyRef.current = null;
       
       // Clear video
       if (videoRef.current) {
@@ -93,27 +96,12 @@ const TavusConversationVideo = ({ pageContent, currentPage, totalPages }: TavusC
     setConnectionStatus('Creating conversation...');
 
     try {
-      // Get API key from TavusService
-      const apiKey = import.meta.env.VITE_TAVUS_API_KEY;
-      if (!apiKey) {
-        throw new Error('Tavus API key not found in environment variables');
-      }
-
-      const conversationRequest = {
-        replica_id: TavusService.getReplicaId(),
-        persona_id: TavusService.getPersonaId() || undefined,
+      const conversationRequest: ConversationRequest = {
+        kind: 'story',
         conversation_name: `Story Chat - ${pageContent.title || `Page ${currentPage + 1}`}`,
         conversational_context: TavusService.createStoryContext(pageContent, currentPage, totalPages),
         custom_greeting: TavusService.createCustomGreeting(pageContent, currentPage),
-        properties: {
-          max_call_duration: 120, // 2 minutes
-          participant_left_timeout: 60,
-          participant_absent_timeout: 60,
-          enable_recording: false,
-          enable_closed_captions: true,
-          apply_greenscreen: false,
-          language: 'english'
-        }
+        language: getTavusLanguage(language)
       };
 
       console.log('Creating Tavus conversation with:', conversationRequest);
@@ -122,7 +110,6 @@ const TavusConversationVideo = ({ pageContent, currentPage, totalPages }: TavusC
       
       setConversation(newConversation);
       conversationIdRef.current = newConversation.conversation_id;
-      apiKeyRef.current = apiKey;
       
       setConnectionStatus('Conversation created! Joining...');
       
@@ -130,7 +117,7 @@ const TavusConversationVideo = ({ pageContent, currentPage, totalPages }: TavusC
       await joinConversation(newConversation.conversation_url);
 
     } catch (err: any) {
-      setError(err.message || 'Failed to create conversation');
+      setError(explainAIError(err, 'Failed to create conversation'));
       setConnectionStatus('Failed to create conversation');
       console.error('Error creating Tavus conversation:', err);
     } finally {
@@ -340,31 +327,8 @@ const TavusConversationVideo = ({ pageContent, currentPage, totalPages }: TavusC
     }
   };
 
-  const terminateConversationAPI = async (conversationId: string, apiKey: string) => {
-    try {
-      const response = await fetch(`https://tavusapi.com/v2/conversations/${conversationId}/end`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey
-        }
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`Termination failed: ${response.status} - ${errorData.message || 'Unknown error'}`);
-      }
-
-      console.log('Conversation terminated successfully');
-      return true;
-    } catch (error) {
-      console.error('Error terminating conversation:', error);
-      throw error;
-    }
-  };
-
   const terminateConversation = async () => {
-    if (!conversationIdRef.current || !apiKeyRef.current) {
+    if (!conversationIdRef.current) {
       setError('No conversation to terminate');
       return;
     }
@@ -380,14 +344,13 @@ const TavusConversationVideo = ({ pageContent, currentPage, totalPages }: TavusC
       }
 
       // Then terminate the conversation via API
-      await terminateConversationAPI(conversationIdRef.current, apiKeyRef.current);
+      await TavusService.endConversation(conversationIdRef.current);
 
       // Clean up local state
       setIsConnected(false);
       setReplicaConnected(false);
       setConversation(null);
       conversationIdRef.current = null;
-      apiKeyRef.current = null;
       
       // Clear video display
       if (videoRef.current) {
@@ -440,7 +403,7 @@ const TavusConversationVideo = ({ pageContent, currentPage, totalPages }: TavusC
           <AlertTriangle size={16} className="text-orange-600" />
           <div>
             <p className="text-orange-700 text-xs font-medium">Tavus not configured</p>
-            <p className="text-orange-600 text-xs">Add VITE_TAVUS_API_KEY and VITE_TAVUS_REPLICA_ID to .env</p>
+            <p className="text-orange-600 text-xs">Set VITE_SUPABASE_URL or VITE_AI_GATEWAY_URL in .env</p>
           </div>
         </div>
       </div>
@@ -0,0 +1,309 @@
+import React, { useState, useEffect } from 'react';
+import { X, Save, Loader, Wand2, Trash2 } from 'lucide-react';
+import { useBook } from '../context/BookContext';
+import { SupabaseService, StoryPage } from '../services/SupabaseService';
+import { TranslationService } from '../services/TranslationService';
+import { AIProviderService } from '../services/AIProviderService';
+import { PageTranslation, PageTranslationInput } from '../types/Translation';
+import { DEFAULT_BOOK_LANGUAGE, SUPPORTED_LANGUAGES, getLanguageLabel, isRightToLeft } from '../utils/languages';
+import QuizEditor from './quiz/QuizEditor';
+import { validateQuiz } from './quiz/questionRegistry';
+
+interface TranslatePageModalProps {
+  onClose: () => void;
+}
+
+const TranslatePageModal = ({ onClose }: TranslatePageModalProps) => {
+  const { currentBook, currentPage, sourcePageContent, refreshStoryData } = useBook();
+  const bookId = currentBook?.id;
+  const bookLanguage = currentBook?.language || DEFAULT_BOOK_LANGUAGE;
+  const targetLanguages = SUPPORTED_LANGUAGES.filter(language => language.code !== bookLanguage);
+
+  // Untranslated pages start from the original quiz, so only its wording needs changing
+  const emptyTranslation = (): PageTranslationInput => ({
+    title: '',
+    text: '',
+    quiz_data: JSON.parse(JSON.stringify(sourcePageContent.quiz || { questions: [] }))
+  });
+
+  const [page, setPage] = useState<StoryPage | null>(null);
+  const [translations, setTranslations] = useState<PageTranslation[]>([]);
+  const [language, setLanguage] = useState(targetLanguages[0]?.code || '');
+  const [content, setContent] = useState<PageTranslationInput>(emptyTranslation);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showQuizEdit, setShowQuizEdit] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isTextConfigured = AIProviderService.getTextGenerator().isConfigured();
+  const existing = translations.find(translation => translation.language === language);
+  const quizErrors = validateQuiz(content.quiz_data);
+
+  const selectLanguage = (code: string, pageTranslations: PageTranslation[]) => {
+    const translation = pageTranslations.find(item => item.language === code);
+    setLanguage(code);
+    setContent(translation
+      ? { title: translation.title || '', text: translation.text, quiz_data: translation.quiz_data }
+      : emptyTranslation());
+    setError(null);
+  };
+
+  useEffect(() => {
+    if (!bookId) return;
+
+    let isCancelled = false;
+    const loadTranslations = async () => {
+      try {
+        const livePage = await SupabaseService.getInstance().getStoryPage(currentPage + 1, bookId);
+        if (isCancelled) return;
+        if (!livePage) {
+          setError('Save this page to the library before translating it.');
+          return;
+        }
+
+        const bookTranslations = await TranslationService.getInstance().getBookTranslations(bookId);
+        if (isCancelled) return;
+
+        const pageTranslations = bookTranslations.filter(translation => translation.page_id === livePage.id);
+        setPage(livePage);
+        setTranslations(pageTranslations);
+        // Open on a language the page already has, if any
+        const [first] = pageTranslations;
+        if (first) {
+          setLanguage(first.language);
+          setContent({ title: first.title || '', text: first.text, quiz_data: first.quiz_data });
+        }
+      } catch (err) {
+        if (!isCancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load translations');
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadTranslations();
+    return () => {
+      isCancelled = true;
+    };
+  }, [bookId, currentPage]);
+
+  const handleTranslate = async () => {
+    if (content.text.trim() && !window.confirm('Replace the translation in the editor with a new AI translation?')) return;
+
+    setIsTranslating(true);
+    setError(null);
+    try {
+      const translated = await TranslationService.getInstance().translatePage({
+        title: sourcePageContent.title,
+        text: sourcePageContent.text,
+        quiz_data: sourcePageContent.quiz || { questions: [] }
+      }, bookLanguage, language);
+      setContent(translated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to translate page');
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!page?.book_id) return;
+    if (!content.text.trim()) {
+      setError('Add the translated story text before saving.');
+      return;
+    }
+    if (quizErrors.length > 0) {
+      setShowQuizEdit(true);
+      setError(`Please fix the quiz before saving: ${quizErrors[0]}`);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await TranslationService.getInstance().saveTranslation(
+        { id: page.id, book_id: page.book_id },
+        language,
+        { ...content, title: content.title.trim(), text: content.text.trim() }
+      );
+      setTranslations(prev => [...prev.filter(translation => translation.language !== language), saved]);
+      await refreshStoryData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save translation');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!page || !window.confirm(`Delete the ${getLanguageLabel(language)} translation of this page?`)) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await TranslationService.getInstance().deleteTranslation(page.id, language);
+      const remaining = translations.filter(translation => translation.language !== language);
+      setTranslations(remaining);
+      selectLanguage(language, remaining);
+      await refreshStoryData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete translation');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    handleSave();
+  };
+
+  const direction = isRightToLeft(language) ? 'rtl' : 'ltr';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate__animated animate__fadeIn">
+      <div className="bg-white rounded-xl shadow-2xl max-w-5xl w-full max-h-[90vh] overflow-y-auto animate__animated animate__zoomIn">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800">Translate Page {currentPage + 1}</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-100">
+            <X size={24} />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 p-12 text-gray-500">
+            <Loader size={20} className="animate-spin" />
+            Loading translations...
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-6">
+            <div className="flex flex-wrap items-end gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Translate into</label>
+                <select
+                  value={language}
+                  onChange={(e) => selectLanguage(e.target.value, translations)}
+                  className="p-2 border rounded-md focus:ring-2 focus:ring-purple-500"
+                >
+                  {targetLanguages.map(target => (
+                    <option key={target.code} value={target.code}>
+                      {target.label}{translations.some(translation => translation.language === target.code) ? ' ✓' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                type="button"
+                onClick={handleTranslate}
+                disabled={!page || isTranslating || isSaving || !isTextConfigured}
+                title={isTextConfigured ? undefined : 'Set up the AI gateway to translate with AI'}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-100 text-blue-700 rounded-md hover:bg-blue-200 transition-colors disabled:opacity-50"
+              >
+                {isTranslating ? <Loader size={16} className="animate-spin" /> : <Wand2 size={16} />}
+                {isTranslating ? 'Translating...' : 'Translate with AI'}
+              </button>
+              {existing && (
+                <span className="text-xs text-gray-500">
+                  Last saved {new Date(existing.updated_at).toLocaleString()}
+                </span>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">Original ({getLanguageLabel(bookLanguage)})</p>
+                <div className="p-3 bg-gray-50 rounded-md border" dir={isRightToLeft(bookLanguage) ? 'rtl' : 'ltr'}>
+                  <p className="font-semibold text-gray-800 mb-2">{sourcePageContent.title}</p>
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{sourcePageContent.text}</p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">{getLanguageLabel(language)}</p>
+                <input
+                  type="text"
+                  value={content.title}
+                  onChange={(e) => setContent({ ...content, title: e.target.value })}
+                  dir={direction}
+                  className="w-full p-2 border rounded-md focus:ring-2 focus:ring-purple-500"
+                  placeholder="Translated page title..."
+                />
+                <textarea
+                  value={content.text}
+                  onChange={(e) => setContent({ ...content, text: e.target.value })}
+                  dir={direction}
+                  className="w-full h-40 p-2 border rounded-md focus:ring-2 focus:ring-purple-500"
+                  placeholder="Translated story text..."
+                />
+                <p className="text-xs text-gray-500">
+                  Keep the same <code>*emphasis*</code>, <code>[Name: ...]</code> and <code>[pause]</code> markup as the original.
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <button
+                type="button"
+                onClick={() => setShowQuizEdit(!showQuizEdit)}
+                className="text-purple-600 hover:text-purple-700 font-medium"
+              >
+                {showQuizEdit ? 'Hide Quiz Editor' : `Edit ${getLanguageLabel(language)} Quiz`}
+              </button>
+              {showQuizEdit && (
+                <div className="p-4 bg-gray-50 rounded-lg" dir={direction}>
+                  <QuizEditor
+                    quiz={content.quiz_data}
+                    onChange={(quiz_data) => setContent(prev => ({ ...prev, quiz_data }))}
+                  />
+                </div>
+              )}
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-red-700 text-sm">{error}</p>
+              </div>
+            )}
+
+            <div className="flex items-center justify-end gap-2">
+              {existing && (
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  disabled={isSaving}
+                  className="flex items-center gap-2 px-4 py-2 mr-auto text-red-600 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50"
+                >
+                  <Trash2 size={16} />
+                  Delete Translation
+                </button>
+              )}
+              <p className="text-xs text-gray-500">Translations are live for readers as soon as they're saved.</p>
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isSaving}
+                className="px-4 py-2 border rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Close
+              </button>
+              <button
+                type="submit"
+                disabled={!page || isSaving || isTranslating}
+                className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50"
+              >
+                {isSaving ? <Loader size={16} className="animate-spin" /> : <Save size={16} />}
+                {isSaving ? 'Saving...' : 'Save Translation'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranslatePageModal;
@@ -0,0 +1,188 @@
+import { useState, useEffect } from 'react';
+import { X, Volume2, Plus, Check, Loader, BookOpen } from 'lucide-react';
+import { useBook } from '../context/BookContext';
+import { useLearner } from '../hooks/useLearner';
+import { DictionaryService } from '../services/DictionaryService';
+import { AIProviderService } from '../services/AIProviderService';
+import { LearnerService } from '../services/LearnerService';
+import { WordDefinition } from '../types/Glossary';
+import { explainAIError } from '../utils/aiErrors';
+import { DEFAULT_BOOK_LANGUAGE } from '../utils/languages';
+import { findGlossaryEntry, glossaryDefinition, guessSyllables, normalizeLookupWord } from '../utils/dictionary';
+
+interface WordPopoverProps {
+  word: string;
+  // The sentence the word was tapped in
+  sentence: string;
+  anchor: DOMRect;
+  onClose: () => void;
+}
+
+const POPOVER_WIDTH = 288;
+const POPOVER_MARGIN = 8;
+// Roughly how tall the popover gets, to decide whether it fits below the word
+const POPOVER_HEIGHT = 260;
+
+const WordPopover = ({ word, sentence, anchor, onClose }: WordPopoverProps) => {
+  const { currentBook, glossary, pageLanguage, readText } = useBook();
+  const { activeLearner } = useLearner();
+  const lookup = normalizeLookupWord(word);
+  const bookLanguage = currentBook?.language || DEFAULT_BOOK_LANGUAGE;
+
+  const [definition, setDefinition] = useState<WordDefinition | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [bankStatus, setBankStatus] = useState<'idle' | 'saving' | 'added' | 'known'>('idle');
+
+  useEffect(() => {
+    let isCancelled = false;
+    setBankStatus('idle');
+    setError(null);
+
+    // The glossary is written for the book's own language, so translations go straight to Gemini
+    const entry = pageLanguage === bookLanguage ? findGlossaryEntry(glossary, lookup) : undefined;
+    if (entry) {
+      setDefinition(glossaryDefinition(entry, pageLanguage));
+      setIsLoading(false);
+      return;
+    }
+
+    if (!AIProviderService.getTextGenerator().isConfigured()) {
+      setDefinition({ word: lookup, definition: '', syllables: guessSyllables(lookup, pageLanguage), source: 'none' });
+      setIsLoading(false);
+      return;
+    }
+
+    setDefinition(null);
+    setIsLoading(true);
+    DictionaryService.getInstance().defineWord(lookup, sentence, pageLanguage)
+      .then(result => {
+        if (!isCancelled) setDefinition(result);
+      })
+      .catch(err => {
+        if (isCancelled) return;
+        setError(explainAIError(err, 'Failed to look up word'));
+        setDefinition({ word: lookup, definition: '', syllables: guessSyllables(lookup, pageLanguage), source: 'none' });
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [lookup, sentence, pageLanguage, bookLanguage, glossary]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleAddToWordBank = async () => {
+    if (!activeLearner || !currentBook) return;
+
+    setBankStatus('saving');
+    setError(null);
+    try {
+      const added = await LearnerService.getInstance().addWord(
+        activeLearner.id,
+        currentBook.id,
+        lookup,
+        definition?.definition || ''
+      );
+      setBankStatus(added ? 'added' : 'known');
+    } catch (err) {
+      setBankStatus('idle');
+      setError(err instanceof Error ? err.message : 'Failed to add word to word bank');
+    }
+  };
+
+  // Below the word when it fits, otherwise above it; always inside the window
+  const left = Math.min(
+    Math.max(anchor.left + anchor.width / 2 - POPOVER_WIDTH / 2, POPOVER_MARGIN),
+    window.innerWidth - POPOVER_WIDTH - POPOVER_MARGIN
+  );
+  const position = anchor.bottom + POPOVER_HEIGHT > window.innerHeight
+    ? { left, bottom: window.innerHeight - anchor.top + POPOVER_MARGIN }
+    : { left, top: anchor.bottom + POPOVER_MARGIN };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onClick={onClose} aria-hidden="true" />
+      <div
+        role="dialog"
+        aria-label={`About the word ${lookup}`}
+        style={{ ...position, width: POPOVER_WIDTH }}
+        className="fixed z-50 bg-white rounded-xl shadow-2xl border-2 border-purple-200 p-4 space-y-3 animate__animated animate__zoomIn animate__faster"
+      >
+        <div className="flex items-start justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <p className="text-2xl font-bold text-purple-800" lang={pageLanguage}>{lookup}</p>
+            <button
+              onClick={() => readText(lookup)}
+              className="p-2 rounded-full bg-purple-100 text-purple-700 hover:bg-purple-200 transition-colors"
+              aria-label={`Say ${lookup}`}
+            >
+              <Volume2 size={18} />
+            </button>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-100" aria-label="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        {definition && definition.syllables.length > 1 && (
+          <div className="flex flex-wrap items-center gap-1" lang={pageLanguage}>
+            {definition.syllables.map((syllable, index) => (
+              <button
+                key={index}
+                onClick={() => readText(syllable)}
+                className="px-2 py-1 bg-yellow-100 text-yellow-800 rounded-md font-semibold hover:bg-yellow-200 transition-colors"
+              >
+                {syllable}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader size={16} className="animate-spin" />
+            Looking it up...
+          </div>
+        ) : definition?.definition ? (
+          <div className="flex items-start gap-2">
+            <BookOpen size={16} className="text-purple-500 mt-1 flex-shrink-0" />
+            <p className="text-gray-700" lang={pageLanguage}>{definition.definition}</p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No meaning for this word yet. Ask a grown-up or the AI helper!</p>
+        )}
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        {activeLearner && (
+          <button
+            onClick={handleAddToWordBank}
+            disabled={bankStatus !== 'idle'}
+            className={`w-full flex items-center justify-center gap-2 p-2 rounded-lg font-medium transition-colors disabled:cursor-default ${
+              bankStatus === 'added' || bankStatus === 'known'
+                ? 'bg-green-100 text-green-700'
+                : 'bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-60'
+            }`}
+          >
+            {bankStatus === 'saving' ? <Loader size={16} className="animate-spin" /> :
+              bankStatus === 'added' || bankStatus === 'known' ? <Check size={16} /> : <Plus size={16} />}
+            {bankStatus === 'added' ? 'Added to my word bank' :
+              bankStatus === 'known' ? 'Already in my word bank' : 'Add to my word bank'}
+          </button>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default WordPopover;
@@ -0,0 +1,259 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ArrowLeft, SpellCheck, CheckCircle, XCircle, Loader, RotateCcw } from 'lucide-react';
+import confetti from 'canvas-confetti';
+import { useBook } from '../context/BookContext';
+import { useLearner } from '../hooks/useLearner';
+import { LearnerService } from '../services/LearnerService';
+import { LearnerWord } from '../types/Learner';
+import { QuestionResult, SpellingQuestion, SpellingResponse } from '../types/Quiz';
+import { SpellingRenderer } from './quiz/SpellingQuestion';
+import { evaluateQuestion, questionRegistry } from './quiz/questionRegistry';
+import { getDueWords, gradeSpelling, reviewWord } from '../utils/wordBank';
+
+interface WordPracticeProps {
+  onBack: () => void;
+}
+
+interface PracticeItem {
+  word: LearnerWord;
+  // Missed words come round once more at the end of the session, without being rescheduled again
+  isRetry: boolean;
+}
+
+const toQuestion = (item: PracticeItem): SpellingQuestion => ({
+  id: `${item.word.id}${item.isRetry ? '-retry' : ''}`,
+  kind: 'spelling',
+  word: item.word.word,
+  hint: item.word.hint
+});
+
+const formatDueDate = (iso: string) => {
+  return new Date(iso).toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' });
+};
+
+const WordPractice = ({ onBack }: WordPracticeProps) => {
+  const { readText, pageLanguage } = useBook();
+  const { activeLearner } = useLearner();
+  const learnerId = activeLearner?.id;
+  const [words, setWords] = useState<LearnerWord[]>([]);
+  const [queue, setQueue] = useState<PracticeItem[]>([]);
+  const [position, setPosition] = useState(0);
+  const [results, setResults] = useState<QuestionResult[]>([]);
+  const [lastResult, setLastResult] = useState<QuestionResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentItem = queue[position];
+  const currentQuestion = useMemo(() => currentItem ? toQuestion(currentItem) : undefined, [currentItem]);
+  const isFinished = queue.length > 0 && position >= queue.length;
+
+  const loadWords = useCallback(async () => {
+    if (!learnerId) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const loadedWords = await LearnerService.getInstance().getWords(learnerId);
+      setWords(loadedWords);
+      setQueue(getDueWords(loadedWords).map(word => ({ word, isRetry: false })));
+      setPosition(0);
+      setResults([]);
+      setLastResult(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load word bank');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [learnerId]);
+
+  useEffect(() => {
+    loadWords();
+  }, [loadWords]);
+
+  // Say each word when it appears, as the quiz does
+  useEffect(() => {
+    if (!currentQuestion) return;
+    const timer = setTimeout(() => {
+      readText(questionRegistry.spelling.getSpokenText(currentQuestion));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [currentQuestion, readText]);
+
+  const saveReview = async (word: LearnerWord, isCorrect: boolean) => {
+    const schedule = reviewWord(word, gradeSpelling(isCorrect, !!word.hint));
+    setWords(prev => prev.map(existing => existing.id === word.id ? { ...existing, ...schedule } : existing));
+
+    try {
+      await LearnerService.getInstance().saveWordReview(word.id, schedule);
+    } catch (err) {
+      console.warn('Failed to save word review:', err);
+    }
+  };
+
+  const handleAnswer = (response: SpellingResponse) => {
+    if (!currentItem || !currentQuestion) return;
+
+    const result = evaluateQuestion(currentQuestion, response, pageLanguage);
+    setLastResult(result);
+
+    if (!currentItem.isRetry) {
+      setResults(prev => [...prev, result]);
+      saveReview(currentItem.word, result.isCorrect);
+      if (!result.isCorrect) {
+        setQueue(prev => [...prev, { word: currentItem.word, isRetry: true }]);
+      }
+    }
+
+    if (result.isCorrect) {
+      confetti({ particleCount: 80, spread: 60, origin: { y: 0.6 } });
+      readText(questionRegistry.spelling.celebration);
+    } else {
+      readText(questionRegistry.spelling.getFeedback(currentQuestion, result));
+    }
+
+    // Give the child a moment to see the feedback before the next word
+    setTimeout(() => {
+      setLastResult(null);
+      setPosition(prev => prev + 1);
+    }, 2000);
+  };
+
+  const handleListenAgain = () => {
+    if (!currentQuestion) return;
+    readText(questionRegistry.spelling.getSpokenText(currentQuestion));
+  };
+
+  const correctFirstTime = results.filter(result => result.isCorrect).length;
+  const nextDue = [...words].sort((a, b) => a.due_at.localeCompare(b.due_at))[0];
+
+  const renderBody = () => {
+    if (!activeLearner) {
+      return (
+        <div className="bg-white rounded-xl shadow p-8 text-center text-gray-600">
+          Choose a reader from the library to practise their words.
+        </div>
+      );
+    }
+
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center gap-2 py-16 text-gray-600">
+          <Loader size={20} className="animate-spin" />
+          <span>Loading words...</span>
+        </div>
+      );
+    }
+
+    if (error) {
+      return <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>;
+    }
+
+    if (words.length === 0) {
+      return (
+        <div className="bg-white rounded-xl shadow p-8 text-center text-gray-600">
+          No words yet. Spelling words from book quizzes will show up here to practise.
+        </div>
+      );
+    }
+
+    if (queue.length === 0) {
+      return (
+        <div className="bg-white rounded-xl shadow p-8 text-center space-y-2">
+          <p className="text-lg font-semibold text-gray-800">All caught up! 🌟</p>
+          {nextDue && (
+            <p className="text-gray-600">The next word is due on {formatDueDate(nextDue.due_at)}.</p>
+          )}
+        </div>
+      );
+    }
+
+    if (isFinished) {
+      return (
+        <div className="bg-white rounded-xl shadow p-8 text-center space-y-4 animate__animated animate__bounceIn">
+          <h3 className="text-2xl font-bold">
+            {correctFirstTime} of {results.length} words spelled right first time! 🎉
+          </h3>
+          <div className="p-3 bg-gray-50 rounded-lg text-left text-sm text-gray-700 space-y-2">
+            {results.map(result => (
+              <div key={result.questionId} className="flex items-center gap-2">
+                {result.isCorrect ?
+                  <CheckCircle size={16} className="text-green-500 shrink-0" /> :
+                  <XCircle size={16} className="text-red-500 shrink-0" />}
+                <span className="font-medium">{result.expected}</span>
+                {!result.isCorrect && <span className="text-xs text-gray-500">You wrote: {result.response || '—'}</span>}
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-center gap-3">
+            <button
+              onClick={loadWords}
+              className="flex items-center gap-2 px-6 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors"
+            >
+              <RotateCcw size={18} />
+              <span>Practise more</span>
+            </button>
+            <button
+              onClick={onBack}
+              className="px-6 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              Back to Library
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="bg-white rounded-xl shadow p-6 space-y-4">
+        <p className="text-xs text-purple-600 font-medium">
+          {currentItem.isRetry ? 'One more try' : `Word ${position + 1} of ${queue.filter(item => !item.isRetry).length}`}
+        </p>
+        {currentQuestion && (
+          <SpellingRenderer
+            key={currentQuestion.id}
+            question={currentQuestion}
+            onAnswer={handleAnswer}
+            onListenAgain={handleListenAgain}
+          />
+        )}
+        {lastResult && (
+          <div className={`p-3 rounded-lg text-center font-medium ${lastResult.isCorrect ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+            {lastResult.isCorrect ? 'Perfect spelling!' : `The word is spelled "${lastResult.expected}"`}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-pink-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-3xl mx-auto px-4 py-4 flex items-center gap-4">
+          <button
+            onClick={onBack}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+          >
+            <ArrowLeft size={20} />
+            <span>Library</span>
+          </button>
+          <div className="flex items-center gap-3">
+            <SpellCheck size={32} className="text-purple-600" />
+            <div>
+              <h2 className="text-2xl font-bold text-gray-800">Word Practice</h2>
+              <p className="text-gray-600">
+                {activeLearner ? `${activeLearner.avatar} ${activeLearner.name}'s spelling words` : 'Spelling words from your books'}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto px-4 py-6">
+        {renderBody()}
+      </div>
+    </div>
+  );
+};
+
+export default WordPractice;
@@ -0,0 +1,167 @@
+import { Fragment, useState } from 'react';
+import { Volume2 } from 'lucide-react';
+import { countBlanks, splitSentence } from '../../utils/quizData';
+import { QuestionEditorProps, QuestionRendererProps } from './types';
+
+export const FillBlankRenderer = ({ question, onAnswer, onListenAgain }: QuestionRendererProps<'fill-blank'>) => {
+  const parts = splitSentence(question.sentence);
+  const [entries, setEntries] = useState<string[]>(() => Array(parts.length - 1).fill(''));
+  const [activeBlank, setActiveBlank] = useState(0);
+  const [isChecked, setIsChecked] = useState(false);
+
+  const updateEntry = (index: number, value: string) => {
+    setEntries(prev => prev.map((entry, i) => i === index ? value : entry));
+  };
+
+  // Tapping a word-bank chip fills the selected blank, then jumps to the next empty one
+  const pickWord = (word: string) => {
+    if (isChecked) return;
+    const next = entries.map((entry, i) => i === activeBlank ? word : entry);
+    setEntries(next);
+    const nextEmpty = next.findIndex(entry => !entry.trim());
+    if (nextEmpty !== -1) setActiveBlank(nextEmpty);
+  };
+
+  const handleCheck = () => {
+    setIsChecked(true);
+    onAnswer(entries);
+  };
+
+  const isBlankCorrect = (index: number) =>
+    entries[index].trim().toLowerCase() === (question.answers[index] || '').trim().toLowerCase();
+
+  return (
+    <div className="space-y-4 animate__animated animate__slideInRight">
+      <div className="flex items-center justify-between">
+        <p className="text-lg font-medium">Fill in the missing words:</p>
+        <button
+          onClick={onListenAgain}
+          className="p-2 rounded-full hover:bg-purple-100 text-purple-600 animate__animated animate__pulse animate__infinite"
+          aria-label="Listen again"
+        >
+          <Volume2 size={20} />
+        </button>
+      </div>
+
+      <p className="text-xl leading-loose text-gray-800 p-4 bg-purple-50 rounded-lg">
+        {parts.map((part, index) => (
+          <Fragment key={index}>
+            {part}
+            {index < parts.length - 1 && (
+              <input
+                type="text"
+                value={entries[index]}
+                onChange={(e) => updateEntry(index, e.target.value)}
+                onFocus={() => setActiveBlank(index)}
+                disabled={isChecked}
+                aria-label={`Blank ${index + 1}`}
+                className={`inline-block w-32 mx-1 px-2 py-0.5 border-b-4 bg-white rounded text-center focus:outline-none ${
+                  isChecked
+                    ? isBlankCorrect(index) ? 'border-green-500 text-green-700' : 'border-red-400 text-red-700'
+                    : activeBlank === index ? 'border-purple-500' : 'border-purple-200'
+                }`}
+              />
+            )}
+          </Fragment>
+        ))}
+      </p>
+
+      {question.wordBank && question.wordBank.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-2">
+          {question.wordBank.map((word, index) => (
+            <button
+              key={`${word}-${index}`}
+              onClick={() => pickWord(word)}
+              disabled={isChecked}
+              className="px-3 py-1 bg-white border-2 border-purple-300 rounded-full text-purple-800 font-medium hover:bg-purple-50 transition-all duration-300 transform hover:scale-105 disabled:opacity-50"
+            >
+              {word}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!isChecked && (
+        <button
+          onClick={handleCheck}
+          disabled={entries.some(entry => !entry.trim())}
+          className="w-full py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-all duration-300 disabled:opacity-50 font-medium transform hover:scale-105"
+        >
+          Check My Words
+        </button>
+      )}
+    </div>
+  );
+};
+
+export const FillBlankEditor = ({ question, onChange }: QuestionEditorProps<'fill-blank'>) => {
+  const blankCount = countBlanks(question.sentence);
+  // Raw text so authors can type commas before the next word exists
+  const [wordBankText, setWordBankText] = useState((question.wordBank || []).join(', '));
+
+  const updateSentence = (sentence: string) => {
+    const count = countBlanks(sentence);
+    // Keep one answer per blank as blanks are added or removed
+    const answers = Array.from({ length: count }, (_, i) => question.answers[i] || '');
+    onChange({ ...question, sentence, answers });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Sentence
+        </label>
+        <input
+          type="text"
+          value={question.sentence}
+          onChange={(e) => updateSentence(e.target.value)}
+          className="w-full p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+          placeholder="The ___ jumped over the ___."
+        />
+        <p className="text-xs text-gray-500">
+          Type ___ (three underscores) wherever a word is missing.
+        </p>
+      </div>
+
+      {blankCount > 0 && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">
+            Answers
+          </label>
+          {question.answers.map((answer, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="w-16 text-sm text-gray-500">Blank {index + 1}</span>
+              <input
+                type="text"
+                value={answer}
+                onChange={(e) => onChange({
+                  ...question,
+                  answers: question.answers.map((a, i) => i === index ? e.target.value : a)
+                })}
+                className="flex-1 p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Word Bank (optional, comma separated)
+        </label>
+        <input
+          type="text"
+          value={wordBankText}
+          onChange={(e) => {
+            setWordBankText(e.target.value);
+            const words = e.target.value.split(',').map(word => word.trim()).filter(Boolean);
+            onChange({ ...question, wordBank: words.length > 0 ? words : undefined });
+          }}
+          className="w-full p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+          placeholder="fox, moon, river"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Volume2, Plus, Trash2 } from 'lucide-react';
+import { QuestionEditorProps, QuestionRendererProps } from './types';
+
+export const MultipleChoiceRenderer = ({ question, onAnswer, onListenAgain }: QuestionRendererProps<'multiple-choice'>) => {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  const handleSelect = (index: number) => {
+    if (selectedIndex !== null) return;
+    setSelectedIndex(index);
+    onAnswer(index);
+  };
+
+  return (
+    <div className="space-y-4 animate__animated animate__fadeInUp">
+      <div className="flex items-center justify-between">
+        <p className="text-lg font-medium">{question.question}</p>
+        <button
+          onClick={onListenAgain}
+          className="p-2 rounded-full hover:bg-purple-100 text-purple-600 animate__animated animate__pulse animate__infinite"
+          aria-label="Listen again"
+        >
+          <Volume2 size={20} />
+        </button>
+      </div>
+      <div className="space-y-2">
+        {question.options.map((option, index) => (
+          <button
+            key={index}
+            onClick={() => handleSelect(index)}
+            disabled={selectedIndex !== null}
+            className={`w-full p-3 text-left border rounded-lg transition-all duration-300 transform animate__animated animate__fadeInUp ${
+              selectedIndex === null
+                ? 'hover:bg-purple-50 hover:scale-105'
+                : selectedIndex === index
+                  ? option.isCorrect ? 'bg-green-100 border-green-400' : 'bg-red-100 border-red-400'
+                  : 'opacity-60'
+            }`}
+            style={{ animationDelay: `${index * 0.1}s` }}
+          >
+            {option.text}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const MultipleChoiceEditor = ({ question, onChange }: QuestionEditorProps<'multiple-choice'>) => {
+  const updateOption = (index: number, text: string, isCorrect: boolean) => {
+    onChange({
+      ...question,
+      options: question.options.map((opt, i) =>
+        i === index ? { text, isCorrect } : { ...opt, isCorrect: isCorrect ? false : opt.isCorrect }
+      )
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Question
+        </label>
+        <input
+          type="text"
+          value={question.question}
+          onChange={(e) => onChange({ ...question, question: e.target.value })}
+          className="w-full p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Answer Options
+        </label>
+        {question.options.map((option, index) => (
+          <div key={index} className="flex items-center gap-3">
+            <input
+              type="radio"
+              checked={option.isCorrect}
+              onChange={() => updateOption(index, option.text, true)}
+              className="w-4 h-4 text-purple-600"
+            />
+            <input
+              type="text"
+              value={option.text}
+              onChange={(e) => updateOption(index, e.target.value, option.isCorrect)}
+              className="flex-1 p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+            />
+            <button
+              type="button"
+              onClick={() => onChange({ ...question, options: question.options.filter((_, i) => i !== index) })}
+              disabled={question.options.length <= 2}
+              className="p-2 text-red-600 hover:bg-red-50 rounded-md disabled:opacity-30"
+              aria-label="Remove option"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange({ ...question, options: [...question.options, { text: '', isCorrect: false }] })}
+          className="flex items-center gap-1 text-sm text-purple-600 hover:text-purple-700"
+        >
+          <Plus size={14} />
+          Add option
+        </button>
+      </div>
+    </div>
+  );
+};
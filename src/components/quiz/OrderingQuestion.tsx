@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import {
+  DndContext,
+  DragEndEvent,
+  KeyboardSensor,
+  MouseSensor,
+  TouchSensor,
+  closestCenter,
+  useSensor,
+  useSensors
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { Volume2, GripVertical, Plus, Trash2, ArrowUp, ArrowDown, CheckCircle, XCircle } from 'lucide-react';
+import { OrderingQuestion } from '../../types/Quiz';
+import { createQuestionId } from '../../utils/quizData';
+import { QuestionEditorProps, QuestionRendererProps } from './types';
+
+type OrderingItem = OrderingQuestion['items'][number];
+
+const shuffleItems = (items: OrderingItem[]): OrderingItem[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  // Never start already solved when there is something to sort
+  if (items.length > 1 && shuffled.every((item, index) => item.id === items[index].id)) {
+    return [...shuffled.slice(1), shuffled[0]];
+  }
+  return shuffled;
+};
+
+const SortableRow = ({
+  item,
+  position,
+  isChecked,
+  isInPlace
+}: {
+  item: OrderingItem;
+  position: number;
+  isChecked: boolean;
+  isInPlace: boolean;
+}) => {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: item.id,
+    disabled: isChecked
+  });
+
+  const stateClass = isChecked
+    ? isInPlace ? 'border-green-500 bg-green-50' : 'border-red-400 bg-red-50'
+    : 'border-purple-300 bg-white';
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...listeners}
+      {...attributes}
+      style={{ transform: CSS.Transform.toString(transform), transition, touchAction: 'none' }}
+      className={`flex items-center gap-3 p-3 border-2 rounded-xl shadow-sm select-none ${stateClass} ${
+        isChecked ? 'cursor-default' : 'cursor-grab active:cursor-grabbing'
+      } ${isDragging ? 'z-50 shadow-2xl opacity-90' : ''}`}
+    >
+      <span className="w-7 h-7 flex items-center justify-center rounded-full bg-purple-100 text-purple-700 text-sm font-bold">
+        {position}
+      </span>
+      <span className="flex-1 text-gray-800">{item.text}</span>
+      {isChecked ? (
+        isInPlace ? <CheckCircle size={20} className="text-green-500" /> : <XCircle size={20} className="text-red-500" />
+      ) : (
+        <GripVertical size={20} className="text-gray-400" />
+      )}
+    </div>
+  );
+};
+
+export const OrderingRenderer = ({ question, onAnswer, onListenAgain }: QuestionRendererProps<'ordering'>) => {
+  const [order, setOrder] = useState<OrderingItem[]>(() => shuffleItems(question.items));
+  const [isChecked, setIsChecked] = useState(false);
+
+  const sensors = useSensors(
+    useSensor(MouseSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(TouchSensor, { activationConstraint: { delay: 150, tolerance: 8 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id || isChecked) return;
+
+    setOrder(prev => {
+      const oldIndex = prev.findIndex(item => item.id === active.id);
+      const newIndex = prev.findIndex(item => item.id === over.id);
+      return arrayMove(prev, oldIndex, newIndex);
+    });
+  };
+
+  const handleCheck = () => {
+    setIsChecked(true);
+    onAnswer(order.map(item => item.id));
+  };
+
+  return (
+    <div className="space-y-4 animate__animated animate__slideInRight">
+      <div className="flex items-center justify-between">
+        <p className="text-lg font-medium">
+          {question.instructions || 'Put these in the order they happened:'}
+        </p>
+        <button
+          onClick={onListenAgain}
+          className="p-2 rounded-full hover:bg-purple-100 text-purple-600 animate__animated animate__pulse animate__infinite"
+          aria-label="Listen again"
+        >
+          <Volume2 size={20} />
+        </button>
+      </div>
+
+      <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+        <SortableContext items={order.map(item => item.id)} strategy={verticalListSortingStrategy}>
+          <div className="space-y-2">
+            {order.map((item, index) => (
+              <SortableRow
+                key={item.id}
+                item={item}
+                position={index + 1}
+                isChecked={isChecked}
+                isInPlace={question.items[index]?.id === item.id}
+              />
+            ))}
+          </div>
+        </SortableContext>
+      </DndContext>
+
+      {!isChecked && (
+        <button
+          onClick={handleCheck}
+          className="w-full py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-all duration-300 font-medium transform hover:scale-105"
+        >
+          Check My Order
+        </button>
+      )}
+    </div>
+  );
+};
+
+export const OrderingEditor = ({ question, onChange }: QuestionEditorProps<'ordering'>) => {
+  const moveItem = (index: number, offset: number) => {
+    onChange({ ...question, items: arrayMove(question.items, index, index + offset) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Instructions
+        </label>
+        <input
+          type="text"
+          value={question.instructions}
+          onChange={(e) => onChange({ ...question, instructions: e.target.value })}
+          className="w-full p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+          placeholder="Put these in the order they happened"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Items (in the correct order)
+        </label>
+        {question.items.map((item, index) => (
+          <div key={item.id} className="flex items-center gap-2">
+            <span className="w-6 text-sm text-gray-500 text-right">{index + 1}.</span>
+            <input
+              type="text"
+              value={item.text}
+              onChange={(e) => onChange({
+                ...question,
+                items: question.items.map(i => i.id === item.id ? { ...i, text: e.target.value } : i)
+              })}
+              className="flex-1 p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+            />
+            <button
+              type="button"
+              onClick={() => moveItem(index, -1)}
+              disabled={index === 0}
+              className="p-2 text-gray-600 hover:bg-gray-100 rounded-md disabled:opacity-30"
+              aria-label="Move item up"
+            >
+              <ArrowUp size={16} />
+            </button>
+            <button
+              type="button"
+              onClick={() => moveItem(index, 1)}
+              disabled={index === question.items.length - 1}
+              className="p-2 text-gray-600 hover:bg-gray-100 rounded-md disabled:opacity-30"
+              aria-label="Move item down"
+            >
+              <ArrowDown size={16} />
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange({ ...question, items: question.items.filter(i => i.id !== item.id) })}
+              disabled={question.items.length <= 2}
+              className="p-2 text-red-600 hover:bg-red-50 rounded-md disabled:opacity-30"
+              aria-label="Remove item"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange({ ...question, items: [...question.items, { id: createQuestionId('step'), text: '' }] })}
+          className="flex items-center gap-1 text-sm text-purple-600 hover:text-purple-700"
+        >
+          <Plus size={14} />
+          Add item
+        </button>
+      </div>
+    </div>
+  );
+};
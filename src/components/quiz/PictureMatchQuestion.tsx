@@ -0,0 +1,387 @@
+import { useState } from 'react';
+import {
+  DndContext,
+  DragEndEvent,
+  KeyboardSensor,
+  MouseSensor,
+  TouchSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors
+} from '@dnd-kit/core';
+import { CSS } from '@dnd-kit/utilities';
+import { CheckCircle, XCircle, Volume2, RotateCcw, Plus, Trash2 } from 'lucide-react';
+import { PictureMatchQuestion } from '../../types/Quiz';
+import { createQuestionId } from '../../utils/quizData';
+import { QuestionEditorProps, QuestionRendererProps } from './types';
+
+type DragItem = PictureMatchQuestion['dragItems'][number];
+type DropZone = PictureMatchQuestion['dropZones'][number];
+
+const TRAY_ID = 'drag-drop-tray';
+
+const DraggableItem = ({ item, disabled }: { item: DragItem; disabled: boolean }) => {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: item.id,
+    disabled
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...listeners}
+      {...attributes}
+      style={{ transform: CSS.Translate.toString(transform), touchAction: 'none' }}
+      className={`flex flex-col items-center gap-1 p-2 bg-white border-2 border-purple-300 rounded-xl shadow-md select-none transition-shadow ${
+        disabled ? 'cursor-default' : 'cursor-grab active:cursor-grabbing'
+      } ${isDragging ? 'z-50 shadow-2xl scale-110 opacity-90' : ''}`}
+    >
+      {item.image && (
+        <img
+          src={item.image}
+          alt={item.label}
+          draggable={false}
+          className="w-16 h-16 md:w-20 md:h-20 object-cover rounded-lg pointer-events-none"
+        />
+      )}
+      <span className="text-sm font-semibold text-purple-800">{item.label}</span>
+    </div>
+  );
+};
+
+const DroppableZone = ({
+  zone,
+  placedItem,
+  isChecked,
+  isDisabled
+}: {
+  zone: DropZone;
+  placedItem?: DragItem;
+  isChecked: boolean;
+  isDisabled: boolean;
+}) => {
+  const { setNodeRef, isOver } = useDroppable({ id: zone.id, disabled: isDisabled });
+  const isMatch = placedItem?.id === zone.acceptsId;
+
+  const borderColor = isChecked
+    ? isMatch ? 'border-green-500 bg-green-50' : 'border-red-400 bg-red-50'
+    : isOver ? 'border-purple-500 bg-purple-50 scale-105' : 'border-dashed border-gray-300 bg-gray-50';
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`relative flex flex-col items-center gap-2 p-3 min-h-[10rem] border-4 rounded-2xl transition-all duration-200 ${borderColor}`}
+    >
+      {zone.image && (
+        <img
+          src={zone.image}
+          alt={zone.label}
+          draggable={false}
+          className="w-20 h-20 md:w-24 md:h-24 object-cover rounded-lg"
+        />
+      )}
+      <span className="text-sm font-bold text-gray-700 text-center">{zone.label}</span>
+
+      <div className="flex-1 flex items-center justify-center w-full">
+        {placedItem ? (
+          <DraggableItem item={placedItem} disabled={isChecked} />
+        ) : (
+          <span className="text-xs text-gray-400">Drop here</span>
+        )}
+      </div>
+
+      {isChecked && (
+        <div className="absolute top-2 right-2">
+          {isMatch ? (
+            <CheckCircle size={20} className="text-green-500" />
+          ) : (
+            <XCircle size={20} className="text-red-500" />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Tray = ({ items, isChecked }: { items: DragItem[]; isChecked: boolean }) => {
+  const { setNodeRef, isOver } = useDroppable({ id: TRAY_ID, disabled: isChecked });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`flex flex-wrap justify-center gap-3 p-3 min-h-[6rem] rounded-2xl border-2 transition-colors ${
+        isOver ? 'border-purple-400 bg-purple-50' : 'border-gray-200 bg-white'
+      }`}
+    >
+      {items.length > 0 ? (
+        items.map(item => <DraggableItem key={item.id} item={item} disabled={isChecked} />)
+      ) : (
+        <span className="self-center text-sm text-gray-400">All pieces placed!</span>
+      )}
+    </div>
+  );
+};
+
+export const PictureMatchRenderer = ({ question, onAnswer, onListenAgain }: QuestionRendererProps<'picture-match'>) => {
+  const [placements, setPlacements] = useState<Record<string, string>>({});
+  const [isChecked, setIsChecked] = useState(false);
+
+  // Small delay on touch so children can still scroll the quiz on tablets
+  const sensors = useSensors(
+    useSensor(MouseSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(TouchSensor, { activationConstraint: { delay: 150, tolerance: 8 } }),
+    useSensor(KeyboardSensor)
+  );
+
+  const placedItemIds = new Set(Object.values(placements));
+  const trayItems = question.dragItems.filter(item => !placedItemIds.has(item.id));
+  const allZonesFilled = question.dropZones.every(zone => placements[zone.id]);
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || isChecked) return;
+
+    const itemId = String(active.id);
+    const targetId = String(over.id);
+
+    setPlacements(prev => {
+      const next: Record<string, string> = {};
+      const previousZone = Object.keys(prev).find(zoneId => prev[zoneId] === itemId);
+
+      // Drop the dragged item from wherever it was before
+      Object.entries(prev).forEach(([zoneId, placedId]) => {
+        if (placedId !== itemId) next[zoneId] = placedId;
+      });
+
+      if (targetId === TRAY_ID) return next;
+
+      // Swap: whatever sat in the target zone goes back to the dragged item's old zone
+      const displaced = next[targetId];
+      if (displaced && previousZone) {
+        next[previousZone] = displaced;
+      }
+      next[targetId] = itemId;
+      return next;
+    });
+  };
+
+  const handleCheck = () => {
+    setIsChecked(true);
+    // dropZone id -> dragItem id placed in it
+    onAnswer(placements);
+  };
+
+  const handleReset = () => {
+    setPlacements({});
+  };
+
+  return (
+    <div className="space-y-4 animate__animated animate__slideInRight">
+      <div className="flex items-center justify-between">
+        <p className="text-lg font-medium">
+          {question.instructions || 'Drag each picture to where it belongs:'}
+        </p>
+        <button
+          onClick={onListenAgain}
+          className="p-2 rounded-full hover:bg-purple-100 text-purple-600 animate__animated animate__pulse animate__infinite"
+          aria-label="Listen again"
+        >
+          <Volume2 size={20} />
+        </button>
+      </div>
+
+      <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+        <Tray items={trayItems} isChecked={isChecked} />
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {question.dropZones.map(zone => (
+            <DroppableZone
+              key={zone.id}
+              zone={zone}
+              placedItem={question.dragItems.find(item => item.id === placements[zone.id])}
+              isChecked={isChecked}
+              isDisabled={isChecked}
+            />
+          ))}
+        </div>
+      </DndContext>
+
+      {!isChecked && (
+        <div className="flex gap-2">
+          <button
+            onClick={handleReset}
+            disabled={Object.keys(placements).length === 0}
+            className="flex items-center gap-2 px-4 py-3 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-all duration-300 disabled:opacity-50"
+          >
+            <RotateCcw size={16} />
+            Start Over
+          </button>
+          <button
+            onClick={handleCheck}
+            disabled={!allZonesFilled}
+            className="flex-1 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-all duration-300 disabled:opacity-50 font-medium transform hover:scale-105"
+          >
+            Check My Answers
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const PictureMatchEditor = ({ question, onChange }: QuestionEditorProps<'picture-match'>) => {
+  const removeDragItem = (itemId: string) => {
+    const dragItems = question.dragItems.filter(item => item.id !== itemId);
+    onChange({
+      ...question,
+      dragItems,
+      // Zones that pointed at the removed item fall back to the first remaining one
+      dropZones: question.dropZones.map(zone =>
+        zone.acceptsId === itemId ? { ...zone, acceptsId: dragItems[0]?.id || '' } : zone
+      )
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Instructions
+        </label>
+        <input
+          type="text"
+          value={question.instructions || ''}
+          onChange={(e) => onChange({ ...question, instructions: e.target.value })}
+          className="w-full p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+          placeholder="Drag each animal to its home"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Pictures to Drag
+        </label>
+        {question.dragItems.map((item, index) => (
+          <div key={item.id} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={item.label}
+              onChange={(e) => onChange({
+                ...question,
+                dragItems: question.dragItems.map(i => i.id === item.id ? { ...i, label: e.target.value } : i)
+              })}
+              className="w-1/3 p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+              placeholder={`Label ${index + 1}`}
+            />
+            <input
+              type="url"
+              value={item.image}
+              onChange={(e) => onChange({
+                ...question,
+                dragItems: question.dragItems.map(i => i.id === item.id ? { ...i, image: e.target.value } : i)
+              })}
+              className="flex-1 p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+              placeholder="Image URL (optional)"
+            />
+            <button
+              type="button"
+              onClick={() => removeDragItem(item.id)}
+              disabled={question.dragItems.length <= 1}
+              className="p-2 text-red-600 hover:bg-red-50 rounded-md disabled:opacity-30"
+              aria-label="Remove picture"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange({
+            ...question,
+            dragItems: [...question.dragItems, { id: createQuestionId('item'), label: '', image: '' }]
+          })}
+          className="flex items-center gap-1 text-sm text-purple-600 hover:text-purple-700"
+        >
+          <Plus size={14} />
+          Add picture
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Drop Zones
+        </label>
+        {question.dropZones.map((zone, index) => (
+          <div key={zone.id} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={zone.label}
+              onChange={(e) => onChange({
+                ...question,
+                dropZones: question.dropZones.map(z => z.id === zone.id ? { ...z, label: e.target.value } : z)
+              })}
+              className="w-1/4 p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+              placeholder={`Zone ${index + 1}`}
+            />
+            <input
+              type="url"
+              value={zone.image}
+              onChange={(e) => onChange({
+                ...question,
+                dropZones: question.dropZones.map(z => z.id === zone.id ? { ...z, image: e.target.value } : z)
+              })}
+              className="flex-1 p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+              placeholder="Image URL (optional)"
+            />
+            <select
+              value={zone.acceptsId}
+              onChange={(e) => onChange({
+                ...question,
+                dropZones: question.dropZones.map(z => z.id === zone.id ? { ...z, acceptsId: e.target.value } : z)
+              })}
+              className="w-1/4 p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+              aria-label="Correct picture"
+            >
+              {question.dragItems.map((item, itemIndex) => (
+                <option key={item.id} value={item.id}>
+                  {item.label || `Picture ${itemIndex + 1}`}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onChange({
+                ...question,
+                dropZones: question.dropZones.filter(z => z.id !== zone.id)
+              })}
+              disabled={question.dropZones.length <= 1}
+              className="p-2 text-red-600 hover:bg-red-50 rounded-md disabled:opacity-30"
+              aria-label="Remove drop zone"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange({
+            ...question,
+            dropZones: [...question.dropZones, {
+              id: createQuestionId('zone'),
+              label: '',
+              image: '',
+              acceptsId: question.dragItems[0]?.id || ''
+            }]
+          })}
+          className="flex items-center gap-1 text-sm text-purple-600 hover:text-purple-700"
+        >
+          <Plus size={14} />
+          Add drop zone
+        </button>
+        <p className="text-xs text-gray-500">
+          Pick which picture belongs in each zone. Children earn a point for every zone that gets its matching picture.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { ArrowUp, ArrowDown, Trash2, Plus, AlertCircle, TrendingDown, TrendingUp } from 'lucide-react';
+import { QuestionKind, QuizData, QuizQuestion, QuestionVariants } from '../../types/Quiz';
+import { createQuestion, getQuestionType, questionKinds, questionRegistry } from './questionRegistry';
+import { createQuestionId } from '../../utils/quizData';
+
+type VariantLevel = keyof QuestionVariants;
+
+const VARIANT_LEVELS: { level: VariantLevel; label: string; help: string }[] = [
+  { level: 'easier', label: 'Easier version', help: 'Shown to readers who are finding quizzes hard, e.g. fewer options or a shorter word' },
+  { level: 'harder', label: 'Harder version', help: 'Shown to readers who are doing well, e.g. extra distractors or a longer word' }
+];
+
+// Variants start as a copy of the standard question so authors only change what differs
+const createVariant = (question: QuizQuestion): QuizQuestion => {
+  const copy: QuizQuestion = JSON.parse(JSON.stringify(question));
+  delete copy.variants;
+  return { ...copy, id: createQuestionId(question.kind) };
+};
+
+interface QuizEditorProps {
+  quiz: QuizData;
+  onChange: (quiz: QuizData) => void;
+}
+
+const QuizEditor = ({ quiz, onChange }: QuizEditorProps) => {
+  const [newKind, setNewKind] = useState<QuestionKind>('multiple-choice');
+
+  const updateQuestion = (index: number, question: QuizQuestion) => {
+    onChange({ questions: quiz.questions.map((q, i) => i === index ? question : q) });
+  };
+
+  const moveQuestion = (index: number, offset: number) => {
+    const questions = [...quiz.questions];
+    const [moved] = questions.splice(index, 1);
+    questions.splice(index + offset, 0, moved);
+    onChange({ questions });
+  };
+
+  const removeQuestion = (index: number) => {
+    onChange({ questions: quiz.questions.filter((_, i) => i !== index) });
+  };
+
+  const setVariant = (index: number, level: VariantLevel, variant: QuizQuestion | undefined) => {
+    const question = quiz.questions[index];
+    const variants = { ...question.variants, [level]: variant };
+    if (!variant) delete variants[level];
+    updateQuestion(index, { ...question, variants: Object.keys(variants).length > 0 ? variants : undefined });
+  };
+
+  const addQuestion = () => {
+    onChange({ questions: [...quiz.questions, createQuestion(newKind)] });
+  };
+
+  return (
+    <div className="space-y-4">
+      {quiz.questions.length === 0 && (
+        <p className="text-sm text-gray-500">No questions yet. Children will get a short quiz made from the page text.</p>
+      )}
+
+      {quiz.questions.map((question, index) => {
+        const definition = getQuestionType(question);
+        const errors = definition.validate(question);
+        const { Editor } = definition;
+
+        return (
+          <div key={question.id} className="p-4 bg-white border rounded-lg space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium text-gray-900">
+                {index + 1}. {definition.label}
+              </h3>
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => moveQuestion(index, -1)}
+                  disabled={index === 0}
+                  className="p-2 text-gray-600 hover:bg-gray-100 rounded-md disabled:opacity-30"
+                  aria-label="Move question up"
+                >
+                  <ArrowUp size={16} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveQuestion(index, 1)}
+                  disabled={index === quiz.questions.length - 1}
+                  className="p-2 text-gray-600 hover:bg-gray-100 rounded-md disabled:opacity-30"
+                  aria-label="Move question down"
+                >
+                  <ArrowDown size={16} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeQuestion(index)}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+                  aria-label="Delete question"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+
+            <Editor question={question} onChange={(updated) => updateQuestion(index, updated)} />
+
+            {/* Adaptive mode swaps in these versions depending on how the reader is doing */}
+            <div className="space-y-3">
+              {VARIANT_LEVELS.map(({ level, label, help }) => {
+                const variant = question.variants?.[level];
+                const Icon = level === 'easier' ? TrendingDown : TrendingUp;
+
+                if (!variant) {
+                  return (
+                    <button
+                      key={level}
+                      type="button"
+                      onClick={() => setVariant(index, level, createVariant(question))}
+                      className="mr-2 inline-flex items-center gap-1 px-2 py-1 text-xs text-gray-600 border border-dashed rounded-md hover:bg-gray-50"
+                      title={help}
+                    >
+                      <Icon size={12} />
+                      Add {label.toLowerCase()}
+                    </button>
+                  );
+                }
+
+                const variantDefinition = getQuestionType(variant);
+                const VariantEditor = variantDefinition.Editor;
+                const variantErrors = variantDefinition.validate(variant);
+
+                return (
+                  <div key={level} className="p-3 bg-gray-50 border rounded-md space-y-3">
+                    <div className="flex items-center justify-between">
+                      <h4 className="flex items-center gap-1 text-sm font-medium text-gray-700" title={help}>
+                        <Icon size={14} />
+                        {label}
+                      </h4>
+                      <button
+                        type="button"
+                        onClick={() => setVariant(index, level, undefined)}
+                        className="p-1 text-red-600 hover:bg-red-50 rounded-md"
+                        aria-label={`Remove ${label.toLowerCase()}`}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                    <VariantEditor question={variant} onChange={(updated) => setVariant(index, level, updated)} />
+                    {variantErrors.length > 0 && (
+                      <ul className="text-xs text-amber-700 space-y-0.5">
+                        {variantErrors.map(error => <li key={error}>{error}</li>)}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {errors.length > 0 && (
+              <div className="flex items-start gap-2 p-2 bg-amber-50 border border-amber-200 rounded-md">
+                <AlertCircle size={16} className="text-amber-600 mt-0.5 shrink-0" />
+                <ul className="text-xs text-amber-700 space-y-0.5">
+                  {errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-2">
+        <select
+          value={newKind}
+          onChange={(e) => setNewKind(e.target.value as QuestionKind)}
+          className="p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+          aria-label="Question type"
+        >
+          {questionKinds.map(kind => (
+            <option key={kind} value={kind}>{questionRegistry[kind].label}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={addQuestion}
+          className="flex items-center gap-1 px-3 py-2 text-sm text-purple-600 border border-purple-200 rounded-md hover:bg-purple-50"
+        >
+          <Plus size={14} />
+          Add question
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QuizEditor;
@@ -0,0 +1,379 @@
+import React, { useState, useEffect } from 'react';
+import { Camera, Volume2, Keyboard, CheckCircle, XCircle, RotateCcw, RefreshCw } from 'lucide-react';
+import Webcam from 'react-webcam';
+import { useBook } from '../../context/BookContext';
+import { AIProviderService } from '../../services/AIProviderService';
+import { HandwritingReading } from '../../types/AIProviders';
+import { SpellingResponse } from '../../types/Quiz';
+import { spellingLetters } from '../../utils/quizData';
+import { QuestionEditorProps, QuestionRendererProps } from './types';
+
+export const SpellingRenderer = ({ question, onAnswer, onListenAgain }: QuestionRendererProps<'spelling'>) => {
+  const { readText, pageLanguage } = useBook();
+  const [spellingAnswer, setSpellingAnswer] = useState('');
+  const [inputMode, setInputMode] = useState<'text' | 'camera'>('camera');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [ocrResults, setOcrResults] = useState<HandwritingReading[]>([]);
+  const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  const [showLivePreview, setShowLivePreview] = useState(false);
+  const [availableCameras, setAvailableCameras] = useState<MediaDeviceInfo[]>([]);
+  const [currentCameraIndex, setCurrentCameraIndex] = useState(0);
+  const [hasAnswered, setHasAnswered] = useState(false);
+  const webcamRef = React.useRef<Webcam>(null);
+
+  const targetWord = spellingLetters(question.word, pageLanguage);
+  const recognizers = AIProviderService.getHandwritingRecognizers();
+
+  // Camera only runs while the spelling question is on screen
+  useEffect(() => {
+    const getCameras = async () => {
+      try {
+        // Request permission first
+        await navigator.mediaDevices.getUserMedia({ video: true });
+
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        const videoDevices = devices.filter(device => device.kind === 'videoinput');
+        setAvailableCameras(videoDevices);
+        setShowLivePreview(true);
+        console.log('Available cameras:', videoDevices);
+      } catch (error) {
+        console.error('Error getting cameras:', error);
+      }
+    };
+
+    getCameras();
+
+    return () => {
+      setShowLivePreview(false);
+    };
+  }, []);
+
+  const submit = (answer: string, source: SpellingResponse['source']) => {
+    if (hasAnswered) return;
+    setHasAnswered(true);
+    onAnswer({ answer, source });
+  };
+
+  const switchCamera = async () => {
+    if (availableCameras.length <= 1) {
+      console.log('Only one camera available');
+      return;
+    }
+
+    const nextIndex = (currentCameraIndex + 1) % availableCameras.length;
+    setCurrentCameraIndex(nextIndex);
+
+    // Reset captured image when switching cameras
+    setCapturedImage(null);
+    setOcrResults([]);
+    setIsProcessing(false);
+
+    console.log(`Switching to camera ${nextIndex + 1}/${availableCameras.length}:`, availableCameras[nextIndex]);
+  };
+
+  const getCurrentCameraConstraints = () => {
+    if (availableCameras.length > 0 && availableCameras[currentCameraIndex]) {
+      return {
+        width: 320,
+        height: 240,
+        deviceId: { exact: availableCameras[currentCameraIndex].deviceId }
+      };
+    }
+
+    // Fallback to facingMode if no specific cameras available
+    return {
+      width: 320,
+      height: 240,
+      facingMode: 'user'
+    };
+  };
+
+  const captureImage = async () => {
+    if (!webcamRef.current) return;
+
+    setIsProcessing(true);
+    setOcrResults([]);
+    const imageSrc = webcamRef.current.getScreenshot();
+
+    if (!imageSrc) {
+      setIsProcessing(false);
+      return;
+    }
+
+    // Stop live preview and show captured image
+    setShowLivePreview(false);
+    setCapturedImage(imageSrc);
+
+    const results: HandwritingReading[] = [];
+
+    try {
+      // Each recognizer gets a turn until one reads the word
+      for (const recognizer of recognizers) {
+        if (!recognizer.isConfigured()) {
+          results.push({ text: 'AI gateway not configured', confidence: 0, method: recognizer.method });
+          continue;
+        }
+
+        console.log(`Trying ${recognizer.label}...`);
+        try {
+          const reading = await recognizer.recognize(imageSrc, targetWord);
+          results.push(reading);
+          if (spellingLetters(reading.text, pageLanguage).includes(targetWord)) break;
+        } catch (recognizerError) {
+          console.error(`${recognizer.label} failed:`, recognizerError);
+          results.push({ text: `${recognizer.label} Error`, confidence: 0, method: recognizer.method });
+        }
+      }
+
+      setOcrResults(results);
+
+      // Submit the reading that matched, or the last real attempt so it can be scored as a miss
+      const matched = results.find(result => spellingLetters(result.text, pageLanguage).includes(targetWord));
+      const attempt = matched || results.filter(result => result.confidence > 0).pop();
+      if (!attempt) {
+        throw new Error('No recognizer could read the image');
+      }
+      submit(attempt.text, attempt.method);
+    } catch (error) {
+      console.error('OCR Error:', error);
+      readText("Sorry, I couldn't read your spelling clearly. Please try again or type your answer.");
+      setOcrResults([...results, {
+        text: 'Processing Error',
+        confidence: 0,
+        method: recognizers[0].method
+      }]);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const retakePhoto = () => {
+    setCapturedImage(null);
+    setShowLivePreview(true);
+    setOcrResults([]);
+    setIsProcessing(false);
+  };
+
+  const getOCRStatusIcon = (result: HandwritingReading) => {
+    return spellingLetters(result.text, pageLanguage).includes(targetWord) ?
+      <CheckCircle size={16} className="text-green-500" /> :
+      <XCircle size={16} className="text-red-500" />;
+  };
+
+  const getCameraButtonText = () => {
+    if (availableCameras.length > 1) {
+      return `Camera ${currentCameraIndex + 1}/${availableCameras.length}`;
+    }
+    return 'Switch Camera';
+  };
+
+  return (
+    <div className="space-y-4 animate__animated animate__slideInRight">
+      <div className="flex items-center justify-between">
+        <p className="text-lg font-medium">Spell the word you hear:</p>
+        <button
+          onClick={onListenAgain}
+          className="p-2 rounded-full hover:bg-purple-100 text-purple-600 animate__animated animate__pulse animate__infinite"
+          aria-label="Listen again"
+        >
+          <Volume2 size={20} />
+        </button>
+      </div>
+      {question.hint && (
+        <p className="text-gray-600 italic animate__animated animate__fadeIn animate__delay-1s">
+          Hint: {question.hint}
+        </p>
+      )}
+
+      <div className="flex items-center justify-center space-x-4 animate__animated animate__fadeInUp animate__delay-1s">
+        <button
+          onClick={() => setInputMode('camera')}
+          className={`flex items-center gap-2 p-2 rounded transition-all duration-300 transform hover:scale-110 ${
+            inputMode === 'camera' ? 'bg-purple-100 text-purple-600' : 'text-gray-500'
+          }`}
+        >
+          <Camera size={20} />
+          <span>Camera</span>
+        </button>
+        <button
+          onClick={() => setInputMode('text')}
+          className={`flex items-center gap-2 p-2 rounded transition-all duration-300 transform hover:scale-110 ${
+            inputMode === 'text' ? 'bg-purple-100 text-purple-600' : 'text-gray-500'
+          }`}
+        >
+          <Keyboard size={20} />
+          <span>Type</span>
+        </button>
+      </div>
+
+      {inputMode === 'camera' ? (
+        <div className="space-y-4 animate__animated animate__fadeIn">
+          <div className="text-center p-3 bg-blue-50 rounded-lg animate__animated animate__fadeInDown">
+            <p className="text-sm text-blue-700">Write your answer on paper and show it to the camera</p>
+            <p className="text-xs text-blue-600 mt-1">
+              We'll read it with {recognizers.map(recognizer => recognizer.label).join(', then ')}
+            </p>
+          </div>
+
+          {/* Camera Controls */}
+          <div className="flex justify-center gap-2 mb-4">
+            <button
+              onClick={switchCamera}
+              className="flex items-center gap-2 px-3 py-2 bg-blue-100 text-blue-600 rounded-lg hover:bg-blue-200 transition-all duration-300 transform hover:scale-105"
+              disabled={isProcessing || availableCameras.length <= 1}
+            >
+              <Camera size={16} />
+              <RotateCcw size={16} />
+              <span className="text-sm">{getCameraButtonText()}</span>
+            </button>
+
+            {capturedImage && !hasAnswered && (
+              <button
+                onClick={retakePhoto}
+                className="flex items-center gap-2 px-3 py-2 bg-green-100 text-green-600 rounded-lg hover:bg-green-200 transition-all duration-300 transform hover:scale-105"
+                disabled={isProcessing}
+              >
+                <RefreshCw size={16} />
+                <span className="text-sm">Retake</span>
+              </button>
+            )}
+          </div>
+
+          {/* Camera Preview and Captured Image Side by Side */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {/* Live Preview */}
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-700 text-center">
+                {showLivePreview ? 'Live Preview' : 'Camera Off'}
+              </h4>
+              {showLivePreview ? (
+                <Webcam
+                  ref={webcamRef}
+                  screenshotFormat="image/jpeg"
+                  className="w-full h-32 md:h-40 rounded-lg border animate__animated animate__zoomIn object-cover"
+                  videoConstraints={getCurrentCameraConstraints()}
+                  onUserMediaError={(error) => {
+                    console.error('Camera error:', error);
+                    setShowLivePreview(false);
+                  }}
+                />
+              ) : (
+                <div className="w-full h-32 md:h-40 rounded-lg border bg-gray-100 flex items-center justify-center">
+                  <Camera size={32} className="text-gray-400" />
+                </div>
+              )}
+            </div>
+
+            {/* Captured Image */}
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-700 text-center">
+                Captured Image
+              </h4>
+              {capturedImage ? (
+                <img
+                  src={capturedImage}
+                  alt="Captured handwriting"
+                  className="w-full h-32 md:h-40 rounded-lg border object-cover animate__animated animate__zoomIn"
+                />
+              ) : (
+                <div className="w-full h-32 md:h-40 rounded-lg border bg-gray-50 flex items-center justify-center">
+                  <div className="text-center text-gray-400">
+                    <Camera size={24} className="mx-auto mb-1" />
+                    <p className="text-xs">No image captured</p>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* OCR Results Display */}
+          {ocrResults.length > 0 && (
+            <div className="space-y-2 animate__animated animate__fadeInUp">
+              <h4 className="font-medium text-gray-700">Recognition Results:</h4>
+              {ocrResults.map((result, index) => (
+                <div key={index} className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg">
+                  {getOCRStatusIcon(result)}
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium capitalize">{result.method}:</span>
+                      <span className="text-sm">{result.text || 'No text detected'}</span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Confidence: {Math.round(result.confidence * 100)}%
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <button
+            onClick={captureImage}
+            disabled={isProcessing || !showLivePreview || hasAnswered}
+            className="w-full py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-all duration-300 disabled:opacity-50 font-medium transform hover:scale-105"
+          >
+            {isProcessing ? (
+              <span className="animate__animated animate__flash animate__infinite">
+                Processing with AI...
+              </span>
+            ) : (
+              "📸 Capture & Check with AI"
+            )}
+          </button>
+        </div>
+      ) : (
+        <div className="animate__animated animate__fadeIn">
+          <input
+            type="text"
+            value={spellingAnswer}
+            onChange={(e) => setSpellingAnswer(e.target.value)}
+            disabled={hasAnswered}
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300"
+            placeholder="Type your answer..."
+          />
+          <button
+            onClick={() => submit(spellingAnswer, 'typed')}
+            disabled={hasAnswered || !spellingAnswer.trim()}
+            className="w-full mt-3 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-all duration-300 font-medium transform hover:scale-105 animate__animated animate__pulse animate__infinite disabled:opacity-50"
+          >
+            Submit Answer
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const SpellingEditor = ({ question, onChange }: QuestionEditorProps<'spelling'>) => {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Word to Spell
+        </label>
+        <input
+          type="text"
+          value={question.word}
+          onChange={(e) => onChange({
+            ...question,
+            word: e.target.value,
+            hint: `This word has ${e.target.value.length} letters`
+          })}
+          className="w-full p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Hint
+        </label>
+        <input
+          type="text"
+          value={question.hint}
+          onChange={(e) => onChange({ ...question, hint: e.target.value })}
+          className="w-full p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+        />
+      </div>
+    </div>
+  );
+};
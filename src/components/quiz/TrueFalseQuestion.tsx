@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { Volume2, ThumbsUp, ThumbsDown } from 'lucide-react';
+import { QuestionEditorProps, QuestionRendererProps } from './types';
+
+export const TrueFalseRenderer = ({ question, onAnswer, onListenAgain }: QuestionRendererProps<'true-false'>) => {
+  const [selected, setSelected] = useState<boolean | null>(null);
+
+  const handleSelect = (value: boolean) => {
+    if (selected !== null) return;
+    setSelected(value);
+    onAnswer(value);
+  };
+
+  const getButtonClass = (value: boolean) => {
+    if (selected === null) return 'hover:bg-purple-50 hover:scale-105';
+    if (selected !== value) return 'opacity-60';
+    return value === question.answer ? 'bg-green-100 border-green-400' : 'bg-red-100 border-red-400';
+  };
+
+  return (
+    <div className="space-y-4 animate__animated animate__fadeInUp">
+      <div className="flex items-center justify-between">
+        <p className="text-lg font-medium">True or false?</p>
+        <button
+          onClick={onListenAgain}
+          className="p-2 rounded-full hover:bg-purple-100 text-purple-600 animate__animated animate__pulse animate__infinite"
+          aria-label="Listen again"
+        >
+          <Volume2 size={20} />
+        </button>
+      </div>
+      <p className="text-xl text-gray-800 p-4 bg-purple-50 rounded-lg">{question.statement}</p>
+      <div className="grid grid-cols-2 gap-4">
+        <button
+          onClick={() => handleSelect(true)}
+          disabled={selected !== null}
+          className={`flex flex-col items-center gap-2 p-4 border rounded-lg transition-all duration-300 transform ${getButtonClass(true)}`}
+        >
+          <ThumbsUp size={32} className="text-green-600" />
+          <span className="text-lg font-bold">True</span>
+        </button>
+        <button
+          onClick={() => handleSelect(false)}
+          disabled={selected !== null}
+          className={`flex flex-col items-center gap-2 p-4 border rounded-lg transition-all duration-300 transform ${getButtonClass(false)}`}
+        >
+          <ThumbsDown size={32} className="text-red-600" />
+          <span className="text-lg font-bold">False</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const TrueFalseEditor = ({ question, onChange }: QuestionEditorProps<'true-false'>) => {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Statement
+        </label>
+        <input
+          type="text"
+          value={question.statement}
+          onChange={(e) => onChange({ ...question, statement: e.target.value })}
+          className="w-full p-2 border rounded-md transition-all duration-300 focus:ring-2 focus:ring-purple-500"
+          placeholder="The fox lived in the forest."
+        />
+      </div>
+
+      <div className="flex items-center gap-6">
+        <span className="text-sm font-medium text-gray-700">Correct answer:</span>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="radio"
+            checked={question.answer}
+            onChange={() => onChange({ ...question, answer: true })}
+            className="w-4 h-4 text-purple-600"
+          />
+          True
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="radio"
+            checked={!question.answer}
+            onChange={() => onChange({ ...question, answer: false })}
+            className="w-4 h-4 text-purple-600"
+          />
+          False
+        </label>
+      </div>
+    </div>
+  );
+};
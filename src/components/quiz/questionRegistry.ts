@@ -0,0 +1,284 @@
+import {
+  QuestionKind,
+  QuestionOfKind,
+  QuestionResult,
+  QuizData,
+  QuizQuestion,
+  QuizResponse
+} from '../../types/Quiz';
+import { countBlanks, createQuestionId, isSpellingWord, normalizeSpelling, spellingLetters } from '../../utils/quizData';
+import { MultipleChoiceEditor, MultipleChoiceRenderer } from './MultipleChoiceQuestion';
+import { SpellingEditor, SpellingRenderer } from './SpellingQuestion';
+import { TrueFalseEditor, TrueFalseRenderer } from './TrueFalseQuestion';
+import { OrderingEditor, OrderingRenderer } from './OrderingQuestion';
+import { FillBlankEditor, FillBlankRenderer } from './FillBlankQuestion';
+import { PictureMatchEditor, PictureMatchRenderer } from './PictureMatchQuestion';
+import { QuestionRegistry, QuestionTypeDefinition } from './types';
+
+const normalizeWord = (text: string) => text.trim().toLowerCase();
+
+const allOrNothing = (isCorrect: boolean) => ({ score: isCorrect ? 1 : 0, maxScore: 1, isCorrect });
+
+const partialCredit = (score: number, maxScore: number) => ({ score, maxScore, isCorrect: score === maxScore });
+
+/**
+ * Every question kind the quiz knows how to show, score and author.
+ * Adding a kind means adding its renderer/editor pair and one entry here.
+ */
+export const questionRegistry: QuestionRegistry = {
+  'multiple-choice': {
+    kind: 'multiple-choice',
+    label: 'Multiple Choice',
+    Renderer: MultipleChoiceRenderer,
+    Editor: MultipleChoiceEditor,
+    create: () => ({
+      id: createQuestionId('multiple-choice'),
+      kind: 'multiple-choice',
+      question: '',
+      options: [
+        { text: '', isCorrect: true },
+        { text: '', isCorrect: false }
+      ]
+    }),
+    validate: (question) => {
+      const errors: string[] = [];
+      if (!question.question.trim()) errors.push('Question text is required');
+      if (question.options.length < 2) errors.push('Add at least two options');
+      if (question.options.some(option => !option.text.trim())) errors.push('Every option needs text');
+      if (question.options.filter(option => option.isCorrect).length !== 1) errors.push('Mark exactly one option as correct');
+      return errors;
+    },
+    getMaxScore: () => 1,
+    score: (question, response) => allOrNothing(!!question.options[response]?.isCorrect),
+    getPrompt: (question) => question.question,
+    getSpokenText: (question) => question.question,
+    getExpected: (question) => question.options.find(option => option.isCorrect)?.text || '',
+    describeResponse: (question, response) => question.options[response]?.text || '',
+    describeForAssistant: (question) => `Current question: "${question.question}"
+       Available options: ${question.options.map(opt => opt.text).join(', ')}
+       Please help the child understand the question and guide them to the correct answer.`,
+    celebration: 'Correct answer!',
+    getFeedback: () => "That's not correct. Try again next time!"
+  },
+
+  'spelling': {
+    kind: 'spelling',
+    label: 'Spelling',
+    Renderer: SpellingRenderer,
+    Editor: SpellingEditor,
+    create: () => ({
+      id: createQuestionId('spelling'),
+      kind: 'spelling',
+      word: '',
+      hint: ''
+    }),
+    validate: (question) => {
+      const errors: string[] = [];
+      if (!question.word.trim()) errors.push('Word to spell is required');
+      else if (!isSpellingWord(question.word)) errors.push('Word to spell should only contain letters');
+      return errors;
+    },
+    getMaxScore: () => 1,
+    score: (question, response, language) => {
+      const target = normalizeSpelling(question.word, language);
+      // Handwriting recognition picks up stray marks, so camera answers only need to contain the word
+      if (response.source === 'typed') {
+        return allOrNothing(normalizeSpelling(response.answer, language) === target);
+      }
+      return allOrNothing(spellingLetters(response.answer, language).includes(target));
+    },
+    getPrompt: (question) => `Spell the word "${question.word}"`,
+    getSpokenText: (question) => `Spell the word: ${question.word}. ${question.hint}`,
+    getExpected: (question) => question.word,
+    describeResponse: (_question, response) => response.answer,
+    describeForAssistant: (question) => `Spelling challenge: The child needs to spell the word "${question.word}"
+       Hint: ${question.hint}
+       Please help them with pronunciation, letter sounds, or spelling strategies.`,
+    celebration: 'Perfect spelling! Great job!',
+    getFeedback: (question) => `Not quite right. The correct spelling was ${question.word}`
+  },
+
+  'true-false': {
+    kind: 'true-false',
+    label: 'True or False',
+    Renderer: TrueFalseRenderer,
+    Editor: TrueFalseEditor,
+    create: () => ({
+      id: createQuestionId('true-false'),
+      kind: 'true-false',
+      statement: '',
+      answer: true
+    }),
+    validate: (question) => question.statement.trim() ? [] : ['Statement is required'],
+    getMaxScore: () => 1,
+    score: (question, response) => allOrNothing(response === question.answer),
+    getPrompt: (question) => question.statement,
+    getSpokenText: (question) => `True or false? ${question.statement}`,
+    getExpected: (question) => question.answer ? 'True' : 'False',
+    describeResponse: (_question, response) => response ? 'True' : 'False',
+    describeForAssistant: (question) => `True or false question: "${question.statement}"
+       Please help the child think about what happened in the story without telling them the answer.`,
+    celebration: 'Correct answer!',
+    getFeedback: (question) => `Not quite. That statement is ${question.answer ? 'true' : 'false'}.`
+  },
+
+  'ordering': {
+    kind: 'ordering',
+    label: 'Put in Order',
+    Renderer: OrderingRenderer,
+    Editor: OrderingEditor,
+    create: () => ({
+      id: createQuestionId('ordering'),
+      kind: 'ordering',
+      instructions: 'Put these in the order they happened',
+      items: [
+        { id: createQuestionId('step'), text: '' },
+        { id: createQuestionId('step'), text: '' },
+        { id: createQuestionId('step'), text: '' }
+      ]
+    }),
+    validate: (question) => {
+      const errors: string[] = [];
+      if (question.items.length < 2) errors.push('Add at least two items to order');
+      if (question.items.some(item => !item.text.trim())) errors.push('Every item needs text');
+      return errors;
+    },
+    getMaxScore: () => 1,
+    score: (question, response) => allOrNothing(
+      response.length === question.items.length && question.items.every((item, index) => response[index] === item.id)
+    ),
+    getPrompt: (question) => question.instructions || 'Put these in order',
+    getSpokenText: (question) => question.instructions || 'Put these in the order they happened.',
+    getExpected: (question) => question.items.map(item => item.text).join(' → '),
+    describeResponse: (question, response) => response
+      .map(id => question.items.find(item => item.id === id)?.text || '')
+      .join(' → '),
+    describeForAssistant: (question) => `Ordering activity: ${question.instructions}
+       Items to put in order: ${question.items.map(item => item.text).join(', ')}
+       Please help the child remember the sequence of the story without giving the full order away.`,
+    celebration: 'Everything is in the right order!',
+    getFeedback: () => "Not quite the right order. Let's read the story again!"
+  },
+
+  'fill-blank': {
+    kind: 'fill-blank',
+    label: 'Fill in the Blank',
+    Renderer: FillBlankRenderer,
+    Editor: FillBlankEditor,
+    create: () => ({
+      id: createQuestionId('fill-blank'),
+      kind: 'fill-blank',
+      sentence: '',
+      answers: []
+    }),
+    validate: (question) => {
+      const errors: string[] = [];
+      const blanks = countBlanks(question.sentence);
+      if (blanks === 0) errors.push('Sentence needs at least one ___ blank');
+      if (question.answers.length !== blanks || question.answers.some(answer => !answer.trim())) {
+        errors.push('Every blank needs an answer');
+      }
+      return errors;
+    },
+    getMaxScore: (question) => question.answers.length,
+    score: (question, response) => partialCredit(
+      question.answers.filter((answer, index) => normalizeWord(response[index] || '') === normalizeWord(answer)).length,
+      question.answers.length
+    ),
+    getPrompt: (question) => question.sentence,
+    getSpokenText: (question) => `Fill in the missing words. ${question.sentence.replace(/_{3,}/g, 'blank')}`,
+    getExpected: (question) => question.answers.join(', '),
+    describeResponse: (_question, response) => response.join(', '),
+    describeForAssistant: (question) => `Fill in the blank: "${question.sentence}"
+       ${question.wordBank?.length ? `Word bank: ${question.wordBank.join(', ')}` : ''}
+       Please give hints about the missing words using the story, without saying them outright.`,
+    celebration: 'All the right words! Great job!',
+    getFeedback: (question, result) =>
+      `You got ${result.score} out of ${result.maxScore}. The missing words were ${question.answers.join(', ')}.`
+  },
+
+  'picture-match': {
+    kind: 'picture-match',
+    label: 'Picture Match',
+    Renderer: PictureMatchRenderer,
+    Editor: PictureMatchEditor,
+    create: () => {
+      const firstItemId = createQuestionId('item');
+      return {
+        id: createQuestionId('picture-match'),
+        kind: 'picture-match',
+        instructions: 'Drag each picture to where it belongs',
+        dragItems: [{ id: firstItemId, label: '', image: '' }],
+        dropZones: [{ id: createQuestionId('zone'), label: '', image: '', acceptsId: firstItemId }]
+      };
+    },
+    validate: (question) => {
+      const errors: string[] = [];
+      if (question.dragItems.length === 0) errors.push('Add at least one picture');
+      if (question.dropZones.length === 0) errors.push('Add at least one drop zone');
+      if (question.dragItems.some(item => !item.label.trim() && !item.image.trim())) {
+        errors.push('Every picture needs a label or an image');
+      }
+      if (question.dropZones.some(zone => !question.dragItems.some(item => item.id === zone.acceptsId))) {
+        errors.push('Every drop zone needs a matching picture');
+      }
+      return errors;
+    },
+    getMaxScore: (question) => question.dropZones.length,
+    score: (question, response) => partialCredit(
+      question.dropZones.filter(zone => response[zone.id] === zone.acceptsId).length,
+      question.dropZones.length
+    ),
+    getPrompt: (question) => question.instructions || 'Drag each picture to where it belongs',
+    getSpokenText: (question) => question.instructions || 'Drag each picture to where it belongs.',
+    getExpected: (question) => question.dropZones
+      .map(zone => `${question.dragItems.find(item => item.id === zone.acceptsId)?.label || '?'} → ${zone.label}`)
+      .join(', '),
+    describeResponse: (question, response) => question.dropZones
+      .map(zone => `${question.dragItems.find(item => item.id === response[zone.id])?.label || '—'} → ${zone.label}`)
+      .join(', '),
+    describeForAssistant: (question) => `Matching activity: ${question.instructions || 'Drag each picture to where it belongs'}
+       Pictures to drag: ${question.dragItems.map(item => item.label).join(', ')}
+       Places to drop them: ${question.dropZones.map(zone => zone.label).join(', ')}
+       Please give gentle hints about which picture goes where without giving every answer away.`,
+    celebration: 'You matched them all! Brilliant!',
+    getFeedback: (_question, result) => `You matched ${result.score} out of ${result.maxScore}. Good try!`
+  }
+};
+
+export const questionKinds = Object.keys(questionRegistry) as QuestionKind[];
+
+// The registry is keyed by kind, so a question's own kind always selects the matching definition
+export const getQuestionType = (question: QuizQuestion): QuestionTypeDefinition<QuestionKind> => {
+  return questionRegistry[question.kind] as unknown as QuestionTypeDefinition<QuestionKind>;
+};
+
+export const createQuestion = <K extends QuestionKind>(kind: K): QuestionOfKind<K> => {
+  return questionRegistry[kind].create() as QuestionOfKind<K>;
+};
+
+export const evaluateQuestion = (question: QuizQuestion, response: QuizResponse, language?: string): QuestionResult => {
+  const definition = getQuestionType(question);
+  return {
+    ...definition.score(question, response, language),
+    questionId: question.id,
+    kind: question.kind,
+    prompt: definition.getPrompt(question),
+    expected: definition.getExpected(question),
+    response: definition.describeResponse(question, response)
+  };
+};
+
+export const getQuizMaxScore = (quiz?: QuizData): number => {
+  return (quiz?.questions || []).reduce((total, question) => total + getQuestionType(question).getMaxScore(question), 0);
+};
+
+// Authoring problems across the whole quiz, prefixed with the question number
+export const validateQuiz = (quiz: QuizData): string[] => {
+  return quiz.questions.flatMap((question, index) => [
+    ...getQuestionType(question).validate(question).map(error => `Question ${index + 1}: ${error}`),
+    ...Object.entries(question.variants || {}).flatMap(([level, variant]) =>
+      getQuestionType(variant).validate(variant).map(error => `Question ${index + 1} (${level}): ${error}`)
+    )
+  ]);
+};
@@ -0,0 +1,37 @@
+import { ComponentType } from 'react';
+import { QuestionKind, QuestionOfKind, QuestionResponseMap, QuestionScore } from '../../types/Quiz';
+
+export interface QuestionRendererProps<K extends QuestionKind> {
+  question: QuestionOfKind<K>;
+  onAnswer: (response: QuestionResponseMap[K]) => void;
+  onListenAgain: () => void;
+}
+
+export interface QuestionEditorProps<K extends QuestionKind> {
+  question: QuestionOfKind<K>;
+  onChange: (question: QuestionOfKind<K>) => void;
+}
+
+export interface QuestionTypeDefinition<K extends QuestionKind> {
+  kind: K;
+  label: string;
+  Renderer: ComponentType<QuestionRendererProps<K>>;
+  Editor: ComponentType<QuestionEditorProps<K>>;
+  create: () => QuestionOfKind<K>;
+  // Authoring problems, empty when the question can be shown to a child
+  validate: (question: QuestionOfKind<K>) => string[];
+  getMaxScore: (question: QuestionOfKind<K>) => number;
+  // language is the BCP 47 code of the page the question was asked on, for comparing words
+  score: (question: QuestionOfKind<K>, response: QuestionResponseMap[K], language?: string) => QuestionScore;
+  getPrompt: (question: QuestionOfKind<K>) => string;
+  getSpokenText: (question: QuestionOfKind<K>) => string;
+  getExpected: (question: QuestionOfKind<K>) => string;
+  describeResponse: (question: QuestionOfKind<K>, response: QuestionResponseMap[K]) => string;
+  describeForAssistant: (question: QuestionOfKind<K>) => string;
+  celebration: string;
+  getFeedback: (question: QuestionOfKind<K>, result: QuestionScore) => string;
+}
+
+export type QuestionRegistry = {
+  [K in QuestionKind]: QuestionTypeDefinition<K>;
+};
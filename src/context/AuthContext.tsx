@@ -0,0 +1,47 @@
+import React, { useState, useEffect } from 'react';
+import { AuthService, User } from '../services/AuthService';
+import { AuthContext } from '../hooks/useAuth';
+import { canDeleteBooks, canEditContent, canManageRoles } from '../utils/permissions';
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [isCheckingAuth, setIsCheckingAuth] = useState(true);
+
+  useEffect(() => {
+    const authService = AuthService.getInstance();
+    refreshUser();
+
+    const { data: { subscription } } = authService.onAuthStateChange((nextUser) => {
+      setUser(nextUser);
+      setIsCheckingAuth(false);
+    });
+
+    return () => {
+      subscription?.unsubscribe();
+    };
+  }, []);
+
+  const refreshUser = async () => {
+    try {
+      const authService = AuthService.getInstance();
+      setUser(await authService.getCurrentUser());
+    } finally {
+      setIsCheckingAuth(false);
+    }
+  };
+
+  const value = {
+    user,
+    isCheckingAuth,
+    canEditContent: canEditContent(user),
+    canDeleteBooks: canDeleteBooks(user),
+    canManageRoles: canManageRoles(user),
+    refreshUser
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
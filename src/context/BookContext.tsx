@@ -1,17 +1,26 @@
-import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
-import { SupabaseService } from '../services/SupabaseService';
+import React, { createContext, useContext, useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { SupabaseService, StoryPage } from '../services/SupabaseService';
 import { BookService } from '../services/BookService';
+import { LearnerService } from '../services/LearnerService';
+import { OfflineService } from '../services/OfflineService';
+import { DraftService } from '../services/DraftService';
+import { TranslationService } from '../services/TranslationService';
+import { DictionaryService } from '../services/DictionaryService';
+import { useLearner } from '../hooks/useLearner';
 import { Book, UserSettings } from '../types/Book';
 import { storyContent } from '../data/storyData';
-
-interface QuizAnswer {
-  pageTitle: string;
-  multipleChoiceQuestion: string;
-  multipleChoiceAnswer: string;
-  spellingWord: string;
-  spellingAnswer: string;
-  isCorrect: boolean;
-}
+import { QuizAnswer, QuizData } from '../types/Quiz';
+import { ReadingProgress } from '../types/Learner';
+import { normalizeQuizData } from '../utils/quizData';
+import { getSpellingWords } from '../utils/wordBank';
+import { SpeakerVoice, WordTiming } from '../types/Narration';
+import { findWordAtTime, splitWords, timingsMatchText } from '../utils/narration';
+import { getDefaultSpeakerVoice, getSpeakers, getSpeechSegments, parseStoryMarkup, stripStoryMarkup } from '../utils/storyMarkup';
+import { toPageSnapshot } from '../utils/pageRevisions';
+import { DEFAULT_BOOK_LANGUAGE, findVoiceForLanguage } from '../utils/languages';
+import { PageTranslation } from '../types/Translation';
+import { GlossaryEntry } from '../types/Glossary';
+import { ReadingScore } from '../utils/readAloud';
 
 interface PageContent {
   title: string;
@@ -20,14 +29,61 @@ interface PageContent {
   video: string;
   background: string;
   backgroundMusic?: string;
-  quiz?: any;
+  narrationAudio?: string;
+  narrationTimings?: WordTiming[];
+  quiz?: QuizData;
 }
 
+// A page's translations keyed by language
+type PageTranslations = Record<string, Pick<PageContent, 'title' | 'text' | 'quiz'>>;
+
+const EMPTY_PAGE: PageContent = {
+  title: '',
+  text: '',
+  image: '',
+  video: '',
+  background: '',
+  backgroundMusic: '',
+  narrationAudio: undefined,
+  narrationTimings: undefined,
+  quiz: undefined
+};
+
+// Lines translations up with the pages they belong to
+const groupTranslations = (pages: StoryPage[], translations: PageTranslation[]): PageTranslations[] => {
+  return pages.map(page => {
+    const byLanguage: PageTranslations = {};
+    translations
+      .filter(translation => translation.page_id === page.id)
+      .forEach(translation => {
+        byLanguage[translation.language] = {
+          title: translation.title || '',
+          text: translation.text,
+          quiz: normalizeQuizData(translation.quiz_data, translation.text)
+        };
+      });
+    return byLanguage;
+  });
+};
+
 interface BookContextType {
   currentBook: Book | null;
   currentPage: number;
   totalPages: number;
+  // The page as the reader sees it, translated when a translation is being read
   pageContent: PageContent;
+  // The page in the language the book is written in
+  sourcePageContent: PageContent;
+  // Languages the book can be read in, its own first
+  availableLanguages: string[];
+  readingLanguage: string;
+  setReadingLanguage: (language: string) => void;
+  // The language pageContent is actually in; the book's own when this page has no translation yet
+  pageLanguage: string;
+  showBilingual: boolean;
+  setShowBilingual: (show: boolean) => void;
+  // The author's definitions for words in the book, in the book's language
+  glossary: GlossaryEntry[];
   currentWord: number;
   isReading: boolean;
   hasStartedReading: boolean;
@@ -48,13 +104,21 @@ interface BookContextType {
   setRate: (rate: number) => void;
   setPitch: (pitch: number) => void;
   setVolume: (volume: number) => void;
+  // Characters tagged in the book's text, and the voice each is read in
+  bookSpeakers: string[];
+  getSpeakerVoice: (speaker: string) => SpeakerVoice;
+  setSpeakerVoice: (speaker: string, voice: SpeakerVoice) => void;
   updatePageContent: (content: Partial<PageContent>) => Promise<void>;
   refreshStoryData: () => Promise<void>;
-  addNewPage: () => Promise<void>;
+  addNewPage: (position?: number) => Promise<void>;
+  duplicatePage: (pageId: string) => Promise<void>;
+  reorderPages: (pageIds: string[]) => Promise<void>;
   deletePage: (pageNumber: number) => Promise<void>;
   readText: (text: string) => void;
   quizAnswers: QuizAnswer[];
   addQuizAnswer: (answer: QuizAnswer) => void;
+  // Saves a read-aloud practice score for the current page to the active learner's progress
+  recordReadAloud: (score: ReadingScore, transcript: string) => void;
   resetQuizAnswers: () => void;
   setCurrentBook: (book: Book) => void;
   loadBookSettings: () => Promise<void>;
@@ -90,16 +154,45 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
   const [rate, setRate] = useState(1);
   const [pitch, setPitch] = useState(1);
   const [volume, setVolume] = useState(1);
+  const [speakerVoices, setSpeakerVoices] = useState<Record<string, SpeakerVoice>>({});
+
+  // Translations, aligned with pages
+  const [pageTranslations, setPageTranslations] = useState<PageTranslations[]>([]);
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>([]);
+  const [readingLanguage, setReadingLanguage] = useState(DEFAULT_BOOK_LANGUAGE);
+  const [showBilingual, setShowBilingual] = useState(false);
   
   const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const speechPauseRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const wordsRef = useRef<string[]>([]);
   const isReadingStoryRef = useRef<boolean>(false);
   const backgroundAudioRef = useRef<HTMLAudioElement | null>(null);
+  const narrationAudioRef = useRef<HTMLAudioElement | null>(null);
+  const narrationFrameRef = useRef<number | null>(null);
+
+  // Learner progress tracking
+  const { activeLearner, refreshProgress, recordQuizResults } = useLearner();
+  // The book and learner whose progress was restored; saves go to them until either changes
+  const restoredProgressRef = useRef<{ bookId: string; learnerId: string } | null>(null);
+  const isProgressReadyRef = useRef(false);
+  const progressRef = useRef<Pick<ReadingProgress, 'furthest_page' | 'reading_seconds' | 'completed_at'>>({
+    furthest_page: 0,
+    reading_seconds: 0,
+    completed_at: null
+  });
+  const readingStartRef = useRef(Date.now());
+  // Latest values for saves that run from event listeners and unmount cleanup
+  const currentPageRef = useRef(0);
+  const totalPagesRef = useRef(0);
+  currentPageRef.current = currentPage;
+  totalPagesRef.current = totalPages;
 
   // Check if story is complete
   useEffect(() => {
     if (quizAnswers.length === totalPages && totalPages > 0 && onStoryComplete) {
-      const totalScore = quizAnswers.reduce((sum, answer) => sum + (answer.isCorrect ? 2 : 0), 0);
+      const totalScore = quizAnswers.reduce((sum, answer) => sum + answer.score, 0);
+      progressRef.current.completed_at = new Date().toISOString();
+      saveProgressRef.current(currentPageRef.current);
       onStoryComplete(quizAnswers, totalScore);
     }
   }, [quizAnswers, totalPages, onStoryComplete]);
@@ -155,6 +248,11 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
 
   const setCurrentBook = (book: Book) => {
     setCurrentBookState(book);
+    setReadingLanguage(book.language || DEFAULT_BOOK_LANGUAGE);
+    setShowBilingual(false);
+    // Opening a book, even the same one again, restores its progress afresh once the last one is saved
+    saveProgressRef.current(currentPageRef.current);
+    restoredProgressRef.current = null;
     setCurrentPage(0);
     setQuizAnswers([]);
     setHasStartedReading(false);
@@ -167,7 +265,7 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
 
     try {
       const bookService = BookService.getInstance();
-      const settings = await bookService.getUserSettings(currentBook.id);
+      const settings = await bookService.getUserSettings(currentBook.id, activeLearner?.id);
       
       if (settings) {
         setVoiceIndex(settings.voice_index);
@@ -175,6 +273,11 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
         setPitch(settings.pitch);
         setVolume(settings.volume);
       }
+      setSpeakerVoices(settings?.settings_data?.speakerVoices || {});
+      if (settings?.settings_data?.readingLanguage) {
+        setReadingLanguage(settings.settings_data.readingLanguage);
+      }
+      setShowBilingual(settings?.settings_data?.showBilingual === true);
     } catch (error) {
       console.warn('Failed to load book settings:', error);
     }
@@ -187,11 +290,12 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
       const bookService = BookService.getInstance();
       await bookService.saveUserSettings({
         book_id: currentBook.id,
+        user_id: activeLearner?.id,
         voice_index: voiceIndex,
         rate,
         pitch,
         volume,
-        settings_data: {}
+        settings_data: { speakerVoices, readingLanguage, showBilingual }
       });
     } catch (error) {
       console.warn('Failed to save book settings:', error);
@@ -207,7 +311,29 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
 
       return () => clearTimeout(timeoutId);
     }
-  }, [voiceIndex, rate, pitch, volume, currentBook]);
+  }, [voiceIndex, rate, pitch, volume, speakerVoices, readingLanguage, showBilingual, currentBook]);
+
+  const bookSpeakers = getSpeakers(pages.map(page => page.text));
+
+  const getSpeakerVoice = (speaker: string): SpeakerVoice => {
+    return speakerVoices[speaker] || getDefaultSpeakerVoice(Math.max(bookSpeakers.indexOf(speaker), 0));
+  };
+
+  const setSpeakerVoice = (speaker: string, voice: SpeakerVoice) => {
+    setSpeakerVoices(prev => ({ ...prev, [speaker]: voice }));
+  };
+
+  const toPageContent = (page: StoryPage): PageContent => ({
+    title: page.title || '',
+    text: page.text,
+    image: page.image_url,
+    video: page.video_url,
+    background: page.background_url,
+    backgroundMusic: page.background_music_url,
+    narrationAudio: page.narration_audio_url || undefined,
+    narrationTimings: page.narration_timings || undefined,
+    quiz: normalizeQuizData(page.quiz_data, page.text)
+  });
 
   const loadStoryData = async () => {
     if (!currentBook) return;
@@ -221,22 +347,36 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
       const supabasePages = await supabaseService.getAllStoryPages(currentBook.id);
       
       if (supabasePages && supabasePages.length > 0) {
-        const formattedPages = supabasePages.map(page => ({
-          title: page.title || '',
-          text: page.text,
-          image: page.image_url,
-          video: page.video_url,
-          background: page.background_url,
-          backgroundMusic: page.background_music_url,
-          quiz: page.quiz_data
-        }));
+        const formattedPages = supabasePages.map(toPageContent);
+        // A book still reads without its translations and glossary, just in its own language
+        const [translations, glossaryEntries] = await Promise.all([
+          TranslationService.getInstance().getBookTranslations(currentBook.id)
+            .catch(error => {
+              console.warn('Failed to load translations:', error);
+              return [];
+            }),
+          DictionaryService.getInstance().getGlossary(currentBook.id)
+            .catch(error => {
+              console.warn('Failed to load glossary:', error);
+              return [];
+            })
+        ]);
         setPages(formattedPages);
+        setPageTranslations(groupTranslations(supabasePages, translations));
+        setGlossary(glossaryEntries);
         setTotalPages(formattedPages.length);
+
+        // Keep a copy saved for offline reading up to date
+        OfflineService.getInstance().refreshBook(currentBook, supabasePages, translations, glossaryEntries)
+          .catch(error => console.warn('Failed to refresh offline copy:', error));
       } else {
+        setPageTranslations([]);
+        setGlossary([]);
         // Fallback to local data only for story books
         if (currentBook.subject === 'STORY') {
           const enhancedStoryContent = storyContent.map(page => ({
             ...page,
+            quiz: normalizeQuizData(page.quiz, page.text),
             backgroundMusic: 'https://www.soundjay.com/misc/sounds/bell-ringing-05.wav' // Default background music
           }));
           setPages(enhancedStoryContent);
@@ -250,10 +390,27 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
       }
     } catch (err) {
       console.warn('Failed to load from Supabase:', err);
-      // Fallback to local data only for story books
-      if (currentBook.subject === 'STORY') {
+      setPageTranslations([]);
+      setGlossary([]);
+
+      // Books saved for offline reading come next
+      const offlineBook = await OfflineService.getInstance().getBook(currentBook.id)
+        .catch(error => {
+          console.warn('Failed to read offline copy:', error);
+          return null;
+        });
+
+      if (offlineBook && offlineBook.pages.length > 0) {
+        const formattedPages = offlineBook.pages.map(toPageContent);
+        setPages(formattedPages);
+        setPageTranslations(groupTranslations(offlineBook.pages, offlineBook.translations || []));
+        setGlossary(offlineBook.glossary || []);
+        setTotalPages(formattedPages.length);
+      } else if (currentBook.subject === 'STORY') {
+        // Fallback to local data only for story books
         const enhancedStoryContent = storyContent.map(page => ({
           ...page,
+          quiz: normalizeQuizData(page.quiz, page.text),
           backgroundMusic: 'https://www.soundjay.com/misc/sounds/bell-ringing-05.wav'
         }));
         setPages(enhancedStoryContent);
@@ -273,13 +430,19 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
     await loadStoryData();
   };
 
-  const addNewPage = async () => {
+  // Keeps the reader on the same page when pages before it are added or moved
+  const followCurrentPage = (insertedPageNumber: number) => {
+    if (insertedPageNumber <= currentPage + 1) {
+      setCurrentPage(prev => prev + 1);
+    }
+  };
+
+  const addNewPage = async (position?: number) => {
     if (!currentBook) return;
 
     try {
-      const newPageNumber = totalPages + 1;
+      const newPageNumber = position ?? totalPages + 1;
       const newPageData = {
-        page_number: newPageNumber,
         title: `Chapter ${newPageNumber}`,
         text: "Once upon a time, there was a new adventure waiting to be written...",
         image_url: "https://images.pexels.com/photos/326012/pexels-photo-326012.jpeg?auto=compress&cs=tinysrgb&w=1260&h=750&dpr=2",
@@ -288,29 +451,67 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
         background_music_url: "https://www.soundjay.com/misc/sounds/bell-ringing-05.wav",
         book_id: currentBook.id,
         quiz_data: {
-          multipleChoice: {
-            question: "What is this new adventure about?",
-            options: [
-              { text: "A magical journey", isCorrect: true },
-              { text: "A scary story", isCorrect: false },
-              { text: "A cooking lesson", isCorrect: false }
-            ]
-          },
-          spelling: {
-            word: "adventure",
-            hint: "An exciting journey or experience"
-          }
+          questions: [
+            {
+              id: 'multiple-choice-1',
+              kind: 'multiple-choice' as const,
+              question: "What is this new adventure about?",
+              options: [
+                { text: "A magical journey", isCorrect: true },
+                { text: "A scary story", isCorrect: false },
+                { text: "A cooking lesson", isCorrect: false }
+              ]
+            },
+            {
+              id: 'spelling-1',
+              kind: 'spelling' as const,
+              word: "adventure",
+              hint: "An exciting journey or experience"
+            }
+          ]
         }
       };
 
       const supabaseService = SupabaseService.getInstance();
-      await supabaseService.createStoryPage(newPageData);
+      const page = await supabaseService.insertStoryPage(newPageData, position);
+      followCurrentPage(page.page_number);
     } catch (error) {
       console.error('Failed to add new page:', error);
       throw error;
     }
   };
 
+  const duplicatePage = async (pageId: string) => {
+    if (!currentBook) return;
+
+    try {
+      const supabaseService = SupabaseService.getInstance();
+      const page = await supabaseService.duplicateStoryPage(pageId);
+      followCurrentPage(page.page_number);
+    } catch (error) {
+      console.error('Failed to duplicate page:', error);
+      throw error;
+    }
+  };
+
+  const reorderPages = async (pageIds: string[]) => {
+    if (!currentBook) return;
+
+    try {
+      const supabaseService = SupabaseService.getInstance();
+      const currentPageId = (await supabaseService.getAllStoryPages(currentBook.id))[currentPage]?.id;
+      await supabaseService.renumberStoryPages(currentBook.id, pageIds);
+
+      const newIndex = currentPageId ? pageIds.indexOf(currentPageId) : -1;
+      if (newIndex !== -1) {
+        setCurrentPage(newIndex);
+      }
+    } catch (error) {
+      console.error('Failed to reorder pages:', error);
+      throw error;
+    }
+  };
+
   const deletePage = async (pageNumber: number) => {
     if (!currentBook) return;
 
@@ -318,8 +519,8 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
       const supabaseService = SupabaseService.getInstance();
       await supabaseService.deleteStoryPage(pageNumber, currentBook.id);
       
-      // If we deleted the current page and it was the last page, go to previous page
-      if (pageNumber === currentPage + 1 && currentPage >= totalPages - 1) {
+      // Pages after the deleted one move up; if we deleted the last page, go to the previous one
+      if (pageNumber < currentPage + 1 || (pageNumber === currentPage + 1 && currentPage >= totalPages - 1)) {
         setCurrentPage(Math.max(0, currentPage - 1));
       }
     } catch (error) {
@@ -328,14 +529,30 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
     }
   };
 
-  const pageContent = pages[currentPage] || {
-    title: '',
-    text: '',
-    image: '',
-    video: '',
-    background: '',
-    backgroundMusic: '',
-    quiz: null
+  const bookLanguage = currentBook?.language || DEFAULT_BOOK_LANGUAGE;
+
+  const availableLanguages = useMemo(() => {
+    const languages = new Set([bookLanguage]);
+    pageTranslations.forEach(translations => Object.keys(translations).forEach(language => languages.add(language)));
+    return [...languages];
+  }, [bookLanguage, pageTranslations]);
+
+  // A remembered language the book no longer has falls back to the book's own
+  const activeLanguage = availableLanguages.includes(readingLanguage) ? readingLanguage : bookLanguage;
+  const sourcePageContent = pages[currentPage] || EMPTY_PAGE;
+  const translation = activeLanguage !== bookLanguage ? pageTranslations[currentPage]?.[activeLanguage] : undefined;
+  const pageLanguage = translation ? activeLanguage : bookLanguage;
+
+  // Recorded narration is of the original text, so translated pages are read by speech synthesis
+  const pageContent = useMemo<PageContent>(() => (
+    translation
+      ? { ...sourcePageContent, ...translation, narrationAudio: undefined, narrationTimings: undefined }
+      : sourcePageContent
+  ), [sourcePageContent, translation]);
+
+  // Keeps the narrator's chosen voice when it speaks the page's language
+  const getNarratorVoice = (): SpeechSynthesisVoice | undefined => {
+    return findVoiceForLanguage(availableVoices, pageLanguage, availableVoices[voiceIndex]) || availableVoices[voiceIndex];
   };
 
   const nextPage = () => {
@@ -360,11 +577,33 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
     stopReading();
   };
 
-  const stopReading = () => {
+  const stopNarrationTrack = useCallback(() => {
+    if (narrationFrameRef.current !== null) {
+      cancelAnimationFrame(narrationFrameRef.current);
+      narrationFrameRef.current = null;
+    }
+
+    if (narrationAudioRef.current) {
+      const audio = narrationAudioRef.current;
+      narrationAudioRef.current = null;
+      audio.onended = null;
+      audio.onerror = null;
+      audio.pause();
+    }
+  }, []);
+
+  const stopReading = useCallback(() => {
+    if (speechPauseRef.current !== null) {
+      clearTimeout(speechPauseRef.current);
+      speechPauseRef.current = null;
+    }
+
     if (utteranceRef.current) {
       speechSynthesis.cancel();
       utteranceRef.current = null;
     }
+
+    stopNarrationTrack();
     
     // Stop background music when reading stops
     if (backgroundAudioRef.current) {
@@ -374,7 +613,7 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
     
     setIsReading(false);
     isReadingStoryRef.current = false;
-  };
+  }, [stopNarrationTrack]);
 
   // Generic text reading function for quiz questions and other text
   const readText = (text: string) => {
@@ -382,11 +621,13 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
       window.speechSynthesis.cancel();
     }
 
-    const utterance = new SpeechSynthesisUtterance(text);
+    const utterance = new SpeechSynthesisUtterance(stripStoryMarkup(text));
+    const narratorVoice = getNarratorVoice();
     
-    if (availableVoices[voiceIndex]) {
-      utterance.voice = availableVoices[voiceIndex];
+    if (narratorVoice) {
+      utterance.voice = narratorVoice;
     }
+    utterance.lang = pageLanguage;
     
     utterance.rate = rate;
     utterance.pitch = pitch;
@@ -429,72 +670,169 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
       });
     }
 
-    const words = pageContent.text.split(/\s+/).filter(word => word.length > 0);
+    const words = splitWords(pageContent.text);
     wordsRef.current = words;
     console.log('Total words:', words.length);
-    
-    const utterance = new SpeechSynthesisUtterance(pageContent.text);
-    
-    if (availableVoices[voiceIndex]) {
-      utterance.voice = availableVoices[voiceIndex];
-      console.log('Using voice:', availableVoices[voiceIndex].name);
+
+    // Prefer the recorded track; Web Speech boundary events are missing on many voices
+    const timings = pageContent.narrationTimings;
+    if (pageContent.narrationAudio && timings && timingsMatchText(timings, pageContent.text)) {
+      startNarrationTrack(pageContent.narrationAudio, timings, words);
+    } else {
+      if (pageContent.narrationAudio) {
+        console.warn('Narration timings do not match the page text, falling back to speech synthesis');
+      }
+      startSpeechSynthesis(words);
     }
-    
-    utterance.rate = rate;
-    utterance.pitch = pitch;
-    utterance.volume = isMuted ? 0 : volume;
-    
-    utteranceRef.current = utterance;
+  };
 
-    // Word highlighting using Web Speech API boundary events
-    utterance.onboundary = (event) => {
-      if (event.name === 'word' && isReadingStoryRef.current) {
-        const text = pageContent.text;
-        const beforeChar = text.substring(0, event.charIndex);
-        
-        // Count words more precisely by splitting the text before the current character
-        const wordsBefore = beforeChar.trim() === '' ? 0 : beforeChar.trim().split(/\s+/).length;
-        
-        if (wordsBefore >= 0 && wordsBefore < words.length) {
-          setCurrentWord(wordsBefore);
-          console.log(`Word boundary: ${wordsBefore}/${words.length} - "${words[wordsBefore]}"`);
-        }
+  const finishReading = (words: string[]) => {
+    setCurrentWord(words.length);
+    setIsReading(false);
+    setReadingComplete(true);
+    isReadingStoryRef.current = false;
+
+    // Stop background music when reading ends
+    if (backgroundAudioRef.current) {
+      backgroundAudioRef.current.pause();
+      backgroundAudioRef.current.currentTime = 0;
+    }
+
+    console.log('Reading completed - quiz should appear');
+  };
+
+  // Drives currentWord from the track's playback position
+  const startNarrationTrack = (audioUrl: string, timings: WordTiming[], words: string[]) => {
+    stopNarrationTrack();
+
+    const audio = new Audio(audioUrl);
+    audio.playbackRate = rate;
+    audio.volume = volume;
+    audio.muted = isMuted;
+    narrationAudioRef.current = audio;
+
+    // timeupdate only fires a few times a second, too coarse for word highlighting
+    const syncWord = () => {
+      if (narrationAudioRef.current !== audio || !isReadingStoryRef.current) return;
+
+      const index = findWordAtTime(timings, audio.currentTime);
+      if (index >= 0) {
+        setCurrentWord(Math.min(index, words.length - 1));
       }
+      narrationFrameRef.current = requestAnimationFrame(syncWord);
     };
 
-    utterance.onstart = () => {
-      console.log('Speech started');
-      setIsReading(true);
-      isReadingStoryRef.current = true;
+    audio.onended = () => {
+      console.log('Narration track ended');
+      stopNarrationTrack();
+      if (isReadingStoryRef.current) {
+        finishReading(words);
+      }
     };
 
-    utterance.onend = () => {
-      console.log('Speech ended');
+    audio.onerror = () => {
+      console.warn('Narration track failed to load, falling back to speech synthesis');
+      stopNarrationTrack();
       if (isReadingStoryRef.current) {
-        setCurrentWord(words.length);
-        setIsReading(false);
-        setReadingComplete(true);
-        isReadingStoryRef.current = false;
-        
-        // Stop background music when reading ends
-        if (backgroundAudioRef.current) {
-          backgroundAudioRef.current.pause();
-          backgroundAudioRef.current.currentTime = 0;
-        }
-        
-        console.log('Reading completed - quiz should appear');
+        startSpeechSynthesis(words);
       }
     };
 
-    utterance.onerror = (event) => {
-      // Only log actual errors, not interruptions which are expected
-      if (event.error !== 'interrupted') {
-        console.error('Speech synthesis error:', event);
-        stopReading();
+    audio.play()
+      .then(() => {
+        narrationFrameRef.current = requestAnimationFrame(syncWord);
+      })
+      .catch(error => {
+        // Playback blocked or unsupported: the error handler covers load failures
+        if (narrationAudioRef.current === audio) {
+          console.warn('Narration track playback failed:', error);
+          stopNarrationTrack();
+          if (isReadingStoryRef.current) {
+            startSpeechSynthesis(words);
+          }
+        }
+      });
+  };
+
+  // Reads the page one segment at a time so each character speaks in their own voice and
+  // [pause] tags leave a gap; word indexes stay page-wide so highlighting lines up
+  const startSpeechSynthesis = (words: string[]) => {
+    const segments = getSpeechSegments(parseStoryMarkup(pageContent.text));
+
+    const speakSegment = (segmentIndex: number) => {
+      speechPauseRef.current = null;
+      if (!isReadingStoryRef.current) return;
+
+      const segment = segments[segmentIndex];
+      if (!segment) {
+        utteranceRef.current = null;
+        finishReading(words);
+        return;
+      }
+
+      const utterance = new SpeechSynthesisUtterance(segment.words.join(' '));
+      const speakerVoice = segment.speaker ? getSpeakerVoice(segment.speaker) : null;
+      const voice = speakerVoice?.voiceName
+        ? availableVoices.find(available => available.name === speakerVoice.voiceName)
+        : getNarratorVoice();
+
+      if (voice) {
+        utterance.voice = voice;
       }
+      utterance.lang = pageLanguage;
+
+      utterance.rate = rate;
+      utterance.pitch = speakerVoice ? speakerVoice.pitch : pitch;
+      utterance.volume = isMuted ? 0 : volume;
+
+      utteranceRef.current = utterance;
+
+      // Word highlighting using Web Speech API boundary events
+      utterance.onboundary = (event) => {
+        if (event.name === 'word' && isReadingStoryRef.current) {
+          const beforeChar = utterance.text.substring(0, event.charIndex);
+          const wordsBefore = beforeChar.trim() === '' ? 0 : beforeChar.trim().split(/\s+/).length;
+          const wordIndex = segment.startWord + wordsBefore;
+
+          if (wordIndex < words.length) {
+            setCurrentWord(wordIndex);
+          }
+        }
+      };
+
+      utterance.onstart = () => {
+        setCurrentWord(segment.startWord);
+        setIsReading(true);
+      };
+
+      utterance.onend = () => {
+        if (utteranceRef.current !== utterance || !isReadingStoryRef.current) return;
+
+        const next = segments[segmentIndex + 1];
+        if (next && next.pauseBefore > 0) {
+          speechPauseRef.current = setTimeout(() => speakSegment(segmentIndex + 1), next.pauseBefore * 1000 / rate);
+        } else {
+          speakSegment(segmentIndex + 1);
+        }
+      };
+
+      utterance.onerror = (event) => {
+        // Only log actual errors, not interruptions which are expected
+        if (event.error !== 'interrupted') {
+          console.error('Speech synthesis error:', event);
+          stopReading();
+        }
+      };
+
+      speechSynthesis.speak(utterance);
     };
 
-    speechSynthesis.speak(utterance);
+    console.log('Speaking page in', segments.length, 'segments');
+    if (segments[0]?.pauseBefore) {
+      speechPauseRef.current = setTimeout(() => speakSegment(0), segments[0].pauseBefore * 1000 / rate);
+    } else {
+      speakSegment(0);
+    }
   };
 
   const toggleReading = () => {
@@ -511,29 +849,29 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
     if (utteranceRef.current) {
       utteranceRef.current.volume = !isMuted ? 0 : volume;
     }
+    if (narrationAudioRef.current) {
+      narrationAudioRef.current.muted = !isMuted;
+    }
   };
 
+  // Saves edits as a draft of the page; children keep reading the live page until the book is published
   const updatePageContent = async (content: Partial<PageContent>) => {
     if (!currentBook) return;
 
     try {
-      const updatedContent = { ...pageContent, ...content };
-      
-      // Update local state
-      const updatedPages = [...pages];
-      updatedPages[currentPage] = updatedContent;
-      setPages(updatedPages);
-      
-      // Try to update in Supabase
+      const updatedContent = { ...sourcePageContent, ...content };
       const supabaseService = SupabaseService.getInstance();
+      const livePage = await supabaseService.getStoryPage(currentPage + 1, currentBook.id);
+
+      if (livePage) {
+        await DraftService.getInstance().savePageDraft(livePage, toPageSnapshot(updatedContent));
+        return;
+      }
+
+      // Pages from the bundled story aren't in the database yet, so there's nothing to draft against
       await supabaseService.upsertStoryPage(currentPage + 1, {
-        title: updatedContent.title,
-        text: updatedContent.text,
-        image_url: updatedContent.image,
-        video_url: updatedContent.video,
-        background_url: updatedContent.background,
+        ...toPageSnapshot(updatedContent),
         background_music_url: updatedContent.backgroundMusic,
-        quiz_data: updatedContent.quiz,
         book_id: currentBook.id
       });
 
@@ -552,8 +890,115 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
       const filtered = prev.filter(a => a.pageTitle !== answer.pageTitle);
       return [...filtered, answer];
     });
+
+    if (currentBook && activeLearner) {
+      const learnerService = LearnerService.getInstance();
+      const learnerId = activeLearner.id;
+      const bookId = currentBook.id;
+      const pageNumber = currentPage + 1;
+      recordQuizResults(answer.results);
+      learnerService.recordQuizAttempt(learnerId, bookId, pageNumber, answer)
+        .catch(error => {
+          // Most likely offline; keep the result and send it when the connection returns
+          console.warn('Failed to record quiz attempt, queueing for sync:', error);
+          return OfflineService.getInstance().queueQuizAttempt(learnerId, bookId, pageNumber, answer);
+        })
+        .catch(error => console.warn('Failed to queue quiz attempt:', error));
+
+      // Spelling words go into the learner's word bank for later practice
+      const spellingWords = getSpellingWords(pageContent.quiz, answer.results, pageLanguage);
+      learnerService.recordQuizWords(learnerId, bookId, spellingWords)
+        .catch(error => console.warn('Failed to update word bank:', error));
+    }
+  };
+
+  const recordReadAloud = (score: ReadingScore, transcript: string) => {
+    if (!currentBook || !activeLearner) return;
+
+    LearnerService.getInstance()
+      .recordReadAloudAttempt(activeLearner.id, currentBook.id, currentPage + 1, pageLanguage, score, transcript)
+      .catch(error => console.warn('Failed to record read-aloud attempt:', error));
   };
 
+  const restoreProgress = async (bookId: string, learnerId: string) => {
+    // Another book or learner may have taken over while this was loading
+    const isStillRestoring = () =>
+      restoredProgressRef.current?.bookId === bookId && restoredProgressRef.current?.learnerId === learnerId;
+
+    try {
+      const learnerService = LearnerService.getInstance();
+      const progress = await learnerService.getProgress(learnerId, bookId);
+      if (!isStillRestoring()) return;
+      if (progress) {
+        progressRef.current = {
+          furthest_page: progress.furthest_page,
+          reading_seconds: progress.reading_seconds,
+          completed_at: progress.completed_at
+        };
+      }
+
+      // Finished books start again from the first page
+      if (!progress || progress.completed_at) return;
+
+      const resumePage = Math.min(progress.current_page, totalPagesRef.current - 1);
+      const attempts = await learnerService.getQuizAttempts(learnerId, bookId);
+      if (!isStillRestoring()) return;
+
+      // Latest attempt for each page already passed, so the end page still adds up
+      const latestByPage = new Map<number, QuizAnswer>();
+      attempts
+        .filter(attempt => attempt.page_number <= resumePage)
+        .forEach(attempt => latestByPage.set(attempt.page_number, {
+          pageTitle: attempt.page_title,
+          results: attempt.results,
+          score: attempt.score,
+          maxScore: attempt.max_score,
+          isCorrect: attempt.is_correct
+        }));
+
+      setQuizAnswers(Array.from(latestByPage.values()));
+      setCurrentPage(resumePage);
+    } catch (error) {
+      console.warn('Failed to restore reading progress:', error);
+    } finally {
+      if (isStillRestoring()) {
+        isProgressReadyRef.current = true;
+        readingStartRef.current = Date.now();
+      }
+    }
+  };
+
+  const saveProgress = async (page: number) => {
+    const owner = restoredProgressRef.current;
+    if (!owner || !isProgressReadyRef.current) return;
+
+    // Totals are kept locally so overlapping saves never lose reading time
+    const now = Date.now();
+    const progress = progressRef.current;
+    progress.reading_seconds += Math.round((now - readingStartRef.current) / 1000);
+    progress.furthest_page = Math.max(progress.furthest_page, page);
+    readingStartRef.current = now;
+
+    try {
+      const learnerService = LearnerService.getInstance();
+      await learnerService.saveProgress({
+        learner_id: owner.learnerId,
+        book_id: owner.bookId,
+        current_page: page,
+        furthest_page: progress.furthest_page,
+        total_pages: totalPagesRef.current,
+        reading_seconds: progress.reading_seconds,
+        completed_at: progress.completed_at
+      });
+    } catch (error) {
+      console.warn('Failed to save reading progress:', error);
+    }
+  };
+
+  // Effects below save through this so they run on their own triggers, not on every new saveProgress
+  const saveProgressRef = useRef(saveProgress);
+  saveProgressRef.current = saveProgress;
+
   const resetQuizAnswers = () => {
     setQuizAnswers([]);
   };
@@ -563,6 +1008,46 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
     resetPageState();
   }, [currentPage]);
 
+  // Resume the active learner where they left off once the book's pages are known
+  useEffect(() => {
+    if (!currentBook || !activeLearner || totalPages === 0) return;
+    const restored = restoredProgressRef.current;
+    if (restored?.bookId === currentBook.id && restored.learnerId === activeLearner.id) return;
+
+    // Hold saves until the new pair's progress is in, so nothing is written over it meanwhile
+    isProgressReadyRef.current = false;
+    restoredProgressRef.current = { bookId: currentBook.id, learnerId: activeLearner.id };
+    progressRef.current = { furthest_page: 0, reading_seconds: 0, completed_at: null };
+    if (restored) {
+      // A different learner took over the open book, so they start from their own page and answers
+      setCurrentPage(0);
+      setQuizAnswers([]);
+    }
+    restoreProgress(currentBook.id, activeLearner.id);
+  }, [currentBook, activeLearner, totalPages]);
+
+  // Save the page reached, plus reading time since the last save
+  useEffect(() => {
+    saveProgressRef.current(currentPage);
+  }, [currentPage]);
+
+  // Flush reading time when the tab is hidden or the book is closed
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        saveProgressRef.current(currentPageRef.current);
+      } else {
+        readingStartRef.current = Date.now();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      saveProgressRef.current(currentPageRef.current).then(() => refreshProgress());
+    };
+  }, [currentBook?.id, activeLearner?.id, refreshProgress]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -572,13 +1057,21 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
         backgroundAudioRef.current = null;
       }
     };
-  }, []);
+  }, [stopReading]);
 
   const value: BookContextType = {
     currentBook,
     currentPage,
     totalPages,
     pageContent,
+    sourcePageContent,
+    availableLanguages,
+    readingLanguage: activeLanguage,
+    setReadingLanguage,
+    pageLanguage,
+    showBilingual,
+    setShowBilingual,
+    glossary,
     currentWord,
     isReading,
     hasStartedReading,
@@ -599,13 +1092,19 @@ export const BookProvider: React.FC<BookProviderProps> = ({ children, onStoryCom
     setRate,
     setPitch,
     setVolume,
+    bookSpeakers,
+    getSpeakerVoice,
+    setSpeakerVoice,
     updatePageContent,
     refreshStoryData,
     addNewPage,
+    duplicatePage,
+    reorderPages,
     deletePage,
     readText,
     quizAnswers,
     addQuizAnswer,
+    recordReadAloud,
     resetQuizAnswers,
     setCurrentBook,
     loadBookSettings,
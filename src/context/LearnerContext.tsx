@@ -0,0 +1,185 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import { LearnerService } from '../services/LearnerService';
+import { AIGatewayService } from '../services/AIGatewayService';
+import { LearnerContext } from '../hooks/useLearner';
+import { LearnerProfile, ReadingProgress } from '../types/Learner';
+import { QuestionResult } from '../types/Quiz';
+import { DEFAULT_SKILL, estimateSkill, updateSkill } from '../utils/adaptiveQuiz';
+
+const ACTIVE_LEARNER_KEY = 'activeLearnerId';
+const CACHED_LEARNERS_KEY = 'cachedLearners';
+
+export const LearnerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user: parent } = useAuth();
+  const [learners, setLearners] = useState<LearnerProfile[]>([]);
+  const [activeLearnerId, setActiveLearnerId] = useState<string | null>(() => localStorage.getItem(ACTIVE_LEARNER_KEY));
+  const [progressByBook, setProgressByBook] = useState<Record<string, ReadingProgress>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeLearner = learners.find(learner => learner.id === activeLearnerId) || null;
+  const parentId = parent?.id;
+  const activeId = activeLearner?.id;
+  const needsSkillSeed = activeLearner !== null && activeLearner.skill_rating == null;
+
+  const replaceLearner = useCallback((learnerId: string, updates: Partial<LearnerProfile>) => {
+    setLearners(prev => prev.map(learner => learner.id === learnerId ? { ...learner, ...updates } : learner));
+  }, []);
+
+  const seedSkillRating = useCallback(async (learnerId: string) => {
+    try {
+      const learnerService = LearnerService.getInstance();
+      const attempts = await learnerService.getQuizAttempts(learnerId);
+      const skill = estimateSkill(attempts);
+      replaceLearner(learnerId, { skill_rating: skill });
+      await learnerService.updateLearner(learnerId, { skill_rating: skill });
+    } catch (err) {
+      console.warn('Failed to estimate learner skill:', err);
+    }
+  }, [replaceLearner]);
+
+  const loadLearners = useCallback(async (parentId: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      let loaded: LearnerProfile[];
+      try {
+        const learnerService = LearnerService.getInstance();
+        loaded = await learnerService.getLearners(parentId);
+        localStorage.setItem(CACHED_LEARNERS_KEY, JSON.stringify({ parentId, learners: loaded }));
+      } catch (err) {
+        // Offline: reuse the last list seen for this account
+        const cached = JSON.parse(localStorage.getItem(CACHED_LEARNERS_KEY) || 'null');
+        if (!cached || cached.parentId !== parentId) throw err;
+        loaded = cached.learners;
+      }
+      setLearners(loaded);
+
+      // Drop a remembered learner that belongs to another account
+      setActiveLearnerId(prev => prev && !loaded.some(learner => learner.id === prev) ? null : prev);
+    } catch (err) {
+      console.warn('Failed to load learners:', err);
+      setError('Failed to load learner profiles');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const refreshProgress = useCallback(async () => {
+    if (!activeId) {
+      setProgressByBook({});
+      return;
+    }
+
+    try {
+      const learnerService = LearnerService.getInstance();
+      const progress = await learnerService.getAllProgress(activeId);
+      setProgressByBook(Object.fromEntries(progress.map(entry => [entry.book_id, entry])));
+    } catch (err) {
+      console.warn('Failed to load reading progress:', err);
+    }
+  }, [activeId]);
+
+  // Follow the signed-in parent account
+  useEffect(() => {
+    if (parentId) {
+      loadLearners(parentId);
+    } else {
+      setLearners([]);
+      setProgressByBook({});
+    }
+  }, [parentId, loadLearners]);
+
+  // Remember the chosen learner across reloads on this device
+  useEffect(() => {
+    if (activeLearnerId) {
+      localStorage.setItem(ACTIVE_LEARNER_KEY, activeLearnerId);
+    } else {
+      localStorage.removeItem(ACTIVE_LEARNER_KEY);
+    }
+  }, [activeLearnerId]);
+
+  useEffect(() => {
+    refreshProgress();
+  }, [refreshProgress]);
+
+  // AI calls count against the chosen child's daily budget
+  useEffect(() => {
+    AIGatewayService.setLearnerId(activeId ?? null);
+  }, [activeId]);
+
+  // Learners created before adaptive mode start from their quiz history
+  useEffect(() => {
+    if (activeId && needsSkillSeed) {
+      seedSkillRating(activeId);
+    }
+  }, [activeId, needsSkillSeed, seedSkillRating]);
+
+  const selectLearner = (learnerId: string | null) => {
+    setActiveLearnerId(learnerId);
+  };
+
+  const addLearner = async (name: string, avatar: string) => {
+    if (!parent) {
+      throw new Error('Sign in to add learner profiles');
+    }
+
+    const learnerService = LearnerService.getInstance();
+    const learner = await learnerService.createLearner({ parent_id: parent.id, name, avatar });
+    setLearners(prev => [...prev, learner]);
+    setActiveLearnerId(learner.id);
+  };
+
+  const removeLearner = async (learnerId: string) => {
+    const learnerService = LearnerService.getInstance();
+    await learnerService.deleteLearner(learnerId);
+    setLearners(prev => prev.filter(learner => learner.id !== learnerId));
+    if (activeLearnerId === learnerId) {
+      setActiveLearnerId(null);
+    }
+  };
+
+  const setAdaptiveQuizzes = async (learnerId: string, enabled: boolean) => {
+    const learnerService = LearnerService.getInstance();
+    const updated = await learnerService.updateLearner(learnerId, { adaptive_quizzes: enabled });
+    replaceLearner(learnerId, updated);
+  };
+
+  // Moves the skill estimate on straight away; saving it is best effort, since a
+  // failed save is corrected next time from the stored rating plus later quizzes
+  const recordQuizResults = (results: QuestionResult[]) => {
+    if (!activeLearner) return;
+
+    const learnerId = activeLearner.id;
+    const skill = updateSkill(activeLearner.skill_rating ?? DEFAULT_SKILL, results);
+    replaceLearner(learnerId, { skill_rating: skill });
+
+    const learnerService = LearnerService.getInstance();
+    learnerService.updateLearner(learnerId, { skill_rating: skill }).catch(err => {
+      console.warn('Failed to save learner skill:', err);
+    });
+  };
+
+  const value = {
+    parent,
+    learners,
+    activeLearner,
+    progressByBook,
+    isLoading,
+    error,
+    selectLearner,
+    addLearner,
+    removeLearner,
+    refreshProgress,
+    setAdaptiveQuizzes,
+    recordQuizResults
+  };
+
+  return (
+    <LearnerContext.Provider value={value}>
+      {children}
+    </LearnerContext.Provider>
+  );
+};
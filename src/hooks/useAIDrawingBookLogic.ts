@@ -1,7 +1,12 @@
 import { useRef, useEffect, useState, useCallback } from 'react';
 import confetti from 'canvas-confetti';
-import { GeminiService } from '../services/GeminiService';
-import { PollinationsService } from '../services/PollinationsService';
+import { AIProviderService } from '../services/AIProviderService';
+import { AIBudgetExceededError, AIContentBlockedError } from '../services/AIGatewayService';
+import { explainAIError } from '../utils/aiErrors';
+import { takeCompleteSentences } from '../utils/narration';
+import { SpeechSynthesizer } from '../types/AIProviders';
+import { createColoringBookPdf } from '../utils/pdfExport';
+import { downloadBlob } from '../utils/fileUtils';
 import { resizeBase64Image, blobToBase64, getCanvasPos, hexToRgbA, getPixelColor, setPixelColor, colorsMatch } from '../utils/imageUtils';
 
 // Declare FFmpeg types for the older version
@@ -23,6 +28,15 @@ interface HistoryItem {
   storyImageBase64?: string;
 } 
 
+// A read-aloud under way: each sentence is voiced as soon as it's complete and played in order
+interface StoryNarration {
+  storyteller: SpeechSynthesizer;
+  queuedUpTo: number; // characters of the story already voiced or waiting to be
+  clips: Promise<Blob>[];
+  playback: Promise<void>; // settles once everything queued so far has played
+  stopped: boolean;
+}
+
 export const useAIDrawingBookLogic = () => {
   // Canvas refs
   const sketchCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -30,6 +44,10 @@ export const useAIDrawingBookLogic = () => {
   const webcamVideoRef = useRef<HTMLVideoElement | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const fadeIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Story streaming: the request to cancel, and the text so far (null when nothing is streaming)
+  const storyAbortRef = useRef<AbortController | null>(null);
+  const streamingStoryRef = useRef<string | null>(null);
+  const narrationRef = useRef<StoryNarration | null>(null);
 
   // Drawing state
   const [isDrawing, setIsDrawing] = useState(false);
@@ -114,6 +132,9 @@ export const useAIDrawingBookLogic = () => {
   const [ffmpegLoaded, setFfmpegLoaded] = useState(false);
   const [ffmpegLoading, setFfmpegLoading] = useState(false);
 
+  // Coloring book PDF state
+  const [isCreatingColoringBook, setIsCreatingColoringBook] = useState(false);
+
   // Color palette
   const colors = [
     "#FF0000", "#0000FF", "#00FF00", "#FFFF00", "#FF7F00",
@@ -123,7 +144,7 @@ export const useAIDrawingBookLogic = () => {
   const ffmpegRef = useRef<any>(null);
 
   // Confetti celebration function
-  const celebrateWithConfetti = () => {
+  const celebrateWithConfetti = useCallback(() => {
     // Multiple confetti bursts for extra celebration
     confetti({
       particleCount: 100,
@@ -151,10 +172,10 @@ export const useAIDrawingBookLogic = () => {
         colors: ['#ff6347', '#40e0d0', '#ee82ee', '#90ee90']
       });
     }, 600);
-  };
+  }, []);
 
   // Play win sound function
-  const playWinSound = () => {
+  const playWinSound = useCallback(() => {
     try {
       const winAudio = new Audio('/sounds/winSound.mp3');
       winAudio.volume = 0.5; // Set to 50% volume
@@ -179,7 +200,7 @@ export const useAIDrawingBookLogic = () => {
     } catch (error) {
       console.log('Error creating win sound:', error);
     }
-  };
+  }, []);
 
   // Background audio ref for better lifecycle management
   const bgAudioRef = useRef<HTMLAudioElement | null>(null);
@@ -220,34 +241,61 @@ export const useAIDrawingBookLogic = () => {
     loadFFmpeg().catch(console.error);
   }, [loadFFmpeg]);
 
-  // Typing effect function
-  const typeStory = useCallback((fullStory: string) => {
-    setIsTypingStory(true);
-    setDisplayedStory("");
+  // Enhanced cleanup function to ensure animation stops
+  const cleanupStoryAnimation = useCallback(() => {
+    console.log('🧹 Cleaning up story animation');
     
-    const words = fullStory.split(' ');
-    let currentWordIndex = 0;
+    // Clear the fade interval
+    if (fadeIntervalRef.current) {
+      clearInterval(fadeIntervalRef.current);
+      fadeIntervalRef.current = null;
+      console.log('⏰ Cleared fade interval');
+    }
     
-    const typeInterval = setInterval(() => {
-      if (currentWordIndex < words.length) {
-        setDisplayedStory(prev => {
-          const newText = prev + (prev ? ' ' : '') + words[currentWordIndex];
-          return newText;
-        });
-        currentWordIndex++;
-      } else {
-        clearInterval(typeInterval);
-        setIsTypingStory(false);
-        
-        // Play win sound and confetti when typing completes
-        setTimeout(() => {
-          playWinSound();
-          celebrateWithConfetti();
-        }, 500);
-      }
-    }, 150); // 150ms delay between words for smooth typing effect
+    // Stop and cleanup background music
+    if (bgAudioRef.current) {
+      bgAudioRef.current.pause();
+      bgAudioRef.current.currentTime = 0;
+      bgAudioRef.current = null;
+      console.log('🎵 Stopped background music');
+    }
+    
+    // Reset animation state
+    setShowStoryImage(false);
+    setIsReadingStory(false);
     
-    return () => clearInterval(typeInterval);
+    console.log('✅ Animation cleanup complete');
+  }, []);
+
+  // Stops a read-aloud that's under way, including sentences still waiting to be voiced
+  const stopNarration = useCallback(() => {
+    if (narrationRef.current) {
+      narrationRef.current.stopped = true;
+      narrationRef.current = null;
+    }
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current.src = "";
+      audioRef.current = null;
+    }
+  }, []);
+
+  // Stops a story that's still streaming in (or waiting for its picture) and any reading of it
+  const cancelStory = useCallback(() => {
+    if (storyAbortRef.current) {
+      storyAbortRef.current.abort();
+      storyAbortRef.current = null;
+      streamingStoryRef.current = null;
+      setIsGeneratingStory(false);
+      setIsTypingStory(false);
+    }
+    stopNarration();
+    cleanupStoryAnimation();
+  }, [stopNarration, cleanupStoryAnimation]);
+
+  // Don't keep the AI writing once the drawing book is gone
+  useEffect(() => {
+    return () => storyAbortRef.current?.abort();
   }, []);
 
   // Canvas setup effects
@@ -661,13 +709,15 @@ export const useAIDrawingBookLogic = () => {
         .getContext("2d")
         ?.clearRect(0, 0, coloringCanvas.width, coloringCanvas.height);
     }
+    cancelStory();
     setHasGeneratedContent(false);
     setCurrentPrompt("");
     setStory("");
+    setDisplayedStory("");
     setRecognizedImage("");
     setShowStorySection(false);
     setError(null);
-  }, []);
+  }, [cancelStory]);
 
   // AI functions
   const getDrawingIdea = async () => {
@@ -675,11 +725,11 @@ export const useAIDrawingBookLogic = () => {
     setError(null);
 
     try {
-      const idea = await GeminiService.getDrawingIdea();
+      const idea = await AIProviderService.getTextGenerator().getDrawingIdea();
       setCurrentPrompt(idea);
-    } catch (err: any) {
+    } catch (err) {
       console.error("Error getting idea:", err);
-      setError(err.message || "Could not get an idea right now. Please try again!");
+      setError(explainAIError(err, "Could not get an idea right now. Please try again!"));
     } finally {
       setIsGettingIdea(false);
     }
@@ -723,7 +773,7 @@ export const useAIDrawingBookLogic = () => {
         // Reuse: use previous prompt/description
         const sketchDescription = history[historyIdx!].recognizedImage;
         const imageGenerationPrompt = `${sketchDescription},coloring book style, line art, no fill, No sexual content , child friendly, black lines, white background`;
-        const imageBlob = await PollinationsService.generateImage(imageGenerationPrompt);
+        const imageBlob = await AIProviderService.getImageGenerator().generateImage(imageGenerationPrompt);
         const imageUrl = URL.createObjectURL(imageBlob);
 
         const img = new window.Image();
@@ -788,13 +838,12 @@ export const useAIDrawingBookLogic = () => {
         img.src = imageUrl;
       } else {
         // New drawing: call Gemini for description, then Pollinations
-        const sketchDescription = await GeminiService.recognizeImage(base64ImageData);
-        // Set recognized image but trim words like 'line sketch of' or 'photo of' or 'drawing of'
+        const sketchDescription = await AIProviderService.getVisionDescriber().describeDrawing(base64ImageData);
         setRecognizedImage(sketchDescription);
 
         // Generate coloring book image
         const imageGenerationPrompt = `Simple black line art of ${sketchDescription}, kids' coloring book, no fill, white background.`;
-        const imageBlob = await PollinationsService.generateImage(imageGenerationPrompt);
+        const imageBlob = await AIProviderService.getImageGenerator().generateImage(imageGenerationPrompt);
         const imageUrl = URL.createObjectURL(imageBlob);
 
         const img = new window.Image();
@@ -858,14 +907,84 @@ export const useAIDrawingBookLogic = () => {
         };
         img.src = imageUrl;
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error("Error generating image:", err);
-      setError(err.message || "Oops! Something went wrong while creating the drawing.");
+      setError(explainAIError(err, "Oops! Something went wrong while creating the drawing."));
     } finally {
       setIsGenerating(false);
     }
   };
 
+  const playClip = (audioBlob: Blob) => new Promise<void>((resolve, reject) => {
+    const audioUrl = URL.createObjectURL(audioBlob);
+    const audio = new Audio(audioUrl);
+    audioRef.current = audio;
+    audio.onended = () => {
+      URL.revokeObjectURL(audioUrl);
+      resolve();
+    };
+    audio.onerror = () => {
+      URL.revokeObjectURL(audioUrl);
+      reject(new Error("Could not play the story audio."));
+    };
+    audio.play().catch(reject);
+  });
+
+  const failNarration = (narration: StoryNarration, err: unknown) => {
+    if (narration.stopped) return;
+    console.log('💥 Error reading the story aloud:', err);
+    stopNarration();
+    cleanupStoryAnimation();
+    const fallback = `Could not read the story aloud using ${narration.storyteller.label}.`;
+    setError(err instanceof AIBudgetExceededError ? explainAIError(err, fallback) : fallback);
+  };
+
+  /**
+   * Voices the sentences of `text` that have finished since the last call and lines them up
+   * behind what's already playing. `final` means the story is complete: the last sentence is
+   * read too, and the reading wraps up once it has played.
+   */
+  const queueNarration = (narration: StoryNarration, text: string, final: boolean) => {
+    const { sentences, end } = takeCompleteSentences(text, narration.queuedUpTo);
+    const rest = final ? text.slice(end).trim() : "";
+    narration.queuedUpTo = final ? text.length : end;
+
+    (rest ? [...sentences, rest] : sentences).forEach(sentence => {
+      // Voiced straight away, so the next sentence is usually ready when the last one ends
+      const clip = narration.storyteller.synthesize(sentence);
+      clip.catch(() => undefined); // Reported when its turn comes to play
+      narration.clips.push(clip);
+      narration.playback = narration.playback.then(async () => {
+        if (narration.stopped) return;
+        try {
+          await playClip(await clip);
+        } catch (err) {
+          failNarration(narration, err);
+        }
+      });
+    });
+
+    if (!final) return;
+    narration.playback.then(async () => {
+      if (narration.stopped) return;
+      console.log('🎵 Story reading ended - starting cleanup');
+
+      // Store the audio for video generation; the clips play back to back as one recording
+      const clips = await Promise.all(narration.clips);
+      setGeneratedAudioBlob(new Blob(clips, { type: clips[0]?.type }));
+
+      narrationRef.current = null;
+      audioRef.current = null;
+      // Stop background music 
+      bgAudioRef.current?.pause();
+      bgAudioRef.current = null;
+      // play confetti celebration
+      celebrateWithConfetti();
+      // Clean up animation and state
+      cleanupStoryAnimation();
+    }).catch(err => failNarration(narration, err));
+  };
+
   const generateStory = async () => {
     // If selectedHistoryIndex is set and story exists in history, reuse it
     if (
@@ -884,24 +1003,52 @@ export const useAIDrawingBookLogic = () => {
       return;
     }
 
-    // Check if Gemini API key is configured
-    if (!GeminiService.getApiKey()) {
-      setError("Gemini API key not configured. Please add VITE_GEMINI_API_KEY to your .env file.");
+    // Check if the story writer is configured
+    if (!AIProviderService.getTextGenerator().isConfigured()) {
+      setError("AI gateway not configured. Please add VITE_SUPABASE_URL or VITE_AI_GATEWAY_URL to your .env file.");
       return;
     }
+    cancelStory();
+    const controller = new AbortController();
+    storyAbortRef.current = controller;
+    streamingStoryRef.current = "";
     setIsGeneratingStory(true);
     setError(null);
+    setStory("");
+    setDisplayedStory("");
 
     try {
-      const storyText = await GeminiService.generateStory(recognizedImage);
+      // Show the story as it's written; a reading started meanwhile picks up each finished sentence
+      let streamedText = "";
+      for await (const piece of AIProviderService.getTextGenerator().streamStory(recognizedImage, controller.signal)) {
+        streamedText += piece;
+        streamingStoryRef.current = streamedText;
+        setIsGeneratingStory(false);
+        setIsTypingStory(true);
+        setDisplayedStory(streamedText);
+        if (narrationRef.current) {
+          queueNarration(narrationRef.current, streamedText, false);
+        }
+      }
+
+      streamingStoryRef.current = null;
+      if (narrationRef.current) {
+        queueNarration(narrationRef.current, streamedText, true);
+      }
+      const storyText = streamedText.trim();
       setStory(storyText);
-      
-      // Start typing effect for the story
-      typeStory(storyText);
+      setIsTypingStory(false);
+
+      // Play win sound and confetti when the story is complete
+      setTimeout(() => {
+        playWinSound();
+        celebrateWithConfetti();
+      }, 500);
 
       // Story image generation disabled due to CORS/network issues
-      const storyImageBlob = await PollinationsService.generateImage("colorful child scene+no+nudit" + storyText);
+      const storyImageBlob = await AIProviderService.getImageGenerator().generateImage("colorful child scene+no+nudit" + storyText);
       const storyImageBase64 = await blobToBase64(storyImageBlob); 
+      if (controller.signal.aborted) return; // Cleared while the picture was being made
       setStoryImageBase64(storyImageBase64);
       // setStoryImageBase64(null);
 
@@ -916,15 +1063,20 @@ export const useAIDrawingBookLogic = () => {
         );
       }
     } catch (err: any) {
+      // The child cleared the canvas or started over; there's nothing to report
+      if (controller.signal.aborted) return;
       console.error("Error generating story:", err);
+      cancelStory();
       
       // Provide more specific error messages based on the error type
       let errorMessage = "The storyteller seems to be napping! Please try again.";
       
-      if (err.message && err.message.includes('Failed to fetch')) {
-        errorMessage = "Unable to connect to the story generator. Please check your internet connection and API key configuration.";
+      if (err instanceof AIContentBlockedError || err instanceof AIBudgetExceededError) {
+        errorMessage = explainAIError(err, errorMessage);
+      } else if (err.message && err.message.includes('Failed to fetch')) {
+        errorMessage = "Unable to connect to the story generator. Please check your internet connection and AI gateway configuration.";
       } else if (err.message && err.message.includes('API key')) {
-        errorMessage = "Invalid API key. Please check your VITE_GEMINI_API_KEY in your .env file.";
+        errorMessage = "The AI gateway's Gemini API key is missing or invalid.";
       } else if (err.message && err.message.includes('quota')) {
         errorMessage = "API quota exceeded. Please check your Gemini API usage limits.";
       } else if (err.message) {
@@ -935,54 +1087,28 @@ export const useAIDrawingBookLogic = () => {
       setStory("");
       setStoryImageBase64(null); 
     } finally {
-      setIsGeneratingStory(false);
+      if (storyAbortRef.current === controller) {
+        storyAbortRef.current = null;
+        setIsGeneratingStory(false);
+      }
     }
   };
 
-  // Enhanced cleanup function to ensure animation stops
-  const cleanupStoryAnimation = useCallback(() => {
-    console.log('🧹 Cleaning up story animation');
-    
-    // Clear the fade interval
-    if (fadeIntervalRef.current) {
-      clearInterval(fadeIntervalRef.current);
-      fadeIntervalRef.current = null;
-      console.log('⏰ Cleared fade interval');
-    }
-    
-    // Stop and cleanup background music
-    if (bgAudioRef.current) {
-      bgAudioRef.current.pause();
-      bgAudioRef.current.currentTime = 0;
-      bgAudioRef.current = null;
-      console.log('🎵 Stopped background music');
-    }
-    
-    // Reset animation state
-    setShowStoryImage(false);
-    setIsReadingStory(false);
-    
-    console.log('✅ Animation cleanup complete');
-  }, []);
-
-  // FIXED: Completely rewritten handleReadStory with proper cleanup
-  const handleReadStory = async (storytellerType: 'pollinations' | 'elevenlabs' = 'pollinations') => {
-    if (!story) return;
+  // Reads the story aloud; while it's still streaming in, reading starts on the finished sentences
+  const handleReadStory = () => {
+    const streamedText = streamingStoryRef.current;
+    const storyText = streamedText ?? story;
+    if (!storyText) return;
     
+    const storyteller = AIProviderService.getSpeechSynthesizer();
     console.log('🎬 Starting handleReadStory');
-    console.log('🎭 Using storyteller:', storytellerType);
+    console.log('🎭 Using storyteller:', storyteller.label);
     console.log('📸 Current storyImageBase64:', !!storyImageBase64);
     console.log('🎨 hasGeneratedContent:', hasGeneratedContent);
     
     // STEP 1: Complete cleanup of any existing state
     cleanupStoryAnimation();
-    
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current.src = "";
-      audioRef.current = null;
-      console.log('🔇 Stopped existing audio');
-    }
+    stopNarration();
     
     // STEP 2: Force reset animation state
     setShowStoryImage(false);
@@ -1001,134 +1127,68 @@ export const useAIDrawingBookLogic = () => {
     
     console.log('🖼️ Final story image check:', !!currentStoryImage);
     
-    try {
-      let audioBlob: Blob;
-      
-      if (storytellerType === 'elevenlabs') {
-        // Use ElevenLabs TTS
-        const { ElevenLabsService } = await import('../services/ElevenLabsService');
-        const storyText = `Tell a 4 year old kid a moral story about ${story}`;
-        audioBlob = await ElevenLabsService.generateTTSAudio(storyText);
-        console.log('🎤 Generated audio using ElevenLabs TTS');
-      } else {
-        // Use existing Pollinations AI
-        const pollinationsApiKey = import.meta.env.VITE_POLLINATIONS_API_KEY;
-        if (!pollinationsApiKey) {
-          throw new Error('Pollinations AI API key not configured. Please add VITE_POLLINATIONS_API_KEY to your .env file.');
-        }
+    // Play background music at a lower volume using local file
+    const bgAudio = new Audio('/sounds/pianoSound.mp3');
+    bgAudio.loop = true; // Re-added to loop during story reading
+    bgAudio.volume = 0.1;
+    bgAudioRef.current = bgAudio;
+    
+    // Wait for background music to be ready before playing
+    bgAudio.oncanplaythrough = () => {
+      bgAudio.play().catch(e => {
+        console.log('Background music play failed:', e);
+      });
+    };
+    
+    bgAudio.onerror = (e) => {
+      console.log('Background music loading failed:', e);
+    };
+    
+    // If already loaded, play immediately
+    if (bgAudio.readyState >= 3) {
+      bgAudio.play().catch(e => {
+        console.log('Background music play failed:', e);
+      });
+    }
 
-        const encodedStory = encodeURIComponent(story);
-        const voice = "alloy";
-        // Add the API key as a query parameter using Bearer token method
-        const url = `https://text.pollinations.ai/'tell a 4 year old kid a moral story about '${encodedStory}?model=openai-audio&voice=${voice}&token=${pollinationsApiKey}`;
-        const response = await fetch(url);
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`Failed to generate audio from Pollinations AI: ${response.status} ${response.statusText} - ${errorText}`);
-        }
-        audioBlob = await response.blob();
-        console.log('🎤 Generated audio using Pollinations AI');
-      }
-      
-      // Store the audio blob for video generation
-      setGeneratedAudioBlob(audioBlob);
-      
-      const audioUrl = URL.createObjectURL(audioBlob);
-      const audio = new Audio(audioUrl);
-
-      // Play background music at a lower volume using local file
-      const bgAudio = new Audio('/sounds/pianoSound.mp3');
-      bgAudio.loop = true; // Re-added to loop during story reading
-      bgAudio.volume = 0.1;
-      bgAudioRef.current = bgAudio;
-      
-      // Wait for background music to be ready before playing
-      bgAudio.oncanplaythrough = () => {
-        bgAudio.play().catch(e => {
-          console.log('Background music play failed:', e);
-        });
-      };
-      
-      bgAudio.onerror = (e) => {
-        console.log('Background music loading failed:', e);
-      };
+    // STEP 4: Start animation cycle ONLY if we have both story image and generated content
+    if (currentStoryImage && hasGeneratedContent) {
+      console.log('🎭 Starting animation cycle');
       
-      // If already loaded, play immediately
-      if (bgAudio.readyState >= 3) {
-        bgAudio.play().catch(e => {
-          console.log('Background music play failed:', e);
-        });
-      }
-
-      // STEP 4: Start animation cycle ONLY if we have both story image and generated content
-      if (currentStoryImage && hasGeneratedContent) {
-        console.log('🎭 Starting animation cycle');
+      // Force a small delay to ensure state is updated
+      setTimeout(() => {
+        setShowStoryImage(true);
+        console.log('👁️ Set story image visible');
         
-        // Force a small delay to ensure state is updated
+        // Start the alternating cycle after initial display
         setTimeout(() => {
-          setShowStoryImage(true);
-          console.log('👁️ Set story image visible');
-          
-          // Start the alternating cycle after initial display
-          setTimeout(() => {
-            fadeIntervalRef.current = setInterval(() => {
-              setShowStoryImage((prev) => {
-                const newValue = !prev;
-                console.log('🔄 Toggling story image visibility:', newValue);
-                return newValue;
-              });
-            }, 5000); // 5 seconds for each image
-            console.log('⏰ Started fade interval');
-          }, 5000); // Show story image for 5 seconds first
-        }, 100); // Small delay to ensure state update
-      } else {
-        console.log('❌ Animation not started - missing requirements:', {
-          hasStoryImage: !!currentStoryImage,
-          hasGeneratedContent
-        });
-      }
-
-      audioRef.current = audio;
-      audio.play();
-
-      // FIXED: Enhanced audio.onended with proper cleanup
-      audio.onended = () => {
-        console.log('🎵 Audio ended - starting cleanup');
-        
-        // Stop background music 
-        bgAudioRef.current?.pause();
-        bgAudioRef.current = null;
-        console.log('🎵 Background music stopped');
-        // play confetti celebration
-        celebrateWithConfetti();
-        // Clean up animation and state
-        cleanupStoryAnimation();
-        
-        // Clean up audio resources
-        URL.revokeObjectURL(audioUrl);
-        audioRef.current = null;
-        console.log('✅ Audio cleanup complete');
-      };
-      
-      // FIXED: Enhanced audio.onerror with proper cleanup
-      audio.onerror = () => {
-        console.log('❌ Audio error - starting cleanup');
-        
-        // Clean up animation and state
-        cleanupStoryAnimation();
-        
-        // Clean up audio resources
-        URL.revokeObjectURL(audioUrl);
-        audioRef.current = null;
-        
-        setError("Could not play the story audio.");
-        console.log('✅ Audio error cleanup complete');
-      };
-    } catch (err) {
-      console.log('💥 Error in handleReadStory:', err);
-      setError(`Could not generate audio for the story using ${storytellerType}.`);
-      cleanupStoryAnimation();
+          fadeIntervalRef.current = setInterval(() => {
+            setShowStoryImage((prev) => {
+              const newValue = !prev;
+              console.log('🔄 Toggling story image visibility:', newValue);
+              return newValue;
+            });
+          }, 5000); // 5 seconds for each image
+          console.log('⏰ Started fade interval');
+        }, 5000); // Show story image for 5 seconds first
+      }, 100); // Small delay to ensure state update
+    } else {
+      console.log('❌ Animation not started - missing requirements:', {
+        hasStoryImage: !!currentStoryImage,
+        hasGeneratedContent
+      });
     }
+
+    // Read with the voice chosen in Settings
+    const narration: StoryNarration = {
+      storyteller,
+      queuedUpTo: 0,
+      clips: [],
+      playback: Promise.resolve(),
+      stopped: false
+    };
+    narrationRef.current = narration;
+    queueNarration(narration, storyText, streamedText === null);
   };
 
 // Generate and download video with static layout
@@ -1352,11 +1412,35 @@ const generateAndDownloadVideo = useCallback(async () => {
   }
 }, [ffmpegLoaded, ffmpegLoading, loadFFmpeg, selectedHistoryIndex, history, generatedAudioBlob, celebrateWithConfetti, playWinSound]);
 
+  // Print every generated picture as a coloring book, one per page
+  const downloadColoringBook = useCallback(async () => {
+    if (history.length === 0) {
+      setError('Create a drawing first, then print it as a coloring page.');
+      return;
+    }
+
+    setIsCreatingColoringBook(true);
+    setError(null);
+    try {
+      const blob = await createColoringBookPdf('My Coloring Book', history.map(item => ({
+        image: item.generated,
+        caption: item.recognizedImage || item.prompt
+      })));
+      downloadBlob(blob, 'coloring-book.pdf');
+    } catch (err) {
+      console.error('Error creating coloring book:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create the coloring book');
+    } finally {
+      setIsCreatingColoringBook(false);
+    }
+  }, [history]);
+
   
 
   // History handlers
   const handleSelectHistory = (idx: number) => {
     console.log('📚 Selecting history item:', idx);
+    cancelStory();
     setSelectedHistoryIndex(idx);
     const item = history[idx];
     setRecognizedImage(item.recognizedImage);
@@ -1458,11 +1542,11 @@ const generateAndDownloadVideo = useCallback(async () => {
       setIsGenerating(true);
       setError(null);
       
-      const sketchDescription = await GeminiService.recognizePhoto(base64Image);
+      const sketchDescription = await AIProviderService.getVisionDescriber().describeDrawing(base64Image);
       setRecognizedImage(sketchDescription);
 
       const imageGenerationPrompt = `A black connected line drawing of: ${sketchDescription} for children's coloring book with no internal colors, on a plain white background.`;
-      const imageBlob = await PollinationsService.generateImage(imageGenerationPrompt);
+      const imageBlob = await AIProviderService.getImageGenerator().generateImage(imageGenerationPrompt);
       const generatedBase64 = await blobToBase64(imageBlob);
 
       // Draw to coloring canvas
@@ -1503,8 +1587,8 @@ const generateAndDownloadVideo = useCallback(async () => {
       });
       setSelectedHistoryIndex(history.length >= 5 ? 4 : history.length);
       setShowStorySection(true);
-    } catch (err: any) {
-      setError(err.message || "Could not process photo.");
+    } catch (err) {
+      setError(explainAIError(err, "Could not process photo."));
     } finally {
       setIsGenerating(false);
     }
@@ -1515,6 +1599,9 @@ const generateAndDownloadVideo = useCallback(async () => {
     setError(null);
   };
 
+  // Reading aloud can start once the first sentence is complete, even while the rest streams in
+  const canReadStory = !!story || (isTypingStory && takeCompleteSentences(displayedStory).sentences.length > 0);
+
   return {
     // Refs
     sketchCanvasRef,
@@ -1532,6 +1619,7 @@ const generateAndDownloadVideo = useCallback(async () => {
     isGeneratingStory,
     isTypingStory,
     displayedStory,
+    canReadStory,
     showStorySection,
     error,
     isReadingStory,
@@ -1548,6 +1636,10 @@ const generateAndDownloadVideo = useCallback(async () => {
     ffmpegLoaded,
     ffmpegLoading,
     generateAndDownloadVideo,
+
+    // Coloring book PDF
+    isCreatingColoringBook,
+    downloadColoringBook,
     
     // Drawing handlers
     startDrawing,
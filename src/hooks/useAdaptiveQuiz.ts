@@ -0,0 +1,22 @@
+import { useMemo } from 'react';
+import { useBook } from '../context/BookContext';
+import { useLearner } from './useLearner';
+import { QuestionLevel, QuizData } from '../types/Quiz';
+import { adaptQuiz, chooseLevel, DEFAULT_SKILL } from '../utils/adaptiveQuiz';
+
+/**
+ * The page quiz as the active learner should see it. Readers without a profile, or with
+ * adaptive mode switched off, always get the standard questions.
+ */
+export const useAdaptiveQuiz = (quiz: QuizData | undefined): { quiz: QuizData | undefined; level: QuestionLevel } => {
+  const { currentBook } = useBook();
+  const { activeLearner } = useLearner();
+
+  const isAdaptive = !!activeLearner?.adaptive_quizzes && !!currentBook;
+  const level = isAdaptive
+    ? chooseLevel(activeLearner.skill_rating ?? DEFAULT_SKILL, currentBook.difficulty_level)
+    : 'standard';
+
+  const adapted = useMemo(() => adaptQuiz(quiz, level), [quiz, level]);
+  return { quiz: adapted, level };
+};
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import { User } from '../services/AuthService';
+
+export interface AuthContextType {
+  user: User | null;
+  isCheckingAuth: boolean;
+  canEditContent: boolean;
+  canDeleteBooks: boolean;
+  canManageRoles: boolean;
+  refreshUser: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
@@ -0,0 +1,29 @@
+import { createContext, useContext } from 'react';
+import { User } from '../services/AuthService';
+import { LearnerProfile, ReadingProgress } from '../types/Learner';
+import { QuestionResult } from '../types/Quiz';
+
+export interface LearnerContextType {
+  parent: User | null;
+  learners: LearnerProfile[];
+  activeLearner: LearnerProfile | null;
+  progressByBook: Record<string, ReadingProgress>;
+  isLoading: boolean;
+  error: string | null;
+  selectLearner: (learnerId: string | null) => void;
+  addLearner: (name: string, avatar: string) => Promise<void>;
+  removeLearner: (learnerId: string) => Promise<void>;
+  refreshProgress: () => Promise<void>;
+  setAdaptiveQuizzes: (learnerId: string, enabled: boolean) => Promise<void>;
+  recordQuizResults: (results: QuestionResult[]) => void;
+}
+
+export const LearnerContext = createContext<LearnerContextType | undefined>(undefined);
+
+export const useLearner = () => {
+  const context = useContext(LearnerContext);
+  if (context === undefined) {
+    throw new Error('useLearner must be used within a LearnerProvider');
+  }
+  return context;
+};
@@ -0,0 +1,253 @@
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { TranscriptionService } from '../services/TranscriptionService';
+import { ReadingScore, WordMatch, matchReading, normalizeSpokenWord, scoreReading, splitTranscript } from '../utils/readAloud';
+
+// The parts of the Web Speech API recognition interface used here; TypeScript's DOM lib leaves it out
+interface SpeechRecognitionInstance {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { results: SpeechRecognitionResultList }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition?: new () => SpeechRecognitionInstance;
+    webkitSpeechRecognition?: new () => SpeechRecognitionInstance;
+  }
+}
+
+// How often a local model re-transcribes the recording so far, for live highlighting
+const LOCAL_TRANSCRIBE_INTERVAL_MS = 3000;
+
+const getRecognitionClass = () => window.SpeechRecognition || window.webkitSpeechRecognition;
+
+const releaseMicrophone = (streamRef: { current: MediaStream | null }) => {
+  streamRef.current?.getTracks().forEach(track => track.stop());
+  streamRef.current = null;
+};
+
+const lastScoredWord = (pageWords: string[]): number => {
+  for (let index = pageWords.length - 1; index >= 0; index--) {
+    if (normalizeSpokenWord(pageWords[index])) return index;
+  }
+  return -1;
+};
+
+/**
+ * "You read it" mode: listens to the child reading the page aloud and matches what's heard
+ * against the page words as they go. Uses the browser's speech recognition, or a locally
+ * hosted Whisper server (see TranscriptionService) where the browser has none. Stops by
+ * itself once the last word is reached.
+ */
+export const useReadAloud = (
+  pageWords: string[],
+  language: string,
+  onFinish?: (score: ReadingScore, transcript: string) => void
+) => {
+  const [isListening, setIsListening] = useState(false);
+  const [isScoring, setIsScoring] = useState(false);
+  const [transcript, setTranscript] = useState('');
+  const [score, setScore] = useState<ReadingScore | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const recognitionRef = useRef<SpeechRecognitionInstance | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const recordedChunksRef = useRef<Blob[]>([]);
+  const recordingLanguageRef = useRef(language);
+  const listeningRef = useRef(false);
+  const startedAtRef = useRef(0);
+  const transcriptRef = useRef('');
+  // Text heard in earlier recognition sessions; browsers end a session after a pause
+  const committedRef = useRef('');
+  const pageWordsRef = useRef(pageWords);
+  const onFinishRef = useRef(onFinish);
+  pageWordsRef.current = pageWords;
+  onFinishRef.current = onFinish;
+
+  const isSupported = !!getRecognitionClass() ||
+    (TranscriptionService.isConfigured() && typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices);
+
+  const matches = useMemo<(WordMatch | null)[]>(
+    () => matchReading(pageWords, splitTranscript(transcript), score !== null),
+    [pageWords, transcript, score]
+  );
+
+  const finish = useCallback((finalTranscript: string, endedAt: number) => {
+    const words = pageWordsRef.current;
+    const seconds = Math.max((endedAt - startedAtRef.current) / 1000, 1);
+    const result = scoreReading(words, matchReading(words, splitTranscript(finalTranscript), true), seconds);
+
+    transcriptRef.current = finalTranscript;
+    setTranscript(finalTranscript);
+    setScore(result);
+    onFinishRef.current?.(result, finalTranscript);
+  }, []);
+
+  const stop = useCallback(() => {
+    if (!listeningRef.current) return;
+    listeningRef.current = false;
+    setIsListening(false);
+    const endedAt = Date.now();
+
+    const recognition = recognitionRef.current;
+    if (recognition) {
+      recognitionRef.current = null;
+      recognition.onresult = null;
+      recognition.onend = null;
+      recognition.stop();
+      finish(transcriptRef.current, endedAt);
+      return;
+    }
+
+    const recorder = recorderRef.current;
+    if (recorder) {
+      // The recorder's stop handler runs the final transcription
+      setIsScoring(true);
+      recorder.onstop = () => {
+        recorderRef.current = null;
+        releaseMicrophone(streamRef);
+        const audio = new Blob(recordedChunksRef.current, { type: recorder.mimeType });
+        TranscriptionService.transcribe(audio, recordingLanguageRef.current)
+          .then(text => finish(text, endedAt))
+          .catch(err => setError(err instanceof Error ? err.message : 'Failed to transcribe your reading'))
+          .finally(() => setIsScoring(false));
+      };
+      recorder.stop();
+    }
+  }, [finish]);
+
+  const startRecognition = (Recognition: new () => SpeechRecognitionInstance) => {
+    const recognition = new Recognition();
+    recognition.lang = language;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+
+    recognition.onresult = (event) => {
+      const heard = Array.from(event.results).map(result => result[0]?.transcript || '').join(' ');
+      transcriptRef.current = `${committedRef.current} ${heard}`.trim();
+      setTranscript(transcriptRef.current);
+    };
+
+    recognition.onerror = (event) => {
+      // A quiet moment isn't a failure; the session just restarts
+      if (event.error === 'no-speech' || event.error === 'aborted') return;
+      listeningRef.current = false;
+      setError(event.error === 'not-allowed'
+        ? 'Microphone access is blocked. Allow it in the browser to read aloud.'
+        : `Speech recognition stopped: ${event.error}`);
+    };
+
+    recognition.onend = () => {
+      if (listeningRef.current) {
+        committedRef.current = transcriptRef.current;
+        startRecognition(Recognition);
+      } else {
+        recognitionRef.current = null;
+        setIsListening(false);
+      }
+    };
+
+    recognitionRef.current = recognition;
+    recognition.start();
+  };
+
+  const startRecording = async () => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    streamRef.current = stream;
+    const recorder = new MediaRecorder(stream);
+    recordedChunksRef.current = [];
+    recordingLanguageRef.current = language;
+    let isTranscribing = false;
+
+    // Each chunk re-transcribes everything so far; chunks only decode from the first one on
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) recordedChunksRef.current.push(event.data);
+      if (!listeningRef.current || isTranscribing) return;
+
+      isTranscribing = true;
+      TranscriptionService.transcribe(new Blob(recordedChunksRef.current, { type: recorder.mimeType }), language)
+        .then(text => {
+          if (listeningRef.current) {
+            transcriptRef.current = text;
+            setTranscript(text);
+          }
+        })
+        .catch(err => console.warn('Failed to transcribe reading so far:', err))
+        .finally(() => {
+          isTranscribing = false;
+        });
+    };
+
+    recorderRef.current = recorder;
+    recorder.start(LOCAL_TRANSCRIBE_INTERVAL_MS);
+  };
+
+  const start = async () => {
+    if (listeningRef.current || isScoring) return;
+
+    setError(null);
+    setScore(null);
+    setTranscript('');
+    transcriptRef.current = '';
+    committedRef.current = '';
+    listeningRef.current = true;
+    setIsListening(true);
+    startedAtRef.current = Date.now();
+
+    try {
+      const Recognition = getRecognitionClass();
+      if (Recognition) {
+        startRecognition(Recognition);
+      } else {
+        await startRecording();
+      }
+    } catch (err) {
+      listeningRef.current = false;
+      setIsListening(false);
+      releaseMicrophone(streamRef);
+      setError(err instanceof Error ? err.message : 'Could not start listening');
+    }
+  };
+
+  // Drops any reading in progress without scoring it, e.g. when the page changes
+  const reset = useCallback(() => {
+    listeningRef.current = false;
+    if (recognitionRef.current) {
+      recognitionRef.current.onend = null;
+      recognitionRef.current.abort();
+      recognitionRef.current = null;
+    }
+    if (recorderRef.current) {
+      recorderRef.current.onstop = null;
+      recorderRef.current.ondataavailable = null;
+      recorderRef.current.stop();
+      recorderRef.current = null;
+    }
+    releaseMicrophone(streamRef);
+    transcriptRef.current = '';
+    setIsListening(false);
+    setIsScoring(false);
+    setTranscript('');
+    setScore(null);
+    setError(null);
+  }, []);
+
+  // Finished as soon as the last word on the page has been read
+  useEffect(() => {
+    const lastWord = lastScoredWord(pageWords);
+    if (isListening && lastWord !== -1 && matches[lastWord] !== null) {
+      stop();
+    }
+  }, [isListening, matches, pageWords, stop]);
+
+  useEffect(() => reset, [reset]);
+
+  return { isSupported, isListening, isScoring, transcript, matches, score, error, start, stop, reset };
+};
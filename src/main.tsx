@@ -1,11 +1,20 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { AuthProvider } from './context/AuthContext';
+import { LearnerProvider } from './context/LearnerContext';
+import { registerServiceWorker } from './utils/serviceWorker';
 import './index.css';
 import 'animate.css';
 
+registerServiceWorker();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <AuthProvider>
+      <LearnerProvider>
+        <App />
+      </LearnerProvider>
+    </AuthProvider>
   </StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,166 @@
+import { AuthService } from './AuthService';
+import {
+  AIGatewayErrorBody,
+  AIGatewayJsonEndpoint,
+  AIGatewayMediaEndpoint,
+  AIGatewayRequests,
+  AIGatewayResponses,
+  AIGatewayStreamChunk,
+  AIGatewayStreamEndpoint
+} from '../types/AIGateway';
+import { UsageScope } from '../types/Usage';
+
+// The provider's safety filters turned the request down; `reason` is the provider's own, e.g. 'SAFETY'
+export class AIContentBlockedError extends Error {
+  constructor(message: string, public reason: string) {
+    super(message);
+    this.name = 'AIContentBlockedError';
+  }
+}
+
+// A daily AI budget is used up; `scope` says whether it's the child's own or the whole classroom's
+export class AIBudgetExceededError extends Error {
+  constructor(message: string, public scope: UsageScope) {
+    super(message);
+    this.name = 'AIBudgetExceededError';
+  }
+}
+
+// Every AI provider call goes through the ai-gateway Edge Function, which holds the API keys
+export class AIGatewayService {
+  private static learnerId: string | null = null;
+
+  // The child using the app, whose daily budget AI calls count against
+  static setLearnerId(learnerId: string | null) {
+    this.learnerId = learnerId;
+  }
+
+  // VITE_AI_GATEWAY_URL points at the local stub (`npm run ai:stub`) or another deployment
+  static getUrl(): string {
+    const gatewayUrl = import.meta.env.VITE_AI_GATEWAY_URL;
+    if (gatewayUrl) {
+      return gatewayUrl.replace(/\/$/, '');
+    }
+
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    return supabaseUrl ? `${supabaseUrl.replace(/\/$/, '')}/functions/v1/ai-gateway` : '';
+  }
+
+  static isConfigured(): boolean {
+    return !!this.getUrl();
+  }
+
+  private static toError(errorData: AIGatewayErrorBody, fallback: string): Error {
+    if (errorData.code === 'blocked') {
+      return new AIContentBlockedError(errorData.error || 'The AI turned this request down', errorData.reason || 'OTHER');
+    }
+    if (errorData.code === 'budget') {
+      const scope = errorData.reason === 'child' ? 'child' : 'classroom';
+      return new AIBudgetExceededError(errorData.error || "Today's AI budget has been used up", scope);
+    }
+    return new Error(errorData.error || fallback);
+  }
+
+  private static async send(endpoint: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    const url = this.getUrl();
+    if (!url) {
+      throw new Error('AI gateway not configured. Please set VITE_SUPABASE_URL or VITE_AI_GATEWAY_URL.');
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+    if (anonKey) {
+      headers.apikey = anonKey;
+    }
+    // The gateway rate-limits per user, so calls carry the signed-in user's token
+    const session = await AuthService.getInstance().getSession();
+    if (session?.access_token) {
+      headers.Authorization = `Bearer ${session.access_token}`;
+    }
+    if (this.learnerId) {
+      headers['X-Learner-Id'] = this.learnerId;
+    }
+
+    const response = await fetch(`${url}/${endpoint}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorData: AIGatewayErrorBody = await response.json().catch(() => ({}));
+      if (response.status === 401) {
+        throw new Error('Please sign in to use the AI features.');
+      }
+      // A used-up daily budget is a 429 too, but waiting a minute won't help
+      if (response.status === 429 && errorData.code !== 'budget') {
+        const retryAfter = response.headers.get('Retry-After');
+        throw new Error(`Too many AI requests. Please try again in ${retryAfter ? `${retryAfter} seconds` : 'a minute'}.`);
+      }
+      throw this.toError(errorData, `AI gateway error (${response.status}): ${response.statusText}`);
+    }
+
+    return response;
+  }
+
+  static async request<E extends AIGatewayJsonEndpoint>(
+    endpoint: E,
+    body: AIGatewayRequests[E]
+  ): Promise<AIGatewayResponses[E]> {
+    const response = await this.send(endpoint, body);
+    return response.json();
+  }
+
+  // Endpoints that reply with an image or audio file
+  static async requestMedia<E extends AIGatewayMediaEndpoint>(endpoint: E, body: AIGatewayRequests[E]): Promise<Blob> {
+    const response = await this.send(endpoint, body);
+    return response.blob();
+  }
+
+  /**
+   * Yields each piece of text as the gateway streams it. Aborting the signal stops the stream and
+   * the provider's work behind it; the generator then throws an AbortError.
+   */
+  static async *stream<E extends AIGatewayStreamEndpoint>(
+    endpoint: E,
+    body: AIGatewayRequests[E],
+    signal?: AbortSignal
+  ): AsyncGenerator<string> {
+    const response = await this.send(endpoint, body, signal);
+    if (!response.body) {
+      throw new Error('This browser cannot read streamed AI replies.');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() ?? '';
+        for (const event of events) {
+          const lines = event.split('\n');
+          const name = lines.find(line => line.startsWith('event:'))?.slice(6).trim() || 'message';
+          const data = lines.filter(line => line.startsWith('data:')).map(line => line.slice(5).trim()).join('\n');
+
+          if (name === 'done') return;
+          if (name === 'error') {
+            throw this.toError(JSON.parse(data), 'The AI stopped partway through. Please try again.');
+          }
+          if (data) {
+            const chunk: AIGatewayStreamChunk = JSON.parse(data);
+            yield chunk.text;
+          }
+        }
+      }
+      throw new Error('The AI stopped partway through. Please try again.');
+    } finally {
+      reader.cancel().catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import {
+  AICapability,
+  AIProviderConfig,
+  HandwritingProviderId,
+  HandwritingRecognizer,
+  ImageGenerator,
+  SpeechSynthesizer,
+  TextGenerator,
+  VisionDescriber
+} from '../types/AIProviders';
+import { geminiHandwriting, geminiText, geminiVision } from './providers/GeminiProviders';
+import { pollinationsImage, pollinationsSpeech } from './providers/PollinationsProviders';
+import { elevenLabsSpeech } from './providers/ElevenLabsProviders';
+import { tesseractHandwriting } from './providers/TesseractRecognizer';
+import { fakeHandwriting, fakeImage, fakeSpeech, fakeText, fakeVision } from './providers/FakeProviders';
+
+const CONFIG_KEY = 'aiProviders';
+
+const TEXT_GENERATORS: Record<AIProviderConfig['text'], TextGenerator> = {
+  gemini: geminiText,
+  fake: fakeText
+};
+
+const VISION_DESCRIBERS: Record<AIProviderConfig['vision'], VisionDescriber> = {
+  gemini: geminiVision,
+  fake: fakeVision
+};
+
+const IMAGE_GENERATORS: Record<AIProviderConfig['image'], ImageGenerator> = {
+  pollinations: pollinationsImage,
+  fake: fakeImage
+};
+
+const SPEECH_SYNTHESIZERS: Record<AIProviderConfig['speech'], SpeechSynthesizer> = {
+  elevenlabs: elevenLabsSpeech,
+  pollinations: pollinationsSpeech,
+  fake: fakeSpeech
+};
+
+// Tried in order until one reads the expected word
+const HANDWRITING_RECOGNIZERS: Record<HandwritingProviderId, HandwritingRecognizer[]> = {
+  'tesseract-gemini': [tesseractHandwriting, geminiHandwriting],
+  tesseract: [tesseractHandwriting],
+  gemini: [geminiHandwriting],
+  fake: [fakeHandwriting]
+};
+
+const REAL_PROVIDERS: AIProviderConfig = {
+  text: 'gemini',
+  vision: 'gemini',
+  image: 'pollinations',
+  speech: 'elevenlabs',
+  handwriting: 'tesseract-gemini'
+};
+
+const FAKE_PROVIDERS: AIProviderConfig = {
+  text: 'fake',
+  vision: 'fake',
+  image: 'fake',
+  speech: 'fake',
+  handwriting: 'fake'
+};
+
+const listOptions = <Id extends string>(providers: Record<Id, { label: string }>) =>
+  (Object.keys(providers) as Id[]).map(id => ({ id, label: providers[id].label }));
+
+// The choices offered in Settings, in the order they're listed
+export const AI_PROVIDER_OPTIONS: { [C in AICapability]: { id: AIProviderConfig[C]; label: string }[] } = {
+  text: listOptions(TEXT_GENERATORS),
+  vision: listOptions(VISION_DESCRIBERS),
+  image: listOptions(IMAGE_GENERATORS),
+  speech: listOptions(SPEECH_SYNTHESIZERS),
+  handwriting: (Object.keys(HANDWRITING_RECOGNIZERS) as HandwritingProviderId[]).map(id => ({
+    id,
+    label: HANDWRITING_RECOGNIZERS[id].map(recognizer => recognizer.label).join(', then ')
+  }))
+};
+
+export const AI_CAPABILITY_LABELS: Record<AICapability, string> = {
+  text: 'Stories & text',
+  vision: 'Describing drawings',
+  image: 'Pictures',
+  speech: 'Voices',
+  handwriting: 'Reading handwriting'
+};
+
+/**
+ * Picks the backend for each AI capability. The choice is saved per device; set
+ * VITE_AI_PROVIDERS=fake to start every capability on its offline fake.
+ */
+export class AIProviderService {
+  static getDefaultConfig(): AIProviderConfig {
+    return import.meta.env.VITE_AI_PROVIDERS === 'fake' ? FAKE_PROVIDERS : REAL_PROVIDERS;
+  }
+
+  static getConfig(): AIProviderConfig {
+    const defaults = this.getDefaultConfig();
+    try {
+      const saved = JSON.parse(localStorage.getItem(CONFIG_KEY) || '{}');
+      // Drop saved choices that no longer exist
+      const config = { ...defaults };
+      (Object.keys(AI_PROVIDER_OPTIONS) as AICapability[]).forEach(capability => {
+        const isKnown = AI_PROVIDER_OPTIONS[capability].some(option => option.id === saved[capability]);
+        if (isKnown) {
+          Object.assign(config, { [capability]: saved[capability] });
+        }
+      });
+      return config;
+    } catch (error) {
+      console.warn('Failed to read AI provider settings:', error);
+      return defaults;
+    }
+  }
+
+  static saveConfig(config: AIProviderConfig): void {
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+  }
+
+  static getTextGenerator(): TextGenerator {
+    return TEXT_GENERATORS[this.getConfig().text];
+  }
+
+  static getVisionDescriber(): VisionDescriber {
+    return VISION_DESCRIBERS[this.getConfig().vision];
+  }
+
+  static getImageGenerator(): ImageGenerator {
+    return IMAGE_GENERATORS[this.getConfig().image];
+  }
+
+  static getSpeechSynthesizer(): SpeechSynthesizer {
+    return SPEECH_SYNTHESIZERS[this.getConfig().speech];
+  }
+
+  static getHandwritingRecognizers(): HandwritingRecognizer[] {
+    return HANDWRITING_RECOGNIZERS[this.getConfig().handwriting];
+  }
+}
@@ -1,9 +1,13 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, User as SupabaseUser } from '@supabase/supabase-js';
+
+export type UserRole = 'reader' | 'author' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['reader', 'author', 'admin'];
 
 export interface User {
   id: string;
   email: string;
-  role?: string;
+  role: UserRole;
 }
 
 export class AuthService {
@@ -73,11 +77,7 @@ export class AuthService {
         throw new Error('No user data returned');
       }
 
-      return {
-        id: data.user.id,
-        email: data.user.email || '',
-        role: data.user.user_metadata?.role || 'user'
-      };
+      return await this.toUser(data.user);
     } catch (error) {
       console.error('Error signing in:', error);
       throw error;
@@ -101,10 +101,11 @@ export class AuthService {
         throw new Error('No user data returned');
       }
 
+      // New accounts start as readers until an admin promotes them
       return {
         id: data.user.id,
         email: data.user.email || '',
-        role: 'user'
+        role: 'reader'
       };
     } catch (error) {
       console.error('Error signing up:', error);
@@ -168,11 +169,7 @@ export class AuthService {
           return null;
         }
 
-        return {
-          id: refreshData.session.user.id,
-          email: refreshData.session.user.email || '',
-          role: refreshData.session.user.user_metadata?.role || 'user'
-        };
+        return await this.toUser(refreshData.session.user);
       }
 
       // Session is valid, get user
@@ -180,6 +177,10 @@ export class AuthService {
       
       if (error) {
         console.warn('Error getting current user:', error.message);
+        // Keep the saved session while offline so offline books still know who is reading
+        if (!navigator.onLine) {
+          return await this.toUser(sessionData.session.user);
+        }
         // If JWT is invalid, clear the session
         if (error.message.includes('JWT') || error.message.includes('expired')) {
           await this.supabase.auth.signOut();
@@ -191,11 +192,7 @@ export class AuthService {
         return null;
       }
 
-      return {
-        id: user.id,
-        email: user.email || '',
-        role: user.user_metadata?.role || 'user'
-      };
+      return await this.toUser(user);
     } catch (error) {
       console.warn('Error getting current user:', error);
       // Clear any invalid session
@@ -242,15 +239,97 @@ export class AuthService {
         }
       }
 
-      const user: User = {
-        id: session.user.id,
-        email: session.user.email || '',
-        role: session.user.user_metadata?.role || 'user'
-      };
-      callback(user);
+      // Supabase holds its auth lock while this callback runs, so querying the
+      // profile here directly would deadlock; defer it until the lock is released
+      const sessionUser = session.user;
+      setTimeout(async () => {
+        callback(await this.toUser(sessionUser));
+      }, 0);
     });
   }
 
+  async getRole(userId: string): Promise<UserRole> {
+    if (!this.isConfigured || !this.supabase) {
+      return 'reader';
+    }
+
+    try {
+      const { data, error } = await this.supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.warn('Error loading user role:', error.message);
+        return 'reader';
+      }
+
+      return data && USER_ROLES.includes(data.role) ? data.role : 'reader';
+    } catch (error) {
+      console.warn('Error loading user role:', error);
+      return 'reader';
+    }
+  }
+
+  async getProfiles(): Promise<User[]> {
+    if (!this.isConfigured || !this.supabase) {
+      throw new Error('Supabase is not configured. Please check your environment variables.');
+    }
+
+    try {
+      const { data, error } = await this.supabase
+        .from('profiles')
+        .select('id, email, role')
+        .order('email', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching profiles:', error);
+        throw new Error(`Failed to fetch profiles: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getProfiles:', error);
+      throw error;
+    }
+  }
+
+  async updateRole(userId: string, role: UserRole): Promise<void> {
+    if (!this.isConfigured || !this.supabase) {
+      throw new Error('Supabase is not configured. Please check your environment variables.');
+    }
+
+    try {
+      const { data, error } = await this.supabase
+        .from('profiles')
+        .update({ role, updated_at: new Date().toISOString() })
+        .eq('id', userId)
+        .select('id');
+
+      if (error) {
+        console.error('Error updating role:', error);
+        throw new Error(`Failed to update role: ${error.message}`);
+      }
+
+      // RLS filters the update silently when the caller is not an admin
+      if (!data || data.length === 0) {
+        throw new Error('Only admins can change roles');
+      }
+    } catch (error) {
+      console.error('Error in updateRole:', error);
+      throw error;
+    }
+  }
+
+  private async toUser(user: SupabaseUser): Promise<User> {
+    return {
+      id: user.id,
+      email: user.email || '',
+      role: await this.getRole(user.id)
+    };
+  }
+
   async getSession() {
     if (!this.isConfigured || !this.supabase) {
       return null;
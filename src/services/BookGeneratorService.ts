@@ -0,0 +1,149 @@
+import { SupabaseService } from './SupabaseService';
+import { BookService } from './BookService';
+import { AIProviderService } from './AIProviderService';
+import { Book } from '../types/Book';
+import { BookDraft, BookDraftRequest, DraftPage } from '../types/BookDraft';
+import { BOOK_MEDIA_BUCKET, getMediaExtension } from '../utils/bookMedia';
+import {
+  buildBookDraftPrompt,
+  buildDraftPagePrompt,
+  buildIllustrationPrompt,
+  parseBookDraft,
+  parseDraftPage,
+  parseJsonReply
+} from '../utils/bookGeneration';
+
+// Book fields the author fills in themselves before saving a generated book
+export type GeneratedBookDetails = Pick<Book, 'author' | 'publisher' | 'is_active'>;
+
+export class BookGeneratorService {
+  private static instance: BookGeneratorService;
+  private supabase;
+
+  private constructor() {
+    this.supabase = SupabaseService.getInstance();
+  }
+
+  static getInstance(): BookGeneratorService {
+    if (!BookGeneratorService.instance) {
+      BookGeneratorService.instance = new BookGeneratorService();
+    }
+    return BookGeneratorService.instance;
+  }
+
+  async draftBook(request: BookDraftRequest): Promise<BookDraft> {
+    try {
+      const reply = await AIProviderService.getTextGenerator().draftContent(buildBookDraftPrompt(request));
+      const draft = parseBookDraft(parseJsonReply(reply), request.language);
+      return { ...draft, pages: draft.pages.slice(0, request.page_count) };
+    } catch (error) {
+      console.error('Error in draftBook:', error);
+      throw error;
+    }
+  }
+
+  async redraftPage(request: BookDraftRequest, draft: BookDraft, pageIndex: number): Promise<DraftPage> {
+    try {
+      const reply = await AIProviderService.getTextGenerator().draftContent(buildDraftPagePrompt(request, draft, pageIndex));
+      return parseDraftPage(parseJsonReply(reply), request.language);
+    } catch (error) {
+      console.error('Error in redraftPage:', error);
+      throw error;
+    }
+  }
+
+  // Pass a new seed to get a different picture for the same page
+  async illustratePage(draft: BookDraft, page: DraftPage, seed?: number): Promise<Blob> {
+    try {
+      return await AIProviderService.getImageGenerator().generateImage(buildIllustrationPrompt(draft, page), seed);
+    } catch (error) {
+      console.error('Error in illustratePage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Uploads the illustrations, then creates the book and its pages. The first illustration
+   * doubles as the cover. If a page fails to save the half-written book is removed again.
+   */
+  async saveBook(
+    request: BookDraftRequest,
+    draft: BookDraft,
+    illustrations: (Blob | null)[],
+    details: GeneratedBookDetails
+  ): Promise<Book> {
+    try {
+      const imageUrls = await this.uploadIllustrations(illustrations);
+      const coverUrl = imageUrls.find(Boolean) || '';
+
+      const bookService = BookService.getInstance();
+      const book = await bookService.createBook({
+        ...details,
+        title: draft.title,
+        description: draft.description,
+        subject: request.subject,
+        difficulty_level: request.difficulty_level,
+        target_age_min: request.target_age_min,
+        target_age_max: request.target_age_max,
+        language: request.language,
+        thumbnail_url: coverUrl,
+        cover_image_url: coverUrl
+      });
+
+      try {
+        for (const [index, page] of draft.pages.entries()) {
+          await this.supabase.createStoryPage({
+            book_id: book.id,
+            page_number: index + 1,
+            title: page.title,
+            text: page.text,
+            image_url: imageUrls[index] || '',
+            video_url: '',
+            background_url: '',
+            quiz_data: page.quiz
+          });
+        }
+      } catch (error) {
+        await bookService.deleteBook(book.id)
+          .catch(cleanupError => console.warn('Failed to remove partially saved book:', cleanupError));
+        throw error;
+      }
+
+      return book;
+    } catch (error) {
+      console.error('Error in saveBook:', error);
+      throw error;
+    }
+  }
+
+  // Uploads under a fresh folder per book; pages without an illustration get an empty URL
+  private async uploadIllustrations(illustrations: (Blob | null)[]): Promise<string[]> {
+    const folder = `generated/${crypto.randomUUID()}`;
+    const urls: string[] = [];
+
+    for (const [index, blob] of illustrations.entries()) {
+      if (!blob) {
+        urls.push('');
+        continue;
+      }
+
+      const contentType = blob.type || 'image/jpeg';
+      const path = `${folder}/page-${index + 1}.${getMediaExtension('', contentType)}`;
+      const { error } = await this.supabase.supabase.storage
+        .from(BOOK_MEDIA_BUCKET)
+        .upload(path, blob, { contentType });
+
+      if (error) {
+        console.error('Error uploading illustration:', error);
+        throw new Error(`Failed to upload illustration for page ${index + 1}: ${error.message}`);
+      }
+
+      const { data } = this.supabase.supabase.storage
+        .from(BOOK_MEDIA_BUCKET)
+        .getPublicUrl(path);
+      urls.push(data.publicUrl);
+    }
+
+    return urls;
+  }
+}
@@ -0,0 +1,264 @@
+import JSZip from 'jszip';
+import { SupabaseService, StoryPage } from './SupabaseService';
+import { BookService } from './BookService';
+import { TranslationService } from './TranslationService';
+import { DictionaryService } from './DictionaryService';
+import { Book } from '../types/Book';
+import { PageTranslation } from '../types/Translation';
+import {
+  BOOK_PACKAGE_FORMAT,
+  BOOK_PACKAGE_MANIFEST_FILE,
+  BOOK_PACKAGE_MEDIA_DIR,
+  BOOK_PACKAGE_VERSION,
+  BookPackageManifest,
+  PackagedBook,
+  PackagedGlossaryEntry,
+  PackagedMedia,
+  PackagedPage,
+  PackagedTranslation
+} from '../types/BookPackage';
+import { BOOK_MEDIA_BUCKET, getBookMediaUrls, getMediaExtension, mapBookMedia, mapQuizMedia } from '../utils/bookMedia';
+import { isBundledMediaPath, validateBookManifest } from '../utils/bookPackage';
+
+export class BookPackageService {
+  private static instance: BookPackageService;
+  private supabase;
+
+  private constructor() {
+    this.supabase = SupabaseService.getInstance();
+  }
+
+  static getInstance(): BookPackageService {
+    if (!BookPackageService.instance) {
+      BookPackageService.instance = new BookPackageService();
+    }
+    return BookPackageService.instance;
+  }
+
+  /**
+   * Bundles the book, its pages, their translations, the book's glossary and every media file they
+   * reference into one zip.
+   * Media that can't be downloaded (no CORS, host gone) keeps its original URL in the manifest.
+   */
+  async exportBook(book: Book): Promise<Blob> {
+    try {
+      const storyPages = await this.supabase.getAllStoryPages(book.id);
+      if (storyPages.length === 0) {
+        throw new Error('This book has no pages to export');
+      }
+
+      const [translations, glossary] = await Promise.all([
+        TranslationService.getInstance().getBookTranslations(book.id),
+        DictionaryService.getInstance().getGlossary(book.id)
+      ]);
+
+      const zip = new JSZip();
+      const media: PackagedMedia[] = [];
+      const bundledPaths = new Map<string, string>();
+
+      const urls = getBookMediaUrls(book, storyPages, translations.map(translation => translation.quiz_data));
+      for (const [index, url] of urls.entries()) {
+        try {
+          const response = await fetch(url);
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+          const blob = await response.blob();
+          const contentType = blob.type || response.headers.get('content-type') || 'application/octet-stream';
+          const path = `${BOOK_PACKAGE_MEDIA_DIR}${String(index + 1).padStart(3, '0')}.${getMediaExtension(url, contentType)}`;
+
+          zip.file(path, blob);
+          media.push({ path, originalUrl: url, contentType });
+          bundledPaths.set(url, path);
+        } catch (error) {
+          console.warn('Could not bundle media, keeping its URL:', url, error);
+        }
+      }
+
+      const toBundled = (url: string) => bundledPaths.get(url) || url;
+      const mapped = mapBookMedia(this.toPackagedBook(book), storyPages.map(this.toPackagedPage), toBundled);
+      const packagedTranslations = this.toPackagedTranslations(storyPages, translations)
+        .map(translation => ({ ...translation, quiz_data: mapQuizMedia(translation.quiz_data, toBundled) }));
+
+      const manifest: BookPackageManifest = {
+        format: BOOK_PACKAGE_FORMAT,
+        version: BOOK_PACKAGE_VERSION,
+        exportedAt: new Date().toISOString(),
+        book: mapped.book,
+        pages: mapped.pages,
+        translations: packagedTranslations,
+        glossary: glossary.map(({ word, definition, syllables }) => ({ word, definition, syllables })),
+        media
+      };
+      zip.file(BOOK_PACKAGE_MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+      return await zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+    } catch (error) {
+      console.error('Error in exportBook:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recreates a book from an exported zip. Bundled media is uploaded to storage first, then the
+   * book and its pages are inserted in one database call so a failure never leaves a partial book.
+   * Translations and the glossary are added once the book exists, since they point at its new ids.
+   */
+  async importBook(file: Blob): Promise<Book> {
+    try {
+      let zip: JSZip;
+      try {
+        zip = await JSZip.loadAsync(file);
+      } catch {
+        throw new Error('Invalid book package: the file is not a zip archive');
+      }
+
+      const manifestFile = zip.file(BOOK_PACKAGE_MANIFEST_FILE);
+      if (!manifestFile) {
+        throw new Error(`Invalid book package: ${BOOK_PACKAGE_MANIFEST_FILE} is missing`);
+      }
+
+      let rawManifest: unknown;
+      try {
+        rawManifest = JSON.parse(await manifestFile.async('string'));
+      } catch {
+        throw new Error(`Invalid book package: ${BOOK_PACKAGE_MANIFEST_FILE} is not valid JSON`);
+      }
+      const manifest = validateBookManifest(rawManifest);
+
+      const uploadedUrls = await this.uploadMedia(zip, manifest.media);
+      const toUploaded = (url: string) => isBundledMediaPath(url) ? uploadedUrls.get(url)! : url;
+      const { book, pages } = mapBookMedia(manifest.book, manifest.pages, toUploaded);
+
+      const { data: bookId, error } = await this.supabase.supabase
+        .rpc('import_book', { book_data: book, pages_data: pages });
+
+      if (error) {
+        console.error('Error importing book:', error);
+        throw new Error(`Failed to import book: ${error.message}`);
+      }
+
+      await this.importTranslations(bookId as string, manifest.translations.map(translation => ({
+        ...translation,
+        quiz_data: mapQuizMedia(translation.quiz_data, toUploaded)
+      })));
+      await this.importGlossary(bookId as string, manifest.glossary);
+
+      const imported = await BookService.getInstance().getBook(bookId as string);
+      if (!imported) {
+        throw new Error('Failed to import book: the new book could not be loaded');
+      }
+      return imported;
+    } catch (error) {
+      console.error('Error in importBook:', error);
+      throw error;
+    }
+  }
+
+  private async importTranslations(bookId: string, translations: PackagedTranslation[]): Promise<void> {
+    if (translations.length === 0) return;
+
+    const pages = await this.supabase.getAllStoryPages(bookId);
+    const pageIds = new Map(pages.map(page => [page.page_number, page.id]));
+    const { error } = await this.supabase.supabase
+      .from('story_page_translations')
+      .insert(translations.map(({ page_number, ...translation }) => ({
+        ...translation,
+        page_id: pageIds.get(page_number),
+        book_id: bookId
+      })));
+
+    if (error) {
+      console.error('Error importing translations:', error);
+      throw new Error(`The book was imported but its translations were not: ${error.message}`);
+    }
+  }
+
+  private async importGlossary(bookId: string, glossary: PackagedGlossaryEntry[]): Promise<void> {
+    if (glossary.length === 0) return;
+
+    const { error } = await this.supabase.supabase
+      .from('book_glossary')
+      .insert(glossary.map(entry => ({ ...entry, book_id: bookId })));
+
+    if (error) {
+      console.error('Error importing glossary:', error);
+      throw new Error(`The book was imported but its glossary was not: ${error.message}`);
+    }
+  }
+
+  // Uploads under a fresh folder per import so two imports of the same package never collide
+  private async uploadMedia(zip: JSZip, media: PackagedMedia[]): Promise<Map<string, string>> {
+    const folder = `imports/${crypto.randomUUID()}`;
+    const urls = new Map<string, string>();
+
+    for (const item of media) {
+      const entry = zip.file(item.path);
+      if (!entry) {
+        throw new Error(`Invalid book package: ${item.path} is listed but missing from the zip`);
+      }
+
+      const blob = new Blob([await entry.async('arraybuffer')], { type: item.contentType });
+      const path = `${folder}/${item.path.slice(BOOK_PACKAGE_MEDIA_DIR.length)}`;
+      const { error } = await this.supabase.supabase.storage
+        .from(BOOK_MEDIA_BUCKET)
+        .upload(path, blob, { contentType: item.contentType });
+
+      if (error) {
+        console.error('Error uploading book media:', error);
+        throw new Error(`Failed to upload ${item.path}: ${error.message}`);
+      }
+
+      const { data } = this.supabase.supabase.storage
+        .from(BOOK_MEDIA_BUCKET)
+        .getPublicUrl(path);
+      urls.set(item.path, data.publicUrl);
+    }
+
+    return urls;
+  }
+
+  private toPackagedBook(book: Book): PackagedBook {
+    return {
+      title: book.title,
+      subject: book.subject,
+      author: book.author,
+      publisher: book.publisher,
+      description: book.description,
+      thumbnail_url: book.thumbnail_url,
+      cover_image_url: book.cover_image_url,
+      difficulty_level: book.difficulty_level,
+      target_age_min: book.target_age_min,
+      target_age_max: book.target_age_max,
+      is_active: book.is_active,
+      language: book.language
+    };
+  }
+
+  private toPackagedTranslations(pages: StoryPage[], translations: PageTranslation[]): PackagedTranslation[] {
+    const pageNumbers = new Map(pages.map(page => [page.id, page.page_number]));
+    return translations
+      .filter(translation => pageNumbers.has(translation.page_id))
+      .map(translation => ({
+        page_number: pageNumbers.get(translation.page_id)!,
+        language: translation.language,
+        title: translation.title,
+        text: translation.text,
+        quiz_data: translation.quiz_data
+      }));
+  }
+
+  private toPackagedPage(page: StoryPage): PackagedPage {
+    return {
+      page_number: page.page_number,
+      title: page.title,
+      text: page.text,
+      image_url: page.image_url,
+      video_url: page.video_url,
+      background_url: page.background_url,
+      background_music_url: page.background_music_url,
+      narration_audio_url: page.narration_audio_url,
+      narration_timings: page.narration_timings,
+      quiz_data: page.quiz_data
+    };
+  }
+}
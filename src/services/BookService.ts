@@ -83,12 +83,15 @@ export class BookService {
 
   async getUserSettings(bookId: string, userId?: string): Promise<UserSettings | null> {
     try {
-      const { data, error } = await this.supabase.supabase
+      let query = this.supabase.supabase
         .from('user_settings')
         .select('*')
-        .eq('book_id', bookId)
-        .eq('user_id', userId || null)
-        .limit(1);
+        .eq('book_id', bookId);
+
+      // Shared settings have no user; `eq` never matches NULL so they need `is`
+      query = userId ? query.eq('user_id', userId) : query.is('user_id', null);
+
+      const { data, error } = await query.limit(1);
 
       if (error) {
         console.error('Error fetching user settings:', error);
@@ -0,0 +1,106 @@
+import { SupabaseService } from './SupabaseService';
+import { AIProviderService } from './AIProviderService';
+import { GlossaryEntry, GlossaryEntryInput, WordDefinition } from '../types/Glossary';
+import { parseJsonReply } from '../utils/bookGeneration';
+import { buildDefinitionPrompt, normalizeLookupWord, parseWordDefinition } from '../utils/dictionary';
+
+export class DictionaryService {
+  private static instance: DictionaryService;
+  private supabase;
+  // AI definitions already fetched this session, by language and word
+  private definitions = new Map<string, WordDefinition>();
+
+  private constructor() {
+    this.supabase = SupabaseService.getInstance();
+  }
+
+  static getInstance(): DictionaryService {
+    if (!DictionaryService.instance) {
+      DictionaryService.instance = new DictionaryService();
+    }
+    return DictionaryService.instance;
+  }
+
+  async getGlossary(bookId: string): Promise<GlossaryEntry[]> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('book_glossary')
+        .select('*')
+        .eq('book_id', bookId)
+        .order('word', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching glossary:', error);
+        throw new Error(`Failed to fetch glossary: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getGlossary:', error);
+      throw error;
+    }
+  }
+
+  // Saves over any entry the book already has for the word
+  async saveGlossaryEntry(bookId: string, entry: GlossaryEntryInput): Promise<GlossaryEntry> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('book_glossary')
+        .upsert({
+          book_id: bookId,
+          word: normalizeLookupWord(entry.word),
+          definition: entry.definition.trim(),
+          syllables: entry.syllables.trim(),
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'book_id,word' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving glossary entry:', error);
+        throw new Error(`Failed to save glossary entry: ${error.message}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in saveGlossaryEntry:', error);
+      throw error;
+    }
+  }
+
+  async deleteGlossaryEntry(entryId: string): Promise<void> {
+    try {
+      const { error } = await this.supabase.supabase
+        .from('book_glossary')
+        .delete()
+        .eq('id', entryId);
+
+      if (error) {
+        console.error('Error deleting glossary entry:', error);
+        throw new Error(`Failed to delete glossary entry: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('Error in deleteGlossaryEntry:', error);
+      throw error;
+    }
+  }
+
+  // For words the book's glossary doesn't cover
+  async defineWord(word: string, sentence: string, language: string): Promise<WordDefinition> {
+    const lookup = normalizeLookupWord(word);
+    // Keyed by backend too, so switching away from the offline fake doesn't keep its answers
+    const cacheKey = `${AIProviderService.getConfig().text}:${language}:${lookup}`;
+    const cached = this.definitions.get(cacheKey);
+    if (cached) return cached;
+
+    try {
+      const reply = await AIProviderService.getTextGenerator().draftContent(buildDefinitionPrompt(lookup, sentence, language));
+      const definition = parseWordDefinition(parseJsonReply(reply), lookup, language);
+      this.definitions.set(cacheKey, definition);
+      return definition;
+    } catch (error) {
+      console.error('Error in defineWord:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,194 @@
+import { SupabaseService, StoryPage } from './SupabaseService';
+import { BookDetails, BookDetailsDraft, PageDraft, PageRevision, PageSnapshot } from '../types/Revision';
+
+export class DraftService {
+  private static instance: DraftService;
+  private supabase;
+
+  private constructor() {
+    this.supabase = SupabaseService.getInstance();
+  }
+
+  static getInstance(): DraftService {
+    if (!DraftService.instance) {
+      DraftService.instance = new DraftService();
+    }
+    return DraftService.instance;
+  }
+
+  async getPageDraft(pageId: string): Promise<PageDraft | null> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('story_page_drafts')
+        .select('*')
+        .eq('page_id', pageId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching page draft:', error);
+        throw new Error(`Failed to fetch page draft: ${error.message}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in getPageDraft:', error);
+      throw error;
+    }
+  }
+
+  // Saves over the page's draft and records the version in its history
+  async savePageDraft(page: Pick<StoryPage, 'id' | 'book_id'>, content: PageSnapshot): Promise<void> {
+    if (!page.book_id) {
+      throw new Error('Only pages that belong to a book can be saved as drafts');
+    }
+
+    try {
+      const { error } = await this.supabase.supabase
+        .from('story_page_drafts')
+        .upsert({
+          page_id: page.id,
+          book_id: page.book_id,
+          content,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'page_id' });
+
+      if (error) {
+        console.error('Error saving page draft:', error);
+        throw new Error(`Failed to save page draft: ${error.message}`);
+      }
+
+      const { error: revisionError } = await this.supabase.supabase
+        .from('page_revisions')
+        .insert([{ page_id: page.id, book_id: page.book_id, content, status: 'draft' }]);
+
+      if (revisionError) {
+        console.error('Error recording page revision:', revisionError);
+        throw new Error(`Failed to record page revision: ${revisionError.message}`);
+      }
+    } catch (error) {
+      console.error('Error in savePageDraft:', error);
+      throw error;
+    }
+  }
+
+  async discardPageDraft(pageId: string): Promise<void> {
+    try {
+      const { error } = await this.supabase.supabase
+        .from('story_page_drafts')
+        .delete()
+        .eq('page_id', pageId);
+
+      if (error) {
+        console.error('Error discarding page draft:', error);
+        throw new Error(`Failed to discard page draft: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('Error in discardPageDraft:', error);
+      throw error;
+    }
+  }
+
+  // Newest first
+  async getPageRevisions(pageId: string): Promise<PageRevision[]> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('page_revisions')
+        .select('*')
+        .eq('page_id', pageId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching page revisions:', error);
+        throw new Error(`Failed to fetch page revisions: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getPageRevisions:', error);
+      throw error;
+    }
+  }
+
+  async getBookDraft(bookId: string): Promise<BookDetailsDraft | null> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('book_drafts')
+        .select('*')
+        .eq('book_id', bookId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching book draft:', error);
+        throw new Error(`Failed to fetch book draft: ${error.message}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in getBookDraft:', error);
+      throw error;
+    }
+  }
+
+  async saveBookDraft(bookId: string, details: BookDetails): Promise<void> {
+    try {
+      const { error } = await this.supabase.supabase
+        .from('book_drafts')
+        .upsert({
+          book_id: bookId,
+          details,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'book_id' });
+
+      if (error) {
+        console.error('Error saving book draft:', error);
+        throw new Error(`Failed to save book draft: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('Error in saveBookDraft:', error);
+      throw error;
+    }
+  }
+
+  // Unpublished drafts per book id, counting the book's details as one
+  async getDraftCounts(): Promise<Record<string, number>> {
+    try {
+      const [pageDrafts, bookDrafts] = await Promise.all([
+        this.supabase.supabase.from('story_page_drafts').select('book_id'),
+        this.supabase.supabase.from('book_drafts').select('book_id')
+      ]);
+
+      const error = pageDrafts.error || bookDrafts.error;
+      if (error) {
+        console.error('Error fetching draft counts:', error);
+        throw new Error(`Failed to fetch draft counts: ${error.message}`);
+      }
+
+      const counts: Record<string, number> = {};
+      for (const { book_id } of [...(pageDrafts.data || []), ...(bookDrafts.data || [])]) {
+        counts[book_id] = (counts[book_id] || 0) + 1;
+      }
+      return counts;
+    } catch (error) {
+      console.error('Error in getDraftCounts:', error);
+      throw error;
+    }
+  }
+
+  // Makes every draft of the book live in one transaction; returns how many pages changed
+  async publishBook(bookId: string): Promise<number> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .rpc('publish_book', { p_book_id: bookId });
+
+      if (error) {
+        console.error('Error publishing book:', error);
+        throw new Error(`Failed to publish book: ${error.message}`);
+      }
+
+      return data ?? 0;
+    } catch (error) {
+      console.error('Error in publishBook:', error);
+      throw error;
+    }
+  }
+}
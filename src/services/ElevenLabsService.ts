@@ -1,82 +1,50 @@
-export class ElevenLabsService {
-  static getAgentId(): string {
-    return import.meta.env.VITE_ELEVENLABS_AGENT_ID || '';
-  }
-
-  static getApiKey(): string {
-    return import.meta.env.VITE_ELEVENLABS_API_KEY || '';
-  }
-
-  static useSignedUrl(): boolean {
-    return import.meta.env.VITE_ELEVENLABS_USE_SIGNED_URL === 'true';
-  }
-
-  static getSignedUrlEndpoint(): string {
-    return import.meta.env.VITE_ELEVENLABS_SIGNED_URL_ENDPOINT || '/api/signed-url';
-  }
+import { AIGatewayService } from './AIGatewayService';
+import { CharacterAlignment } from '../types/Narration';
 
+// ElevenLabs runs behind the AI gateway, which keeps the API key and agent id
+export class ElevenLabsService {
   static isConfigured(): boolean {
-    if (this.useSignedUrl()) {
-      return !!this.getSignedUrlEndpoint();
-    }
-    return !!this.getAgentId();
+    return AIGatewayService.isConfigured();
   }
 
+  // Leaving out the voice reads in the gateway's default voice
   static async generateTTSAudio(text: string, voiceId?: string): Promise<Blob> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      throw new Error('ElevenLabs API key not configured');
+    try {
+      return await AIGatewayService.requestMedia('tts', { text, voiceId });
+    } catch (error) {
+      console.error('Error generating TTS audio:', error);
+      throw error;
     }
+  }
 
-    // Use default voice if none provided
-    const defaultVoiceId = 'pNInz6obpgDQGcFmaJgB'; // Adam voice
-    const finalVoiceId = voiceId || defaultVoiceId;
-
+  // Same voice as generateTTSAudio, plus character timings for word highlighting
+  static async generateTTSWithTimestamps(text: string, voiceId?: string): Promise<{ audio: Blob; alignment: CharacterAlignment }> {
     try {
-      const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${finalVoiceId}`, {
-        method: 'POST',
-        headers: {
-          'Accept': 'audio/mpeg',
-          'Content-Type': 'application/json',
-          'xi-api-key': apiKey
-        },
-        body: JSON.stringify({
-          text: text,
-          model_id: 'eleven_monolingual_v1',
-          voice_settings: {
-            stability: 0.5,
-            similarity_boost: 0.5,
-            style: 0.0,
-            use_speaker_boost: true
-          }
-        })
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`ElevenLabs TTS error: ${errorData.detail?.message || response.statusText}`);
+      const data = await AIGatewayService.request('tts-timestamps', { text, voiceId });
+      if (!data.audio_base64 || !data.alignment) {
+        throw new Error('ElevenLabs TTS error: response did not include audio and alignment');
       }
 
-      return await response.blob();
+      const bytes = Uint8Array.from(atob(data.audio_base64), char => char.charCodeAt(0));
+      return {
+        audio: new Blob([bytes], { type: 'audio/mpeg' }),
+        alignment: data.alignment
+      };
     } catch (error) {
-      console.error('Error generating TTS audio:', error);
+      console.error('Error generating timestamped TTS audio:', error);
       throw error;
     }
   }
 
+  // A one-off URL for the conversational agent, so the agent id and key stay on the server
+  static async getSignedUrl(): Promise<string> {
+    const { signed_url } = await AIGatewayService.request('voice-agent', {});
+    return signed_url;
+  }
+
   static getConnectionOptions(context?: string, onMessage?: (message: any) => void) {
     const options: any = {};
 
-    if (this.useSignedUrl()) {
-      options.signedUrlEndpoint = this.getSignedUrlEndpoint();
-    } else {
-      options.agentId = this.getAgentId();
-      const apiKey = this.getApiKey();
-      if (apiKey) {
-        options.apiKey = apiKey;
-      }
-    }
-
     if (context) {
       options.context = context;
     }
@@ -87,4 +55,4 @@ export class ElevenLabsService {
 
     return options;
   }
-}
\ No newline at end of file
+}
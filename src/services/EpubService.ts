@@ -0,0 +1,154 @@
+import JSZip from 'jszip';
+import { SupabaseService } from './SupabaseService';
+import { Book } from '../types/Book';
+import { getMediaExtension } from '../utils/bookMedia';
+import { timingsMatchText } from '../utils/narration';
+import {
+  EPUB_MIMETYPE,
+  EpubManifestItem,
+  EpubPage,
+  buildContainerXml,
+  buildCoverXhtml,
+  buildMediaOverlay,
+  buildNavXhtml,
+  buildPackageOpf,
+  buildPageXhtml,
+  buildStylesheet,
+  getOverlayDuration
+} from '../utils/epub';
+import { DEFAULT_BOOK_LANGUAGE } from '../utils/languages';
+
+interface FetchedMedia {
+  blob: Blob;
+  contentType: string;
+}
+
+export class EpubService {
+  private static instance: EpubService;
+  private supabase;
+
+  private constructor() {
+    this.supabase = SupabaseService.getInstance();
+  }
+
+  static getInstance(): EpubService {
+    if (!EpubService.instance) {
+      EpubService.instance = new EpubService();
+    }
+    return EpubService.instance;
+  }
+
+  // EPUBs can't reference remote media, so anything we can't download is left out
+  private async fetchMedia(url: string | null | undefined): Promise<FetchedMedia | null> {
+    if (!url || !/^https?:/.test(url)) return null;
+
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const blob = await response.blob();
+      const contentType = (blob.type || response.headers.get('content-type') || '').split(';')[0].trim();
+      return contentType ? { blob, contentType } : null;
+    } catch (error) {
+      console.warn('Could not include media in EPUB:', url, error);
+      return null;
+    }
+  }
+
+  /**
+   * Builds an EPUB 3 with a cover, one XHTML document per page and, for pages whose
+   * narration timings match their text, a SMIL media overlay for read-along highlighting.
+   */
+  async exportBook(book: Book): Promise<Blob> {
+    try {
+      const storyPages = await this.supabase.getAllStoryPages(book.id);
+      if (storyPages.length === 0) {
+        throw new Error('This book has no pages to export');
+      }
+
+      const language = book.language || DEFAULT_BOOK_LANGUAGE;
+      const zip = new JSZip();
+      // The mimetype entry must come first and be stored uncompressed
+      zip.file('mimetype', EPUB_MIMETYPE, { compression: 'STORE' });
+      zip.file('META-INF/container.xml', buildContainerXml());
+
+      const oebps = zip.folder('OEBPS')!;
+      const items: EpubManifestItem[] = [
+        { id: 'nav', href: 'nav.xhtml', mediaType: 'application/xhtml+xml', properties: 'nav' },
+        { id: 'css', href: 'styles.css', mediaType: 'text/css' }
+      ];
+      const spine: string[] = [];
+      oebps.file('styles.css', buildStylesheet());
+
+      const addMedia = (id: string, media: FetchedMedia, sourceUrl: string, properties?: string): string => {
+        const href = `media/${id}.${getMediaExtension(sourceUrl, media.contentType)}`;
+        oebps.file(href, media.blob);
+        items.push({ id, href, mediaType: media.contentType, properties });
+        return href;
+      };
+
+      const cover = await this.fetchMedia(book.cover_image_url);
+      if (cover) {
+        const coverHref = addMedia('cover-image', cover, book.cover_image_url, 'cover-image');
+        oebps.file('cover.xhtml', buildCoverXhtml(book, coverHref, language));
+        items.push({ id: 'cover', href: 'cover.xhtml', mediaType: 'application/xhtml+xml' });
+        spine.push('cover');
+      }
+
+      const pages: EpubPage[] = [];
+      for (const storyPage of storyPages) {
+        const id = `page-${storyPage.page_number}`;
+        const page: EpubPage = {
+          id,
+          href: `${id}.xhtml`,
+          title: storyPage.title,
+          text: storyPage.text
+        };
+
+        const image = await this.fetchMedia(storyPage.image_url);
+        if (image && image.contentType.startsWith('image/')) {
+          page.imageHref = addMedia(`${id}-image`, image, storyPage.image_url);
+        }
+
+        const timings = storyPage.narration_timings;
+        if (storyPage.narration_audio_url && timings && timingsMatchText(timings, storyPage.text)) {
+          const audio = await this.fetchMedia(storyPage.narration_audio_url);
+          if (audio) {
+            const overlayId = `${id}-overlay`;
+            page.overlay = {
+              id: overlayId,
+              href: `${overlayId}.smil`,
+              audioHref: addMedia(`${id}-audio`, audio, storyPage.narration_audio_url),
+              timings
+            };
+            oebps.file(page.overlay.href, buildMediaOverlay(page));
+            items.push({
+              id: overlayId,
+              href: page.overlay.href,
+              mediaType: 'application/smil+xml',
+              duration: getOverlayDuration(timings)
+            });
+          }
+        }
+
+        oebps.file(page.href, buildPageXhtml(page, language));
+        items.push({
+          id,
+          href: page.href,
+          mediaType: 'application/xhtml+xml',
+          mediaOverlay: page.overlay?.id
+        });
+        spine.push(id);
+        pages.push(page);
+      }
+
+      oebps.file('nav.xhtml', buildNavXhtml(book, pages, language));
+      oebps.file('content.opf', buildPackageOpf(book, items, spine, language));
+
+      return await zip.generateAsync({ type: 'blob', mimeType: EPUB_MIMETYPE, compression: 'DEFLATE' });
+    } catch (error) {
+      console.error('Error in exportBook:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,402 @@
+import { SupabaseService } from './SupabaseService';
+import { LearnerProfile, LearnerWord, QuizAttempt, ReadAloudAttempt, ReadingProgress } from '../types/Learner';
+import { QuizAnswer } from '../types/Quiz';
+import { ReadingScore } from '../utils/readAloud';
+import { SpellingWord, WordSchedule, createWordSchedule, normalizeBankWord, scheduleQuizWord } from '../utils/wordBank';
+
+export class LearnerService {
+  private static instance: LearnerService;
+  private supabase;
+
+  private constructor() {
+    this.supabase = SupabaseService.getInstance();
+  }
+
+  static getInstance(): LearnerService {
+    if (!LearnerService.instance) {
+      LearnerService.instance = new LearnerService();
+    }
+    return LearnerService.instance;
+  }
+
+  async getLearners(parentId: string): Promise<LearnerProfile[]> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('learner_profiles')
+        .select('*')
+        .eq('parent_id', parentId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching learners:', error);
+        throw new Error(`Failed to fetch learners: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getLearners:', error);
+      throw error;
+    }
+  }
+
+  async createLearner(learner: Pick<LearnerProfile, 'parent_id' | 'name' | 'avatar'>): Promise<LearnerProfile> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('learner_profiles')
+        .insert([learner])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating learner:', error);
+        throw new Error(`Failed to create learner: ${error.message}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in createLearner:', error);
+      throw error;
+    }
+  }
+
+  async updateLearner(learnerId: string, updates: Partial<Pick<LearnerProfile, 'name' | 'avatar' | 'birth_year' | 'adaptive_quizzes' | 'skill_rating'>>): Promise<LearnerProfile> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('learner_profiles')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', learnerId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating learner:', error);
+        throw new Error(`Failed to update learner: ${error.message}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in updateLearner:', error);
+      throw error;
+    }
+  }
+
+  async deleteLearner(learnerId: string): Promise<void> {
+    try {
+      const { error } = await this.supabase.supabase
+        .from('learner_profiles')
+        .delete()
+        .eq('id', learnerId);
+
+      if (error) {
+        console.error('Error deleting learner:', error);
+        throw new Error(`Failed to delete learner: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('Error in deleteLearner:', error);
+      throw error;
+    }
+  }
+
+  async getAllProgress(learnerId: string): Promise<ReadingProgress[]> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('reading_progress')
+        .select('*')
+        .eq('learner_id', learnerId)
+        .order('last_read_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching reading progress:', error);
+        throw new Error(`Failed to fetch reading progress: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getAllProgress:', error);
+      throw error;
+    }
+  }
+
+  async getProgress(learnerId: string, bookId: string): Promise<ReadingProgress | null> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('reading_progress')
+        .select('*')
+        .eq('learner_id', learnerId)
+        .eq('book_id', bookId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching book progress:', error);
+        throw new Error(`Failed to fetch book progress: ${error.message}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in getProgress:', error);
+      throw error;
+    }
+  }
+
+  async saveProgress(progress: Omit<ReadingProgress, 'id' | 'last_read_at'>): Promise<ReadingProgress> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('reading_progress')
+        .upsert({
+          ...progress,
+          last_read_at: new Date().toISOString()
+        }, {
+          onConflict: 'learner_id,book_id'
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving reading progress:', error);
+        throw new Error(`Failed to save reading progress: ${error.message}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in saveProgress:', error);
+      throw error;
+    }
+  }
+
+  // answeredAt keeps the original time for attempts synced after being queued offline
+  async recordQuizAttempt(learnerId: string, bookId: string, pageNumber: number, answer: QuizAnswer, answeredAt?: string): Promise<QuizAttempt> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('quiz_attempts')
+        .insert([{
+          learner_id: learnerId,
+          book_id: bookId,
+          page_number: pageNumber,
+          page_title: answer.pageTitle,
+          score: answer.score,
+          max_score: answer.maxScore,
+          is_correct: answer.isCorrect,
+          results: answer.results,
+          ...(answeredAt && { created_at: answeredAt })
+        }])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error recording quiz attempt:', error);
+        throw new Error(`Failed to record quiz attempt: ${error.message}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in recordQuizAttempt:', error);
+      throw error;
+    }
+  }
+
+  async getQuizAttempts(learnerId: string, bookId?: string): Promise<QuizAttempt[]> {
+    try {
+      let query = this.supabase.supabase
+        .from('quiz_attempts')
+        .select('*')
+        .eq('learner_id', learnerId)
+        .order('created_at', { ascending: true });
+
+      if (bookId) {
+        query = query.eq('book_id', bookId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching quiz attempts:', error);
+        throw new Error(`Failed to fetch quiz attempts: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getQuizAttempts:', error);
+      throw error;
+    }
+  }
+
+  async recordReadAloudAttempt(
+    learnerId: string,
+    bookId: string,
+    pageNumber: number,
+    language: string,
+    score: ReadingScore,
+    transcript: string
+  ): Promise<ReadAloudAttempt> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('read_aloud_attempts')
+        .insert([{
+          learner_id: learnerId,
+          book_id: bookId,
+          page_number: pageNumber,
+          language,
+          total_words: score.totalWords,
+          correct_words: score.correctWords,
+          misread_words: score.misreadWords,
+          skipped_words: score.skippedWords,
+          reading_seconds: score.seconds,
+          words_correct_per_minute: score.wordsCorrectPerMinute,
+          transcript
+        }])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error recording read-aloud attempt:', error);
+        throw new Error(`Failed to record read-aloud attempt: ${error.message}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in recordReadAloudAttempt:', error);
+      throw error;
+    }
+  }
+
+  async getReadAloudAttempts(learnerId: string): Promise<ReadAloudAttempt[]> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('read_aloud_attempts')
+        .select('*')
+        .eq('learner_id', learnerId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching read-aloud attempts:', error);
+        throw new Error(`Failed to fetch read-aloud attempts: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getReadAloudAttempts:', error);
+      throw error;
+    }
+  }
+
+  async getWords(learnerId: string): Promise<LearnerWord[]> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('learner_words')
+        .select('*')
+        .eq('learner_id', learnerId)
+        .order('due_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching word bank:', error);
+        throw new Error(`Failed to fetch word bank: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getWords:', error);
+      throw error;
+    }
+  }
+
+  // Adds new spelling words from a page quiz to the word bank and reschedules ones already in it
+  async recordQuizWords(learnerId: string, bookId: string, words: SpellingWord[]): Promise<LearnerWord[]> {
+    if (words.length === 0) return [];
+
+    try {
+      const { data: existing, error: fetchError } = await this.supabase.supabase
+        .from('learner_words')
+        .select('*')
+        .eq('learner_id', learnerId)
+        .in('word', words.map(word => word.word));
+
+      if (fetchError) {
+        console.error('Error fetching word bank:', fetchError);
+        throw new Error(`Failed to fetch word bank: ${fetchError.message}`);
+      }
+
+      // The same word can appear twice in one quiz; the later answer wins
+      const latest = new Map(words.map(word => [word.word, word]));
+      const rows = [...latest.values()].map(word => {
+        const known: LearnerWord | undefined = (existing || []).find((row: LearnerWord) => row.word === word.word);
+        return {
+          learner_id: learnerId,
+          word: word.word,
+          hint: known?.hint || word.hint,
+          book_id: known ? known.book_id : bookId,
+          ...scheduleQuizWord(known, word)
+        };
+      });
+
+      const { data, error } = await this.supabase.supabase
+        .from('learner_words')
+        .upsert(rows, {
+          onConflict: 'learner_id,word'
+        })
+        .select();
+
+      if (error) {
+        console.error('Error saving word bank:', error);
+        throw new Error(`Failed to save word bank: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in recordQuizWords:', error);
+      throw error;
+    }
+  }
+
+  // A word the child picked out while reading; false when it was already in the word bank
+  async addWord(learnerId: string, bookId: string, word: string, hint: string): Promise<boolean> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('learner_words')
+        .upsert({
+          learner_id: learnerId,
+          word: normalizeBankWord(word),
+          hint,
+          book_id: bookId,
+          ...createWordSchedule()
+        }, {
+          onConflict: 'learner_id,word',
+          ignoreDuplicates: true
+        })
+        .select();
+
+      if (error) {
+        console.error('Error adding word to word bank:', error);
+        throw new Error(`Failed to add word to word bank: ${error.message}`);
+      }
+
+      return (data || []).length > 0;
+    } catch (error) {
+      console.error('Error in addWord:', error);
+      throw error;
+    }
+  }
+
+  async saveWordReview(wordId: string, schedule: WordSchedule): Promise<LearnerWord> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('learner_words')
+        .update(schedule)
+        .eq('id', wordId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving word review:', error);
+        throw new Error(`Failed to save word review: ${error.message}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in saveWordReview:', error);
+      throw error;
+    }
+  }
+}
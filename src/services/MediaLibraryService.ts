@@ -0,0 +1,209 @@
+import { SupabaseService, StoryPage } from './SupabaseService';
+import { Book } from '../types/Book';
+import { MediaItem } from '../types/Media';
+import { BookDetails, PageSnapshot } from '../types/Revision';
+import { createThumbnail } from '../utils/imageUtils';
+import { BOOK_MEDIA_BUCKET, getBookMediaUrls } from '../utils/bookMedia';
+import {
+  MAX_MEDIA_BYTES,
+  THUMBNAIL_FOLDER,
+  formatFileSize,
+  getMediaKind,
+  getThumbnailPath,
+  toStorageFileName
+} from '../utils/mediaLibrary';
+
+type ReferencingBook = Pick<Book, 'id' | 'thumbnail_url' | 'cover_image_url'>;
+type ReferencingPage = Pick<StoryPage, 'book_id' | 'image_url' | 'video_url' | 'background_url' | 'background_music_url' | 'narration_audio_url' | 'quiz_data'>;
+
+const NO_COVER = { thumbnail_url: '', cover_image_url: '' };
+
+export class MediaLibraryService {
+  private static instance: MediaLibraryService;
+  private supabase;
+
+  private constructor() {
+    this.supabase = SupabaseService.getInstance();
+  }
+
+  static getInstance(): MediaLibraryService {
+    if (!MediaLibraryService.instance) {
+      MediaLibraryService.instance = new MediaLibraryService();
+    }
+    return MediaLibraryService.instance;
+  }
+
+  private getPublicUrl(path: string): string {
+    const { data } = this.supabase.supabase.storage
+      .from(BOOK_MEDIA_BUCKET)
+      .getPublicUrl(path);
+    return data.publicUrl;
+  }
+
+  // Newest first; thumbnails live in a sub-folder and are matched to their files by name
+  async listMedia(folder: string): Promise<MediaItem[]> {
+    try {
+      const storage = this.supabase.supabase.storage.from(BOOK_MEDIA_BUCKET);
+      const [files, thumbnails] = await Promise.all([
+        storage.list(folder, { limit: 1000, sortBy: { column: 'created_at', order: 'desc' } }),
+        storage.list(`${folder}/${THUMBNAIL_FOLDER}`, { limit: 1000 })
+      ]);
+
+      if (files.error) {
+        console.error('Error listing media:', files.error);
+        throw new Error(`Failed to list media: ${files.error.message}`);
+      }
+
+      const thumbnailNames = new Set((thumbnails.data || []).map(file => file.name));
+
+      return (files.data || []).flatMap(file => {
+        // Sub-folders come back without an id
+        const contentType = file.id ? file.metadata?.mimetype || '' : '';
+        const kind = getMediaKind(contentType);
+        if (!kind) return [];
+
+        const path = `${folder}/${file.name}`;
+        const thumbnailPath = getThumbnailPath(folder, file.name);
+        return [{
+          name: file.name,
+          path,
+          url: this.getPublicUrl(path),
+          thumbnailUrl: thumbnailNames.has(thumbnailPath.split('/').pop()!) ? this.getPublicUrl(thumbnailPath) : null,
+          kind,
+          contentType,
+          size: file.metadata?.size || 0,
+          created_at: file.created_at
+        }];
+      });
+    } catch (error) {
+      console.error('Error in listMedia:', error);
+      throw error;
+    }
+  }
+
+  async uploadMedia(folder: string, file: File): Promise<MediaItem> {
+    const kind = getMediaKind(file.type);
+    if (!kind) {
+      throw new Error(`${file.name} is not an image, video or audio file`);
+    }
+    if (file.size > MAX_MEDIA_BYTES) {
+      throw new Error(`${file.name} is larger than ${formatFileSize(MAX_MEDIA_BYTES)}`);
+    }
+
+    try {
+      const name = toStorageFileName(file.name);
+      const path = `${folder}/${name}`;
+      const storage = this.supabase.supabase.storage.from(BOOK_MEDIA_BUCKET);
+
+      const { error } = await storage.upload(path, file, { contentType: file.type });
+      if (error) {
+        console.error('Error uploading media:', error);
+        throw new Error(`Failed to upload ${file.name}: ${error.message}`);
+      }
+
+      // A missing thumbnail only means the picker shows an icon instead
+      let thumbnailUrl: string | null = null;
+      const thumbnail = kind === 'audio' ? null : await createThumbnail(file);
+      if (thumbnail) {
+        const thumbnailPath = getThumbnailPath(folder, name);
+        const { error: thumbnailError } = await storage.upload(thumbnailPath, thumbnail, { contentType: 'image/jpeg' });
+        if (thumbnailError) {
+          console.warn('Failed to upload thumbnail:', thumbnailError);
+        } else {
+          thumbnailUrl = this.getPublicUrl(thumbnailPath);
+        }
+      }
+
+      return {
+        name,
+        path,
+        url: this.getPublicUrl(path),
+        thumbnailUrl,
+        kind,
+        contentType: file.type,
+        size: file.size,
+        created_at: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error('Error in uploadMedia:', error);
+      throw error;
+    }
+  }
+
+  async deleteMedia(items: MediaItem[]): Promise<void> {
+    if (items.length === 0) return;
+
+    try {
+      const paths = items.flatMap(item => {
+        const folder = item.path.slice(0, item.path.lastIndexOf('/'));
+        return [item.path, getThumbnailPath(folder, item.name)];
+      });
+
+      // Removing a path that doesn't exist (no thumbnail) is not an error
+      const { error } = await this.supabase.supabase.storage
+        .from(BOOK_MEDIA_BUCKET)
+        .remove(paths);
+
+      if (error) {
+        console.error('Error deleting media:', error);
+        throw new Error(`Failed to delete media: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('Error in deleteMedia:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The items no book or page refers to any more, checked against every book including
+   * inactive ones, since media can be shared between books by copying its URL. Unpublished
+   * drafts and page history count as references too, so publishing a draft or restoring an
+   * old revision never points at a deleted file.
+   */
+  async findUnusedMedia(items: MediaItem[]): Promise<MediaItem[]> {
+    try {
+      const [booksResult, pagesResult, pageDraftsResult, bookDraftsResult, revisionsResult] = await Promise.all([
+        this.supabase.supabase
+          .from('books')
+          .select('id, thumbnail_url, cover_image_url'),
+        this.supabase.supabase
+          .from('story_pages')
+          .select('book_id, image_url, video_url, background_url, background_music_url, narration_audio_url, quiz_data'),
+        this.supabase.supabase
+          .from('story_page_drafts')
+          .select('content'),
+        this.supabase.supabase
+          .from('book_drafts')
+          .select('details'),
+        this.supabase.supabase
+          .from('page_revisions')
+          .select('content')
+      ]);
+
+      const error = booksResult.error || pagesResult.error || pageDraftsResult.error ||
+        bookDraftsResult.error || revisionsResult.error;
+      if (error) {
+        console.error('Error checking media references:', error);
+        throw new Error(`Failed to check media references: ${error.message}`);
+      }
+
+      const books: ReferencingBook[] = booksResult.data || [];
+      const pages: ReferencingPage[] = pagesResult.data || [];
+      const snapshots: PageSnapshot[] = [...(pageDraftsResult.data || []), ...(revisionsResult.data || [])]
+        .map(row => row.content);
+      const bookDetails: BookDetails[] = (bookDraftsResult.data || []).map(row => row.details);
+      const referenced = new Set<string>([
+        ...books.flatMap(book => getBookMediaUrls(book, pages.filter(page => page.book_id === book.id))),
+        // Pages from before books existed have no book_id
+        ...getBookMediaUrls(NO_COVER, pages.filter(page => !page.book_id)),
+        ...getBookMediaUrls(NO_COVER, snapshots),
+        ...bookDetails.flatMap(details => getBookMediaUrls(details, []))
+      ]);
+
+      return items.filter(item => !referenced.has(item.url));
+    } catch (error) {
+      console.error('Error in findUnusedMedia:', error);
+      throw error;
+    }
+  }
+}
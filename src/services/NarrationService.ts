@@ -0,0 +1,58 @@
+import { SupabaseService } from './SupabaseService';
+import { AIProviderService } from './AIProviderService';
+import { PageNarration } from '../types/Narration';
+import { alignmentToWordTimings } from '../utils/narration';
+import { stripStoryMarkup } from '../utils/storyMarkup';
+
+const NARRATION_BUCKET = 'narration';
+
+export class NarrationService {
+  private static instance: NarrationService;
+  private supabase;
+
+  private constructor() {
+    this.supabase = SupabaseService.getInstance();
+  }
+
+  static getInstance(): NarrationService {
+    if (!NarrationService.instance) {
+      NarrationService.instance = new NarrationService();
+    }
+    return NarrationService.instance;
+  }
+
+  // Stores a track under the book and page it belongs to and returns its public URL
+  async uploadAudio(bookId: string, pageNumber: number, audio: Blob, extension = 'mp3'): Promise<string> {
+    try {
+      // Timestamped names so a replaced track is never served from a stale cache
+      const path = `${bookId}/page-${pageNumber}-${Date.now()}.${extension}`;
+      const { error } = await this.supabase.supabase.storage
+        .from(NARRATION_BUCKET)
+        .upload(path, audio, { contentType: audio.type || 'audio/mpeg' });
+
+      if (error) {
+        console.error('Error uploading narration audio:', error);
+        throw new Error(`Failed to upload narration audio: ${error.message}`);
+      }
+
+      const { data } = this.supabase.supabase.storage
+        .from(NARRATION_BUCKET)
+        .getPublicUrl(path);
+
+      return data.publicUrl;
+    } catch (error) {
+      console.error('Error in uploadAudio:', error);
+      throw error;
+    }
+  }
+
+  async generatePageNarration(bookId: string, pageNumber: number, text: string, voiceId?: string): Promise<PageNarration> {
+    const { audio, alignment } = await AIProviderService.getSpeechSynthesizer().synthesizeWithTimings(stripStoryMarkup(text), voiceId);
+    const audioUrl = await this.uploadAudio(bookId, pageNumber, audio);
+
+    return {
+      audioUrl,
+      timings: alignmentToWordTimings(alignment)
+    };
+  }
+}
@@ -0,0 +1,223 @@
+import { Book } from '../types/Book';
+import { QuizAnswer } from '../types/Quiz';
+import { OfflineBook, QueuedQuizAttempt } from '../types/Offline';
+import { PageTranslation } from '../types/Translation';
+import { GlossaryEntry } from '../types/Glossary';
+import { StoryPage } from './SupabaseService';
+import { LearnerService } from './LearnerService';
+import { getBookMediaUrls } from '../utils/bookMedia';
+
+const DB_NAME = 'interactive-library-offline';
+const DB_VERSION = 1;
+const BOOKS_STORE = 'books';
+const QUIZ_QUEUE_STORE = 'quizQueue';
+
+// Must match OFFLINE_ASSETS_CACHE in public/sw.js, which serves these when the network is down
+export const OFFLINE_ASSETS_CACHE = 'offline-book-assets-v1';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export class OfflineService {
+  private static instance: OfflineService;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private isSyncing = false;
+
+  static getInstance(): OfflineService {
+    if (!OfflineService.instance) {
+      OfflineService.instance = new OfflineService();
+    }
+    return OfflineService.instance;
+  }
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined' && typeof caches !== 'undefined';
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(BOOKS_STORE)) {
+            db.createObjectStore(BOOKS_STORE, { keyPath: 'book.id' });
+          }
+          if (!db.objectStoreNames.contains(QUIZ_QUEUE_STORE)) {
+            db.createObjectStore(QUIZ_QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async getStore(storeName: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.openDatabase();
+    return db.transaction(storeName, mode).objectStore(storeName);
+  }
+
+  // Every media URL a book needs to be read without a connection
+  static getAssetUrls(book: Book, pages: StoryPage[], translations: PageTranslation[] = []): string[] {
+    return getBookMediaUrls(book, pages, translations.map(translation => translation.quiz_data));
+  }
+
+  private async cacheAssets(urls: string[]): Promise<number> {
+    const cache = await caches.open(OFFLINE_ASSETS_CACHE);
+    let failed = 0;
+
+    await Promise.all(urls.map(async url => {
+      if (await cache.match(url)) return;
+
+      try {
+        // Most media hosts don't send CORS headers; an opaque response still plays back from cache
+        const response = await fetch(url, { mode: 'no-cors' });
+        await cache.put(url, response);
+      } catch (error) {
+        failed += 1;
+        console.warn('Failed to cache offline asset:', url, error);
+      }
+    }));
+
+    return failed;
+  }
+
+  async saveBook(book: Book, pages: StoryPage[], translations: PageTranslation[], glossary: GlossaryEntry[]): Promise<void> {
+    if (!OfflineService.isSupported()) {
+      throw new Error('Offline reading is not supported in this browser');
+    }
+
+    try {
+      const assetUrls = OfflineService.getAssetUrls(book, pages, translations);
+      const failed = await this.cacheAssets(assetUrls);
+
+      const record: OfflineBook = {
+        book,
+        pages,
+        translations,
+        glossary,
+        assetUrls,
+        savedAt: new Date().toISOString()
+      };
+      const store = await this.getStore(BOOKS_STORE, 'readwrite');
+      await requestToPromise(store.put(record));
+
+      if (failed > 0) {
+        console.warn(`${failed} of ${assetUrls.length} assets could not be saved for offline reading`);
+      }
+    } catch (error) {
+      console.error('Error in saveBook:', error);
+      throw error;
+    }
+  }
+
+  async removeBook(bookId: string): Promise<void> {
+    try {
+      const record = await this.getBook(bookId);
+      const store = await this.getStore(BOOKS_STORE, 'readwrite');
+      await requestToPromise(store.delete(bookId));
+
+      if (!record) return;
+
+      // Keep assets another saved book still uses
+      const stillUsed = new Set((await this.getBooks()).flatMap(other => other.assetUrls));
+      const cache = await caches.open(OFFLINE_ASSETS_CACHE);
+      await Promise.all(record.assetUrls
+        .filter(url => !stillUsed.has(url))
+        .map(url => cache.delete(url)));
+    } catch (error) {
+      console.error('Error in removeBook:', error);
+      throw error;
+    }
+  }
+
+  async getBook(bookId: string): Promise<OfflineBook | null> {
+    if (!OfflineService.isSupported()) return null;
+
+    const store = await this.getStore(BOOKS_STORE, 'readonly');
+    const record = await requestToPromise<OfflineBook | undefined>(store.get(bookId));
+    return record || null;
+  }
+
+  async getBooks(): Promise<OfflineBook[]> {
+    if (!OfflineService.isSupported()) return [];
+
+    const store = await this.getStore(BOOKS_STORE, 'readonly');
+    return requestToPromise<OfflineBook[]>(store.getAll());
+  }
+
+  async getBookIds(): Promise<string[]> {
+    const records = await this.getBooks();
+    return records.map(record => record.book.id);
+  }
+
+  // Keep a saved copy current after the book was loaded online
+  async refreshBook(book: Book, pages: StoryPage[], translations: PageTranslation[], glossary: GlossaryEntry[]): Promise<void> {
+    if (await this.getBook(book.id)) {
+      await this.saveBook(book, pages, translations, glossary);
+    }
+  }
+
+  async queueQuizAttempt(learnerId: string, bookId: string, pageNumber: number, answer: QuizAnswer): Promise<void> {
+    const attempt: QueuedQuizAttempt = {
+      learnerId,
+      bookId,
+      pageNumber,
+      answer,
+      answeredAt: new Date().toISOString()
+    };
+    const store = await this.getStore(QUIZ_QUEUE_STORE, 'readwrite');
+    await requestToPromise(store.add(attempt));
+  }
+
+  // Sends queued attempts oldest first and stops at the first failure so order is kept
+  async syncQuizAttempts(): Promise<number> {
+    if (this.isSyncing || !OfflineService.isSupported()) return 0;
+    this.isSyncing = true;
+
+    let synced = 0;
+    try {
+      const readStore = await this.getStore(QUIZ_QUEUE_STORE, 'readonly');
+      const queued = await requestToPromise<QueuedQuizAttempt[]>(readStore.getAll());
+      const learnerService = LearnerService.getInstance();
+
+      for (const attempt of queued) {
+        await learnerService.recordQuizAttempt(attempt.learnerId, attempt.bookId, attempt.pageNumber, attempt.answer, attempt.answeredAt);
+        const store = await this.getStore(QUIZ_QUEUE_STORE, 'readwrite');
+        await requestToPromise(store.delete(attempt.id!));
+        synced += 1;
+      }
+    } catch (error) {
+      console.warn('Failed to sync queued quiz attempts:', error);
+    } finally {
+      this.isSyncing = false;
+    }
+
+    return synced;
+  }
+
+  // Flushes the quiz queue now and whenever the connection comes back
+  startSync(): () => void {
+    const handleOnline = () => {
+      this.syncQuizAttempts();
+    };
+
+    window.addEventListener('online', handleOnline);
+    if (navigator.onLine) {
+      handleOnline();
+    }
+
+    return () => window.removeEventListener('online', handleOnline);
+  }
+}
@@ -1,29 +1,18 @@
-export class PollinationsService {
-  private static readonly BASE_URL = 'https://image.pollinations.ai/prompt/';
-
-  static async generateImage(prompt: string): Promise<Blob> {
-    const apiKey = import.meta.env.VITE_POLLINATIONS_API_KEY;
-    if (!apiKey) {
-      throw new Error('Pollinations API key is required. Please set VITE_POLLINATIONS_API_KEY in your environment variables.');
-    }
-
-    const encodedPrompt = encodeURIComponent(prompt);
-    const endpoint = `${this.BASE_URL}${encodedPrompt}?width=600&height=800&seed=42&nologo=True&apikey=${apiKey}`;
+import { AIGatewayService } from './AIGatewayService';
 
-    const response = await fetch(endpoint, {
-      method: 'GET',
-    });
+// Pollinations runs behind the AI gateway, which keeps the API key
+export class PollinationsService {
+  static isConfigured(): boolean {
+    return AIGatewayService.isConfigured();
+  }
 
-    if (!response.ok) {
-      let errorMsg = `Image Generation Error (${response.status}): ${response.statusText}`;
-      try {
-        errorMsg = `Image Generation Error: ${await response.text()}`;
-      } catch (jsonError) {
-        console.error('Could not parse error response', jsonError);
-      }
-      throw new Error(errorMsg);
-    }
+  // A different seed gives a different picture for the same prompt
+  static async generateImage(prompt: string, seed = 42): Promise<Blob> {
+    return AIGatewayService.requestMedia('image', { prompt, seed });
+  }
 
-    return response.blob();
+  // A story told aloud by Pollinations' text-to-audio model
+  static async generateStoryAudio(prompt: string): Promise<Blob> {
+    return AIGatewayService.requestMedia('story-audio', { prompt });
   }
-}
\ No newline at end of file
+}
@@ -1,4 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
+import { QuizData } from '../types/Quiz';
+import { WordTiming } from '../types/Narration';
+import { normalizeQuizData } from '../utils/quizData';
 
 export interface StoryPage {
   id: string;
@@ -9,21 +12,9 @@ export interface StoryPage {
   video_url: string;
   background_url: string;
   background_music_url?: string;
-  quiz_data: {
-    multipleChoice: {
-      question: string;
-      options: { text: string; isCorrect: boolean; }[];
-    };
-    spelling: {
-      word: string;
-      hint: string;
-    };
-    dragDrop?: {
-      dragItems: { id: string; image: string; label: string }[];
-      dropZones: { id: string; image: string; label: string; acceptsId: string }[];
-      instructions?: string;
-    };
-  };
+  narration_audio_url?: string | null;
+  narration_timings?: WordTiming[] | null;
+  quiz_data: QuizData;
   book_id?: string;
   created_at: string;
   updated_at: string;
@@ -37,6 +28,8 @@ export interface StoryPageInput {
   video_url: string;
   background_url: string;
   background_music_url?: string;
+  narration_audio_url?: string | null;
+  narration_timings?: WordTiming[] | null;
   quiz_data: StoryPage['quiz_data'];
   book_id?: string;
 }
@@ -131,7 +124,9 @@ export class SupabaseService {
         video_url: updates.video_url || '',
         background_url: updates.background_url || '',
         background_music_url: updates.background_music_url || null,
-        quiz_data: updates.quiz_data || {},
+        narration_audio_url: updates.narration_audio_url || null,
+        narration_timings: updates.narration_timings || null,
+        quiz_data: updates.quiz_data || { questions: [] },
         book_id: updates.book_id,
         updated_at: new Date().toISOString()
       };
@@ -178,6 +173,87 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Adds a page so it becomes page `position` (one-based) and moves the later pages down, in a
+   * single transaction on the server; without a position it goes at the end.
+   */
+  async insertStoryPage(pageData: Omit<StoryPageInput, 'page_number'> & { book_id: string }, position?: number): Promise<StoryPage> {
+    try {
+      const { book_id: bookId, ...page } = pageData;
+      const { data, error } = await this.supabase
+        .rpc('insert_story_page', { p_book_id: bookId, p_page: page, p_position: position ?? null });
+
+      if (error) {
+        console.error('Error inserting story page:', error);
+        throw new Error(`Failed to add page: ${error.message}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in insertStoryPage:', error);
+      throw error;
+    }
+  }
+
+  // Copies a page, narration and quiz included, and places the copy right after the original
+  async duplicateStoryPage(pageId: string): Promise<StoryPage> {
+    try {
+      const { data: source, error } = await this.supabase
+        .from('story_pages')
+        .select('*')
+        .eq('id', pageId)
+        .single();
+
+      if (error) {
+        console.error('Error fetching story page to duplicate:', error);
+        throw new Error(`Failed to duplicate story page: ${error.message}`);
+      }
+
+      if (!source.book_id) {
+        throw new Error('Only pages that belong to a book can be duplicated');
+      }
+
+      const pages = await this.getAllStoryPages(source.book_id);
+      const sourcePosition = pages.findIndex(page => page.id === pageId) + 1;
+
+      return await this.insertStoryPage({
+        title: source.title,
+        text: source.text,
+        image_url: source.image_url,
+        video_url: source.video_url,
+        background_url: source.background_url,
+        background_music_url: source.background_music_url,
+        narration_audio_url: source.narration_audio_url,
+        narration_timings: source.narration_timings,
+        quiz_data: source.quiz_data,
+        book_id: source.book_id
+      }, sourcePosition + 1);
+    } catch (error) {
+      console.error('Error in duplicateStoryPage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Renumbers a book's pages 1..n in a single transaction on the server. `pageIds` must list
+   * every page of the book in the new order; without it the current order is kept and any gaps
+   * are closed.
+   */
+  async renumberStoryPages(bookId: string, pageIds?: string[]): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .rpc('renumber_story_pages', { p_book_id: bookId, p_page_ids: pageIds ?? null });
+
+      if (error) {
+        console.error('Error renumbering story pages:', error);
+        throw new Error(`Failed to reorder pages: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('Error in renumberStoryPages:', error);
+      throw error;
+    }
+  }
+
   async deleteStoryPage(pageNumber: number, bookId?: string): Promise<void> {
     try {
       let query = this.supabase
@@ -195,6 +271,11 @@ export class SupabaseService {
         console.error('Error deleting story page:', error);
         throw new Error(`Failed to delete story page: ${error.message}`);
       }
+
+      // Close the gap so page numbers keep matching page positions
+      if (bookId) {
+        await this.renumberStoryPages(bookId);
+      }
     } catch (error) {
       console.error('Error in deleteStoryPage:', error);
       throw error;
@@ -234,7 +315,9 @@ export class SupabaseService {
       video: dbPage.video_url,
       background: dbPage.background_url,
       backgroundMusic: dbPage.background_music_url,
-      quiz: dbPage.quiz_data
+      narrationAudio: dbPage.narration_audio_url || undefined,
+      narrationTimings: dbPage.narration_timings || undefined,
+      quiz: normalizeQuizData(dbPage.quiz_data, dbPage.text)
     };
   }
 
@@ -248,7 +331,9 @@ export class SupabaseService {
       video_url: componentData.video || componentData.video_url,
       background_url: componentData.background || componentData.background_url,
       background_music_url: componentData.backgroundMusic || componentData.background_music_url,
-      quiz_data: componentData.quiz || {},
+      narration_audio_url: componentData.narrationAudio || componentData.narration_audio_url,
+      narration_timings: componentData.narrationTimings || componentData.narration_timings,
+      quiz_data: componentData.quiz || { questions: [] },
       book_id: bookId
     };
   }
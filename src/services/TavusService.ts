@@ -1,33 +1,7 @@
-export interface TavusConversation {
-  conversation_id: string;
-  conversation_name: string;
-  status: 'active' | 'ended';
-  conversation_url: string;
-  replica_id: string;
-  persona_id?: string;
-  created_at: string;
-}
-
-export interface CreateConversationRequest {
-  replica_id: string;
-  persona_id?: string;
-  callback_url?: string;
-  conversation_name: string;
-  conversational_context?: string;
-  custom_greeting?: string;
-  properties?: {
-    max_call_duration?: number;
-    participant_left_timeout?: number;
-    participant_absent_timeout?: number;
-    enable_recording?: boolean;
-    enable_closed_captions?: boolean;
-    apply_greenscreen?: boolean;
-    language?: string;
-    recording_s3_bucket_name?: string;
-    recording_s3_bucket_region?: string;
-    aws_assume_role_arn?: string;
-  };
-}
+import { AIGatewayService } from './AIGatewayService';
+import { ConversationRequest, TavusConversation } from '../types/AIGateway';
+import { stripStoryMarkup } from '../utils/storyMarkup';
+import { DEFAULT_BOOK_LANGUAGE, getTavusLanguage } from '../utils/languages';
 
 export interface CreatePersonaRequest {
   persona_name: string;
@@ -52,54 +26,15 @@ export interface CreatePersonaRequest {
   };
 }
 
+// Tavus runs behind the AI gateway, which keeps the API key, replica and persona
 export class TavusService {
-  private static readonly BASE_URL = 'https://tavusapi.com/v2';
-
-  static getApiKey(): string {
-    return import.meta.env.VITE_TAVUS_API_KEY || '';
-  }
-
-  static getReplicaId(): string {
-    return import.meta.env.VITE_TAVUS_REPLICA_ID || '';
-  }
-
-  static getPersonaId(): string {
-    return import.meta.env.VITE_TAVUS_PERSONA_ID || '';
-  }
-
-  // static getLibraryPersonaId(): string {
-  //   return import.meta.env.VITE_TAVUS_LIBRARY_PERSONA_ID || '';
-  // }
-
   static isConfigured(): boolean {
-    return !!(this.getApiKey() && this.getReplicaId());
+    return AIGatewayService.isConfigured();
   }
 
-  // Persona creation is now handled externally and persona ID is stored in env
-
-  static async createConversation(request: CreateConversationRequest): Promise<TavusConversation> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      throw new Error('Tavus API key not configured');
-    }
-
+  static async createConversation(request: ConversationRequest): Promise<TavusConversation> {
     try {
-      const response = await fetch(`${this.BASE_URL}/conversations`, {
-        method: 'POST',
-        headers: {
-          'x-api-key': apiKey,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(request),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`Tavus API error: ${errorData.message || response.statusText}`);
-      }
-
-      const data = await response.json();
-      return data;
+      return await AIGatewayService.request('conversation', request);
     } catch (error) {
       console.error('Error creating Tavus conversation:', error);
       throw error;
@@ -161,111 +96,32 @@ You: "I don't see that specific book in our collection, but I found some other w
 Always be helpful and suggest alternatives from what we actually have!`;
   }
 
-  static async createLibraryConversation(availableBooks: any[] = []): Promise<TavusConversation> {
-    const conversationRequest: CreateConversationRequest = {
-      replica_id: this.getReplicaId(),
-      persona_id: this.getPersonaId(),
+  static async createLibraryConversation(availableBooks: any[] = [], language = DEFAULT_BOOK_LANGUAGE): Promise<TavusConversation> {
+    return this.createConversation({
+      kind: 'library',
       conversation_name: "Library Assistant Chat",
       conversational_context: this.createLibraryConversationContext(availableBooks),
-
       custom_greeting: `Hello! I'm your interactive library assistant. I can help you find books from our collection of ${availableBooks.length} books. What kind of books are you interested in today?`,
-
-      properties: {
-        max_call_duration: 120, // 2 minutes
-        participant_left_timeout: 10,
-        participant_absent_timeout: 10,
-        enable_recording: false,
-        enable_closed_captions: true,
-        apply_greenscreen: false,
-        language: 'english'
-      }
-    };
-
-    return this.createConversation(conversationRequest);
-  }
-
-  static async getConversation(conversationId: string): Promise<TavusConversation> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      throw new Error('Tavus API key not configured');
-    }
-
-    try {
-      const response = await fetch(`${this.BASE_URL}/conversations/${conversationId}`, {
-        method: 'GET',
-        headers: {
-          'x-api-key': apiKey,
-        },
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`Tavus API error: ${errorData.message || response.statusText}`);
-      }
-
-      const data = await response.json();
-      return data;
-    } catch (error) {
-      console.error('Error getting Tavus conversation:', error);
-      throw error;
-    }
+      language: getTavusLanguage(language)
+    });
   }
 
   static async endConversation(conversationId: string): Promise<void> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      throw new Error('Tavus API key not configured');
-    }
-
     try {
-      const response = await fetch(`${this.BASE_URL}/conversations/${conversationId}/end`, {
-        method: 'POST',
-        headers: {
-          'x-api-key': apiKey,
-        },
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`Tavus API error: ${errorData.message || response.statusText}`);
-      }
+      await AIGatewayService.request('conversation-end', { conversation_id: conversationId });
     } catch (error) {
       console.error('Error ending Tavus conversation:', error);
       throw error;
     }
   }
 
-  static async deleteConversation(conversationId: string): Promise<void> {
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      throw new Error('Tavus API key not configured');
-    }
-
-    try {
-      const response = await fetch(`${this.BASE_URL}/conversations/${conversationId}`, {
-        method: 'DELETE',
-        headers: {
-          'x-api-key': apiKey,
-        },
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`Tavus API error: ${errorData.message || response.statusText}`);
-      }
-    } catch (error) {
-      console.error('Error deleting Tavus conversation:', error);
-      throw error;
-    }
-  }
-
   static createStoryContext(pageContent: any, currentPage: number, totalPages: number): string {
     return `You are a friendly storyteller helping a child read an interactive story. 
     
 Current Story Context:
 - Page ${currentPage + 1} of ${totalPages}
 - Title: "${pageContent.title}"
-- Story Text: "${pageContent.text}"
+- Story Text: "${stripStoryMarkup(pageContent.text)}"
 
 Your Role:
 - speak very slowly
@@ -0,0 +1,46 @@
+// Speech-to-text with a locally hosted Whisper server, for browsers without speech recognition
+export class TranscriptionService {
+  // Any server that speaks the OpenAI transcription API, e.g. faster-whisper-server or whisper.cpp
+  static getEndpoint(): string {
+    return import.meta.env.VITE_LOCAL_TRANSCRIBE_URL || '';
+  }
+
+  static getModel(): string {
+    return import.meta.env.VITE_LOCAL_TRANSCRIBE_MODEL || 'whisper-1';
+  }
+
+  static isConfigured(): boolean {
+    return !!this.getEndpoint();
+  }
+
+  static async transcribe(audio: Blob, language: string): Promise<string> {
+    const endpoint = this.getEndpoint();
+    if (!endpoint) {
+      throw new Error('Local transcription server not configured');
+    }
+
+    const form = new FormData();
+    form.append('file', audio, `reading.${audio.type.includes('ogg') ? 'ogg' : 'webm'}`);
+    form.append('model', this.getModel());
+    // Whisper takes the bare language code
+    form.append('language', language.split('-')[0]);
+    form.append('response_format', 'json');
+
+    try {
+      const response = await fetch(`${endpoint.replace(/\/$/, '')}/v1/audio/transcriptions`, {
+        method: 'POST',
+        body: form
+      });
+
+      if (!response.ok) {
+        throw new Error(`Transcription error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return typeof data.text === 'string' ? data.text : '';
+    } catch (error) {
+      console.error('Error transcribing audio:', error);
+      throw error;
+    }
+  }
+}
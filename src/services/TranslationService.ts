@@ -0,0 +1,102 @@
+import { SupabaseService } from './SupabaseService';
+import { AIProviderService } from './AIProviderService';
+import { PageTranslation, PageTranslationInput } from '../types/Translation';
+import { parseJsonReply } from '../utils/bookGeneration';
+import { buildPageTranslationPrompt, parsePageTranslation } from '../utils/pageTranslation';
+
+export class TranslationService {
+  private static instance: TranslationService;
+  private supabase;
+
+  private constructor() {
+    this.supabase = SupabaseService.getInstance();
+  }
+
+  static getInstance(): TranslationService {
+    if (!TranslationService.instance) {
+      TranslationService.instance = new TranslationService();
+    }
+    return TranslationService.instance;
+  }
+
+  // Every translation of every page in the book
+  async getBookTranslations(bookId: string): Promise<PageTranslation[]> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('story_page_translations')
+        .select('*')
+        .eq('book_id', bookId)
+        .order('language', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching translations:', error);
+        throw new Error(`Failed to fetch translations: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getBookTranslations:', error);
+      throw error;
+    }
+  }
+
+  // Saves over any translation the page already has in that language
+  async saveTranslation(
+    page: { id: string; book_id: string },
+    language: string,
+    content: PageTranslationInput
+  ): Promise<PageTranslation> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('story_page_translations')
+        .upsert({
+          page_id: page.id,
+          book_id: page.book_id,
+          language,
+          ...content,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'page_id,language' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving translation:', error);
+        throw new Error(`Failed to save translation: ${error.message}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in saveTranslation:', error);
+      throw error;
+    }
+  }
+
+  async deleteTranslation(pageId: string, language: string): Promise<void> {
+    try {
+      const { error } = await this.supabase.supabase
+        .from('story_page_translations')
+        .delete()
+        .eq('page_id', pageId)
+        .eq('language', language);
+
+      if (error) {
+        console.error('Error deleting translation:', error);
+        throw new Error(`Failed to delete translation: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('Error in deleteTranslation:', error);
+      throw error;
+    }
+  }
+
+  // A starting point for the author to review; nothing is saved until they do
+  async translatePage(page: PageTranslationInput, fromLanguage: string, toLanguage: string): Promise<PageTranslationInput> {
+    try {
+      const reply = await AIProviderService.getTextGenerator().draftContent(buildPageTranslationPrompt(page, fromLanguage, toLanguage));
+      return parsePageTranslation(parseJsonReply(reply), page);
+    } catch (error) {
+      console.error('Error in translatePage:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { SupabaseService } from './SupabaseService';
+import { UsageCap, UsageMetric, UsageReportRow, UsageScope } from '../types/Usage';
+
+// AI usage the gateway has metered, and the daily caps it enforces
+export class UsageService {
+  private static instance: UsageService;
+  private supabase;
+
+  private constructor() {
+    this.supabase = SupabaseService.getInstance();
+  }
+
+  static getInstance(): UsageService {
+    if (!UsageService.instance) {
+      UsageService.instance = new UsageService();
+    }
+    return UsageService.instance;
+  }
+
+  // Usage over the last `days` UTC days, today included; admins only
+  async getReport(days: number): Promise<UsageReportRow[]> {
+    try {
+      const { data, error } = await this.supabase.supabase.rpc('get_ai_usage_report', { p_days: days });
+
+      if (error) {
+        console.error('Error fetching AI usage:', error);
+        throw new Error(`Failed to fetch AI usage: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getReport:', error);
+      throw error;
+    }
+  }
+
+  async getCaps(): Promise<UsageCap[]> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('ai_usage_caps')
+        .select('*');
+
+      if (error) {
+        console.error('Error fetching AI usage caps:', error);
+        throw new Error(`Failed to fetch AI usage caps: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getCaps:', error);
+      throw error;
+    }
+  }
+
+  // A null limit lifts the cap
+  async updateCap(scope: UsageScope, metric: UsageMetric, dailyLimit: number | null): Promise<void> {
+    try {
+      const { data, error } = await this.supabase.supabase
+        .from('ai_usage_caps')
+        .update({ daily_limit: dailyLimit, updated_at: new Date().toISOString() })
+        .eq('scope', scope)
+        .eq('metric', metric)
+        .select('scope');
+
+      if (error) {
+        console.error('Error updating AI usage cap:', error);
+        throw new Error(`Failed to update AI usage cap: ${error.message}`);
+      }
+
+      // RLS filters the update silently when the caller is not an admin
+      if (!data || data.length === 0) {
+        throw new Error('Only admins can change AI usage caps');
+      }
+    } catch (error) {
+      console.error('Error in updateCap:', error);
+      throw error;
+    }
+  }
+}
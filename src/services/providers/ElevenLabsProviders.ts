@@ -0,0 +1,10 @@
+import { ElevenLabsService } from '../ElevenLabsService';
+import { SpeechSynthesizer } from '../../types/AIProviders';
+
+export const elevenLabsSpeech: SpeechSynthesizer = {
+  label: 'ElevenLabs',
+  hasWordTimings: true,
+  isConfigured: () => ElevenLabsService.isConfigured(),
+  synthesize: (text, voiceId) => ElevenLabsService.generateTTSAudio(text, voiceId),
+  synthesizeWithTimings: (text, voiceId) => ElevenLabsService.generateTTSWithTimestamps(text, voiceId)
+};
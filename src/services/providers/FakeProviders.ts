@@ -0,0 +1,173 @@
+import {
+  HandwritingRecognizer,
+  ImageGenerator,
+  SpeechSynthesizer,
+  TextGenerator,
+  VisionDescriber
+} from '../../types/AIProviders';
+import { CharacterAlignment } from '../../types/Narration';
+
+/**
+ * Offline stand-ins for every AI backend. They never touch the network and always give the
+ * same answer for the same input, so each AI flow can be run and checked without any keys.
+ */
+
+const DRAWING_IDEAS = [
+  'A friendly robot drinking a milkshake',
+  'A snail with a birthday cake for a shell',
+  'A cat flying a paper airplane'
+];
+
+const SECONDS_PER_CHARACTER = 0.06;
+const SAMPLE_RATE = 8000;
+const STREAM_WORD_DELAY_MS = 120;
+
+let ideaCount = 0;
+
+const hashText = (text: string): number => {
+  let hash = 0;
+  for (let index = 0; index < text.length; index++) {
+    hash = (hash * 31 + text.charCodeAt(index)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const fakeStory = (subject: string) =>
+  `Once upon a time there was a ${subject}. It was kind to everyone, and everyone was kind back.`;
+
+const fakePage = (pageNumber: number) => ({
+  title: `Page ${pageNumber}`,
+  text: `On page ${pageNumber}, the little fox found a shiny red ball and shared it with a friend.`,
+  image_prompt: 'a little fox holding a shiny red ball in a sunny meadow',
+  quiz: {
+    question: 'What did the little fox find?',
+    options: ['A red ball', 'A blue hat', 'A green apple'],
+    correct_index: 0,
+    spelling_word: 'ball',
+    spelling_hint: 'You can throw and catch it'
+  }
+});
+
+// Answers in the JSON shape the prompt asks for: book drafts, page rewrites, definitions and translations
+const draftReply = (prompt: string): unknown => {
+  const definitionWord = prompt.match(/^Explain the .+? word "([^"]+)"/);
+  if (definitionWord) {
+    return { definition: `A practice meaning for "${definitionWord[1]}".`, syllables: [definitionWord[1]] };
+  }
+
+  const marker = 'in this shape:';
+  let shape: Record<string, unknown> = {};
+  try {
+    shape = JSON.parse(prompt.slice(prompt.indexOf(marker) + marker.length));
+  } catch {
+    // Not a JSON prompt; an empty reply is as good as any
+  }
+
+  if (Array.isArray(shape.pages)) {
+    const pageCount = Number(prompt.match(/^Write a (\d+)-page/)?.[1]) || 3;
+    return {
+      title: 'The Little Fox',
+      description: 'A practice book written offline.',
+      characters: 'a small orange fox with a white-tipped tail',
+      pages: Array.from({ length: pageCount }, (_, index) => fakePage(index + 1))
+    };
+  }
+  if ('image_prompt' in shape) {
+    return fakePage(Number(prompt.match(/fresh version of page (\d+)/)?.[1]) || 1);
+  }
+  // Translations come back unchanged
+  return shape;
+};
+
+// 16-bit mono silence, as long as reading the text would take
+const silentWav = (seconds: number): Blob => {
+  const dataSize = Math.max(1, Math.ceil(seconds * SAMPLE_RATE)) * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeTag = (offset: number, tag: string) => {
+    tag.split('').forEach((char, index) => view.setUint8(offset + index, char.charCodeAt(0)));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  return new Blob([view.buffer], { type: 'audio/wav' });
+};
+
+const evenAlignment = (text: string): CharacterAlignment => {
+  const characters = Array.from(text);
+  return {
+    characters,
+    character_start_times_seconds: characters.map((_, index) => index * SECONDS_PER_CHARACTER),
+    character_end_times_seconds: characters.map((_, index) => (index + 1) * SECONDS_PER_CHARACTER)
+  };
+};
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+
+export const fakeText: TextGenerator = {
+  label: 'Offline fake',
+  isConfigured: () => true,
+  getDrawingIdea: async () => DRAWING_IDEAS[ideaCount++ % DRAWING_IDEAS.length],
+  generateStory: async subject => fakeStory(subject),
+  // Word by word, a little slower than Gemini, so streaming can be watched
+  async *streamStory(subject, signal) {
+    for (const word of fakeStory(subject).split(/(?<= )/)) {
+      await new Promise(resolve => setTimeout(resolve, STREAM_WORD_DELAY_MS));
+      if (signal?.aborted) {
+        throw new DOMException('The story was cancelled', 'AbortError');
+      }
+      yield word;
+    }
+  },
+  draftContent: async prompt => JSON.stringify(draftReply(prompt))
+};
+
+export const fakeVision: VisionDescriber = {
+  label: 'Offline fake',
+  isConfigured: () => true,
+  describeDrawing: async () => 'smiling sun'
+};
+
+// A plain placeholder whose colour follows the prompt and seed
+export const fakeImage: ImageGenerator = {
+  label: 'Offline fake',
+  isConfigured: () => true,
+  generateImage: async (prompt, seed = 42) => {
+    const hue = hashText(`${prompt}:${seed}`) % 360;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="600" height="800" viewBox="0 0 600 800">
+  <rect width="600" height="800" fill="hsl(${hue}, 70%, 92%)"/>
+  <circle cx="300" cy="330" r="120" fill="hsl(${hue}, 60%, 70%)"/>
+  <text x="300" y="560" font-family="sans-serif" font-size="22" text-anchor="middle" fill="#4b5563">${escapeXml(prompt.slice(0, 40))}</text>
+</svg>`;
+    return new Blob([svg], { type: 'image/svg+xml' });
+  }
+};
+
+export const fakeSpeech: SpeechSynthesizer = {
+  label: 'Offline fake',
+  hasWordTimings: true,
+  isConfigured: () => true,
+  synthesize: async text => silentWav(text.length * SECONDS_PER_CHARACTER),
+  synthesizeWithTimings: async text => ({
+    audio: silentWav(text.length * SECONDS_PER_CHARACTER),
+    alignment: evenAlignment(text)
+  })
+};
+
+export const fakeHandwriting: HandwritingRecognizer = {
+  label: 'Offline fake',
+  method: 'fake',
+  isConfigured: () => true,
+  recognize: async (_imageSrc, expected = '') => ({ text: expected, confidence: 1, method: 'fake' })
+};
@@ -0,0 +1,27 @@
+import { GeminiService } from '../GeminiService';
+import { HandwritingRecognizer, TextGenerator, VisionDescriber } from '../../types/AIProviders';
+
+export const geminiText: TextGenerator = {
+  label: 'Gemini',
+  isConfigured: () => GeminiService.isConfigured(),
+  getDrawingIdea: () => GeminiService.getDrawingIdea(),
+  generateStory: subject => GeminiService.generateStory(subject),
+  streamStory: (subject, signal) => GeminiService.streamStory(subject, signal),
+  draftContent: prompt => GeminiService.draftBookContent(prompt)
+};
+
+export const geminiVision: VisionDescriber = {
+  label: 'Gemini',
+  isConfigured: () => GeminiService.isConfigured(),
+  describeDrawing: base64Image => GeminiService.recognizeImage(base64Image)
+};
+
+export const geminiHandwriting: HandwritingRecognizer = {
+  label: 'Gemini',
+  method: 'gemini',
+  isConfigured: () => GeminiService.isConfigured(),
+  recognize: async imageSrc => {
+    const { text, confidence } = await GeminiService.recognizeText(imageSrc);
+    return { text, confidence, method: 'gemini' };
+  }
+};
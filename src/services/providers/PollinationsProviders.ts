@@ -0,0 +1,19 @@
+import { PollinationsService } from '../PollinationsService';
+import { ImageGenerator, SpeechSynthesizer } from '../../types/AIProviders';
+
+export const pollinationsImage: ImageGenerator = {
+  label: 'Pollinations',
+  isConfigured: () => PollinationsService.isConfigured(),
+  generateImage: (prompt, seed) => PollinationsService.generateImage(prompt, seed)
+};
+
+// Pollinations' audio model answers its prompt out loud, so it's asked to read the text as written
+export const pollinationsSpeech: SpeechSynthesizer = {
+  label: 'Pollinations',
+  hasWordTimings: false,
+  isConfigured: () => PollinationsService.isConfigured(),
+  synthesize: text => PollinationsService.generateStoryAudio(`Read this aloud to a young child, exactly as written: ${text}`),
+  synthesizeWithTimings: async () => {
+    throw new Error('Pollinations voices have no word timings. Choose ElevenLabs for narration tracks.');
+  }
+};
@@ -0,0 +1,20 @@
+import { createWorker } from 'tesseract.js';
+import { HandwritingRecognizer } from '../../types/AIProviders';
+
+// Runs in the browser, so it works offline once the language data is cached
+export const tesseractHandwriting: HandwritingRecognizer = {
+  label: 'Tesseract',
+  method: 'tesseract',
+  isConfigured: () => true,
+  recognize: async imageSrc => {
+    // tesseract.js v5 loads and initializes the language when the worker is created
+    const worker = await createWorker('eng');
+
+    try {
+      const { data: { text, confidence } } = await worker.recognize(imageSrc);
+      return { text: text.trim(), confidence: confidence / 100, method: 'tesseract' };
+    } finally {
+      await worker.terminate();
+    }
+  }
+};
@@ -0,0 +1,78 @@
+import { CharacterAlignment } from './Narration';
+
+// A Tavus video conversation, as created by the AI gateway
+export interface TavusConversation {
+  conversation_id: string;
+  conversation_name: string;
+  status: 'active' | 'ended';
+  conversation_url: string;
+  replica_id: string;
+  persona_id?: string;
+  created_at: string;
+}
+
+/**
+ * What the app asks Tavus for; the gateway adds the replica, persona and call limits for
+ * the kind of conversation, so those never come from the browser.
+ */
+export interface ConversationRequest {
+  kind: 'story' | 'library';
+  conversation_name: string;
+  conversational_context: string;
+  custom_greeting: string;
+  language: string; // Tavus language name, e.g. 'english'
+}
+
+// Request bodies for each AI gateway endpoint
+export interface AIGatewayRequests {
+  idea: Record<string, never>;
+  'describe-drawing': { image: string }; // base64 PNG
+  story: { subject: string };
+  'story-stream': { subject: string };
+  // The prompt describes the JSON shape it expects back
+  draft: { prompt: string };
+  ocr: { image: string; model?: string }; // data URL
+  image: { prompt: string; seed?: number };
+  tts: { text: string; voiceId?: string };
+  'tts-timestamps': { text: string; voiceId?: string };
+  'story-audio': { prompt: string };
+  'voice-agent': Record<string, never>;
+  conversation: ConversationRequest;
+  'conversation-end': { conversation_id: string };
+}
+
+// JSON replies; image, tts and story-audio reply with the media itself, and story-stream with events
+export interface AIGatewayResponses {
+  idea: { idea: string };
+  // Just the subject, e.g. 'smiling sun', with no "line sketch of" in front
+  'describe-drawing': { subject: string };
+  story: { story: string };
+  draft: { text: string };
+  ocr: { text: string; confidence: number };
+  'tts-timestamps': { audio_base64: string; alignment: CharacterAlignment };
+  'voice-agent': { signed_url: string };
+  conversation: TavusConversation;
+  'conversation-end': { ended: boolean };
+}
+
+export type AIGatewayEndpoint = keyof AIGatewayRequests;
+export type AIGatewayJsonEndpoint = keyof AIGatewayResponses;
+// Endpoints that stream text as Server-Sent Events
+export type AIGatewayStreamEndpoint = 'story-stream';
+export type AIGatewayMediaEndpoint = Exclude<AIGatewayEndpoint, AIGatewayJsonEndpoint | AIGatewayStreamEndpoint>;
+
+// The data of each plain event in a stream; an `error` event carries an AIGatewayErrorBody instead
+export interface AIGatewayStreamChunk {
+  text: string;
+}
+
+// What the gateway sends back when a call fails
+export interface AIGatewayErrorBody {
+  error?: string;
+  // 'blocked' when the provider's safety filters stopped the request, 'budget' when a daily
+  // AI budget is used up
+  code?: string;
+  // The provider's reason, e.g. Gemini's 'SAFETY' or 'RECITATION'; for 'budget', which one
+  // ran out: 'child' or 'classroom'
+  reason?: string;
+}
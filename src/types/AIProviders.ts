@@ -0,0 +1,69 @@
+import { CharacterAlignment } from './Narration';
+
+export type TextProviderId = 'gemini' | 'fake';
+export type VisionProviderId = 'gemini' | 'fake';
+export type ImageProviderId = 'pollinations' | 'fake';
+export type SpeechProviderId = 'elevenlabs' | 'pollinations' | 'fake';
+// 'tesseract-gemini' reads with Tesseract first and asks Gemini when it doesn't find the word
+export type HandwritingProviderId = 'tesseract-gemini' | 'tesseract' | 'gemini' | 'fake';
+
+// Which backend serves each AI capability on this device
+export interface AIProviderConfig {
+  text: TextProviderId;
+  vision: VisionProviderId;
+  image: ImageProviderId;
+  speech: SpeechProviderId;
+  handwriting: HandwritingProviderId;
+}
+
+export type AICapability = keyof AIProviderConfig;
+
+interface AIProvider {
+  label: string;
+  isConfigured(): boolean;
+}
+
+export interface TextGenerator extends AIProvider {
+  getDrawingIdea(): Promise<string>;
+  generateStory(subject: string): Promise<string>;
+  // The same story in pieces as it's written; aborting the signal stops it with an AbortError
+  streamStory(subject: string, signal?: AbortSignal): AsyncIterable<string>;
+  // Book drafts, translations and definitions; the prompt describes the JSON shape it expects back
+  draftContent(prompt: string): Promise<string>;
+}
+
+export interface VisionDescriber extends AIProvider {
+  // What a drawing or photo (base64 PNG) shows in a few words, e.g. 'smiling sun'
+  describeDrawing(base64Image: string): Promise<string>;
+}
+
+export interface ImageGenerator extends AIProvider {
+  // A different seed gives a different picture for the same prompt
+  generateImage(prompt: string, seed?: number): Promise<Blob>;
+}
+
+export interface TimedSpeech {
+  audio: Blob;
+  alignment: CharacterAlignment;
+}
+
+export interface SpeechSynthesizer extends AIProvider {
+  // Whether synthesizeWithTimings works, which narration tracks need for word highlighting
+  hasWordTimings: boolean;
+  synthesize(text: string, voiceId?: string): Promise<Blob>;
+  synthesizeWithTimings(text: string, voiceId?: string): Promise<TimedSpeech>;
+}
+
+export type HandwritingMethod = 'tesseract' | 'gemini' | 'fake';
+
+export interface HandwritingReading {
+  text: string;
+  confidence: number; // 0-1
+  method: HandwritingMethod;
+}
+
+export interface HandwritingRecognizer extends AIProvider {
+  method: HandwritingMethod;
+  // Real recognizers ignore the expected word; the fake one writes it back perfectly
+  recognize(imageSrc: string, expected?: string): Promise<HandwritingReading>;
+}
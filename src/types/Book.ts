@@ -11,6 +11,7 @@ export interface Book {
   target_age_min: number;
   target_age_max: number;
   is_active: boolean;
+  language: string; // BCP 47 code, e.g. 'en'
   created_at: string;
   updated_at: string;
 }
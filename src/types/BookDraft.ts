@@ -0,0 +1,31 @@
+import { Book } from './Book';
+import { QuizData } from './Quiz';
+
+// What the author asks for in the Generate Book wizard
+export interface BookDraftRequest {
+  topic: string;
+  subject: Book['subject'];
+  difficulty_level: Book['difficulty_level'];
+  target_age_min: number;
+  target_age_max: number;
+  page_count: number;
+  language: Book['language'];
+}
+
+export interface DraftPage {
+  title: string;
+  text: string;
+  image_prompt: string;
+  quiz: QuizData;
+}
+
+export interface BookDraft {
+  title: string;
+  description: string;
+  // Visual description of the recurring characters, repeated in every illustration prompt
+  characters: string;
+  pages: DraftPage[];
+}
+
+export const MIN_DRAFT_PAGES = 3;
+export const MAX_DRAFT_PAGES = 12;
@@ -0,0 +1,39 @@
+import { Book } from './Book';
+import { StoryPageInput } from '../services/SupabaseService';
+import { PageTranslation } from './Translation';
+import { GlossaryEntryInput } from './Glossary';
+
+export const BOOK_PACKAGE_FORMAT = 'interactive-library-book';
+// Bump when the manifest shape changes; the importer rejects versions newer than this
+// 2: translations, 3: glossary
+export const BOOK_PACKAGE_VERSION = 3;
+
+export const BOOK_PACKAGE_MANIFEST_FILE = 'manifest.json';
+export const BOOK_PACKAGE_MEDIA_DIR = 'media/';
+
+export type PackagedBook = Omit<Book, 'id' | 'created_at' | 'updated_at'>;
+export type PackagedPage = Omit<StoryPageInput, 'book_id'>;
+// Linked to its page by page_number, since page ids change on import
+export type PackagedTranslation = Pick<PageTranslation, 'language' | 'title' | 'text' | 'quiz_data'> & {
+  page_number: number;
+};
+export type PackagedGlossaryEntry = GlossaryEntryInput;
+
+export interface PackagedMedia {
+  path: string; // e.g. media/003.jpg, relative to the zip root
+  originalUrl: string;
+  contentType: string;
+}
+
+// Media URLs in `book`, `pages` and translated quizzes either point at a bundled file (media/...) or, when the
+// file could not be fetched at export time, are left as the original absolute URL
+export interface BookPackageManifest {
+  format: typeof BOOK_PACKAGE_FORMAT;
+  version: number;
+  exportedAt: string;
+  book: PackagedBook;
+  pages: PackagedPage[];
+  translations: PackagedTranslation[];
+  glossary: PackagedGlossaryEntry[];
+  media: PackagedMedia[];
+}
@@ -0,0 +1,20 @@
+// An author's definition of a word in one of their books
+export interface GlossaryEntry {
+  id: string;
+  book_id: string;
+  word: string; // lower-cased
+  definition: string;
+  syllables: string; // hyphenated, e.g. 'but-ter-fly'
+  created_at: string;
+  updated_at: string;
+}
+
+export type GlossaryEntryInput = Pick<GlossaryEntry, 'word' | 'definition' | 'syllables'>;
+
+// What the tap-a-word popover shows
+export interface WordDefinition {
+  word: string;
+  definition: string;
+  syllables: string[];
+  source: 'glossary' | 'ai' | 'none';
+}
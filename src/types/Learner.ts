@@ -0,0 +1,73 @@
+import { QuestionResult } from './Quiz';
+
+export interface LearnerProfile {
+  id: string;
+  parent_id: string;
+  name: string;
+  avatar: string;
+  birth_year?: number | null;
+  adaptive_quizzes: boolean;
+  skill_rating: number | null; // 0-1, null until first estimated from quiz attempts
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReadingProgress {
+  id: string;
+  learner_id: string;
+  book_id: string;
+  current_page: number;
+  furthest_page: number;
+  total_pages: number;
+  reading_seconds: number;
+  completed_at: string | null;
+  last_read_at: string;
+}
+
+export interface QuizAttempt {
+  id: string;
+  learner_id: string;
+  book_id: string;
+  page_number: number;
+  page_title: string;
+  score: number;
+  max_score: number;
+  is_correct: boolean;
+  results: QuestionResult[];
+  created_at: string;
+}
+
+// A page the learner read aloud in practice mode, scored against the page text
+export interface ReadAloudAttempt {
+  id: string;
+  learner_id: string;
+  book_id: string;
+  page_number: number;
+  language: string;
+  total_words: number;
+  correct_words: number;
+  misread_words: string[];
+  skipped_words: string[];
+  reading_seconds: number;
+  words_correct_per_minute: number;
+  transcript: string;
+  created_at: string;
+}
+
+// A spelling word in the learner's word bank, scheduled with SM-2
+export interface LearnerWord {
+  id: string;
+  learner_id: string;
+  word: string; // lower-cased
+  hint: string;
+  book_id: string | null;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+  last_reviewed_at: string | null;
+  created_at: string;
+}
+
+export const LEARNER_AVATARS = ['🦊', '🐼', '🦁', '🐸', '🐨', '🦄', '🐙', '🐢'] as const;
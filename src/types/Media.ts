@@ -0,0 +1,13 @@
+export type MediaKind = 'image' | 'video' | 'audio';
+
+// A file in the media library, stored in the book-media bucket
+export interface MediaItem {
+  name: string;
+  path: string; // within the bucket, e.g. books/<book id>/forest-1721370000000.jpg
+  url: string;
+  thumbnailUrl: string | null;
+  kind: MediaKind;
+  contentType: string;
+  size: number; // bytes
+  created_at: string;
+}
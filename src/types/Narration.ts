@@ -0,0 +1,24 @@
+// Timing of one spoken word in a narration track, in seconds from the start
+export interface WordTiming {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Character-level alignment as returned by ElevenLabs' with-timestamps endpoint
+export interface CharacterAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+export interface PageNarration {
+  audioUrl: string;
+  timings: WordTiming[];
+}
+
+// How a character tagged in the page text is read by speech synthesis
+export interface SpeakerVoice {
+  voiceName: string | null; // null reads in the narrator's voice
+  pitch: number;
+}
@@ -0,0 +1,25 @@
+import { Book } from './Book';
+import { QuizAnswer } from './Quiz';
+import { StoryPage } from '../services/SupabaseService';
+import { PageTranslation } from './Translation';
+import { GlossaryEntry } from './Glossary';
+
+export interface OfflineBook {
+  book: Book;
+  pages: StoryPage[];
+  // For the bilingual reading mode; missing from books saved before translations were kept
+  translations?: PageTranslation[];
+  // So tapped words still get the author's definitions offline
+  glossary?: GlossaryEntry[];
+  assetUrls: string[];
+  savedAt: string;
+}
+
+export interface QueuedQuizAttempt {
+  id?: number; // assigned by IndexedDB
+  learnerId: string;
+  bookId: string;
+  pageNumber: number;
+  answer: QuizAnswer;
+  answeredAt: string;
+}
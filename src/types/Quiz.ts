@@ -0,0 +1,132 @@
+import { HandwritingMethod } from './AIProviders';
+
+export type QuestionKind =
+  | 'multiple-choice'
+  | 'spelling'
+  | 'true-false'
+  | 'ordering'
+  | 'fill-blank'
+  | 'picture-match';
+
+// How hard a question is pitched; 'standard' is the question as authored
+export type QuestionLevel = 'easier' | 'standard' | 'harder';
+
+// Alternative versions of a question served in adaptive mode instead of the standard one
+export type QuestionVariants = Partial<Record<Exclude<QuestionLevel, 'standard'>, QuizQuestion>>;
+
+interface BaseQuestion {
+  id: string;
+  kind: QuestionKind;
+  variants?: QuestionVariants;
+}
+
+export interface MultipleChoiceQuestion extends BaseQuestion {
+  kind: 'multiple-choice';
+  question: string;
+  options: { text: string; isCorrect: boolean; }[];
+}
+
+export interface SpellingQuestion extends BaseQuestion {
+  kind: 'spelling';
+  word: string;
+  hint: string;
+}
+
+export interface TrueFalseQuestion extends BaseQuestion {
+  kind: 'true-false';
+  statement: string;
+  answer: boolean;
+}
+
+export interface OrderingQuestion extends BaseQuestion {
+  kind: 'ordering';
+  instructions: string;
+  // Stored in the correct order; shuffled when shown to the child
+  items: { id: string; text: string }[];
+}
+
+export interface FillBlankQuestion extends BaseQuestion {
+  kind: 'fill-blank';
+  // Blanks are written as ___ in the sentence, answers line up with them in order
+  sentence: string;
+  answers: string[];
+  wordBank?: string[];
+}
+
+export interface PictureMatchQuestion extends BaseQuestion {
+  kind: 'picture-match';
+  dragItems: { id: string; image: string; label: string }[];
+  dropZones: { id: string; image: string; label: string; acceptsId: string }[];
+  instructions?: string;
+}
+
+export type QuizQuestion =
+  | MultipleChoiceQuestion
+  | SpellingQuestion
+  | TrueFalseQuestion
+  | OrderingQuestion
+  | FillBlankQuestion
+  | PictureMatchQuestion;
+
+export type QuestionOfKind<K extends QuestionKind> = Extract<QuizQuestion, { kind: K }>;
+
+export interface SpellingResponse {
+  answer: string;
+  source: 'typed' | HandwritingMethod;
+}
+
+// What each question kind hands back to the quiz when the child answers
+export interface QuestionResponseMap {
+  'multiple-choice': number;
+  'spelling': SpellingResponse;
+  'true-false': boolean;
+  'ordering': string[];
+  'fill-blank': string[];
+  'picture-match': Record<string, string>;
+}
+
+export type QuizResponse = QuestionResponseMap[QuestionKind];
+
+export interface QuizData {
+  questions: QuizQuestion[];
+}
+
+// Shape of quiz_data before questions were stored as an ordered list
+export interface LegacyQuizData {
+  multipleChoice?: {
+    question: string;
+    options: { text: string; isCorrect: boolean; }[];
+  };
+  spelling?: {
+    word: string;
+    hint: string;
+  };
+  dragDrop?: {
+    dragItems: { id: string; image: string; label: string }[];
+    dropZones: { id: string; image: string; label: string; acceptsId: string }[];
+    instructions?: string;
+  };
+}
+
+export interface QuestionScore {
+  score: number;
+  maxScore: number;
+  isCorrect: boolean;
+}
+
+export interface QuestionResult extends QuestionScore {
+  questionId: string;
+  kind: QuestionKind;
+  prompt: string;
+  expected: string;
+  response: string;
+  level?: QuestionLevel; // missing on results recorded before adaptive mode
+}
+
+export interface QuizAnswer {
+  pageTitle: string;
+  results: QuestionResult[];
+  score: number;
+  maxScore: number;
+  isCorrect: boolean;
+}
@@ -0,0 +1,47 @@
+import { Book } from './Book';
+import { QuizData } from './Quiz';
+import { WordTiming } from './Narration';
+
+// The editable fields of a story page, as stored in drafts and revisions
+export interface PageSnapshot {
+  title: string;
+  text: string;
+  image_url: string;
+  video_url: string;
+  background_url: string;
+  background_music_url?: string | null;
+  narration_audio_url?: string | null;
+  narration_timings?: WordTiming[] | null;
+  quiz_data: QuizData;
+}
+
+export type BookDetails = Omit<Book, 'id' | 'created_at' | 'updated_at'>;
+
+// Unpublished edits; readers keep seeing the live row until the book is published
+export interface PageDraft {
+  page_id: string;
+  book_id: string;
+  content: PageSnapshot;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export interface BookDetailsDraft {
+  book_id: string;
+  details: BookDetails;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export type RevisionStatus = 'draft' | 'published';
+
+export interface PageRevision {
+  id: string;
+  page_id: string;
+  book_id: string | null;
+  content: PageSnapshot;
+  status: RevisionStatus;
+  created_by: string | null;
+  author_email: string;
+  created_at: string;
+}
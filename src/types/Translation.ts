@@ -0,0 +1,16 @@
+import { QuizData } from './Quiz';
+
+// A page's words in another language; media, narration tracks and page order come from the page
+export interface PageTranslation {
+  id: string;
+  page_id: string;
+  book_id: string;
+  language: string; // BCP 47 code
+  title: string;
+  text: string;
+  quiz_data: QuizData;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PageTranslationInput = Pick<PageTranslation, 'title' | 'text' | 'quiz_data'>;
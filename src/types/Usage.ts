@@ -0,0 +1,23 @@
+// What the AI gateway meters, per account and child each day
+export type UsageMetric = 'tokens' | 'images' | 'tts_characters' | 'tavus_minutes';
+
+// A child's own daily budget, or the whole account's, shared by every child in the family or classroom
+export type UsageScope = 'child' | 'classroom';
+
+export interface UsageCap {
+  scope: UsageScope;
+  metric: UsageMetric;
+  daily_limit: number | null; // null for no limit
+  updated_at: string;
+}
+
+// One account's (and optionally one child's) use of a metric on one UTC day
+export interface UsageReportRow {
+  usage_date: string;
+  user_id: string;
+  email: string;
+  learner_id: string | null; // null for calls made with no child picked
+  learner_name: string | null;
+  metric: UsageMetric;
+  amount: number;
+}
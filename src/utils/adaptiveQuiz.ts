@@ -0,0 +1,103 @@
+// Adaptive difficulty: a per-learner skill estimate and the question variants it selects
+import { Book } from '../types/Book';
+import { QuestionLevel, QuestionResult, QuizData, QuizQuestion } from '../types/Quiz';
+import { QuizAttempt } from '../types/Learner';
+
+export const DEFAULT_SKILL = 0.5;
+
+// How hard each level is on the same 0-1 scale as the skill estimate
+const LEVEL_DIFFICULTY: Record<QuestionLevel, number> = {
+  easier: 0.3,
+  standard: 0.5,
+  harder: 0.7
+};
+
+// Skill a reader needs for a book to feel "standard"; the book's label sets the bar
+const BOOK_BASELINE: Record<Book['difficulty_level'], number> = {
+  beginner: 0.35,
+  intermediate: 0.5,
+  advanced: 0.65
+};
+
+// How far from the book's baseline a reader must be before questions change
+const LEVEL_THRESHOLD = 0.12;
+// How much one question moves the estimate
+const LEARNING_RATE = 0.08;
+// Steepness of the expected-score curve; higher means skill differences matter more
+const SKILL_SCALE = 8;
+
+const MAX_EASIER_OPTIONS = 3;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Elo-style update: each result nudges the estimate towards how the learner actually
+ * scored, by more when the score was surprising for the question's level.
+ */
+export const updateSkill = (skill: number, results: QuestionResult[]): number => {
+  return results.reduce((current, result) => {
+    if (result.maxScore <= 0) return current;
+
+    const difficulty = LEVEL_DIFFICULTY[result.level || 'standard'];
+    const expected = 1 / (1 + Math.exp(-(current - difficulty) * SKILL_SCALE));
+    const actual = result.score / result.maxScore;
+    return clamp(current + LEARNING_RATE * (actual - expected));
+  }, skill);
+};
+
+// Replays a learner's quiz history, oldest first, for learners without a stored estimate
+export const estimateSkill = (attempts: QuizAttempt[]): number => {
+  return [...attempts]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .reduce((skill, attempt) => updateSkill(skill, attempt.results || []), DEFAULT_SKILL);
+};
+
+export const chooseLevel = (skill: number, bookDifficulty: Book['difficulty_level']): QuestionLevel => {
+  const offset = skill - BOOK_BASELINE[bookDifficulty];
+  if (offset < -LEVEL_THRESHOLD) return 'easier';
+  if (offset > LEVEL_THRESHOLD) return 'harder';
+  return 'standard';
+};
+
+// Adjustments applied when the author didn't write a variant for the level
+const adjustQuestion = (question: QuizQuestion, level: QuestionLevel): QuizQuestion => {
+  if (level === 'harder') {
+    if (question.kind === 'spelling') return { ...question, hint: '' };
+    if (question.kind === 'fill-blank') return { ...question, wordBank: undefined };
+  }
+
+  if (level === 'easier' && question.kind === 'multiple-choice' && question.options.length > MAX_EASIER_OPTIONS) {
+    const correct = question.options.filter(option => option.isCorrect);
+    const distractors = question.options.filter(option => !option.isCorrect).slice(0, MAX_EASIER_OPTIONS - correct.length);
+    return { ...question, options: question.options.filter(option => correct.includes(option) || distractors.includes(option)) };
+  }
+
+  return question;
+};
+
+// The authored variant for the level when there is one, otherwise the adjusted standard question
+export const adaptQuestion = (question: QuizQuestion, level: QuestionLevel): QuizQuestion => {
+  const { variants, ...standard } = question;
+  if (level === 'standard') return standard as QuizQuestion;
+
+  const variant = variants?.[level];
+  return variant || adjustQuestion(standard as QuizQuestion, level);
+};
+
+export const adaptQuiz = (quiz: QuizData | undefined, level: QuestionLevel): QuizData | undefined => {
+  if (!quiz) return quiz;
+  return { questions: quiz.questions.map(question => adaptQuestion(question, level)) };
+};
+
+export const LEVEL_LABELS: Record<QuestionLevel, string> = {
+  easier: 'Easier',
+  standard: 'Standard',
+  harder: 'Harder'
+};
+
+export const describeSkill = (skill: number): string => {
+  if (skill < 0.35) return 'Building confidence';
+  if (skill < 0.5) return 'Getting there';
+  if (skill < 0.65) return 'On track';
+  return 'Ready for a challenge';
+};
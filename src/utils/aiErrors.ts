@@ -0,0 +1,29 @@
+import { AIBudgetExceededError, AIContentBlockedError } from '../services/AIGatewayService';
+import { UsageScope } from '../types/Usage';
+
+// Gemini's block reasons, explained for a young child
+const BLOCKED_MESSAGES: Record<string, string> = {
+  SAFETY: "Hmm, the AI helper can't make that one. Let's try something different!",
+  PROHIBITED_CONTENT: "Hmm, the AI helper can't make that one. Let's try something different!",
+  BLOCKLIST: "Hmm, the AI helper can't use some of those words. Let's try something different!",
+  RECITATION: "That sounded a lot like a story someone already wrote. Let's make up a brand new one!",
+  SPII: "Let's leave out names, addresses and other private things and try again!"
+};
+
+const DEFAULT_BLOCKED_MESSAGE = "The AI helper couldn't make that one. Let's try something different!";
+
+const BUDGET_MESSAGES: Record<UsageScope, string> = {
+  child: "You've used up all of today's AI magic. Come back tomorrow for more!",
+  classroom: "Your class has used up all of today's AI magic. Come back tomorrow for more!"
+};
+
+// A message a child can follow when an AI call fails; safety blocks and used-up budgets get their own
+export const explainAIError = (error: unknown, fallback: string): string => {
+  if (error instanceof AIBudgetExceededError) {
+    return BUDGET_MESSAGES[error.scope];
+  }
+  if (error instanceof AIContentBlockedError) {
+    return BLOCKED_MESSAGES[error.reason] || DEFAULT_BLOCKED_MESSAGE;
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+};
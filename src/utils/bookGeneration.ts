@@ -0,0 +1,159 @@
+// Prompts for drafting a book with Gemini, and parsing its JSON replies into drafts
+import { BookDraft, BookDraftRequest, DraftPage } from '../types/BookDraft';
+import { QuizQuestion } from '../types/Quiz';
+import { createQuestionId, isSpellingWord, normalizeSpelling } from './quizData';
+import { getLanguageLabel } from './languages';
+
+type UnknownRecord = Record<string, unknown>;
+
+// Words per page the model is asked for, by difficulty
+const WORDS_PER_PAGE: Record<BookDraftRequest['difficulty_level'], string> = {
+  beginner: '20-40',
+  intermediate: '40-70',
+  advanced: '70-110'
+};
+
+const ILLUSTRATION_STYLE = "children's picture book illustration, soft watercolor, warm friendly colors, no text";
+
+const PAGE_SHAPE = `{
+  "title": "short page title",
+  "text": "the page text",
+  "image_prompt": "what the illustration shows, one sentence, no character names",
+  "quiz": {
+    "question": "a comprehension question about this page",
+    "options": ["three", "answer", "options"],
+    "correct_index": 0,
+    "spelling_word": "one word from the page text, letters only",
+    "spelling_hint": "a child-friendly clue for that word"
+  }
+}`;
+
+const describeAudience = (request: BookDraftRequest) => {
+  return `children aged ${request.target_age_min}-${request.target_age_max}, ${request.difficulty_level} readers, ` +
+    `${WORDS_PER_PAGE[request.difficulty_level]} words per page`;
+};
+
+// Illustration prompts stay in English because that's what the image model understands best
+const describeLanguage = (request: BookDraftRequest) => {
+  return `Write the titles, description, page text and quiz in ${getLanguageLabel(request.language)}; ` +
+    'write "characters" and every "image_prompt" in English.';
+};
+
+export const buildBookDraftPrompt = (request: BookDraftRequest): string => {
+  return `Write a ${request.page_count}-page ${request.subject.toLowerCase()} book about: ${request.topic}
+Audience: ${describeAudience(request)}.
+${describeLanguage(request)}
+Keep it child safe, kind and educational. Each page should follow on from the one before.
+Reply with JSON only, in this shape:
+{
+  "title": "book title",
+  "description": "one or two sentence blurb for the library",
+  "characters": "short visual description of the main characters, for keeping illustrations consistent",
+  "pages": [${PAGE_SHAPE}]
+}`;
+};
+
+// Rewrites one page of an existing draft, keeping it consistent with its neighbours
+export const buildDraftPagePrompt = (request: BookDraftRequest, draft: BookDraft, pageIndex: number): string => {
+  const outline = draft.pages
+    .map((page, index) => `${index + 1}. ${index === pageIndex ? '(rewrite this page)' : page.text}`)
+    .join('\n');
+
+  return `This is "${draft.title}", a ${request.subject.toLowerCase()} book about: ${request.topic}
+Audience: ${describeAudience(request)}.
+Characters: ${draft.characters}
+Pages:
+${outline}
+
+Write a fresh version of page ${pageIndex + 1} that fits between the pages around it.
+${describeLanguage(request)}
+Keep it child safe, kind and educational.
+Reply with JSON only, in this shape:
+${PAGE_SHAPE}`;
+};
+
+export const buildIllustrationPrompt = (draft: BookDraft, page: DraftPage): string => {
+  return [page.image_prompt, draft.characters, ILLUSTRATION_STYLE].filter(Boolean).join('. ');
+};
+
+const isRecord = (value: unknown): value is UnknownRecord => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const readText = (record: UnknownRecord, key: string): string => {
+  const value = record[key];
+  return typeof value === 'string' ? value.trim() : '';
+};
+
+// Models sometimes wrap JSON in a markdown fence even when asked not to
+export const parseJsonReply = (reply: string): unknown => {
+  const fenced = reply.match(/```(?:json)?\s*([\s\S]*?)```/);
+  try {
+    return JSON.parse((fenced ? fenced[1] : reply).trim());
+  } catch {
+    throw new Error('The AI reply was not valid JSON. Please try again.');
+  }
+};
+
+// Invalid questions are dropped rather than failing the page; authors can add their own later
+const parseDraftQuiz = (raw: unknown, language: string): QuizQuestion[] => {
+  if (!isRecord(raw)) return [];
+  const questions: QuizQuestion[] = [];
+
+  const question = readText(raw, 'question');
+  const options = Array.isArray(raw.options)
+    ? raw.options.filter((option): option is string => typeof option === 'string' && option.trim() !== '')
+    : [];
+  const correctIndex = typeof raw.correct_index === 'number' ? raw.correct_index : -1;
+  if (question && options.length >= 2 && correctIndex >= 0 && correctIndex < options.length) {
+    questions.push({
+      id: createQuestionId('multiple-choice'),
+      kind: 'multiple-choice',
+      question,
+      options: options.map((text, index) => ({ text: text.trim(), isCorrect: index === correctIndex }))
+    });
+  }
+
+  const word = normalizeSpelling(readText(raw, 'spelling_word'), language);
+  if (isSpellingWord(word)) {
+    questions.push({
+      id: createQuestionId('spelling'),
+      kind: 'spelling',
+      word,
+      hint: readText(raw, 'spelling_hint')
+    });
+  }
+
+  return questions;
+};
+
+export const parseDraftPage = (raw: unknown, language: string): DraftPage => {
+  if (!isRecord(raw)) {
+    throw new Error('The AI reply did not contain a page. Please try again.');
+  }
+
+  const text = readText(raw, 'text');
+  if (!text) {
+    throw new Error('The AI reply had a page without text. Please try again.');
+  }
+
+  return {
+    title: readText(raw, 'title'),
+    text,
+    image_prompt: readText(raw, 'image_prompt') || text,
+    quiz: { questions: parseDraftQuiz(raw.quiz, language) }
+  };
+};
+
+export const parseBookDraft = (raw: unknown, language: string): BookDraft => {
+  if (!isRecord(raw) || !Array.isArray(raw.pages) || raw.pages.length === 0) {
+    throw new Error('The AI reply did not contain any pages. Please try again.');
+  }
+
+  return {
+    title: readText(raw, 'title') || 'Untitled Book',
+    description: readText(raw, 'description'),
+    characters: readText(raw, 'characters'),
+    pages: raw.pages.map(page => parseDraftPage(page, language))
+  };
+};
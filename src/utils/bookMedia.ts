@@ -0,0 +1,104 @@
+// Helpers for walking every media URL a book references: covers, page media and quiz images
+import { Book } from '../types/Book';
+import { StoryPageInput } from '../services/SupabaseService';
+import { QuizData, QuizQuestion } from '../types/Quiz';
+
+// Public storage bucket for media uploaded with imported and generated books
+export const BOOK_MEDIA_BUCKET = 'book-media';
+
+type MediaMapper = (url: string) => string;
+type MediaBook = Pick<Book, 'thumbnail_url' | 'cover_image_url'>;
+// Drafts and revisions store a cleared background music URL as null
+type MediaPage = Pick<StoryPageInput, 'image_url' | 'video_url' | 'background_url' | 'narration_audio_url' | 'quiz_data'> & {
+  background_music_url?: string | null;
+};
+
+const mapOptional = <T extends string | null | undefined>(url: T, mapUrl: MediaMapper): T => {
+  return (url ? mapUrl(url) : url) as T;
+};
+
+// Picture-match images, including those in adaptive easier/harder variants
+const mapQuestionMedia = (question: QuizQuestion, mapUrl: MediaMapper): QuizQuestion => {
+  const variants = question.variants && Object.fromEntries(
+    Object.entries(question.variants).map(([level, variant]) => [level, mapQuestionMedia(variant, mapUrl)])
+  );
+  const mapped = variants ? { ...question, variants } : question;
+
+  if (mapped.kind !== 'picture-match') return mapped;
+  return {
+    ...mapped,
+    dragItems: mapped.dragItems.map(item => ({ ...item, image: mapOptional(item.image, mapUrl) })),
+    dropZones: mapped.dropZones.map(zone => ({ ...zone, image: mapOptional(zone.image, mapUrl) }))
+  };
+};
+
+// A copy of the quiz with its picture-match images passed through `mapUrl`; translations carry these too
+export const mapQuizMedia = (quiz: QuizData | undefined, mapUrl: MediaMapper): QuizData => ({
+  ...quiz,
+  questions: (quiz?.questions || []).map(question => mapQuestionMedia(question, mapUrl))
+});
+
+// Returns copies of the book and pages with every media URL passed through `mapUrl`
+export const mapBookMedia = <B extends MediaBook, P extends MediaPage>(
+  book: B,
+  pages: P[],
+  mapUrl: MediaMapper
+): { book: B; pages: P[] } => {
+  return {
+    book: {
+      ...book,
+      thumbnail_url: mapOptional(book.thumbnail_url, mapUrl),
+      cover_image_url: mapOptional(book.cover_image_url, mapUrl)
+    },
+    pages: pages.map(page => ({
+      ...page,
+      image_url: mapOptional(page.image_url, mapUrl),
+      video_url: mapOptional(page.video_url, mapUrl),
+      background_url: mapOptional(page.background_url, mapUrl),
+      background_music_url: mapOptional(page.background_music_url, mapUrl),
+      narration_audio_url: mapOptional(page.narration_audio_url, mapUrl),
+      quiz_data: mapQuizMedia(page.quiz_data, mapUrl)
+    }))
+  };
+};
+
+// Every remote media URL the book needs, without duplicates, including images in translated quizzes
+export const getBookMediaUrls = (book: MediaBook, pages: MediaPage[], translatedQuizzes: QuizData[] = []): string[] => {
+  const urls = new Set<string>();
+  const collect = (url: string) => {
+    if (/^https?:/.test(url)) urls.add(url);
+    return url;
+  };
+  mapBookMedia(book, pages, collect);
+  translatedQuizzes.forEach(quiz => mapQuizMedia(quiz, collect));
+  return Array.from(urls);
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/wav': 'wav',
+  'audio/ogg': 'ogg'
+};
+
+// File extension for downloaded media, from its content type or else its URL
+export const getMediaExtension = (url: string, contentType: string): string => {
+  const known = EXTENSIONS[contentType.split(';')[0].trim()];
+  if (known) return known;
+
+  let pathname = '';
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    // Not an absolute URL, e.g. a freshly generated blob with no source address
+  }
+  const match = pathname.match(/\.([a-z0-9]{2,4})$/i);
+  return match ? match[1].toLowerCase() : 'bin';
+};
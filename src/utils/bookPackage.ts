@@ -0,0 +1,203 @@
+// Validation for book package manifests read from an imported zip
+import { Book } from '../types/Book';
+import {
+  BOOK_PACKAGE_FORMAT,
+  BOOK_PACKAGE_MEDIA_DIR,
+  BOOK_PACKAGE_VERSION,
+  BookPackageManifest,
+  PackagedBook,
+  PackagedGlossaryEntry,
+  PackagedMedia,
+  PackagedPage,
+  PackagedTranslation
+} from '../types/BookPackage';
+import { normalizeQuizData } from './quizData';
+import { mapBookMedia, mapQuizMedia } from './bookMedia';
+import { normalizeLookupWord } from './dictionary';
+
+const SUBJECTS: Book['subject'][] = ['STORY', 'MATHS', 'SCIENCE', 'SPORTS', 'HISTORY', 'GEOGRAPHY', 'ART', 'MUSIC'];
+const DIFFICULTY_LEVELS: Book['difficulty_level'][] = ['beginner', 'intermediate', 'advanced'];
+
+type UnknownRecord = Record<string, unknown>;
+
+const fail = (message: string): never => {
+  throw new Error(`Invalid book package: ${message}`);
+};
+
+const isRecord = (value: unknown): value is UnknownRecord => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const readString = (record: UnknownRecord, key: string, where: string, required = true): string => {
+  const value = record[key];
+  if (typeof value === 'string') return value;
+  if (!required && (value === undefined || value === null)) return '';
+  return fail(`${where}.${key} must be a string`);
+};
+
+const readNumber = (record: UnknownRecord, key: string, where: string): number => {
+  const value = record[key];
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  return fail(`${where}.${key} must be a number`);
+};
+
+export const isBundledMediaPath = (url: string) => url.startsWith(BOOK_PACKAGE_MEDIA_DIR);
+
+const validateBook = (raw: unknown): PackagedBook => {
+  if (!isRecord(raw)) return fail('book is missing');
+
+  const subject = readString(raw, 'subject', 'book') as Book['subject'];
+  if (!SUBJECTS.includes(subject)) fail(`unknown subject "${subject}"`);
+
+  const difficulty = readString(raw, 'difficulty_level', 'book') as Book['difficulty_level'];
+  if (!DIFFICULTY_LEVELS.includes(difficulty)) fail(`unknown difficulty "${difficulty}"`);
+
+  const title = readString(raw, 'title', 'book').trim();
+  if (!title) fail('book.title is empty');
+
+  return {
+    title,
+    subject,
+    author: readString(raw, 'author', 'book'),
+    publisher: readString(raw, 'publisher', 'book'),
+    description: readString(raw, 'description', 'book', false) || undefined,
+    thumbnail_url: readString(raw, 'thumbnail_url', 'book', false),
+    cover_image_url: readString(raw, 'cover_image_url', 'book', false),
+    difficulty_level: difficulty,
+    target_age_min: readNumber(raw, 'target_age_min', 'book'),
+    target_age_max: readNumber(raw, 'target_age_max', 'book'),
+    is_active: raw.is_active !== false,
+    // Packages from before books had a language are English
+    language: readString(raw, 'language', 'book', false) || 'en'
+  };
+};
+
+const validatePage = (raw: unknown, index: number): PackagedPage => {
+  const where = `pages[${index}]`;
+  if (!isRecord(raw)) return fail(`${where} is not an object`);
+
+  const text = readString(raw, 'text', where);
+  const timings = raw.narration_timings;
+  if (timings !== undefined && timings !== null && !Array.isArray(timings)) {
+    fail(`${where}.narration_timings must be a list`);
+  }
+
+  return {
+    page_number: readNumber(raw, 'page_number', where),
+    title: readString(raw, 'title', where, false),
+    text,
+    image_url: readString(raw, 'image_url', where, false),
+    video_url: readString(raw, 'video_url', where, false),
+    background_url: readString(raw, 'background_url', where, false),
+    background_music_url: readString(raw, 'background_music_url', where, false) || undefined,
+    narration_audio_url: readString(raw, 'narration_audio_url', where, false) || null,
+    narration_timings: (timings as PackagedPage['narration_timings']) || null,
+    quiz_data: normalizeQuizData(raw.quiz_data as PackagedPage['quiz_data'], text)
+  };
+};
+
+const validateTranslation = (raw: unknown, index: number): PackagedTranslation => {
+  const where = `translations[${index}]`;
+  if (!isRecord(raw)) return fail(`${where} is not an object`);
+
+  const language = readString(raw, 'language', where).trim();
+  if (!language) fail(`${where}.language is empty`);
+
+  const text = readString(raw, 'text', where);
+  return {
+    page_number: readNumber(raw, 'page_number', where),
+    language,
+    title: readString(raw, 'title', where, false),
+    text,
+    quiz_data: normalizeQuizData(raw.quiz_data as PackagedTranslation['quiz_data'], text)
+  };
+};
+
+const validateGlossaryEntry = (raw: unknown, index: number): PackagedGlossaryEntry => {
+  const where = `glossary[${index}]`;
+  if (!isRecord(raw)) return fail(`${where} is not an object`);
+
+  const word = normalizeLookupWord(readString(raw, 'word', where));
+  if (!word) fail(`${where}.word is empty`);
+
+  const definition = readString(raw, 'definition', where).trim();
+  if (!definition) fail(`${where}.definition is empty`);
+
+  return {
+    word,
+    definition,
+    syllables: readString(raw, 'syllables', where, false).trim()
+  };
+};
+
+const validateMedia = (raw: unknown, index: number): PackagedMedia => {
+  const where = `media[${index}]`;
+  if (!isRecord(raw)) return fail(`${where} is not an object`);
+
+  const path = readString(raw, 'path', where);
+  if (!isBundledMediaPath(path) || path.includes('..')) fail(`${where}.path "${path}" is outside ${BOOK_PACKAGE_MEDIA_DIR}`);
+
+  return {
+    path,
+    originalUrl: readString(raw, 'originalUrl', where, false),
+    contentType: readString(raw, 'contentType', where, false) || 'application/octet-stream'
+  };
+};
+
+/**
+ * Checks a parsed manifest.json and returns a clean copy. Throws with a readable message on
+ * anything the importer couldn't recreate, including bundled media paths with no media entry.
+ */
+export const validateBookManifest = (raw: unknown): BookPackageManifest => {
+  if (!isRecord(raw)) return fail('manifest.json is not an object');
+  if (raw.format !== BOOK_PACKAGE_FORMAT) fail('this is not a book package');
+
+  const version = readNumber(raw, 'version', 'manifest');
+  if (version > BOOK_PACKAGE_VERSION) {
+    fail(`version ${version} was made by a newer app; update before importing`);
+  }
+
+  if (!Array.isArray(raw.pages) || raw.pages.length === 0) fail('the book has no pages');
+  if (!Array.isArray(raw.media)) fail('media list is missing');
+  // Packages from before translations were exported have none
+  if (raw.translations !== undefined && !Array.isArray(raw.translations)) fail('translations must be a list');
+  if (raw.glossary !== undefined && !Array.isArray(raw.glossary)) fail('glossary must be a list');
+
+  const pages = (raw.pages as unknown[]).map(validatePage);
+  const pageNumbers = new Set(pages.map(page => page.page_number));
+  if (pageNumbers.size !== pages.length) fail('page numbers are not unique');
+
+  const translations = ((raw.translations as unknown[] | undefined) || []).map(validateTranslation);
+  const translated = new Set<string>();
+  translations.forEach(translation => {
+    if (!pageNumbers.has(translation.page_number)) fail(`there is a translation of missing page ${translation.page_number}`);
+    const key = `${translation.page_number}:${translation.language}`;
+    if (translated.has(key)) fail(`page ${translation.page_number} is translated to ${translation.language} twice`);
+    translated.add(key);
+  });
+
+  const glossary = ((raw.glossary as unknown[] | undefined) || []).map(validateGlossaryEntry);
+  const glossaryWords = new Set(glossary.map(entry => entry.word));
+  if (glossaryWords.size !== glossary.length) fail('glossary words are not unique');
+
+  const book = validateBook(raw.book);
+  const media = (raw.media as unknown[]).map(validateMedia);
+  const bundled = new Set(media.map(item => item.path));
+  const checkBundled = (url: string) => {
+    if (isBundledMediaPath(url) && !bundled.has(url)) fail(`${url} is referenced but not listed in media`);
+    return url;
+  };
+  mapBookMedia(book, pages, checkBundled);
+  translations.forEach(translation => mapQuizMedia(translation.quiz_data, checkBundled));
+
+  return {
+    format: BOOK_PACKAGE_FORMAT,
+    version,
+    exportedAt: readString(raw, 'exportedAt', 'manifest', false),
+    book,
+    pages,
+    translations,
+    glossary,
+    media
+  };
+};
@@ -0,0 +1,87 @@
+// Looking up single words for the tap-a-word popover: glossary entries, syllables and Gemini prompts
+import { GlossaryEntry, WordDefinition } from '../types/Glossary';
+import { getLanguageLabel } from './languages';
+
+type UnknownRecord = Record<string, unknown>;
+
+// Vowel groups with the consonants around them, e.g. but-ter-fly; a rough guide for English only
+const SYLLABLE_PATTERN = /[^aeiouy]*[aeiouy]+(?:[^aeiouy]*$|[^aeiouy](?=[^aeiouy]))?/gi;
+
+const isRecord = (value: unknown): value is UnknownRecord => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// The word as tapped, without the punctuation stuck to it, lower-cased for lookups
+export const normalizeLookupWord = (word: string): string => {
+  return word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '').toLowerCase();
+};
+
+export const parseSyllables = (syllables: string): string[] => {
+  return syllables.split(/[-·\s]+/).map(part => part.trim()).filter(Boolean);
+};
+
+/**
+ * Splits an English word at its vowel groups, folding a silent final "e" back into the
+ * syllable before it (cake, not ca-ke) but keeping "-ple" style endings apart. Other
+ * languages come back whole; their syllables come from the glossary or Gemini.
+ */
+export const guessSyllables = (word: string, language: string): string[] => {
+  if (!language.toLowerCase().startsWith('en')) return [word];
+
+  const parts = word.match(SYLLABLE_PATTERN);
+  if (!parts || parts.join('') !== word) return [word];
+
+  const last = parts[parts.length - 1];
+  if (parts.length > 1 && /^[^aeiouy]*e$/i.test(last) && !/[^aeiouy]le$/i.test(word)) {
+    parts.splice(parts.length - 2, 2, parts[parts.length - 2] + last);
+  }
+  return parts;
+};
+
+export const findGlossaryEntry = (glossary: GlossaryEntry[], word: string): GlossaryEntry | undefined => {
+  const lookup = normalizeLookupWord(word);
+  return glossary.find(entry => entry.word === lookup);
+};
+
+export const glossaryDefinition = (entry: GlossaryEntry, language: string): WordDefinition => ({
+  word: entry.word,
+  definition: entry.definition,
+  syllables: entry.syllables ? parseSyllables(entry.syllables) : guessSyllables(entry.word, language),
+  source: 'glossary'
+});
+
+// The sentence the word was tapped in, so the definition fits how the story uses it
+export const findSentence = (text: string, word: string): string => {
+  const lookup = normalizeLookupWord(word);
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  return sentences.find(sentence => sentence.split(/\s+/).some(part => normalizeLookupWord(part) === lookup)) || '';
+};
+
+export const buildDefinitionPrompt = (word: string, sentence: string, language: string): string => {
+  return `Explain the ${getLanguageLabel(language)} word "${word}" to a 5-8 year old child${sentence ? `, as it's used in this sentence from a story: "${sentence}"` : ''}.
+Write one short, friendly sentence in ${getLanguageLabel(language)} using only simple words, without repeating the word itself where you can.
+Also split the word into its spoken syllables.
+Reply with JSON only, in this shape:
+{"definition": "...", "syllables": ["..."]}`;
+};
+
+export const parseWordDefinition = (raw: unknown, word: string, language: string): WordDefinition => {
+  const reply = isRecord(raw) ? raw : {};
+  const definition = typeof reply.definition === 'string' ? reply.definition.trim() : '';
+  if (!definition) {
+    throw new Error(`Couldn't find a meaning for "${word}". Please try again.`);
+  }
+
+  const syllables = Array.isArray(reply.syllables)
+    ? reply.syllables.filter((part): part is string => typeof part === 'string' && part.trim() !== '').map(part => part.trim())
+    : [];
+  // Syllables that don't spell the word back are worse than none
+  const spellsWord = syllables.join('').toLowerCase() === word.toLowerCase();
+
+  return {
+    word,
+    definition,
+    syllables: spellsWord ? syllables : guessSyllables(word, language),
+    source: 'ai'
+  };
+};
@@ -0,0 +1,213 @@
+// Builders for the XML documents inside an EPUB 3 export (see src/services/EpubService.ts)
+import { Book } from '../types/Book';
+import { WordTiming } from '../types/Narration';
+import { splitWords } from './narration';
+import { stripStoryMarkup } from './storyMarkup';
+
+export const EPUB_MIMETYPE = 'application/epub+zip';
+// Class reading systems add to the word being spoken, declared with media:active-class
+export const EPUB_ACTIVE_CLASS = 'narration-active';
+
+export interface EpubManifestItem {
+  id: string;
+  href: string; // relative to OEBPS/
+  mediaType: string;
+  properties?: string;
+  mediaOverlay?: string; // id of the SMIL item that narrates this page
+  duration?: number; // seconds, for SMIL items
+}
+
+export interface EpubPage {
+  id: string;
+  href: string;
+  title: string;
+  text: string;
+  imageHref?: string;
+  // Only set when the page has narration audio whose timings match its words
+  overlay?: {
+    id: string;
+    href: string;
+    audioHref: string;
+    timings: WordTiming[];
+  };
+}
+
+export const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+// SMIL clock value, e.g. 0:00:01.250
+export const formatClockValue = (seconds: number): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = (totalMs % 60000) / 1000;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${secs.toFixed(3).padStart(6, '0')}`;
+};
+
+// dcterms:modified only accepts CCYY-MM-DDThh:mm:ssZ
+const formatModified = (iso: string): string => {
+  const date = new Date(iso);
+  const valid = Number.isNaN(date.getTime()) ? new Date() : date;
+  return valid.toISOString().replace(/\.\d{3}Z$/, 'Z');
+};
+
+export const getWordId = (index: number) => `w${index + 1}`;
+
+export const getOverlayDuration = (timings: WordTiming[]): number => {
+  return timings.reduce((max, timing) => Math.max(max, timing.end), 0);
+};
+
+export const buildContainerXml = (): string => `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+export const buildStylesheet = (): string => `body { font-family: serif; line-height: 1.6; margin: 1em; }
+h1 { font-size: 1.4em; text-align: center; }
+p { font-size: 1.2em; }
+img { display: block; max-width: 100%; margin: 0 auto 1em; }
+.cover { text-align: center; }
+.cover img { max-height: 95vh; }
+.${EPUB_ACTIVE_CLASS} { background-color: #fde68a; border-radius: 0.2em; }
+`;
+
+const xhtmlDocument = (title: string, body: string, language: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+export const buildCoverXhtml = (book: Book, coverHref: string, language: string): string => {
+  return xhtmlDocument(book.title, `  <section class="cover" epub:type="cover">
+    <img src="${escapeXml(coverHref)}" alt="${escapeXml(book.title)}"/>
+  </section>`, language);
+};
+
+/**
+ * One page of the book. Narrated pages wrap every word in a span whose id the media overlay
+ * points at; words are counted across paragraphs the same way splitWords counts them.
+ */
+export const buildPageXhtml = (page: EpubPage, language: string): string => {
+  let wordIndex = 0;
+  const paragraphs = stripStoryMarkup(page.text)
+    .split(/\n\s*\n/)
+    .map(paragraph => splitWords(paragraph))
+    .filter(words => words.length > 0)
+    .map(words => {
+      const content = words.map(word => {
+        const escaped = escapeXml(word);
+        const id = getWordId(wordIndex++);
+        return page.overlay ? `<span id="${id}">${escaped}</span>` : escaped;
+      }).join(' ');
+      return `    <p>${content}</p>`;
+    });
+
+  const parts = [
+    page.title ? `    <h1>${escapeXml(page.title)}</h1>` : '',
+    page.imageHref ? `    <img src="${escapeXml(page.imageHref)}" alt="${escapeXml(page.title || 'Illustration')}"/>` : '',
+    ...paragraphs
+  ].filter(Boolean);
+
+  return xhtmlDocument(page.title || 'Page', `  <section epub:type="chapter">
+${parts.join('\n')}
+  </section>`, language);
+};
+
+export const buildMediaOverlay = (page: EpubPage): string => {
+  if (!page.overlay) return '';
+  const { audioHref, timings } = page.overlay;
+
+  const pars = timings.map((timing, index) => `    <par id="p${index + 1}">
+      <text src="${escapeXml(page.href)}#${getWordId(index)}"/>
+      <audio src="${escapeXml(audioHref)}" clipBegin="${formatClockValue(timing.start)}" clipEnd="${formatClockValue(Math.max(timing.end, timing.start))}"/>
+    </par>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<smil xmlns="http://www.w3.org/ns/SMIL" xmlns:epub="http://www.idpf.org/2007/ops" version="3.0">
+  <body>
+    <seq id="seq1" epub:textref="${escapeXml(page.href)}" epub:type="bodymatter">
+${pars.join('\n')}
+    </seq>
+  </body>
+</smil>
+`;
+};
+
+export const buildNavXhtml = (book: Book, pages: EpubPage[], language: string): string => {
+  const items = pages.map((page, index) => {
+    const label = page.title || `Page ${index + 1}`;
+    return `      <li><a href="${escapeXml(page.href)}">${escapeXml(label)}</a></li>`;
+  });
+
+  return xhtmlDocument(book.title, `  <nav epub:type="toc" id="toc">
+    <h1>${escapeXml(book.title)}</h1>
+    <ol>
+${items.join('\n')}
+    </ol>
+  </nav>`, language);
+};
+
+export const buildPackageOpf = (
+  book: Book,
+  items: EpubManifestItem[],
+  spine: string[],
+  language: string
+): string => {
+  const overlayDurations = items
+    .filter(item => item.duration !== undefined)
+    .map(item => ({ id: item.id, duration: item.duration || 0 }));
+  const totalDuration = overlayDurations.reduce((sum, item) => sum + item.duration, 0);
+
+  const metadata = [
+    `    <dc:identifier id="book-id">urn:uuid:${escapeXml(book.id)}</dc:identifier>`,
+    `    <dc:title>${escapeXml(book.title)}</dc:title>`,
+    `    <dc:creator>${escapeXml(book.author)}</dc:creator>`,
+    `    <dc:publisher>${escapeXml(book.publisher)}</dc:publisher>`,
+    `    <dc:language>${language}</dc:language>`,
+    book.description ? `    <dc:description>${escapeXml(book.description)}</dc:description>` : '',
+    `    <dc:subject>${escapeXml(book.subject)}</dc:subject>`,
+    `    <meta property="dcterms:modified">${formatModified(book.updated_at)}</meta>`,
+    ...(overlayDurations.length > 0 ? [
+      `    <meta property="media:active-class">${EPUB_ACTIVE_CLASS}</meta>`,
+      `    <meta property="media:duration">${formatClockValue(totalDuration)}</meta>`,
+      ...overlayDurations.map(item => `    <meta property="media:duration" refines="#${item.id}">${formatClockValue(item.duration)}</meta>`)
+    ] : [])
+  ].filter(Boolean);
+
+  const manifest = items.map(item => {
+    const properties = item.properties ? ` properties="${item.properties}"` : '';
+    const overlay = item.mediaOverlay ? ` media-overlay="${item.mediaOverlay}"` : '';
+    return `    <item id="${item.id}" href="${escapeXml(item.href)}" media-type="${item.mediaType}"${properties}${overlay}/>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${metadata.join('\n')}
+  </metadata>
+  <manifest>
+${manifest.join('\n')}
+  </manifest>
+  <spine>
+${spine.map(id => `    <itemref idref="${id}"/>`).join('\n')}
+  </spine>
+</package>
+`;
+};
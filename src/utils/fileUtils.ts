@@ -0,0 +1,34 @@
+// Utility functions for building and downloading files in the browser
+
+type CsvValue = string | number | boolean | null | undefined;
+
+const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  // Quote anything that would otherwise break the row apart
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: CsvValue[][]): string => {
+  return [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+};
+
+// Lower-case, dash-separated file name stem, e.g. "The Big Cat!" -> "the-big-cat"
+export const toFileSlug = (title: string, fallback = 'book'): string => {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || fallback;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadCsv = (csv: string, filename: string) => {
+  downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), filename);
+};
@@ -44,6 +44,46 @@ export const blobToBase64 = (blob: Blob): Promise<string> =>
     reader.readAsDataURL(blob);
   });
 
+// Draws an image or the first frame of a video into a JPEG no wider or taller than `size`
+export const createThumbnail = (file: Blob, size = 240): Promise<Blob | null> =>
+  new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const isVideo = file.type.startsWith("video/");
+    const source = isVideo ? document.createElement("video") : new window.Image();
+
+    const finish = (blob: Blob | null) => {
+      URL.revokeObjectURL(url);
+      resolve(blob);
+    };
+
+    const draw = (width: number, height: number) => {
+      const scale = Math.min(1, size / Math.max(width, height));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round(width * scale));
+      canvas.height = Math.max(1, Math.round(height * scale));
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return finish(null);
+      ctx.fillStyle = "#FFF";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(finish, "image/jpeg", 0.8);
+    };
+
+    if (source instanceof HTMLVideoElement) {
+      source.muted = true;
+      source.preload = "metadata";
+      // Seek a little way in; the very first frame is often black
+      source.onloadedmetadata = () => {
+        source.currentTime = Math.min(1, source.duration / 2 || 0);
+      };
+      source.onseeked = () => draw(source.videoWidth, source.videoHeight);
+    } else {
+      source.onload = () => draw(source.naturalWidth, source.naturalHeight);
+    }
+    source.onerror = () => finish(null);
+    source.src = url;
+  });
+
 // Gets mouse or touch position relative to a canvas element
 export const getCanvasPos = (
   canvas: HTMLCanvasElement,
@@ -0,0 +1,71 @@
+// Languages books can be written and translated in, keyed by BCP 47 code
+
+interface LanguageInfo {
+  code: string;
+  label: string; // in English, for authors
+  nativeLabel: string; // in the language itself, for readers
+  tavusName: string; // what Tavus conversations expect in properties.language
+  rightToLeft?: boolean;
+}
+
+export const DEFAULT_BOOK_LANGUAGE = 'en';
+
+export const SUPPORTED_LANGUAGES: LanguageInfo[] = [
+  { code: 'en', label: 'English', nativeLabel: 'English', tavusName: 'english' },
+  { code: 'es', label: 'Spanish', nativeLabel: 'Español', tavusName: 'spanish' },
+  { code: 'fr', label: 'French', nativeLabel: 'Français', tavusName: 'french' },
+  { code: 'de', label: 'German', nativeLabel: 'Deutsch', tavusName: 'german' },
+  { code: 'it', label: 'Italian', nativeLabel: 'Italiano', tavusName: 'italian' },
+  { code: 'pt', label: 'Portuguese', nativeLabel: 'Português', tavusName: 'portuguese' },
+  { code: 'nl', label: 'Dutch', nativeLabel: 'Nederlands', tavusName: 'dutch' },
+  { code: 'pl', label: 'Polish', nativeLabel: 'Polski', tavusName: 'polish' },
+  { code: 'sv', label: 'Swedish', nativeLabel: 'Svenska', tavusName: 'swedish' },
+  { code: 'tr', label: 'Turkish', nativeLabel: 'Türkçe', tavusName: 'turkish' },
+  { code: 'ru', label: 'Russian', nativeLabel: 'Русский', tavusName: 'russian' },
+  { code: 'ar', label: 'Arabic', nativeLabel: 'العربية', tavusName: 'arabic', rightToLeft: true },
+  { code: 'hi', label: 'Hindi', nativeLabel: 'हिन्दी', tavusName: 'hindi' },
+  { code: 'zh', label: 'Chinese', nativeLabel: '中文', tavusName: 'chinese' },
+  { code: 'ja', label: 'Japanese', nativeLabel: '日本語', tavusName: 'japanese' },
+  { code: 'ko', label: 'Korean', nativeLabel: '한국어', tavusName: 'korean' }
+];
+
+// 'pt-BR' and 'PT' both find Portuguese
+const findLanguage = (code: string): LanguageInfo | undefined => {
+  const base = code.toLowerCase().split('-')[0];
+  return SUPPORTED_LANGUAGES.find(language => language.code === base);
+};
+
+export const getLanguageLabel = (code: string): string => {
+  return findLanguage(code)?.label || code;
+};
+
+export const getNativeLanguageLabel = (code: string): string => {
+  return findLanguage(code)?.nativeLabel || code;
+};
+
+export const getTavusLanguage = (code: string): string => {
+  return findLanguage(code)?.tavusName || 'english';
+};
+
+export const isRightToLeft = (code: string): boolean => {
+  return findLanguage(code)?.rightToLeft === true;
+};
+
+export const voiceMatchesLanguage = (voice: SpeechSynthesisVoice, code: string): boolean => {
+  return voice.lang.toLowerCase().split(/[-_]/)[0] === code.toLowerCase().split('-')[0];
+};
+
+/**
+ * The voice to read a language in: the preferred voice if it speaks the language, otherwise the
+ * browser's default for that language, otherwise any voice that speaks it.
+ */
+export const findVoiceForLanguage = (
+  voices: SpeechSynthesisVoice[],
+  code: string,
+  preferred?: SpeechSynthesisVoice
+): SpeechSynthesisVoice | undefined => {
+  if (preferred && voiceMatchesLanguage(preferred, code)) return preferred;
+
+  const matching = voices.filter(voice => voiceMatchesLanguage(voice, code));
+  return matching.find(voice => voice.default) || matching.find(voice => voice.localService) || matching[0];
+};
@@ -0,0 +1,46 @@
+// Folder layout and file rules for the media library (see src/services/MediaLibraryService.ts)
+import { MediaKind } from '../types/Media';
+
+export const SHARED_MEDIA_FOLDER = 'shared';
+// Sub-folder of each media folder holding generated JPEG thumbnails
+export const THUMBNAIL_FOLDER = 'thumbnails';
+export const MAX_MEDIA_BYTES = 50 * 1024 * 1024;
+
+// Values for a file input's accept attribute
+export const MEDIA_ACCEPT: Record<MediaKind, string> = {
+  image: 'image/*',
+  video: 'video/*',
+  audio: 'audio/*'
+};
+
+export const MEDIA_KIND_LABELS: Record<MediaKind, string> = {
+  image: 'Images',
+  video: 'Videos',
+  audio: 'Audio'
+};
+
+// Each book keeps its own folder; media picked before a book exists goes to the shared folder
+export const getMediaFolder = (bookId?: string | null) => bookId ? `books/${bookId}` : SHARED_MEDIA_FOLDER;
+
+export const getMediaKind = (contentType: string): MediaKind | null => {
+  const type = contentType.split('/')[0];
+  return type === 'image' || type === 'video' || type === 'audio' ? type : null;
+};
+
+export const getThumbnailPath = (folder: string, name: string) => {
+  return `${folder}/${THUMBNAIL_FOLDER}/${name.replace(/\.[^.]+$/, '')}.jpg`;
+};
+
+// Lower-case, storage-safe name; the timestamp keeps re-uploads of the same file apart
+export const toStorageFileName = (fileName: string, now = Date.now()) => {
+  const match = fileName.match(/^(.*?)(\.[a-z0-9]{1,5})?$/i);
+  const base = (match?.[1] || 'file').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'file';
+  const extension = (match?.[2] || '').toLowerCase();
+  return `${base.slice(0, 60)}-${now}${extension}`;
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
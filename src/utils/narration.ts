@@ -0,0 +1,109 @@
+import { CharacterAlignment, WordTiming } from '../types/Narration';
+import { stripStoryMarkup } from './storyMarkup';
+
+// Same word split BookContent uses for highlighting, so timing indexes line up; markup isn't spoken
+export const splitWords = (text: string): string[] => {
+  return stripStoryMarkup(text).split(/\s+/).filter(word => word.length > 0);
+};
+
+/**
+ * The sentences in text (from `from` on) that are known to be finished: ended by . ! or ? with
+ * more text after them. `end` is where the unfinished rest starts, for text that's still arriving.
+ */
+export const takeCompleteSentences = (text: string, from = 0): { sentences: string[]; end: number } => {
+  const sentences: string[] = [];
+  const boundary = /[.!?]+["')\]]*\s+/g;
+  boundary.lastIndex = from;
+  let end = from;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text))) {
+    const sentence = text.slice(end, match.index + match[0].length).trim();
+    if (sentence) sentences.push(sentence);
+    end = match.index + match[0].length;
+  }
+  return { sentences, end };
+};
+
+// Collapse per-character timings into one timing per whitespace-separated word
+export const alignmentToWordTimings = (alignment: CharacterAlignment): WordTiming[] => {
+  const timings: WordTiming[] = [];
+  let current: WordTiming | null = null;
+
+  alignment.characters.forEach((character, index) => {
+    if (/\s/.test(character)) {
+      current = null;
+      return;
+    }
+
+    const start = alignment.character_start_times_seconds[index] ?? 0;
+    const end = alignment.character_end_times_seconds[index] ?? start;
+
+    if (!current) {
+      current = { word: '', start, end };
+      timings.push(current);
+    }
+    current.word += character;
+    current.end = end;
+  });
+
+  return timings;
+};
+
+const isWordTiming = (value: unknown): value is WordTiming => {
+  if (!value || typeof value !== 'object') return false;
+  const timing = value as Record<string, unknown>;
+  return typeof timing.start === 'number' && typeof timing.end === 'number';
+};
+
+const isCharacterAlignment = (value: unknown): value is CharacterAlignment => {
+  if (!value || typeof value !== 'object') return false;
+  const alignment = value as Record<string, unknown>;
+  return Array.isArray(alignment.characters) &&
+    Array.isArray(alignment.character_start_times_seconds) &&
+    Array.isArray(alignment.character_end_times_seconds);
+};
+
+// Accepts our own word timing array or an ElevenLabs alignment (optionally wrapped in `alignment`)
+export const parseAlignmentFile = (raw: unknown): WordTiming[] => {
+  const source = raw && typeof raw === 'object' && 'alignment' in raw
+    ? (raw as { alignment: unknown }).alignment
+    : raw;
+
+  if (Array.isArray(source) && source.every(isWordTiming)) {
+    return source.map(timing => ({
+      word: String(timing.word ?? ''),
+      start: timing.start,
+      end: timing.end
+    }));
+  }
+
+  if (isCharacterAlignment(source)) {
+    return alignmentToWordTimings(source);
+  }
+
+  throw new Error('Unrecognised alignment file. Expected [{ word, start, end }] or an ElevenLabs alignment.');
+};
+
+// Index of the word being spoken at `time`, or -1 before the first word starts
+export const findWordAtTime = (timings: WordTiming[], time: number): number => {
+  let low = 0;
+  let high = timings.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (timings[mid].start <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+};
+
+// Timings recorded for different text would highlight the wrong words
+export const timingsMatchText = (timings: WordTiming[], text: string): boolean => {
+  return timings.length > 0 && timings.length === splitWords(text).length;
+};
@@ -0,0 +1,115 @@
+// Converting, comparing and diffing page drafts and revisions (see src/services/DraftService.ts)
+import { PageSnapshot } from '../types/Revision';
+import { QuizData } from '../types/Quiz';
+import { WordTiming } from '../types/Narration';
+import { normalizeQuizData } from './quizData';
+
+// A page as the reader and the page editor hold it
+export interface PageFields {
+  title: string;
+  text: string;
+  image: string;
+  video: string;
+  background: string;
+  backgroundMusic?: string;
+  narrationAudio?: string;
+  narrationTimings?: WordTiming[];
+  quiz?: QuizData;
+}
+
+export interface TextChange {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export const SNAPSHOT_FIELD_LABELS: Record<keyof PageSnapshot, string> = {
+  title: 'Title',
+  text: 'Story text',
+  image_url: 'Fallback image',
+  video_url: 'Video',
+  background_url: 'Background image',
+  background_music_url: 'Background music',
+  narration_audio_url: 'Narration audio',
+  narration_timings: 'Narration timings',
+  quiz_data: 'Quiz questions'
+};
+
+export const toPageSnapshot = (page: PageFields): PageSnapshot => ({
+  title: page.title || '',
+  text: page.text,
+  image_url: page.image || '',
+  video_url: page.video || '',
+  background_url: page.background || '',
+  background_music_url: page.backgroundMusic || null,
+  narration_audio_url: page.narrationAudio || null,
+  narration_timings: page.narrationTimings || null,
+  quiz_data: page.quiz || { questions: [] }
+});
+
+export const fromPageSnapshot = (snapshot: PageSnapshot): PageFields => ({
+  title: snapshot.title || '',
+  text: snapshot.text,
+  image: snapshot.image_url,
+  video: snapshot.video_url,
+  background: snapshot.background_url,
+  backgroundMusic: snapshot.background_music_url || '',
+  narrationAudio: snapshot.narration_audio_url || undefined,
+  narrationTimings: snapshot.narration_timings || undefined,
+  quiz: normalizeQuizData(snapshot.quiz_data, snapshot.text)
+});
+
+// Empty strings, null and missing values all mean "not set", so they compare equal
+const comparable = (value: unknown) => JSON.stringify(value === '' || value === undefined ? null : value);
+
+export const getChangedFields = (before: PageSnapshot, after: PageSnapshot): (keyof PageSnapshot)[] => {
+  return (Object.keys(SNAPSHOT_FIELD_LABELS) as (keyof PageSnapshot)[])
+    .filter(field => comparable(before[field]) !== comparable(after[field]));
+};
+
+/**
+ * Word-level diff of two texts via the longest common subsequence of their words. Whitespace is
+ * kept with the word before it so the pieces join back into the original texts.
+ */
+export const diffWords = (before: string, after: string): TextChange[] => {
+  const a = before.match(/\S+\s*|\s+/g) || [];
+  const b = after.match(/\S+\s*|\s+/g) || [];
+  const same = (x: string, y: string) => x.trim() === y.trim();
+
+  // lengths[i][j] is the LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(a[i], b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const changes: TextChange[] = [];
+  const push = (type: TextChange['type'], text: string) => {
+    const last = changes[changes.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      changes.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (same(a[i], b[j])) {
+      push('same', b[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return changes;
+};
@@ -0,0 +1,66 @@
+// Prompts for translating a page with Gemini, and merging its JSON reply back onto the page
+import { PageTranslationInput } from '../types/Translation';
+import { QuizData } from '../types/Quiz';
+import { getLanguageLabel } from './languages';
+import { normalizeQuizData } from './quizData';
+
+type UnknownRecord = Record<string, unknown>;
+
+// Quiz fields that identify or link things rather than being read by the child
+const UNTRANSLATED_KEYS = new Set(['id', 'kind', 'image', 'acceptsId']);
+
+const isRecord = (value: unknown): value is UnknownRecord => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+export const buildPageTranslationPrompt = (
+  page: PageTranslationInput,
+  fromLanguage: string,
+  toLanguage: string
+): string => {
+  return `Translate this page of a children's book from ${getLanguageLabel(fromLanguage)} to ${getLanguageLabel(toLanguage)}.
+Keep the wording simple and natural for young readers in that language.
+Keep story markup exactly as it is: *emphasis*, [pause] and [Name: ...] tags. Translate the words inside them but never the character names.
+In the quiz, translate every piece of text a child reads but keep the JSON structure, ids, kinds, true/false values and image URLs unchanged.
+Spelling words and fill-in-the-blank answers must be words that appear in the translated page text.
+Reply with JSON only, in this shape:
+${JSON.stringify({ title: page.title, text: page.text, quiz_data: page.quiz_data }, null, 2)}`;
+};
+
+/**
+ * Copies translated strings onto the source value wherever the reply kept its shape, so a
+ * model that drops a question or flips an answer can't change what the quiz marks as correct.
+ */
+const mergeTranslatedStrings = (source: unknown, translated: unknown, key?: string): unknown => {
+  if (typeof source === 'string') {
+    const keepSource = (key !== undefined && UNTRANSLATED_KEYS.has(key)) ||
+      typeof translated !== 'string' || !translated.trim();
+    return keepSource ? source : (translated as string).trim();
+  }
+  if (Array.isArray(source)) {
+    return source.map((item, index) => mergeTranslatedStrings(
+      item,
+      Array.isArray(translated) && translated.length === source.length ? translated[index] : undefined
+    ));
+  }
+  if (isRecord(source)) {
+    return Object.fromEntries(Object.entries(source).map(([field, value]) => [
+      field,
+      mergeTranslatedStrings(value, isRecord(translated) ? translated[field] : undefined, field)
+    ]));
+  }
+  return source;
+};
+
+export const parsePageTranslation = (raw: unknown, source: PageTranslationInput): PageTranslationInput => {
+  if (!isRecord(raw) || typeof raw.text !== 'string' || !raw.text.trim()) {
+    throw new Error('The AI reply did not contain a translated page. Please try again.');
+  }
+
+  const text = raw.text.trim();
+  return {
+    title: typeof raw.title === 'string' ? raw.title.trim() : source.title,
+    text,
+    quiz_data: normalizeQuizData(mergeTranslatedStrings(source.quiz_data, raw.quiz_data) as QuizData, text)
+  };
+};
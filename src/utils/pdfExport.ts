@@ -0,0 +1,286 @@
+// Client-side PDF builders for printing books and the drawing book's coloring pages
+import { jsPDF } from 'jspdf';
+import { Book } from '../types/Book';
+import { QuizQuestion } from '../types/Quiz';
+import { StoryPage } from '../services/SupabaseService';
+import { normalizeQuizData } from './quizData';
+import { stripStoryMarkup } from './storyMarkup';
+
+const PAGE_MARGIN = 15; // mm
+const LINE_HEIGHT_FACTOR = 0.45; // mm per point of font size, with leading
+
+interface PdfImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+export interface BookPdfOptions {
+  includeQuiz: boolean;
+  includeAnswers: boolean;
+}
+
+export interface ColoringPage {
+  image: string; // base64 PNG without the data: prefix, as stored in drawing history
+  caption?: string;
+}
+
+/**
+ * Loads any image the browser can display and re-encodes it as a JPEG data URL.
+ * Returns null when it can't be drawn, e.g. a host without CORS headers taints the canvas.
+ */
+const loadImageForPdf = (src: string): Promise<PdfImage | null> => {
+  return new Promise(resolve => {
+    if (!src) {
+      resolve(null);
+      return;
+    }
+
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+          resolve(null);
+          return;
+        }
+        // JPEG has no alpha, so paint transparent areas white rather than black
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(img, 0, 0);
+        resolve({ dataUrl: canvas.toDataURL('image/jpeg', 0.9), width: img.naturalWidth, height: img.naturalHeight });
+      } catch (error) {
+        console.warn('Could not include image in PDF:', src, error);
+        resolve(null);
+      }
+    };
+    img.onerror = () => {
+      console.warn('Could not load image for PDF:', src);
+      resolve(null);
+    };
+    img.src = src;
+  });
+};
+
+// Tracks the write position so text can flow onto a new sheet when it runs out of room
+class PdfCursor {
+  doc: jsPDF;
+  y = PAGE_MARGIN;
+
+  constructor(doc: jsPDF) {
+    this.doc = doc;
+  }
+
+  get pageWidth() {
+    return this.doc.internal.pageSize.getWidth();
+  }
+
+  get pageHeight() {
+    return this.doc.internal.pageSize.getHeight();
+  }
+
+  get contentWidth() {
+    return this.pageWidth - PAGE_MARGIN * 2;
+  }
+
+  newPage() {
+    this.doc.addPage();
+    this.y = PAGE_MARGIN;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > this.pageHeight - PAGE_MARGIN) {
+      this.newPage();
+    }
+  }
+
+  text(text: string, fontSize: number, options: { bold?: boolean; align?: 'left' | 'center'; indent?: number; gapAfter?: number } = {}) {
+    const { bold = false, align = 'left', indent = 0, gapAfter = 2 } = options;
+    const lineHeight = fontSize * LINE_HEIGHT_FACTOR;
+
+    this.doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    this.doc.setFontSize(fontSize);
+    const lines: string[] = this.doc.splitTextToSize(text, this.contentWidth - indent);
+
+    lines.forEach(line => {
+      this.ensureSpace(lineHeight);
+      const x = align === 'center' ? this.pageWidth / 2 : PAGE_MARGIN + indent;
+      this.doc.text(line, x, this.y + lineHeight * 0.75, { align });
+      this.y += lineHeight;
+    });
+    this.y += gapAfter;
+  }
+
+  // Scales the image to fit the width and at most `maxHeight`, centred horizontally
+  image(image: PdfImage, maxHeight: number) {
+    const scale = Math.min(this.contentWidth / image.width, maxHeight / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+
+    this.ensureSpace(height);
+    this.doc.addImage(image.dataUrl, 'JPEG', (this.pageWidth - width) / 2, this.y, width, height);
+    this.y += height + 6;
+  }
+}
+
+const describeQuestion = (question: QuizQuestion): { prompt: string; lines: string[]; answer: string } => {
+  switch (question.kind) {
+    case 'multiple-choice':
+      return {
+        prompt: question.question,
+        lines: question.options.map((option, index) => `[  ] ${String.fromCharCode(65 + index)}. ${option.text}`),
+        answer: question.options.filter(option => option.isCorrect).map(option => option.text).join(', ')
+      };
+    case 'spelling':
+      return {
+        prompt: `Spell the word. Hint: ${question.hint}`,
+        lines: ['______________________________'],
+        answer: question.word
+      };
+    case 'true-false':
+      return {
+        prompt: question.statement,
+        lines: ['Circle one:   TRUE   /   FALSE'],
+        answer: question.answer ? 'True' : 'False'
+      };
+    case 'ordering':
+      return {
+        prompt: `${question.instructions} Number them in order.`,
+        // Alphabetical so the printed list doesn't give the order away
+        lines: [...question.items]
+          .sort((a, b) => a.text.localeCompare(b.text))
+          .map(item => `____  ${item.text}`),
+        answer: question.items.map(item => item.text).join(' -> ')
+      };
+    case 'fill-blank':
+      return {
+        prompt: `Fill in the blanks: ${question.sentence.replace(/_{3,}/g, '__________')}`,
+        lines: question.wordBank && question.wordBank.length > 0 ? [`Word bank: ${question.wordBank.join(', ')}`] : [],
+        answer: question.answers.join(', ')
+      };
+    case 'picture-match':
+      return {
+        prompt: question.instructions || 'Match each word to the right picture.',
+        lines: [
+          `Words: ${question.dragItems.map(item => item.label).join(', ')}`,
+          `Pictures: ${[...question.dropZones].sort((a, b) => a.label.localeCompare(b.label)).map(zone => zone.label).join(', ')}`
+        ],
+        answer: question.dropZones
+          .map(zone => `${question.dragItems.find(item => item.id === zone.acceptsId)?.label || '?'} -> ${zone.label}`)
+          .join(', ')
+      };
+  }
+};
+
+const writeQuizWorksheet = (cursor: PdfCursor, pages: StoryPage[], includeAnswers: boolean) => {
+  // Rows straight from the database may still hold the legacy quiz shape
+  const quizPages = pages
+    .map(page => ({ page, questions: normalizeQuizData(page.quiz_data, page.text).questions }))
+    .filter(({ questions }) => questions.length > 0);
+  if (quizPages.length === 0) return;
+
+  cursor.newPage();
+  cursor.text('Quiz Worksheet', 22, { bold: true, align: 'center', gapAfter: 2 });
+  cursor.text('Name: ______________________     Date: ______________', 11, { align: 'center', gapAfter: 8 });
+
+  const answers: string[] = [];
+  let number = 1;
+
+  quizPages.forEach(({ page, questions }) => {
+    cursor.text(page.title || `Page ${page.page_number}`, 14, { bold: true, gapAfter: 3 });
+
+    questions.forEach(question => {
+      const { prompt, lines, answer } = describeQuestion(question);
+      cursor.ensureSpace(20);
+      cursor.text(`${number}. ${prompt}`, 12, { gapAfter: 1 });
+      lines.forEach(line => cursor.text(line, 11, { indent: 6, gapAfter: 1 }));
+      cursor.y += 4;
+      answers.push(`${number}. ${answer}`);
+      number += 1;
+    });
+  });
+
+  if (includeAnswers) {
+    cursor.newPage();
+    cursor.text('Answer Key', 18, { bold: true, gapAfter: 6 });
+    answers.forEach(answer => cursor.text(answer, 11, { gapAfter: 1 }));
+  }
+};
+
+// Title page, one or more sheets per story page, then the optional quiz worksheet
+export const createBookPdf = async (book: Book, pages: StoryPage[], options: BookPdfOptions): Promise<Blob> => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const cursor = new PdfCursor(doc);
+  doc.setProperties({ title: book.title, author: book.author, subject: book.description || book.subject });
+
+  cursor.y = 40;
+  cursor.text(book.title, 28, { bold: true, align: 'center', gapAfter: 4 });
+  cursor.text(`by ${book.author}`, 16, { align: 'center', gapAfter: 2 });
+  cursor.text(book.publisher, 12, { align: 'center', gapAfter: 10 });
+
+  const cover = await loadImageForPdf(book.cover_image_url || book.thumbnail_url);
+  if (cover) {
+    cursor.image(cover, 130);
+  }
+  if (book.description) {
+    cursor.text(book.description, 12, { align: 'center' });
+  }
+
+  for (const page of pages) {
+    cursor.newPage();
+    if (page.title) {
+      cursor.text(page.title, 20, { bold: true, align: 'center', gapAfter: 6 });
+    }
+
+    const image = await loadImageForPdf(page.image_url);
+    if (image) {
+      cursor.image(image, 120);
+    }
+
+    stripStoryMarkup(page.text)
+      .split(/\n\s*\n/)
+      .filter(paragraph => paragraph.trim())
+      .forEach(paragraph => cursor.text(paragraph.trim(), 14, { gapAfter: 4 }));
+  }
+
+  if (options.includeQuiz) {
+    writeQuizWorksheet(cursor, pages, options.includeAnswers);
+  }
+
+  return doc.output('blob');
+};
+
+// One coloring image per sheet, as large as the page allows, with an optional caption
+export const createColoringBookPdf = async (title: string, coloringPages: ColoringPage[]): Promise<Blob> => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const cursor = new PdfCursor(doc);
+  doc.setProperties({ title });
+
+  cursor.y = 100;
+  cursor.text(title, 28, { bold: true, align: 'center', gapAfter: 6 });
+  cursor.text('This coloring book belongs to: ____________________', 14, { align: 'center' });
+
+  let added = 0;
+  for (const coloringPage of coloringPages) {
+    const image = await loadImageForPdf(`data:image/png;base64,${coloringPage.image}`);
+    if (!image) continue;
+
+    cursor.newPage();
+    const captionSpace = coloringPage.caption ? 15 : 0;
+    cursor.image(image, cursor.pageHeight - PAGE_MARGIN * 2 - captionSpace);
+    if (coloringPage.caption) {
+      cursor.text(coloringPage.caption, 12, { align: 'center' });
+    }
+    added += 1;
+  }
+
+  if (added === 0) {
+    throw new Error('None of the coloring pages could be added to the PDF');
+  }
+
+  return doc.output('blob');
+};
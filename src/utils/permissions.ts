@@ -0,0 +1,24 @@
+import { User, UserRole } from '../services/AuthService';
+
+// Mirrors the RLS policies in supabase/migrations; the database is the real gate,
+// these only decide which controls to show
+
+export const hasRole = (user: User | null, ...roles: UserRole[]): boolean => {
+  return !!user && roles.includes(user.role);
+};
+
+// Add and edit books, and add, edit and delete story pages
+export const canEditContent = (user: User | null): boolean => hasRole(user, 'author', 'admin');
+
+export const canDeleteBooks = (user: User | null): boolean => hasRole(user, 'admin');
+
+export const canManageRoles = (user: User | null): boolean => hasRole(user, 'admin');
+
+// See what the AI features cost and set the daily caps
+export const canManageAIUsage = (user: User | null): boolean => hasRole(user, 'admin');
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  reader: 'Reader',
+  author: 'Author',
+  admin: 'Admin'
+};
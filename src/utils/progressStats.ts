@@ -0,0 +1,118 @@
+import { QuizAttempt, ReadAloudAttempt, ReadingProgress } from '../types/Learner';
+
+export interface AccuracyPoint {
+  date: string; // YYYY-MM-DD
+  score: number;
+  maxScore: number;
+  accuracy: number; // 0-1
+}
+
+export interface MisspelledWord {
+  word: string;
+  misses: number;
+  attempts: number;
+}
+
+export interface MisreadWord {
+  word: string;
+  misses: number;
+}
+
+export interface FluencySummary {
+  attempts: number;
+  latestWordsCorrectPerMinute: number | null;
+  averageWordsCorrectPerMinute: number | null;
+  accuracy: number | null; // 0-1, across every word read aloud
+  trickyWords: MisreadWord[];
+}
+
+export interface BookProgressSummary {
+  started: number;
+  finished: number;
+  readingSeconds: number;
+}
+
+// Quiz accuracy per day, oldest first
+export const getAccuracyOverTime = (attempts: QuizAttempt[]): AccuracyPoint[] => {
+  const byDay = new Map<string, { score: number; maxScore: number }>();
+
+  attempts.forEach(attempt => {
+    const date = attempt.created_at.slice(0, 10);
+    const day = byDay.get(date) || { score: 0, maxScore: 0 };
+    day.score += attempt.score;
+    day.maxScore += attempt.max_score;
+    byDay.set(date, day);
+  });
+
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .filter(([, day]) => day.maxScore > 0)
+    .map(([date, day]) => ({
+      date,
+      score: day.score,
+      maxScore: day.maxScore,
+      accuracy: day.score / day.maxScore
+    }));
+};
+
+// Spelling words the child got wrong at least once, most missed first
+export const getMisspelledWords = (attempts: QuizAttempt[], limit = 10): MisspelledWord[] => {
+  const words = new Map<string, MisspelledWord>();
+
+  attempts.forEach(attempt => {
+    (attempt.results || [])
+      .filter(result => result.kind === 'spelling')
+      .forEach(result => {
+        const word = result.expected.toLowerCase();
+        const entry = words.get(word) || { word, misses: 0, attempts: 0 };
+        entry.attempts += 1;
+        if (!result.isCorrect) entry.misses += 1;
+        words.set(word, entry);
+      });
+  });
+
+  return Array.from(words.values())
+    .filter(entry => entry.misses > 0)
+    .sort((a, b) => b.misses - a.misses || a.word.localeCompare(b.word))
+    .slice(0, limit);
+};
+
+// Read-aloud practice results; the attempts come oldest first
+export const getFluencySummary = (attempts: ReadAloudAttempt[], limit = 10): FluencySummary => {
+  const totalWords = attempts.reduce((total, attempt) => total + attempt.total_words, 0);
+  const correctWords = attempts.reduce((total, attempt) => total + attempt.correct_words, 0);
+  const words = new Map<string, MisreadWord>();
+
+  attempts.forEach(attempt => {
+    [...attempt.misread_words, ...attempt.skipped_words].forEach(missed => {
+      const word = missed.toLowerCase();
+      words.set(word, { word, misses: (words.get(word)?.misses || 0) + 1 });
+    });
+  });
+
+  return {
+    attempts: attempts.length,
+    latestWordsCorrectPerMinute: attempts.length > 0 ? Math.round(attempts[attempts.length - 1].words_correct_per_minute) : null,
+    averageWordsCorrectPerMinute: attempts.length > 0
+      ? Math.round(attempts.reduce((total, attempt) => total + attempt.words_correct_per_minute, 0) / attempts.length)
+      : null,
+    accuracy: totalWords > 0 ? correctWords / totalWords : null,
+    trickyWords: Array.from(words.values())
+      .sort((a, b) => b.misses - a.misses || a.word.localeCompare(b.word))
+      .slice(0, limit)
+  };
+};
+
+export const getBookProgressSummary = (progress: ReadingProgress[]): BookProgressSummary => {
+  return {
+    started: progress.length,
+    finished: progress.filter(entry => entry.completed_at).length,
+    readingSeconds: progress.reduce((total, entry) => total + entry.reading_seconds, 0)
+  };
+};
+
+export const formatReadingTime = (seconds: number): string => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
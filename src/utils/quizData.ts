@@ -0,0 +1,87 @@
+import { LegacyQuizData, QuestionKind, QuizData, QuizQuestion } from '../types/Quiz';
+import { stripStoryMarkup } from './storyMarkup';
+
+export const createQuestionId = (prefix: QuestionKind | string): string => {
+  return `${prefix}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+// Fill-in-the-blank sentences mark each missing word with three or more underscores
+const BLANK_PATTERN = /_{3,}/;
+
+export const splitSentence = (sentence: string): string[] => sentence.split(BLANK_PATTERN);
+
+export const countBlanks = (sentence: string): number => splitSentence(sentence).length - 1;
+
+// Spelling words can be in any alphabet; marks count as letters so Hindi words keep their vowel signs
+const SPELLING_WORD_PATTERN = /^[\p{L}\p{M}]+$/u;
+const NON_LETTER_PATTERN = /[^\p{L}\p{M}]/gu;
+
+// Composed form and the page language's own lowercasing, so 'É' and 'e + ◌́' or Turkish 'İ' compare as written
+export const normalizeSpelling = (text: string, language?: string): string => {
+  return text.trim().normalize('NFC').toLocaleLowerCase(language);
+};
+
+export const isSpellingWord = (text: string): boolean => SPELLING_WORD_PATTERN.test(text.trim().normalize('NFC'));
+
+// Just the letters, for matching handwriting that picked up stray marks
+export const spellingLetters = (text: string, language?: string): string => {
+  return normalizeSpelling(text, language).replace(NON_LETTER_PATTERN, '');
+};
+
+// Default quiz for pages that were saved without one
+export const createFallbackQuiz = (pageText: string): QuizData => {
+  return {
+    questions: [
+      {
+        id: 'multiple-choice-1',
+        kind: 'multiple-choice',
+        question: "What happened in this part of the story?",
+        options: [
+          { text: stripStoryMarkup(pageText).substring(0, 50) + "...", isCorrect: true },
+          { text: "Something completely different happened...", isCorrect: false }
+        ]
+      },
+      {
+        id: 'spelling-1',
+        kind: 'spelling',
+        word: pageText.split(' ').find(word => word.length > 4) || "story",
+        hint: "Try spelling this word from the story"
+      }
+    ]
+  };
+};
+
+const convertLegacyQuiz = (legacy: LegacyQuizData): QuizQuestion[] => {
+  const questions: QuizQuestion[] = [];
+
+  if (legacy.multipleChoice) {
+    questions.push({ id: 'multiple-choice-1', kind: 'multiple-choice', ...legacy.multipleChoice });
+  }
+  if (legacy.spelling) {
+    questions.push({ id: 'spelling-1', kind: 'spelling', ...legacy.spelling });
+  }
+  if (legacy.dragDrop) {
+    questions.push({ id: 'picture-match-1', kind: 'picture-match', ...legacy.dragDrop });
+  }
+
+  return questions;
+};
+
+/**
+ * Accepts quiz_data as stored in story_pages (either the ordered question list
+ * or the older multipleChoice/spelling/dragDrop object) and returns the list form.
+ * Pages with no quiz at all, including an empty question list, get a fallback quiz built
+ * from the page text.
+ */
+export const normalizeQuizData = (raw: QuizData | LegacyQuizData | null | undefined, pageText: string): QuizData => {
+  if (raw && 'questions' in raw && Array.isArray(raw.questions) && raw.questions.length > 0) {
+    return { questions: raw.questions };
+  }
+
+  const legacyQuestions = raw ? convertLegacyQuiz(raw as LegacyQuizData) : [];
+  if (legacyQuestions.length > 0) {
+    return { questions: legacyQuestions };
+  }
+
+  return createFallbackQuiz(pageText);
+};
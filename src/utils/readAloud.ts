@@ -0,0 +1,121 @@
+// Matching what speech recognition heard against the page, for read-aloud practice
+
+export type WordMatch = 'correct' | 'misread' | 'skipped';
+
+export interface ReadingScore {
+  totalWords: number;
+  correctWords: number;
+  misreadWords: string[];
+  skippedWords: string[];
+  seconds: number;
+  wordsCorrectPerMinute: number;
+}
+
+// Case and punctuation never count against the reader
+export const normalizeSpokenWord = (word: string): string => {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+};
+
+export const splitTranscript = (transcript: string): string[] => {
+  return transcript.split(/\s+/).map(normalizeSpokenWord).filter(Boolean);
+};
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Recognizers often get one letter of a longer word wrong ("rabit"); that's still the child reading it
+const soundsAlike = (expected: string, heard: string): boolean => {
+  if (expected === heard) return true;
+  return Math.min(expected.length, heard.length) >= 5 && editDistance(expected, heard) <= 1;
+};
+
+/**
+ * Lines the heard words up with the page words by edit distance: a page word is correct when
+ * it's matched, misread when something else was said in its place and skipped when nothing
+ * was. While the child is still reading, words past the best-matching point haven't been
+ * reached yet and come back as null; once finished they count as skipped. Words with no
+ * letters or digits, like a lone dash, are never scored and are always null.
+ */
+export const matchReading = (pageWords: string[], heard: string[], isFinished: boolean): (WordMatch | null)[] => {
+  const matches: (WordMatch | null)[] = pageWords.map(() => null);
+  const scored = pageWords
+    .map((word, index) => ({ index, word: normalizeSpokenWord(word) }))
+    .filter(entry => entry.word);
+  const n = scored.length;
+  const m = heard.length;
+
+  // cost[i][j] aligns the first i page words with the first j heard words
+  const cost = Array.from({ length: n + 1 }, (_, i) => {
+    const row = new Array<number>(m + 1).fill(0);
+    row[0] = i;
+    return row;
+  });
+  for (let j = 0; j <= m; j++) cost[0][j] = j;
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + (soundsAlike(scored[i - 1].word, heard[j - 1]) ? 0 : 1),
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      );
+    }
+  }
+
+  // How far into the page the reading got; ties go to the furthest point
+  let reached = n;
+  if (!isFinished) {
+    reached = 0;
+    for (let i = 1; i <= n; i++) {
+      if (cost[i][m] <= cost[reached][m]) reached = i;
+    }
+  }
+
+  let i = reached;
+  let j = m;
+  while (i > 0) {
+    const alike = j > 0 && soundsAlike(scored[i - 1].word, heard[j - 1]);
+    if (j > 0 && cost[i][j] === cost[i - 1][j - 1] + (alike ? 0 : 1)) {
+      matches[scored[i - 1].index] = alike ? 'correct' : 'misread';
+      i--;
+      j--;
+    } else if (cost[i][j] === cost[i - 1][j] + 1) {
+      matches[scored[i - 1].index] = 'skipped';
+      i--;
+    } else {
+      j--;
+    }
+  }
+
+  if (isFinished) {
+    scored.slice(reached).forEach(entry => {
+      matches[entry.index] = 'skipped';
+    });
+  }
+
+  return matches;
+};
+
+export const scoreReading = (pageWords: string[], matches: (WordMatch | null)[], seconds: number): ReadingScore => {
+  const wordsWith = (match: WordMatch) => pageWords
+    .filter((_, index) => matches[index] === match)
+    .map(word => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''));
+  const correctWords = wordsWith('correct').length;
+
+  return {
+    totalWords: pageWords.filter(word => normalizeSpokenWord(word)).length,
+    correctWords,
+    misreadWords: wordsWith('misread'),
+    skippedWords: wordsWith('skipped'),
+    seconds,
+    wordsCorrectPerMinute: seconds > 0 ? Math.round(correctWords * 60 / seconds) : 0
+  };
+};
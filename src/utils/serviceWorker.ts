@@ -0,0 +1,10 @@
+// Registers public/sw.js. Skipped in development, where it would cache Vite's hot-reloaded modules
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.warn('Service worker registration failed:', error);
+    });
+  });
+};
@@ -0,0 +1,145 @@
+/**
+ * Lightweight markup authors can use in page text:
+ *   *so very tired*          emphasis
+ *   [Hoppy: "Hello there!"]  lines spoken by a character, narrated in that character's voice
+ *   [pause] or [pause 1.5]   a pause in narration, in seconds
+ * Anything that doesn't match is kept as ordinary text.
+ */
+import { SpeakerVoice } from '../types/Narration';
+
+export interface MarkupWord {
+  text: string;
+  speaker: string | null;
+  emphasis: boolean;
+  // Seconds of silence to leave before this word
+  pauseBefore: number;
+}
+
+// A run of words spoken in one voice without a pause in between
+export interface SpeechSegment {
+  speaker: string | null;
+  words: string[];
+  // Index of the segment's first word among all the page's words
+  startWord: number;
+  pauseBefore: number;
+}
+
+interface MarkupChar {
+  char: string;
+  speaker: string | null;
+  emphasis: boolean;
+  pauseBefore: number;
+}
+
+const DEFAULT_PAUSE_SECONDS = 0.6;
+const MAX_PAUSE_SECONDS = 10;
+
+const PAUSE_TAG = /^\[pause(?:\s+(\d+(?:\.\d+)?)s?)?\]/i;
+const SPEAKER_TAG = /^\[([A-Za-z][A-Za-z0-9' -]{0,29}):\s*/;
+
+// Characters get distinct pitches in the narrator's voice until a reader picks voices for them
+const DEFAULT_SPEAKER_PITCHES = [1.4, 0.7, 1.2, 0.85, 1.6, 0.6];
+
+const scanMarkup = (text: string): MarkupChar[] => {
+  const chars: MarkupChar[] = [];
+  let speaker: string | null = null;
+  let emphasis = false;
+  let pendingPause = 0;
+  let i = 0;
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+
+    const pause = rest.match(PAUSE_TAG);
+    if (pause) {
+      pendingPause += Math.min(pause[1] ? Number(pause[1]) : DEFAULT_PAUSE_SECONDS, MAX_PAUSE_SECONDS);
+      i += pause[0].length;
+      continue;
+    }
+
+    // Speaker tags don't nest and need their closing bracket
+    const speakerTag: RegExpMatchArray | null = speaker === null ? rest.match(SPEAKER_TAG) : null;
+    if (speakerTag && text.indexOf(']', i + speakerTag[0].length) !== -1) {
+      speaker = speakerTag[1].trim();
+      i += speakerTag[0].length;
+      continue;
+    }
+    if (text[i] === ']' && speaker !== null) {
+      speaker = null;
+      emphasis = false;
+      i++;
+      continue;
+    }
+
+    // A lone asterisk with no partner is just an asterisk
+    if (text[i] === '*' && (emphasis || text.indexOf('*', i + 1) !== -1)) {
+      emphasis = !emphasis;
+      i++;
+      continue;
+    }
+
+    chars.push({ char: text[i], speaker, emphasis, pauseBefore: pendingPause });
+    if (!/\s/.test(text[i])) {
+      pendingPause = 0;
+    }
+    i++;
+  }
+
+  return chars;
+};
+
+// The text as it reads, with all markup removed; whitespace and line breaks are kept
+export const stripStoryMarkup = (text: string): string => {
+  return scanMarkup(text).map(c => c.char).join('');
+};
+
+// Words in the same order and count as splitWords gives for the same text
+export const parseStoryMarkup = (text: string): MarkupWord[] => {
+  const words: MarkupWord[] = [];
+  let current: MarkupWord | null = null;
+
+  for (const c of scanMarkup(text)) {
+    if (/\s/.test(c.char)) {
+      current = null;
+      continue;
+    }
+    if (!current) {
+      current = { text: '', speaker: c.speaker, emphasis: c.emphasis, pauseBefore: c.pauseBefore };
+      words.push(current);
+    }
+    current.text += c.char;
+  }
+
+  return words;
+};
+
+export const getSpeechSegments = (words: MarkupWord[]): SpeechSegment[] => {
+  const segments: SpeechSegment[] = [];
+
+  words.forEach((word, index) => {
+    const last = segments[segments.length - 1];
+    if (last && last.speaker === word.speaker && word.pauseBefore === 0) {
+      last.words.push(word.text);
+    } else {
+      segments.push({ speaker: word.speaker, words: [word.text], startWord: index, pauseBefore: word.pauseBefore });
+    }
+  });
+
+  return segments;
+};
+
+// Every character with tagged lines across the given texts, in order of first appearance
+export const getSpeakers = (texts: string[]): string[] => {
+  const speakers = new Set<string>();
+  texts.forEach(text => {
+    parseStoryMarkup(text).forEach(word => {
+      if (word.speaker) speakers.add(word.speaker);
+    });
+  });
+  return [...speakers];
+};
+
+export const getDefaultSpeakerVoice = (speakerIndex: number): SpeakerVoice => ({
+  voiceName: null,
+  pitch: DEFAULT_SPEAKER_PITCHES[speakerIndex % DEFAULT_SPEAKER_PITCHES.length]
+});
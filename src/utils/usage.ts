@@ -0,0 +1,50 @@
+import { UsageMetric, UsageReportRow, UsageScope } from '../types/Usage';
+
+export const USAGE_METRICS: UsageMetric[] = ['tokens', 'images', 'tts_characters', 'tavus_minutes'];
+
+export const METRIC_LABELS: Record<UsageMetric, string> = {
+  tokens: 'Text tokens',
+  images: 'Pictures',
+  tts_characters: 'Voice characters',
+  tavus_minutes: 'Video call minutes'
+};
+
+export const SCOPE_LABELS: Record<UsageScope, string> = {
+  child: 'Each child',
+  classroom: 'Each classroom'
+};
+
+export interface UsageSummary {
+  userId: string;
+  email: string;
+  learnerId: string | null; // null for the account's total
+  learnerName: string;
+  totals: Partial<Record<UsageMetric, number>>;
+}
+
+/**
+ * Adds up a usage report over the whole period: one total per account (classroom), each followed
+ * by its children. Calls made with no child picked count towards the account total only.
+ */
+export const summarizeUsage = (rows: UsageReportRow[]): UsageSummary[] => {
+  const summaries = new Map<string, UsageSummary>();
+  const add = (key: string, row: UsageReportRow, learnerId: string | null, learnerName: string) => {
+    const summary = summaries.get(key) || { userId: row.user_id, email: row.email, learnerId, learnerName, totals: {} };
+    summary.totals[row.metric] = (summary.totals[row.metric] ?? 0) + Number(row.amount);
+    summaries.set(key, summary);
+  };
+
+  rows.forEach(row => {
+    add(row.user_id, row, null, 'Whole classroom');
+    if (row.learner_id) {
+      add(`${row.user_id}:${row.learner_id}`, row, row.learner_id, row.learner_name || 'Deleted child');
+    }
+  });
+
+  return [...summaries.values()].sort((a, b) =>
+    a.email.localeCompare(b.email) ||
+    a.userId.localeCompare(b.userId) ||
+    Number(a.learnerId !== null) - Number(b.learnerId !== null) ||
+    a.learnerName.localeCompare(b.learnerName)
+  );
+};
@@ -0,0 +1,109 @@
+// Spaced-repetition scheduling (SM-2) for the spelling words a learner collects from book quizzes
+import { LearnerWord } from '../types/Learner';
+import { QuestionResult, QuizData, SpellingQuestion } from '../types/Quiz';
+import { isSpellingWord, normalizeSpelling } from './quizData';
+
+export type WordSchedule = Pick<LearnerWord, 'ease_factor' | 'interval_days' | 'repetitions' | 'lapses' | 'due_at' | 'last_reviewed_at'>;
+
+// A spelling word answered in a quiz or practice session
+export interface SpellingWord {
+  word: string;
+  hint: string;
+  isCorrect: boolean;
+}
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+// SM-2 treats anything below this as a lapse that restarts the word
+const PASSING_QUALITY = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Most words offered in one Word Practice session
+export const PRACTICE_SESSION_SIZE = 10;
+
+export const normalizeBankWord = (word: string, language?: string) => normalizeSpelling(word, language);
+
+// A fresh word is due straight away so it can be practised the same day it was met
+export const createWordSchedule = (now: Date = new Date()): WordSchedule => ({
+  ease_factor: DEFAULT_EASE,
+  interval_days: 0,
+  repetitions: 0,
+  lapses: 0,
+  due_at: now.toISOString(),
+  last_reviewed_at: null
+});
+
+/**
+ * SM-2 answer quality (0-5). Spelling is right or wrong, so a correct answer without a hint
+ * counts as effortless recall and a miss as a near-miss rather than a blackout.
+ */
+export const gradeSpelling = (isCorrect: boolean, hadHint: boolean): number => {
+  if (!isCorrect) return 1;
+  return hadHint ? 4 : 5;
+};
+
+export const reviewWord = (schedule: WordSchedule, quality: number, now: Date = new Date()): WordSchedule => {
+  const passed = quality >= PASSING_QUALITY;
+  const easeChange = 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02);
+  const easeFactor = Math.max(MIN_EASE, schedule.ease_factor + easeChange);
+
+  let intervalDays = 1;
+  if (passed && schedule.repetitions === 1) {
+    intervalDays = 6;
+  } else if (passed && schedule.repetitions > 1) {
+    intervalDays = Math.round(schedule.interval_days * easeFactor);
+  }
+
+  return {
+    ease_factor: Math.round(easeFactor * 100) / 100,
+    interval_days: intervalDays,
+    repetitions: passed ? schedule.repetitions + 1 : 0,
+    lapses: !passed && schedule.repetitions > 0 ? schedule.lapses + 1 : schedule.lapses,
+    due_at: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    last_reviewed_at: now.toISOString()
+  };
+};
+
+/**
+ * Schedule after meeting a word in a book quiz. A word missed the first time it's met stays
+ * due now; anything else counts as a review.
+ */
+export const scheduleQuizWord = (existing: WordSchedule | undefined, word: SpellingWord, now: Date = new Date()): WordSchedule => {
+  if (!existing && !word.isCorrect) return createWordSchedule(now);
+  return reviewWord(existing || createWordSchedule(now), gradeSpelling(word.isCorrect, !!word.hint), now);
+};
+
+export const isWordDue = (word: Pick<LearnerWord, 'due_at'>, now: Date = new Date()) => {
+  return new Date(word.due_at).getTime() <= now.getTime();
+};
+
+// Most overdue first, so a short session covers the words most at risk of being forgotten
+export const getDueWords = (words: LearnerWord[], limit = PRACTICE_SESSION_SIZE, now: Date = new Date()): LearnerWord[] => {
+  return words
+    .filter(word => isWordDue(word, now))
+    .sort((a, b) => a.due_at.localeCompare(b.due_at))
+    .slice(0, limit);
+};
+
+/**
+ * The spelling words behind a page quiz's results. Results can come from an authored
+ * easier/harder variant, so variants are searched too; the hint comes from the question
+ * as authored, since harder questions may have had it removed.
+ */
+export const getSpellingWords = (quiz: QuizData | undefined, results: QuestionResult[], language?: string): SpellingWord[] => {
+  const spellingQuestions = (quiz?.questions || [])
+    .flatMap(question => [question, ...Object.values(question.variants || {})])
+    .filter((question): question is SpellingQuestion => question.kind === 'spelling');
+
+  return results
+    .filter(result => result.kind === 'spelling')
+    .map(result => {
+      const question = spellingQuestions.find(candidate => candidate.id === result.questionId);
+      return {
+        word: normalizeBankWord(question?.word || result.expected, language),
+        hint: question?.hint || '',
+        isCorrect: result.isCorrect
+      };
+    })
+    .filter(word => isSpellingWord(word.word));
+};
@@ -0,0 +1,7 @@
+// Which account started each Tavus conversation; the gateway keeps the record per signed-in user
+export interface ConversationOwners {
+  // Marks a newly created conversation as the caller's
+  record: (conversationId: string) => Promise<void>;
+  // Whether the caller started this conversation
+  owns: (conversationId: string) => Promise<boolean>;
+}
@@ -0,0 +1,178 @@
+// AI gateway: the only place the AI provider keys live. The app posts to /ai-gateway/<endpoint>
+// with the signed-in user's token; each user gets a per-endpoint rate limit, and what each call
+// spends counts towards the daily budget of the account (classroom). The child's own budget only
+// applies when the app has a learner selected and sends it in X-Learner-Id.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { HANDLERS, errorReply } from './providers.ts';
+import { ENDPOINT_BUDGETS, UsageMeter } from './usage.ts';
+import { ConversationOwners } from './conversations.ts';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-learner-id',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'Retry-After',
+};
+
+// Calls allowed per user in each window; video and voice sessions are the expensive ones
+const RATE_LIMITS: Record<string, { limit: number; windowSeconds: number }> = {
+  'idea': { limit: 20, windowSeconds: 60 },
+  'describe-drawing': { limit: 20, windowSeconds: 60 },
+  'story': { limit: 20, windowSeconds: 60 },
+  'story-stream': { limit: 20, windowSeconds: 60 },
+  'draft': { limit: 30, windowSeconds: 60 },
+  'ocr': { limit: 20, windowSeconds: 60 },
+  'image': { limit: 30, windowSeconds: 60 },
+  'story-audio': { limit: 10, windowSeconds: 60 },
+  'tts': { limit: 20, windowSeconds: 60 },
+  'tts-timestamps': { limit: 30, windowSeconds: 60 },
+  'voice-agent': { limit: 10, windowSeconds: 600 },
+  'conversation': { limit: 5, windowSeconds: 600 },
+  'conversation-end': { limit: 20, windowSeconds: 600 },
+};
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+// The child using the app, sent by the app; ignored unless the child belongs to the account.
+// Without one the call only counts towards the classroom, so child caps can't apply to it.
+const readLearnerId = async (req: Request, userId: string): Promise<string | null> => {
+  const learnerId = req.headers.get('X-Learner-Id');
+  if (!learnerId) return null;
+
+  const { data } = await supabase
+    .from('learner_profiles')
+    .select('id')
+    .eq('id', learnerId)
+    .eq('parent_id', userId)
+    .maybeSingle();
+  return data?.id ?? null;
+};
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json', ...headers },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const endpoint = new URL(req.url).pathname.split('/').filter(Boolean).pop() ?? '';
+  const handler = HANDLERS[endpoint];
+  if (!handler) {
+    return json({ error: `Unknown AI gateway endpoint "${endpoint}"` }, 404);
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+  if (!user) {
+    return json({ error: 'Sign in to use the AI features' }, 401);
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    const parsed = await req.json();
+    body = parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return json({ error: 'Request body must be JSON' }, 400);
+  }
+
+  const { limit, windowSeconds } = RATE_LIMITS[endpoint];
+  const { data: retryAfter, error: limitError } = await supabase.rpc('claim_ai_request', {
+    p_user_id: user.id,
+    p_endpoint: endpoint,
+    p_limit: limit,
+    p_window_seconds: windowSeconds,
+  });
+  if (limitError) {
+    console.error('Error claiming AI request:', limitError);
+    return json({ error: 'Failed to check AI usage limits' }, 500);
+  }
+  if (retryAfter > 0) {
+    return json({ error: 'Too many AI requests' }, 429, { 'Retry-After': String(retryAfter) });
+  }
+
+  // Checking the caps and reserving the expected cost is one step, so calls made at the same
+  // time can't all slip under a cap
+  const learnerId = await readLearnerId(req, user.id);
+  const budget = ENDPOINT_BUDGETS[endpoint];
+  const estimate = budget ? budget.estimate(body) : 0;
+  if (budget) {
+    const { data: capReached, error: budgetError } = await supabase.rpc('reserve_ai_budget', {
+      p_user_id: user.id,
+      p_learner_id: learnerId,
+      p_metric: budget.metric,
+      p_amount: estimate,
+    });
+    if (budgetError) {
+      console.error('Error reserving AI budget:', budgetError);
+      return json({ error: 'Failed to check AI usage limits' }, 500);
+    }
+    // 'child' or 'classroom', whichever daily cap the call would go over
+    if (capReached) {
+      return json({ error: "Today's AI budget has been used up", code: 'budget', reason: capReached }, 429);
+    }
+  }
+
+  const meter = new UsageMeter(budget ? { [budget.metric]: estimate } : {}, async (usedMetric, amount) => {
+    const { error } = await supabase.rpc('record_ai_usage', {
+      p_user_id: user.id,
+      p_learner_id: learnerId,
+      p_metric: usedMetric,
+      p_amount: amount,
+    });
+    if (error) {
+      console.error('Error recording AI usage:', error);
+    }
+  });
+
+  const conversations: ConversationOwners = {
+    record: async (conversationId) => {
+      const { error } = await supabase
+        .from('ai_conversations')
+        .insert({ conversation_id: conversationId, user_id: user.id });
+      if (error) {
+        // The call still ends itself when its time runs out
+        console.error('Error recording conversation owner:', error);
+      }
+    },
+    owns: async (conversationId) => {
+      const { data, error } = await supabase
+        .from('ai_conversations')
+        .select('conversation_id')
+        .eq('conversation_id', conversationId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (error) {
+        console.error('Error checking conversation owner:', error);
+      }
+      return !!data;
+    },
+  };
+
+  try {
+    const result = await handler(body, meter, conversations);
+    if (result instanceof Response) {
+      const headers = new Headers(result.headers);
+      Object.entries(CORS_HEADERS).forEach(([key, value]) => headers.set(key, value));
+      return new Response(result.body, { status: result.status, headers });
+    }
+    return json(result);
+  } catch (error) {
+    const { status, body: errorBody } = errorReply(endpoint, error);
+    return json(errorBody, status);
+  } finally {
+    // Failed calls give back what they didn't use; a streamed reply settles when it ends
+    if (!meter.isStreaming) {
+      await meter.settle();
+    }
+  }
+});
@@ -0,0 +1,542 @@
+// Calls to the AI providers, with the API keys that used to ship in the browser bundle
+import {
+  DRAWING_IDEA_SCHEMA,
+  DRAWING_SUBJECT_SCHEMA,
+  STORY_SCHEMA,
+  ReplySchema,
+  parseReply,
+} from './schemas.ts';
+import { UsageMeter } from './usage.ts';
+import { ConversationOwners } from './conversations.ts';
+
+type Body = Record<string, unknown>;
+
+interface GatewayErrorOptions {
+  // Lets the app tell errors apart, e.g. 'blocked' for safety blocks
+  code?: string;
+  // The provider's own reason, e.g. Gemini's blockReason
+  reason?: string;
+  // Worth trying the same call again after a pause
+  retryable?: boolean;
+}
+
+// An error the app should see as-is, with the HTTP status to send it with
+export class GatewayError extends Error {
+  constructor(public status: number, message: string, public options: GatewayErrorOptions = {}) {
+    super(message);
+  }
+}
+
+interface GeminiReply {
+  promptFeedback?: { blockReason?: string };
+  candidates?: { finishReason?: string; content?: { parts?: { text?: string }[] } }[];
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+}
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+const POLLINATIONS_IMAGE_URL = 'https://image.pollinations.ai/prompt/';
+const POLLINATIONS_TEXT_URL = 'https://text.pollinations.ai/';
+const ELEVENLABS_BASE_URL = 'https://api.elevenlabs.io/v1';
+const TAVUS_BASE_URL = 'https://tavusapi.com/v2';
+
+// Rate limits and overloaded or flaky servers; anything else won't get better by retrying
+const RETRY_STATUSES = new Set([429, 500, 502, 503, 504]);
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+// Finish reasons that mean Gemini held back its answer rather than running out of things to say
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII']);
+
+const DEFAULT_VOICE_ID = 'pNInz6obpgDQGcFmaJgB'; // Adam voice
+const MAX_PROMPT_LENGTH = 20000;
+const MAX_SPEECH_LENGTH = 5000;
+// Base64 images from the drawing book and camera
+const MAX_IMAGE_LENGTH = 8_000_000;
+
+const SAFETY_SETTINGS = [
+  { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_LOW_AND_ABOVE' },
+  { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_LOW_AND_ABOVE' },
+  { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_LOW_AND_ABOVE' },
+  { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_LOW_AND_ABOVE' },
+  { category: 'HARM_CATEGORY_CIVIC_INTEGRITY', threshold: 'BLOCK_LOW_AND_ABOVE' },
+];
+
+const VOICE_SETTINGS = {
+  stability: 0.5,
+  similarity_boost: 0.5,
+  style: 0.0,
+  use_speaker_boost: true,
+};
+
+// Call limits for each kind of Tavus conversation; the browser only picks the kind
+const CONVERSATION_PROPERTIES = {
+  story: { max_call_duration: 120, participant_left_timeout: 60, participant_absent_timeout: 60 },
+  library: { max_call_duration: 120, participant_left_timeout: 10, participant_absent_timeout: 10 },
+};
+
+const requireEnv = (name: string, provider: string): string => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new GatewayError(503, `${provider} is not configured on the AI gateway (${name} is missing)`);
+  }
+  return value;
+};
+
+const readString = (body: Body, key: string, maxLength: number, required = true): string => {
+  const value = body[key];
+  if (value === undefined && !required) return '';
+  if (typeof value !== 'string' || (required && !value.trim())) {
+    throw new GatewayError(400, `"${key}" must be a non-empty string`);
+  }
+  if (value.length > maxLength) {
+    throw new GatewayError(400, `"${key}" is too long`);
+  }
+  return value;
+};
+
+// Ids go into vendor URLs, so only plain ones are let through
+const readId = (body: Body, key: string, required = true): string => {
+  const value = readString(body, key, 100, required);
+  if (value && !/^[\w-]+$/.test(value)) {
+    throw new GatewayError(400, `"${key}" is not a valid id`);
+  }
+  return value;
+};
+
+const providerError = async (provider: string, response: Response): Promise<GatewayError> => {
+  const detail = await response.text().catch(() => '');
+  console.error(`${provider} error ${response.status}:`, detail);
+  let message = response.statusText;
+  try {
+    const data = JSON.parse(detail);
+    message = data.error?.message || data.detail?.message || data.message || message;
+  } catch {
+    // Not JSON; keep the status text
+  }
+  return new GatewayError(502, `${provider} API Error: ${message}`, { retryable: RETRY_STATUSES.has(response.status) });
+};
+
+// The status and body the app gets for a failed call
+export const errorReply = (label: string, error: unknown): { status: number; body: Body } => {
+  if (error instanceof GatewayError) {
+    return { status: error.status, body: { error: error.message, code: error.options.code, reason: error.options.reason } };
+  }
+  console.error(`Error in ai-gateway ${label}:`, error);
+  return { status: 502, body: { error: 'The AI provider could not be reached. Please try again.' } };
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Retries with exponential backoff and a little jitter; fetch throws a TypeError when the network fails
+const withRetries = async <T>(label: string, run: () => Promise<T>): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      const isTransient = error instanceof TypeError || (error instanceof GatewayError && error.options.retryable);
+      if (!isTransient || attempt >= MAX_ATTEMPTS) throw error;
+
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * 250;
+      console.warn(`[${label}] attempt ${attempt} failed, retrying in ${Math.round(delay)}ms:`, (error as Error).message);
+      await wait(delay);
+    }
+  }
+};
+
+// Logs Gemini's token counts and bills them to the call
+const logUsage = (label: string, meter: UsageMeter, usage: GeminiReply['usageMetadata']) => {
+  meter.add('tokens', usage?.totalTokenCount ?? 0);
+  console.log(`[${label}] Gemini tokens: prompt ${usage?.promptTokenCount ?? '-'}, ` +
+    `candidates ${usage?.candidatesTokenCount ?? '-'}, total ${usage?.totalTokenCount ?? '-'}`);
+};
+
+// Throws when Gemini's safety filters held back the prompt or the answer
+const checkBlocked = (label: string, result: GeminiReply) => {
+  const finishReason = result.candidates?.[0]?.finishReason;
+  const blockReason = result.promptFeedback?.blockReason ||
+    (finishReason && BLOCKED_FINISH_REASONS.has(finishReason) ? finishReason : undefined);
+  if (blockReason) {
+    console.warn(`[${label}] Gemini blocked the request: ${blockReason}`);
+    throw new GatewayError(422, `Gemini blocked this request (${blockReason}). Try a different topic.`, {
+      code: 'blocked',
+      reason: blockReason,
+    });
+  }
+};
+
+const geminiUrl = (method: 'generateContent' | 'streamGenerateContent', model?: string): string => {
+  const apiKey = requireEnv('GEMINI_API_KEY', 'Gemini');
+  const finalModel = model || Deno.env.get('GEMINI_MODEL') || 'gemini-2.0-flash';
+  const query = method === 'streamGenerateContent' ? `alt=sse&key=${apiKey}` : `key=${apiKey}`;
+  return `${GEMINI_BASE_URL}/${finalModel}:${method}?${query}`;
+};
+
+// One Gemini call, without retries
+const requestGemini = async (label: string, meter: UsageMeter, payload: Body, model?: string): Promise<string> => {
+  const response = await fetch(geminiUrl('generateContent', model), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...payload, safetySettings: SAFETY_SETTINGS }),
+  });
+
+  if (!response.ok) {
+    throw await providerError('Gemini', response);
+  }
+
+  const result: GeminiReply = await response.json();
+  logUsage(label, meter, result.usageMetadata);
+  checkBlocked(label, result);
+
+  const text = result.candidates?.[0]?.content?.parts?.[0]?.text?.trim();
+  if (!text) {
+    throw new GatewayError(502, 'Gemini returned an empty reply', { code: 'empty', retryable: true });
+  }
+  return text;
+};
+
+const generateContent = (label: string, meter: UsageMeter, payload: Body, model?: string): Promise<string> => {
+  return withRetries(label, () => requestGemini(label, meter, payload, model));
+};
+
+// Asks for JSON in the schema's shape; a reply that doesn't match counts as a failed attempt
+const generateStructured = <K extends string>(
+  label: string,
+  meter: UsageMeter,
+  contents: Body[],
+  schema: ReplySchema<K>
+): Promise<Record<K, string>> => {
+  return withRetries(label, async () => {
+    const text = await requestGemini(label, meter, {
+      contents,
+      generationConfig: { responseMimeType: 'application/json', responseSchema: schema },
+    });
+    const reply = parseReply(schema, text);
+    if (!reply) {
+      console.warn(`[${label}] Gemini reply did not match the schema:`, text);
+      throw new GatewayError(502, "Gemini's reply was missing something. Please try again.", {
+        code: 'invalid-reply',
+        retryable: true,
+      });
+    }
+    return reply;
+  });
+};
+
+const getDrawingIdea = async (_body: Body, meter: UsageMeter) => {
+  const prompt = "fun, creative drawing idea for a child.one sentence only. like: 'A friendly robot drinking a milkshake' or 'A snail with a birthday cake for a shell'.";
+  return generateStructured('Get Idea', meter, [{ role: 'user', parts: [{ text: prompt }] }], DRAWING_IDEA_SCHEMA);
+};
+
+const describeDrawing = async (body: Body, meter: UsageMeter) => {
+  const image = readString(body, 'image', MAX_IMAGE_LENGTH);
+  const prompt = 'short subject focus common description only, No colors. No intoductions, child sensitive, child safe. E.g: smiling sun, mushroom house with a girl';
+  return generateStructured('Recognized Drawing', meter, [{
+    parts: [{ text: prompt }, { inlineData: { mimeType: 'image/png', data: image.split(',').pop() } }],
+  }], DRAWING_SUBJECT_SCHEMA);
+};
+
+const storyPrompt = (body: Body) => {
+  const subject = readString(body, 'subject', 1000);
+  return `Write a very short (2-3 sentences), happy, moral,health warning, simple story for a 3-5 years old child about this:
+    "${subject}"`;
+};
+
+const writeStory = async (body: Body, meter: UsageMeter) => {
+  return generateStructured('Create Story', meter, [{ parts: [{ text: storyPrompt(body) }] }], STORY_SCHEMA);
+};
+
+const sseEvent = (event: 'message' | 'error' | 'done', data: unknown) =>
+  `${event === 'message' ? '' : `event: ${event}\n`}data: ${JSON.stringify(data)}\n\n`;
+
+// Turns Gemini's stream into the gateway's events: the text piece by piece, then done or error
+async function* relayStory(
+  label: string,
+  meter: UsageMeter,
+  reader: ReadableStreamDefaultReader<Uint8Array>
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let usage: GeminiReply['usageMetadata'];
+  let wroteText = false;
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() ?? '';
+      for (const event of events) {
+        const data = event.split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trim())
+          .join('\n');
+        if (!data) continue;
+
+        const reply: GeminiReply = JSON.parse(data);
+        usage = reply.usageMetadata ?? usage;
+        checkBlocked(label, reply);
+        const text = reply.candidates?.[0]?.content?.parts?.map(part => part.text ?? '').join('');
+        if (text) {
+          wroteText = true;
+          yield sseEvent('message', { text });
+        }
+      }
+    }
+    if (!wroteText) {
+      throw new GatewayError(502, 'Gemini returned an empty reply', { code: 'empty' });
+    }
+    yield sseEvent('done', {});
+  } catch (error) {
+    // The status line has already gone out, so a failure partway through travels as an event
+    yield sseEvent('error', errorReply(label, error).body);
+  } finally {
+    // The tokens are only known once the stream ends, after the gateway has sent its reply
+    logUsage(label, meter, usage);
+    await meter.settle();
+  }
+}
+
+// The story as Server-Sent Events while Gemini writes it, so the child can start reading straight away
+const streamStory = async (body: Body, meter: UsageMeter) => {
+  const label = 'Stream Story';
+  const prompt = storyPrompt(body);
+
+  // Only connecting is retried; once text has gone out, a retry would start the story over
+  const upstream = await withRetries(label, async () => {
+    const response = await fetch(geminiUrl('streamGenerateContent'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ contents: [{ parts: [{ text: prompt }] }], safetySettings: SAFETY_SETTINGS }),
+    });
+    if (!response.ok || !response.body) {
+      throw await providerError('Gemini', response);
+    }
+    return response.body;
+  });
+
+  const reader = upstream.getReader();
+  const events = relayStory(label, meter, reader);
+  meter.streamReply();
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  return new Response(new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await events.next();
+      if (cancelled) return;
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(value));
+      }
+    },
+    // The app went away (e.g. the child cleared the canvas), so Gemini can stop writing too
+    async cancel() {
+      cancelled = true;
+      await reader.cancel();
+      await events.return(undefined);
+    },
+  }), {
+    headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
+};
+
+// Book drafts, translations and word definitions; the prompt asks for JSON
+const draftContent = async (body: Body, meter: UsageMeter) => {
+  const prompt = readString(body, 'prompt', MAX_PROMPT_LENGTH);
+  const text = await generateContent('Draft Book', meter, {
+    contents: [{ role: 'user', parts: [{ text: prompt }] }],
+    generationConfig: { responseMimeType: 'application/json', temperature: 0.9 },
+  });
+  return { text };
+};
+
+const recognizeText = async (body: Body, meter: UsageMeter) => {
+  const image = readString(body, 'image', MAX_IMAGE_LENGTH);
+  const model = readString(body, 'model', 100, false);
+  if (model && !/^gemini-[\w.-]+$/.test(model)) {
+    throw new GatewayError(400, '"model" must be a Gemini model');
+  }
+
+  // Nothing legible isn't a failure for the spelling checker, so an empty reply isn't retried
+  const text = await withRetries('Recognize Text', () => requestGemini('Recognize Text', meter, {
+    contents: [{
+      parts: [
+        { text: 'Extract and transcribe any handwritten or printed text visible in this image. Return only the text content, nothing else.' },
+        { inlineData: { mimeType: 'image/jpeg', data: image.split(',').pop() } },
+      ],
+    }],
+    generationConfig: { temperature: 0.1, maxOutputTokens: 1000 },
+  }, model || undefined).catch(error => {
+    if (error instanceof GatewayError && error.options.code === 'empty') return '';
+    throw error;
+  }));
+
+  return { text: text || 'No text detected', confidence: 0.85 }; // Gemini gives no confidence; 0.85 as before
+};
+
+const generateImage = async (body: Body, meter: UsageMeter) => {
+  const apiKey = requireEnv('POLLINATIONS_API_KEY', 'Pollinations');
+  const prompt = readString(body, 'prompt', 2000);
+  const seed = typeof body.seed === 'number' ? Math.floor(body.seed) : 42;
+
+  const response = await fetch(
+    `${POLLINATIONS_IMAGE_URL}${encodeURIComponent(prompt)}?width=600&height=800&seed=${seed}&nologo=True&apikey=${apiKey}`
+  );
+  if (!response.ok) {
+    throw await providerError('Pollinations', response);
+  }
+  meter.add('images', 1);
+
+  return new Response(response.body, {
+    headers: { 'Content-Type': response.headers.get('Content-Type') || 'image/jpeg' },
+  });
+};
+
+const generateStoryAudio = async (body: Body, meter: UsageMeter) => {
+  const apiKey = requireEnv('POLLINATIONS_API_KEY', 'Pollinations');
+  const prompt = readString(body, 'prompt', 2000);
+
+  const response = await fetch(
+    `${POLLINATIONS_TEXT_URL}${encodeURIComponent(prompt)}?model=openai-audio&voice=alloy&token=${apiKey}`
+  );
+  if (!response.ok) {
+    throw await providerError('Pollinations', response);
+  }
+  meter.add('tts_characters', prompt.length);
+
+  return new Response(response.body, {
+    headers: { 'Content-Type': response.headers.get('Content-Type') || 'audio/mpeg' },
+  });
+};
+
+const requestSpeech = async (body: Body, meter: UsageMeter, withTimestamps: boolean): Promise<Response> => {
+  const apiKey = requireEnv('ELEVENLABS_API_KEY', 'ElevenLabs');
+  const text = readString(body, 'text', MAX_SPEECH_LENGTH);
+  const voiceId = readId(body, 'voiceId', false) || Deno.env.get('ELEVENLABS_VOICE_ID') || DEFAULT_VOICE_ID;
+
+  const response = await fetch(
+    `${ELEVENLABS_BASE_URL}/text-to-speech/${voiceId}${withTimestamps ? '/with-timestamps' : ''}`,
+    {
+      method: 'POST',
+      headers: {
+        'Accept': withTimestamps ? 'application/json' : 'audio/mpeg',
+        'Content-Type': 'application/json',
+        'xi-api-key': apiKey,
+      },
+      body: JSON.stringify({ text, model_id: 'eleven_monolingual_v1', voice_settings: VOICE_SETTINGS }),
+    }
+  );
+  if (!response.ok) {
+    throw await providerError('ElevenLabs', response);
+  }
+  meter.add('tts_characters', text.length);
+  return response;
+};
+
+const generateSpeech = async (body: Body, meter: UsageMeter) => {
+  const response = await requestSpeech(body, meter, false);
+  return new Response(response.body, { headers: { 'Content-Type': 'audio/mpeg' } });
+};
+
+const generateSpeechWithTimestamps = async (body: Body, meter: UsageMeter) => {
+  const response = await requestSpeech(body, meter, true);
+  const data = await response.json();
+  return { audio_base64: data.audio_base64, alignment: data.alignment };
+};
+
+// A signed URL lets the browser talk to the agent without ever seeing the key
+const getVoiceAgentUrl = async () => {
+  const apiKey = requireEnv('ELEVENLABS_API_KEY', 'ElevenLabs');
+  const agentId = requireEnv('ELEVENLABS_AGENT_ID', 'ElevenLabs');
+
+  const response = await fetch(
+    `${ELEVENLABS_BASE_URL}/convai/conversation/get_signed_url?agent_id=${encodeURIComponent(agentId)}`,
+    { headers: { 'xi-api-key': apiKey } }
+  );
+  if (!response.ok) {
+    throw await providerError('ElevenLabs', response);
+  }
+
+  const data = await response.json();
+  return { signed_url: data.signed_url };
+};
+
+const createConversation = async (body: Body, meter: UsageMeter, conversations: ConversationOwners) => {
+  const apiKey = requireEnv('TAVUS_API_KEY', 'Tavus');
+  const replicaId = requireEnv('TAVUS_REPLICA_ID', 'Tavus');
+  const kind = body.kind === 'library' ? 'library' : 'story';
+  // The library assistant needs its book-search persona; stories can use the replica's default
+  const personaId = kind === 'library'
+    ? Deno.env.get('TAVUS_LIBRARY_PERSONA_ID') || requireEnv('TAVUS_PERSONA_ID', 'Tavus')
+    : Deno.env.get('TAVUS_PERSONA_ID') || undefined;
+
+  const response = await fetch(`${TAVUS_BASE_URL}/conversations`, {
+    method: 'POST',
+    headers: { 'x-api-key': apiKey, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      replica_id: replicaId,
+      persona_id: personaId,
+      conversation_name: readString(body, 'conversation_name', 200),
+      conversational_context: readString(body, 'conversational_context', MAX_PROMPT_LENGTH),
+      custom_greeting: readString(body, 'custom_greeting', 1000),
+      properties: {
+        ...CONVERSATION_PROPERTIES[kind],
+        enable_recording: false,
+        enable_closed_captions: true,
+        apply_greenscreen: false,
+        language: readString(body, 'language', 50),
+      },
+    }),
+  });
+  if (!response.ok) {
+    throw await providerError('Tavus', response);
+  }
+  // Billed as the longest the call can run, since Tavus doesn't say how long it took
+  meter.add('tavus_minutes', Math.ceil(CONVERSATION_PROPERTIES[kind].max_call_duration / 60));
+
+  const conversation = await response.json();
+  if (conversation.conversation_id) {
+    await conversations.record(conversation.conversation_id);
+  }
+  return conversation;
+};
+
+const endConversation = async (body: Body, _meter: UsageMeter, conversations: ConversationOwners) => {
+  const apiKey = requireEnv('TAVUS_API_KEY', 'Tavus');
+  const conversationId = readId(body, 'conversation_id');
+  // Someone else's conversation looks the same as one that doesn't exist
+  if (!await conversations.owns(conversationId)) {
+    throw new GatewayError(404, 'Conversation not found');
+  }
+
+  const response = await fetch(`${TAVUS_BASE_URL}/conversations/${conversationId}/end`, {
+    method: 'POST',
+    headers: { 'x-api-key': apiKey },
+  });
+  if (!response.ok) {
+    throw await providerError('Tavus', response);
+  }
+
+  return { ended: true };
+};
+
+type Handler = (body: Body, meter: UsageMeter, conversations: ConversationOwners) => Promise<unknown>;
+
+// JSON results are sent as JSON; Responses carry an image, audio file or event stream
+export const HANDLERS: Record<string, Handler> = {
+  'idea': getDrawingIdea,
+  'describe-drawing': describeDrawing,
+  'story': writeStory,
+  'story-stream': streamStory,
+  'draft': draftContent,
+  'ocr': recognizeText,
+  'image': generateImage,
+  'story-audio': generateStoryAudio,
+  'tts': generateSpeech,
+  'tts-timestamps': generateSpeechWithTimestamps,
+  'voice-agent': getVoiceAgentUrl,
+  'conversation': createConversation,
+  'conversation-end': endConversation,
+};
@@ -0,0 +1,57 @@
+// Response schemas for the Gemini calls that want structured replies. Each one is sent as the
+// request's responseSchema and then used to check the reply really has that shape.
+
+interface StringProperty {
+  type: 'STRING';
+  description: string;
+}
+
+export interface ReplySchema<K extends string> {
+  type: 'OBJECT';
+  properties: Record<K, StringProperty>;
+  required: K[];
+}
+
+// An object whose fields are all required, non-empty strings
+const stringFields = <K extends string>(descriptions: Record<K, string>): ReplySchema<K> => {
+  const keys = Object.keys(descriptions) as K[];
+  return {
+    type: 'OBJECT',
+    properties: Object.fromEntries(
+      keys.map(key => [key, { type: 'STRING', description: descriptions[key] }])
+    ) as Record<K, StringProperty>,
+    required: keys,
+  };
+};
+
+export const DRAWING_IDEA_SCHEMA = stringFields({
+  idea: "One sentence, like 'A friendly robot drinking a milkshake'",
+});
+
+export const DRAWING_SUBJECT_SCHEMA = stringFields({
+  subject: "What the drawing shows in a few words, no colors and no introduction, like 'smiling sun' or 'mushroom house with a girl'",
+});
+
+export const STORY_SCHEMA = stringFields({
+  story: 'The whole story, 2-3 sentences',
+});
+
+// The parsed reply with its fields trimmed, or null when it doesn't match the schema
+export const parseReply = <K extends string>(schema: ReplySchema<K>, text: string): Record<K, string> | null => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const reply = value as Record<string, unknown>;
+  const parsed = {} as Record<K, string>;
+  for (const key of schema.required) {
+    const field = reply[key];
+    if (typeof field !== 'string' || !field.trim()) return null;
+    parsed[key] = field.trim();
+  }
+  return parsed;
+};
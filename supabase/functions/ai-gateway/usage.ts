@@ -0,0 +1,69 @@
+// Usage metering: what each call spends, counted per account and child per day
+export type UsageMetric = 'tokens' | 'images' | 'tts_characters' | 'tavus_minutes';
+
+interface EndpointBudget {
+  metric: UsageMetric;
+  // What the call is expected to use, reserved before it starts and settled once it's done
+  estimate: (body: Record<string, unknown>) => number;
+}
+
+const textLength = (key: string) => (body: Record<string, unknown>) => {
+  const text = body[key];
+  return typeof text === 'string' ? text.length : 0;
+};
+
+// The daily budget each endpoint draws from; the rest (e.g. ending a call) are free
+export const ENDPOINT_BUDGETS: Record<string, EndpointBudget> = {
+  'idea': { metric: 'tokens', estimate: () => 500 },
+  'describe-drawing': { metric: 'tokens', estimate: () => 1500 },
+  'story': { metric: 'tokens', estimate: () => 1500 },
+  'story-stream': { metric: 'tokens', estimate: () => 1500 },
+  'draft': { metric: 'tokens', estimate: () => 4000 },
+  'ocr': { metric: 'tokens', estimate: () => 1500 },
+  'image': { metric: 'images', estimate: () => 1 },
+  'story-audio': { metric: 'tts_characters', estimate: textLength('prompt') },
+  'tts': { metric: 'tts_characters', estimate: textLength('text') },
+  'tts-timestamps': { metric: 'tts_characters', estimate: textLength('text') },
+  // Billed at the longest a call can run
+  'conversation': { metric: 'tavus_minutes', estimate: () => 2 },
+};
+
+// Tallies what one call uses against what was reserved for it; settling records the difference
+export class UsageMeter {
+  private totals = new Map<UsageMetric, number>();
+  private reserved: Map<UsageMetric, number>;
+  private streaming = false;
+
+  constructor(
+    reserved: Partial<Record<UsageMetric, number>>,
+    private record: (metric: UsageMetric, amount: number) => Promise<void>
+  ) {
+    this.reserved = new Map(Object.entries(reserved) as [UsageMetric, number][]);
+  }
+
+  add(metric: UsageMetric, amount: number) {
+    if (amount > 0) {
+      this.totals.set(metric, (this.totals.get(metric) ?? 0) + amount);
+    }
+  }
+
+  // The reply is a stream that keeps using the budget after the gateway has answered
+  streamReply() {
+    this.streaming = true;
+  }
+
+  get isStreaming() {
+    return this.streaming;
+  }
+
+  // Records what was used beyond the reservation, or gives back what wasn't; safe to call twice
+  async settle() {
+    const metrics = new Set([...this.totals.keys(), ...this.reserved.keys()]);
+    const changes = [...metrics]
+      .map(metric => [metric, (this.totals.get(metric) ?? 0) - (this.reserved.get(metric) ?? 0)] as const)
+      .filter(([, amount]) => amount !== 0);
+    this.totals.clear();
+    this.reserved.clear();
+    await Promise.all(changes.map(([metric, amount]) => this.record(metric, amount)));
+  }
+}
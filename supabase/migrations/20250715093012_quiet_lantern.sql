@@ -0,0 +1,56 @@
+/*
+  # Store page quizzes as an ordered list of typed questions
+
+  1. Data Changes
+    - Convert `story_pages.quiz_data` from the fixed
+      `{ multipleChoice, spelling, dragDrop }` shape to `{ "questions": [...] }`
+    - Each question carries an `id` and a `kind`
+      (multiple-choice, spelling, true-false, ordering, fill-blank, picture-match)
+    - Converted questions keep the order multiple choice, spelling, picture match
+      and use the ids `multiple-choice-1`, `spelling-1` and `picture-match-1`
+    - Only rows with at least one of the old keys are converted; rows that already have a
+      `questions` array, and rows with no quiz at all, are left untouched so the app keeps
+      giving them a fallback quiz built from the page text
+
+  2. Schema Changes
+    - `quiz_data` now defaults to `{"questions": []}`
+
+  3. Notes
+    - The app still reads the old shape, so pages written by older clients keep working
+*/
+
+UPDATE story_pages
+SET quiz_data = jsonb_build_object(
+  'questions',
+  COALESCE(
+    (
+      SELECT jsonb_agg(question ORDER BY position)
+      FROM (
+        SELECT 1 AS position,
+               jsonb_build_object('id', 'multiple-choice-1', 'kind', 'multiple-choice')
+                 || (quiz_data -> 'multipleChoice') AS question
+        WHERE jsonb_typeof(quiz_data -> 'multipleChoice') = 'object'
+        UNION ALL
+        SELECT 2,
+               jsonb_build_object('id', 'spelling-1', 'kind', 'spelling')
+                 || (quiz_data -> 'spelling')
+        WHERE jsonb_typeof(quiz_data -> 'spelling') = 'object'
+        UNION ALL
+        SELECT 3,
+               jsonb_build_object('id', 'picture-match-1', 'kind', 'picture-match')
+                 || (quiz_data -> 'dragDrop')
+        WHERE jsonb_typeof(quiz_data -> 'dragDrop') = 'object'
+      ) AS legacy_questions
+    ),
+    '[]'::jsonb
+  )
+)
+WHERE jsonb_typeof(quiz_data -> 'questions') IS DISTINCT FROM 'array'
+  AND (
+    jsonb_typeof(quiz_data -> 'multipleChoice') = 'object'
+    OR jsonb_typeof(quiz_data -> 'spelling') = 'object'
+    OR jsonb_typeof(quiz_data -> 'dragDrop') = 'object'
+  );
+
+ALTER TABLE story_pages
+  ALTER COLUMN quiz_data SET DEFAULT '{"questions": []}'::jsonb;
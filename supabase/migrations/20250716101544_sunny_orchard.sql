@@ -0,0 +1,156 @@
+/*
+  # Learner profiles and persistent reading progress
+
+  1. New Tables
+    - `learner_profiles`
+      - `id` (uuid, primary key)
+      - `parent_id` (uuid, foreign key to auth.users) - the signed-in parent account
+      - `name` (text)
+      - `avatar` (text) - emoji shown on the profile picker
+      - `birth_year` (integer, nullable)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+    - `reading_progress` - one row per learner per book
+      - `id` (uuid, primary key)
+      - `learner_id` (uuid, foreign key)
+      - `book_id` (uuid, foreign key)
+      - `current_page` (integer) - zero-based page the learner will resume on
+      - `furthest_page` (integer) - furthest zero-based page reached
+      - `total_pages` (integer) - page count when progress was last saved
+      - `reading_seconds` (integer) - total time spent in the book
+      - `completed_at` (timestamp, nullable)
+      - `last_read_at` (timestamp)
+    - `quiz_attempts` - every finished page quiz
+      - `id` (uuid, primary key)
+      - `learner_id` (uuid, foreign key)
+      - `book_id` (uuid, foreign key)
+      - `page_number` (integer) - one-based, matches story_pages.page_number
+      - `page_title` (text)
+      - `score` (integer)
+      - `max_score` (integer)
+      - `is_correct` (boolean)
+      - `results` (jsonb) - per-question results
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on all new tables
+    - Parents can only see and manage their own learners
+    - Progress and quiz attempts are reachable only through a learner the parent owns
+*/
+
+CREATE TABLE IF NOT EXISTS learner_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  avatar text DEFAULT '🦊',
+  birth_year integer,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS reading_progress (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  learner_id uuid NOT NULL REFERENCES learner_profiles(id) ON DELETE CASCADE,
+  book_id uuid NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  current_page integer NOT NULL DEFAULT 0,
+  furthest_page integer NOT NULL DEFAULT 0,
+  total_pages integer NOT NULL DEFAULT 0,
+  reading_seconds integer NOT NULL DEFAULT 0,
+  completed_at timestamptz,
+  last_read_at timestamptz DEFAULT now(),
+  UNIQUE(learner_id, book_id) -- one progress row per book per learner
+);
+
+CREATE TABLE IF NOT EXISTS quiz_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  learner_id uuid NOT NULL REFERENCES learner_profiles(id) ON DELETE CASCADE,
+  book_id uuid NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  page_number integer NOT NULL,
+  page_title text DEFAULT '',
+  score integer NOT NULL DEFAULT 0,
+  max_score integer NOT NULL DEFAULT 0,
+  is_correct boolean NOT NULL DEFAULT false,
+  results jsonb DEFAULT '[]',
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE learner_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reading_progress ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Learner profile policies
+CREATE POLICY "Parents can read their learners"
+  ON learner_profiles
+  FOR SELECT
+  TO authenticated
+  USING (parent_id = auth.uid());
+
+CREATE POLICY "Parents can add learners"
+  ON learner_profiles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (parent_id = auth.uid());
+
+CREATE POLICY "Parents can update their learners"
+  ON learner_profiles
+  FOR UPDATE
+  TO authenticated
+  USING (parent_id = auth.uid())
+  WITH CHECK (parent_id = auth.uid());
+
+CREATE POLICY "Parents can delete their learners"
+  ON learner_profiles
+  FOR DELETE
+  TO authenticated
+  USING (parent_id = auth.uid());
+
+-- Reading progress policies
+CREATE POLICY "Parents can manage their learners' progress"
+  ON reading_progress
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM learner_profiles
+      WHERE learner_profiles.id = reading_progress.learner_id
+        AND learner_profiles.parent_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM learner_profiles
+      WHERE learner_profiles.id = reading_progress.learner_id
+        AND learner_profiles.parent_id = auth.uid()
+    )
+  );
+
+-- Quiz attempt policies (attempts are a history, so no updates)
+CREATE POLICY "Parents can read their learners' quiz attempts"
+  ON quiz_attempts
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM learner_profiles
+      WHERE learner_profiles.id = quiz_attempts.learner_id
+        AND learner_profiles.parent_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Parents can record their learners' quiz attempts"
+  ON quiz_attempts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM learner_profiles
+      WHERE learner_profiles.id = quiz_attempts.learner_id
+        AND learner_profiles.parent_id = auth.uid()
+    )
+  );
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_learner_profiles_parent_id ON learner_profiles(parent_id);
+CREATE INDEX IF NOT EXISTS idx_reading_progress_learner_id ON reading_progress(learner_id);
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_learner_book ON quiz_attempts(learner_id, book_id);
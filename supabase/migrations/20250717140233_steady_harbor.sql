@@ -0,0 +1,144 @@
+/*
+  # Role-based access control for books and story pages
+
+  1. New Tables
+    - `profiles` - one row per auth user
+      - `id` (uuid, primary key, foreign key to auth.users)
+      - `email` (text)
+      - `role` (text) - one of 'reader', 'author', 'admin'
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Functions
+    - `handle_new_user()` trigger creates a 'reader' profile for every new sign up
+    - `current_user_role()` returns the caller's role for use in policies
+
+  3. Security Changes
+    - Remove anonymous INSERT/UPDATE policies on `story_pages`
+    - Replace "any authenticated user" write policies on `books` and `story_pages`
+    - Authors and admins can add and edit books and pages, and delete pages
+    - Only admins can delete books and change roles
+    - Everyone can still read books and story pages
+
+  4. Data
+    - Existing accounts are backfilled as 'admin' since they could already manage every book
+*/
+
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text DEFAULT '',
+  role text NOT NULL DEFAULT 'reader' CHECK (role IN ('reader', 'author', 'admin')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+-- Backfill profiles for accounts created before roles existed
+INSERT INTO profiles (id, email, role)
+SELECT id, COALESCE(email, ''), 'admin'
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+-- Give every new sign up a reader profile
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (id, email)
+  VALUES (NEW.id, COALESCE(NEW.email, ''))
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+-- Security definer so policies can read the role without recursing into profiles RLS
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM profiles WHERE id = auth.uid();
+$$;
+
+-- Profiles policies
+CREATE POLICY "Users can read their own profile"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (id = auth.uid());
+
+CREATE POLICY "Admins can read all profiles"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (current_user_role() = 'admin');
+
+CREATE POLICY "Admins can update profiles"
+  ON profiles
+  FOR UPDATE
+  TO authenticated
+  USING (current_user_role() = 'admin')
+  WITH CHECK (current_user_role() = 'admin');
+
+-- Books: drop the blanket write policies
+DROP POLICY IF EXISTS "Anonymous users can insert books" ON books;
+DROP POLICY IF EXISTS "Anonymous users can update books" ON books;
+DROP POLICY IF EXISTS "Anonymous users can delete books" ON books;
+DROP POLICY IF EXISTS "Authenticated users can insert books" ON books;
+DROP POLICY IF EXISTS "Authenticated users can update books" ON books;
+DROP POLICY IF EXISTS "Authenticated users can delete books" ON books;
+
+CREATE POLICY "Authors can insert books"
+  ON books
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() IN ('author', 'admin'));
+
+CREATE POLICY "Authors can update books"
+  ON books
+  FOR UPDATE
+  TO authenticated
+  USING (current_user_role() IN ('author', 'admin'))
+  WITH CHECK (current_user_role() IN ('author', 'admin'));
+
+CREATE POLICY "Admins can delete books"
+  ON books
+  FOR DELETE
+  TO authenticated
+  USING (current_user_role() = 'admin');
+
+-- Story pages: drop the blanket write policies
+DROP POLICY IF EXISTS "Anonymous users can insert story pages" ON story_pages;
+DROP POLICY IF EXISTS "Anonymous users can update story pages" ON story_pages;
+DROP POLICY IF EXISTS "Authenticated users can insert story pages" ON story_pages;
+DROP POLICY IF EXISTS "Authenticated users can update story pages" ON story_pages;
+
+CREATE POLICY "Authors can insert story pages"
+  ON story_pages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() IN ('author', 'admin'));
+
+CREATE POLICY "Authors can update story pages"
+  ON story_pages
+  FOR UPDATE
+  TO authenticated
+  USING (current_user_role() IN ('author', 'admin'))
+  WITH CHECK (current_user_role() IN ('author', 'admin'));
+
+CREATE POLICY "Authors can delete story pages"
+  ON story_pages
+  FOR DELETE
+  TO authenticated
+  USING (current_user_role() IN ('author', 'admin'));
@@ -0,0 +1,60 @@
+/*
+  # Pre-rendered narration tracks for story pages
+
+  1. Changes
+    - Add `narration_audio_url` column to `story_pages` (nullable) - recorded or generated voice track
+    - Add `narration_timings` column to `story_pages` (jsonb, nullable) - word timings for the track,
+      an array of `{ "word": text, "start": seconds, "end": seconds }` in reading order
+
+  2. Storage
+    - Create a public `narration` bucket for uploaded and generated tracks
+    - Anyone can download tracks; only authors and admins can upload, replace or remove them
+
+  3. Security
+    - No RLS changes needed on `story_pages` as existing policies cover the new columns
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'story_pages' AND column_name = 'narration_audio_url'
+  ) THEN
+    ALTER TABLE story_pages ADD COLUMN narration_audio_url text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'story_pages' AND column_name = 'narration_timings'
+  ) THEN
+    ALTER TABLE story_pages ADD COLUMN narration_timings jsonb;
+  END IF;
+END $$;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('narration', 'narration', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can read narration tracks"
+  ON storage.objects
+  FOR SELECT
+  TO public
+  USING (bucket_id = 'narration');
+
+CREATE POLICY "Authors can upload narration tracks"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'narration' AND current_user_role() IN ('author', 'admin'));
+
+CREATE POLICY "Authors can replace narration tracks"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'narration' AND current_user_role() IN ('author', 'admin'));
+
+CREATE POLICY "Authors can delete narration tracks"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'narration' AND current_user_role() IN ('author', 'admin'));
@@ -0,0 +1,93 @@
+/*
+  # Book package import
+
+  1. Storage
+    - Create a public `book-media` bucket for media uploaded with imported books
+    - Anyone can download; only authors and admins can upload, replace or remove files
+
+  2. Functions
+    - `import_book(book_data jsonb, pages_data jsonb)` creates a book and all of its pages in one
+      transaction and returns the new book id, so a failed import never leaves a half-built book
+    - Runs as the caller (SECURITY INVOKER), so the author/admin RLS policies on `books` and
+      `story_pages` still apply
+*/
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('book-media', 'book-media', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can read book media"
+  ON storage.objects
+  FOR SELECT
+  TO public
+  USING (bucket_id = 'book-media');
+
+CREATE POLICY "Authors can upload book media"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'book-media' AND current_user_role() IN ('author', 'admin'));
+
+CREATE POLICY "Authors can replace book media"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'book-media' AND current_user_role() IN ('author', 'admin'));
+
+CREATE POLICY "Authors can delete book media"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'book-media' AND current_user_role() IN ('author', 'admin'));
+
+CREATE OR REPLACE FUNCTION import_book(book_data jsonb, pages_data jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  new_book_id uuid;
+BEGIN
+  INSERT INTO books (
+    title, subject, author, publisher, description,
+    thumbnail_url, cover_image_url, difficulty_level,
+    target_age_min, target_age_max, is_active
+  )
+  VALUES (
+    book_data->>'title',
+    book_data->>'subject',
+    book_data->>'author',
+    book_data->>'publisher',
+    book_data->>'description',
+    COALESCE(book_data->>'thumbnail_url', ''),
+    COALESCE(book_data->>'cover_image_url', ''),
+    COALESCE(book_data->>'difficulty_level', 'beginner'),
+    COALESCE((book_data->>'target_age_min')::integer, 3),
+    COALESCE((book_data->>'target_age_max')::integer, 12),
+    COALESCE((book_data->>'is_active')::boolean, true)
+  )
+  RETURNING id INTO new_book_id;
+
+  INSERT INTO story_pages (
+    book_id, page_number, title, text,
+    image_url, video_url, background_url, background_music_url,
+    narration_audio_url, narration_timings, quiz_data
+  )
+  SELECT
+    new_book_id,
+    (page->>'page_number')::integer,
+    COALESCE(page->>'title', ''),
+    page->>'text',
+    COALESCE(page->>'image_url', ''),
+    COALESCE(page->>'video_url', ''),
+    COALESCE(page->>'background_url', ''),
+    page->>'background_music_url',
+    page->>'narration_audio_url',
+    NULLIF(page->'narration_timings', 'null'::jsonb),
+    COALESCE(page->'quiz_data', '{"questions": []}'::jsonb)
+  FROM jsonb_array_elements(pages_data) AS page;
+
+  RETURN new_book_id;
+END;
+$$;
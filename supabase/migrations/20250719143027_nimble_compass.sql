@@ -0,0 +1,17 @@
+/*
+  # Adaptive quiz difficulty
+
+  1. Changes
+    - `learner_profiles`
+      - `adaptive_quizzes` (boolean, default true) - serve easier or harder question variants
+        based on how the learner has been doing
+      - `skill_rating` (real, nullable) - running skill estimate between 0 and 1, updated after
+        every quiz; NULL until the app first computes it from the learner's quiz_attempts
+
+  2. Security
+    - No policy changes; parents already update their own learners' rows
+*/
+
+ALTER TABLE learner_profiles
+  ADD COLUMN IF NOT EXISTS adaptive_quizzes boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS skill_rating real CHECK (skill_rating IS NULL OR (skill_rating >= 0 AND skill_rating <= 1));
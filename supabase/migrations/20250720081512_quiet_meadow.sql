@@ -0,0 +1,64 @@
+/*
+  # Spaced-repetition word bank
+
+  1. New Tables
+    - `learner_words` - spelling words a learner has met in book quizzes
+      - `id` (uuid, primary key)
+      - `learner_id` (uuid, foreign key)
+      - `word` (text) - lower-cased, one row per word per learner
+      - `hint` (text) - hint from the quiz the word was first collected from
+      - `book_id` (uuid, foreign key, nullable) - book the word was first collected from
+      - `ease_factor` (real) - SM-2 ease, never below 1.3
+      - `interval_days` (integer) - days until the next review after the last one
+      - `repetitions` (integer) - correct reviews in a row
+      - `lapses` (integer) - times the word was missed after being learned
+      - `due_at` (timestamp) - when the word should next be practised
+      - `last_reviewed_at` (timestamp, nullable)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `learner_words`
+    - Words are reachable only through a learner the parent owns
+*/
+
+CREATE TABLE IF NOT EXISTS learner_words (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  learner_id uuid NOT NULL REFERENCES learner_profiles(id) ON DELETE CASCADE,
+  word text NOT NULL CHECK (word = lower(word) AND length(word) > 0),
+  hint text NOT NULL DEFAULT '',
+  book_id uuid REFERENCES books(id) ON DELETE SET NULL,
+  ease_factor real NOT NULL DEFAULT 2.5 CHECK (ease_factor >= 1.3),
+  interval_days integer NOT NULL DEFAULT 0,
+  repetitions integer NOT NULL DEFAULT 0,
+  lapses integer NOT NULL DEFAULT 0,
+  due_at timestamptz NOT NULL DEFAULT now(),
+  last_reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(learner_id, word) -- one schedule per word per learner
+);
+
+-- Enable RLS
+ALTER TABLE learner_words ENABLE ROW LEVEL SECURITY;
+
+-- Word bank policies
+CREATE POLICY "Parents can manage their learners' words"
+  ON learner_words
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM learner_profiles
+      WHERE learner_profiles.id = learner_words.learner_id
+        AND learner_profiles.parent_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM learner_profiles
+      WHERE learner_profiles.id = learner_words.learner_id
+        AND learner_profiles.parent_id = auth.uid()
+    )
+  );
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_learner_words_learner_due ON learner_words(learner_id, due_at);
@@ -0,0 +1,61 @@
+/*
+  # Atomic page renumbering
+
+  1. Functions
+    - `renumber_story_pages(p_book_id uuid, p_page_ids uuid[])` gives a book's pages the numbers
+      1..n in one transaction
+      - With `p_page_ids` the pages take the order of the array, which must list every page of
+        the book exactly once
+      - Without it the current order is kept and gaps (left by deleting a page) are closed
+    - Pages are first parked on negative numbers so the `(page_number, book_id)` unique
+      constraint, which Postgres checks row by row, never sees two pages on the same number
+    - Runs as the caller (SECURITY INVOKER) so the author/admin RLS policies on `story_pages`
+      still apply; since RLS would otherwise skip the updates silently, non-authors get an error
+*/
+
+CREATE OR REPLACE FUNCTION renumber_story_pages(p_book_id uuid, p_page_ids uuid[] DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  page_count integer;
+BEGIN
+  IF COALESCE(current_user_role(), '') NOT IN ('author', 'admin') THEN
+    RAISE EXCEPTION 'Only authors can reorder pages';
+  END IF;
+
+  SELECT count(*) INTO page_count FROM story_pages WHERE book_id = p_book_id;
+
+  IF p_page_ids IS NOT NULL AND (
+    cardinality(p_page_ids) <> page_count
+    OR (
+      SELECT count(DISTINCT id)
+      FROM story_pages
+      WHERE book_id = p_book_id AND id = ANY(p_page_ids)
+    ) <> page_count
+  ) THEN
+    RAISE EXCEPTION 'The new page order must list every page of the book exactly once';
+  END IF;
+
+  WITH ordered AS (
+    SELECT page_id, position
+    FROM unnest(p_page_ids) WITH ORDINALITY AS requested(page_id, position)
+    WHERE p_page_ids IS NOT NULL
+    UNION ALL
+    SELECT id, row_number() OVER (ORDER BY page_number, created_at)
+    FROM story_pages
+    WHERE book_id = p_book_id AND p_page_ids IS NULL
+  )
+  UPDATE story_pages
+  SET page_number = -ordered.position
+  FROM ordered
+  WHERE story_pages.id = ordered.page_id AND story_pages.book_id = p_book_id;
+
+  UPDATE story_pages
+  SET page_number = -page_number,
+      updated_at = now()
+  WHERE book_id = p_book_id;
+END;
+$$;
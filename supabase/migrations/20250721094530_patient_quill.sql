@@ -0,0 +1,180 @@
+/*
+  # Drafts, publishing and page revisions
+
+  1. New Tables
+    - `story_page_drafts` - unpublished edits to a page, at most one per page
+      - `page_id` (uuid, primary key, foreign key to story_pages)
+      - `book_id` (uuid, foreign key to books)
+      - `content` (jsonb) - title, text, media URLs, narration and quiz_data, as on story_pages
+      - `updated_by` (uuid, foreign key to auth.users)
+      - `updated_at` (timestamp)
+    - `book_drafts` - unpublished edits to a book's details, at most one per book
+      - `book_id` (uuid, primary key, foreign key to books)
+      - `details` (jsonb) - the editable columns of books
+      - `updated_by` (uuid, foreign key to auth.users)
+      - `updated_at` (timestamp)
+    - `page_revisions` - every saved version of a page, never updated or deleted
+      - `id` (uuid, primary key)
+      - `page_id` (uuid, foreign key to story_pages)
+      - `book_id` (uuid, foreign key to books)
+      - `content` (jsonb) - same shape as story_page_drafts.content
+      - `status` (text) - 'draft' when saved, 'published' when it went live
+      - `created_by` (uuid, foreign key to auth.users)
+      - `author_email` (text) - kept so history still names the author after profile changes
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `publish_book(p_book_id uuid)` copies the book's drafts onto `books` and `story_pages`,
+      records each published page as a 'published' revision and clears the drafts, all in one
+      transaction; returns the number of pages published
+    - Runs as the caller (SECURITY INVOKER) so the author/admin RLS policies still apply
+
+  3. Security
+    - Only authors and admins can read or write drafts and revisions; readers never see
+      unpublished content
+    - Revisions can be added but not changed or removed
+
+  4. Data
+    - Every existing page gets a 'published' revision of its current content so history starts
+      from what children are reading today
+*/
+
+CREATE TABLE IF NOT EXISTS story_page_drafts (
+  page_id uuid PRIMARY KEY REFERENCES story_pages(id) ON DELETE CASCADE,
+  book_id uuid NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  content jsonb NOT NULL,
+  updated_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS book_drafts (
+  book_id uuid PRIMARY KEY REFERENCES books(id) ON DELETE CASCADE,
+  details jsonb NOT NULL,
+  updated_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS page_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  page_id uuid NOT NULL REFERENCES story_pages(id) ON DELETE CASCADE,
+  book_id uuid REFERENCES books(id) ON DELETE CASCADE,
+  content jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published')),
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_email text DEFAULT COALESCE(auth.jwt() ->> 'email', ''),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_story_page_drafts_book_id ON story_page_drafts(book_id);
+CREATE INDEX IF NOT EXISTS idx_page_revisions_page_id ON page_revisions(page_id, created_at DESC);
+
+ALTER TABLE story_page_drafts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE book_drafts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE page_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authors can manage page drafts"
+  ON story_page_drafts
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() IN ('author', 'admin'))
+  WITH CHECK (current_user_role() IN ('author', 'admin'));
+
+CREATE POLICY "Authors can manage book drafts"
+  ON book_drafts
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() IN ('author', 'admin'))
+  WITH CHECK (current_user_role() IN ('author', 'admin'));
+
+CREATE POLICY "Authors can read page revisions"
+  ON page_revisions
+  FOR SELECT
+  TO authenticated
+  USING (current_user_role() IN ('author', 'admin'));
+
+CREATE POLICY "Authors can add page revisions"
+  ON page_revisions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() IN ('author', 'admin'));
+
+-- Start every page's history from its live content
+INSERT INTO page_revisions (page_id, book_id, content, status, created_by, author_email, created_at)
+SELECT
+  id,
+  book_id,
+  jsonb_build_object(
+    'title', COALESCE(title, ''),
+    'text', text,
+    'image_url', COALESCE(image_url, ''),
+    'video_url', COALESCE(video_url, ''),
+    'background_url', COALESCE(background_url, ''),
+    'background_music_url', background_music_url,
+    'narration_audio_url', narration_audio_url,
+    'narration_timings', narration_timings,
+    'quiz_data', quiz_data
+  ),
+  'published',
+  NULL,
+  '',
+  COALESCE(updated_at, created_at, now())
+FROM story_pages;
+
+CREATE OR REPLACE FUNCTION publish_book(p_book_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  published_count integer;
+BEGIN
+  IF COALESCE(current_user_role(), '') NOT IN ('author', 'admin') THEN
+    RAISE EXCEPTION 'Only authors can publish books';
+  END IF;
+
+  UPDATE books
+  SET
+    title = COALESCE(draft.details->>'title', books.title),
+    subject = COALESCE(draft.details->>'subject', books.subject),
+    author = COALESCE(draft.details->>'author', books.author),
+    publisher = COALESCE(draft.details->>'publisher', books.publisher),
+    description = COALESCE(draft.details->>'description', books.description),
+    thumbnail_url = COALESCE(draft.details->>'thumbnail_url', books.thumbnail_url),
+    cover_image_url = COALESCE(draft.details->>'cover_image_url', books.cover_image_url),
+    difficulty_level = COALESCE(draft.details->>'difficulty_level', books.difficulty_level),
+    target_age_min = COALESCE((draft.details->>'target_age_min')::integer, books.target_age_min),
+    target_age_max = COALESCE((draft.details->>'target_age_max')::integer, books.target_age_max),
+    is_active = COALESCE((draft.details->>'is_active')::boolean, books.is_active),
+    updated_at = now()
+  FROM book_drafts draft
+  WHERE draft.book_id = books.id AND books.id = p_book_id;
+
+  UPDATE story_pages
+  SET
+    title = COALESCE(draft.content->>'title', ''),
+    text = draft.content->>'text',
+    image_url = COALESCE(draft.content->>'image_url', ''),
+    video_url = COALESCE(draft.content->>'video_url', ''),
+    background_url = COALESCE(draft.content->>'background_url', ''),
+    background_music_url = draft.content->>'background_music_url',
+    narration_audio_url = draft.content->>'narration_audio_url',
+    narration_timings = NULLIF(draft.content->'narration_timings', 'null'::jsonb),
+    quiz_data = COALESCE(draft.content->'quiz_data', '{"questions": []}'::jsonb),
+    updated_at = now()
+  FROM story_page_drafts draft
+  WHERE draft.page_id = story_pages.id AND draft.book_id = p_book_id;
+
+  GET DIAGNOSTICS published_count = ROW_COUNT;
+
+  INSERT INTO page_revisions (page_id, book_id, content, status)
+  SELECT page_id, book_id, content, 'published'
+  FROM story_page_drafts
+  WHERE book_id = p_book_id;
+
+  DELETE FROM story_page_drafts WHERE book_id = p_book_id;
+  DELETE FROM book_drafts WHERE book_id = p_book_id;
+
+  RETURN published_count;
+END;
+$$;
@@ -0,0 +1,182 @@
+/*
+  # Book languages and page translations
+
+  1. Changes
+    - `books.language` (text) - BCP 47 code of the language the book is written in, e.g. 'en'
+
+  2. New Tables
+    - `story_page_translations` - a page's words in another language; media stays shared
+      - `id` (uuid, primary key)
+      - `page_id` (uuid, foreign key to story_pages)
+      - `book_id` (uuid, foreign key to books)
+      - `language` (text) - BCP 47 code
+      - `title` (text)
+      - `text` (text) - may use the same markup as story_pages.text
+      - `quiz_data` (jsonb) - the page's quiz with its wording translated
+      - `created_at`, `updated_at` (timestamp)
+      - One translation per page and language
+
+  3. Functions
+    - `import_book` and `publish_book` now carry the book's language
+
+  4. Security
+    - Everyone can read translations, like the pages themselves
+    - Authors and admins can add, edit and delete them
+*/
+
+ALTER TABLE books ADD COLUMN IF NOT EXISTS language text NOT NULL DEFAULT 'en';
+
+CREATE TABLE IF NOT EXISTS story_page_translations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  page_id uuid NOT NULL REFERENCES story_pages(id) ON DELETE CASCADE,
+  book_id uuid NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  language text NOT NULL,
+  title text DEFAULT '',
+  text text NOT NULL,
+  quiz_data jsonb NOT NULL DEFAULT '{"questions": []}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (page_id, language)
+);
+
+CREATE INDEX IF NOT EXISTS idx_story_page_translations_book_id ON story_page_translations(book_id, language);
+
+ALTER TABLE story_page_translations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read page translations"
+  ON story_page_translations
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Authors can insert page translations"
+  ON story_page_translations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() IN ('author', 'admin'));
+
+CREATE POLICY "Authors can update page translations"
+  ON story_page_translations
+  FOR UPDATE
+  TO authenticated
+  USING (current_user_role() IN ('author', 'admin'))
+  WITH CHECK (current_user_role() IN ('author', 'admin'));
+
+CREATE POLICY "Authors can delete page translations"
+  ON story_page_translations
+  FOR DELETE
+  TO authenticated
+  USING (current_user_role() IN ('author', 'admin'));
+
+CREATE OR REPLACE FUNCTION import_book(book_data jsonb, pages_data jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  new_book_id uuid;
+BEGIN
+  INSERT INTO books (
+    title, subject, author, publisher, description,
+    thumbnail_url, cover_image_url, difficulty_level,
+    target_age_min, target_age_max, is_active, language
+  )
+  VALUES (
+    book_data->>'title',
+    book_data->>'subject',
+    book_data->>'author',
+    book_data->>'publisher',
+    book_data->>'description',
+    COALESCE(book_data->>'thumbnail_url', ''),
+    COALESCE(book_data->>'cover_image_url', ''),
+    COALESCE(book_data->>'difficulty_level', 'beginner'),
+    COALESCE((book_data->>'target_age_min')::integer, 3),
+    COALESCE((book_data->>'target_age_max')::integer, 12),
+    COALESCE((book_data->>'is_active')::boolean, true),
+    COALESCE(book_data->>'language', 'en')
+  )
+  RETURNING id INTO new_book_id;
+
+  INSERT INTO story_pages (
+    book_id, page_number, title, text,
+    image_url, video_url, background_url, background_music_url,
+    narration_audio_url, narration_timings, quiz_data
+  )
+  SELECT
+    new_book_id,
+    (page->>'page_number')::integer,
+    COALESCE(page->>'title', ''),
+    page->>'text',
+    COALESCE(page->>'image_url', ''),
+    COALESCE(page->>'video_url', ''),
+    COALESCE(page->>'background_url', ''),
+    page->>'background_music_url',
+    page->>'narration_audio_url',
+    NULLIF(page->'narration_timings', 'null'::jsonb),
+    COALESCE(page->'quiz_data', '{"questions": []}'::jsonb)
+  FROM jsonb_array_elements(pages_data) AS page;
+
+  RETURN new_book_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION publish_book(p_book_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  published_count integer;
+BEGIN
+  IF COALESCE(current_user_role(), '') NOT IN ('author', 'admin') THEN
+    RAISE EXCEPTION 'Only authors can publish books';
+  END IF;
+
+  UPDATE books
+  SET
+    title = COALESCE(draft.details->>'title', books.title),
+    subject = COALESCE(draft.details->>'subject', books.subject),
+    author = COALESCE(draft.details->>'author', books.author),
+    publisher = COALESCE(draft.details->>'publisher', books.publisher),
+    description = COALESCE(draft.details->>'description', books.description),
+    thumbnail_url = COALESCE(draft.details->>'thumbnail_url', books.thumbnail_url),
+    cover_image_url = COALESCE(draft.details->>'cover_image_url', books.cover_image_url),
+    difficulty_level = COALESCE(draft.details->>'difficulty_level', books.difficulty_level),
+    target_age_min = COALESCE((draft.details->>'target_age_min')::integer, books.target_age_min),
+    target_age_max = COALESCE((draft.details->>'target_age_max')::integer, books.target_age_max),
+    is_active = COALESCE((draft.details->>'is_active')::boolean, books.is_active),
+    language = COALESCE(draft.details->>'language', books.language),
+    updated_at = now()
+  FROM book_drafts draft
+  WHERE draft.book_id = books.id AND books.id = p_book_id;
+
+  UPDATE story_pages
+  SET
+    title = COALESCE(draft.content->>'title', ''),
+    text = draft.content->>'text',
+    image_url = COALESCE(draft.content->>'image_url', ''),
+    video_url = COALESCE(draft.content->>'video_url', ''),
+    background_url = COALESCE(draft.content->>'background_url', ''),
+    background_music_url = draft.content->>'background_music_url',
+    narration_audio_url = draft.content->>'narration_audio_url',
+    narration_timings = NULLIF(draft.content->'narration_timings', 'null'::jsonb),
+    quiz_data = COALESCE(draft.content->'quiz_data', '{"questions": []}'::jsonb),
+    updated_at = now()
+  FROM story_page_drafts draft
+  WHERE draft.page_id = story_pages.id AND draft.book_id = p_book_id;
+
+  GET DIAGNOSTICS published_count = ROW_COUNT;
+
+  INSERT INTO page_revisions (page_id, book_id, content, status)
+  SELECT page_id, book_id, content, 'published'
+  FROM story_page_drafts
+  WHERE book_id = p_book_id;
+
+  DELETE FROM story_page_drafts WHERE book_id = p_book_id;
+  DELETE FROM book_drafts WHERE book_id = p_book_id;
+
+  RETURN published_count;
+END;
+$$;
@@ -0,0 +1,68 @@
+/*
+  # Read-aloud practice attempts
+
+  1. New Tables
+    - `read_aloud_attempts` - a page the child read aloud, scored against the page text
+      - `id` (uuid, primary key)
+      - `learner_id` (uuid, foreign key)
+      - `book_id` (uuid, foreign key)
+      - `page_number` (integer) - one-based, matches story_pages.page_number
+      - `language` (text) - BCP 47 code of the text that was read
+      - `total_words` (integer)
+      - `correct_words` (integer)
+      - `misread_words` (text[]) - page words read as something else
+      - `skipped_words` (text[]) - page words left out
+      - `reading_seconds` (real)
+      - `words_correct_per_minute` (real)
+      - `transcript` (text) - what speech recognition heard
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS
+    - Reachable only through a learner the parent owns, like quiz attempts
+    - Attempts are a history, so no updates
+*/
+
+CREATE TABLE IF NOT EXISTS read_aloud_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  learner_id uuid NOT NULL REFERENCES learner_profiles(id) ON DELETE CASCADE,
+  book_id uuid NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  page_number integer NOT NULL,
+  language text NOT NULL DEFAULT 'en',
+  total_words integer NOT NULL DEFAULT 0,
+  correct_words integer NOT NULL DEFAULT 0,
+  misread_words text[] NOT NULL DEFAULT '{}',
+  skipped_words text[] NOT NULL DEFAULT '{}',
+  reading_seconds real NOT NULL DEFAULT 0,
+  words_correct_per_minute real NOT NULL DEFAULT 0,
+  transcript text DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE read_aloud_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Parents can read their learners' read-aloud attempts"
+  ON read_aloud_attempts
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM learner_profiles
+      WHERE learner_profiles.id = read_aloud_attempts.learner_id
+        AND learner_profiles.parent_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Parents can record their learners' read-aloud attempts"
+  ON read_aloud_attempts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM learner_profiles
+      WHERE learner_profiles.id = read_aloud_attempts.learner_id
+        AND learner_profiles.parent_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_read_aloud_attempts_learner_book ON read_aloud_attempts(learner_id, book_id);
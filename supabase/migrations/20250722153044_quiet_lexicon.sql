@@ -0,0 +1,55 @@
+/*
+  # Book glossaries
+
+  1. New Tables
+    - `book_glossary` - kid-friendly definitions an author writes for words in a book
+      - `id` (uuid, primary key)
+      - `book_id` (uuid, foreign key to books)
+      - `word` (text) - lower-cased, in the book's language
+      - `definition` (text)
+      - `syllables` (text) - the word split with hyphens, e.g. 'but-ter-fly'; empty to work it out
+      - `created_at`, `updated_at` (timestamp)
+      - One entry per book and word
+
+  2. Security
+    - Everyone can read glossaries, like the pages themselves
+    - Authors and admins can add, edit and delete entries
+*/
+
+CREATE TABLE IF NOT EXISTS book_glossary (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  book_id uuid NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  word text NOT NULL,
+  definition text NOT NULL,
+  syllables text DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (book_id, word)
+);
+
+ALTER TABLE book_glossary ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read book glossaries"
+  ON book_glossary
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Authors can insert glossary entries"
+  ON book_glossary
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() IN ('author', 'admin'));
+
+CREATE POLICY "Authors can update glossary entries"
+  ON book_glossary
+  FOR UPDATE
+  TO authenticated
+  USING (current_user_role() IN ('author', 'admin'))
+  WITH CHECK (current_user_role() IN ('author', 'admin'));
+
+CREATE POLICY "Authors can delete glossary entries"
+  ON book_glossary
+  FOR DELETE
+  TO authenticated
+  USING (current_user_role() IN ('author', 'admin'));
@@ -0,0 +1,72 @@
+/*
+  # AI gateway rate limits
+
+  1. New Tables
+    - `ai_gateway_requests` - one row per AI call made through the ai-gateway Edge Function
+      - `id` (bigint, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `endpoint` (text) - e.g. 'draft', 'image', 'tts'
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `claim_ai_request(user_id, endpoint, limit, window_seconds)` records a call when the user
+      is under the endpoint's limit and returns 0, otherwise returns how many seconds until
+      they can try again. Rows older than a day are cleared as it goes.
+
+  3. Security
+    - RLS is enabled with no policies; only the gateway's service role reads or writes calls
+    - `claim_ai_request` can only be run by the service role
+*/
+
+CREATE TABLE IF NOT EXISTS ai_gateway_requests (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_gateway_requests_user ON ai_gateway_requests(user_id, endpoint, created_at);
+
+ALTER TABLE ai_gateway_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION claim_ai_request(
+  p_user_id uuid,
+  p_endpoint text,
+  p_limit integer,
+  p_window_seconds integer
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recent_count integer;
+  oldest_at timestamptz;
+BEGIN
+  -- Two calls at once can't both take a user's last free slot
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text || ':' || p_endpoint));
+
+  DELETE FROM ai_gateway_requests
+  WHERE user_id = p_user_id
+    AND created_at < now() - interval '1 day';
+
+  SELECT count(*), min(created_at)
+  INTO recent_count, oldest_at
+  FROM ai_gateway_requests
+  WHERE user_id = p_user_id
+    AND endpoint = p_endpoint
+    AND created_at > now() - make_interval(secs => p_window_seconds);
+
+  IF recent_count >= p_limit THEN
+    RETURN GREATEST(1, ceil(extract(epoch FROM oldest_at + make_interval(secs => p_window_seconds) - now()))::integer);
+  END IF;
+
+  INSERT INTO ai_gateway_requests (user_id, endpoint)
+  VALUES (p_user_id, p_endpoint);
+
+  RETURN 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_ai_request(uuid, text, integer, integer) FROM PUBLIC, anon, authenticated;
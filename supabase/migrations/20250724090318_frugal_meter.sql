@@ -0,0 +1,182 @@
+/*
+  # AI usage metering and daily budgets
+
+  1. New Tables
+    - `ai_usage_daily` - what the ai-gateway Edge Function spent on each account and child per day
+      - `id` (bigint, primary key)
+      - `user_id` (uuid, foreign key to auth.users) - the signed-in account; every child on a
+        family or classroom account shares it
+      - `learner_id` (uuid, nullable) - the child picked on that account, if any; not a foreign key,
+        so a child's usage keeps counting towards the classroom after their profile is deleted
+      - `usage_date` (date) - the UTC day
+      - `metric` (text) - 'tokens', 'images', 'tts_characters' or 'tavus_minutes'
+      - `amount` (bigint)
+      - One row per account, child, day and metric
+    - `ai_usage_caps` - how much of each metric a child, and a whole classroom, may use per day
+      - `scope` (text) - 'child' or 'classroom'
+      - `metric` (text)
+      - `daily_limit` (bigint, nullable) - NULL means no limit
+      - `updated_at` (timestamp)
+      - Seeded with defaults
+
+  2. Functions
+    - `check_ai_budget(user_id, learner_id, metric)` returns 'child' or 'classroom' when today's
+      usage has reached that cap, otherwise NULL
+    - `record_ai_usage(user_id, learner_id, metric, amount)` adds to today's total
+    - `get_ai_usage_report(days)` lists usage for the last few days with account emails and
+      child names, for admins
+
+  3. Security
+    - RLS on `ai_usage_daily` with no policies; the gateway writes it and admins read it through
+      `get_ai_usage_report`
+    - Anyone signed in can read the caps; only admins can change them
+    - `check_ai_budget` and `record_ai_usage` can only be run by the service role
+*/
+
+CREATE TABLE IF NOT EXISTS ai_usage_daily (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  learner_id uuid,
+  usage_date date NOT NULL DEFAULT (now() AT TIME ZONE 'utc')::date,
+  metric text NOT NULL CHECK (metric IN ('tokens', 'images', 'tts_characters', 'tavus_minutes')),
+  amount bigint NOT NULL DEFAULT 0,
+  UNIQUE NULLS NOT DISTINCT (user_id, learner_id, usage_date, metric)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_daily_date ON ai_usage_daily(usage_date);
+
+ALTER TABLE ai_usage_daily ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS ai_usage_caps (
+  scope text NOT NULL CHECK (scope IN ('child', 'classroom')),
+  metric text NOT NULL CHECK (metric IN ('tokens', 'images', 'tts_characters', 'tavus_minutes')),
+  daily_limit bigint CHECK (daily_limit IS NULL OR daily_limit >= 0),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (scope, metric)
+);
+
+ALTER TABLE ai_usage_caps ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO ai_usage_caps (scope, metric, daily_limit) VALUES
+  ('child', 'tokens', 50000),
+  ('child', 'images', 40),
+  ('child', 'tts_characters', 20000),
+  ('child', 'tavus_minutes', 10),
+  ('classroom', 'tokens', 500000),
+  ('classroom', 'images', 400),
+  ('classroom', 'tts_characters', 200000),
+  ('classroom', 'tavus_minutes', 60)
+ON CONFLICT (scope, metric) DO NOTHING;
+
+CREATE POLICY "Signed in users can read AI usage caps"
+  ON ai_usage_caps
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update AI usage caps"
+  ON ai_usage_caps
+  FOR UPDATE
+  TO authenticated
+  USING (current_user_role() = 'admin')
+  WITH CHECK (current_user_role() = 'admin');
+
+CREATE OR REPLACE FUNCTION check_ai_budget(
+  p_user_id uuid,
+  p_learner_id uuid,
+  p_metric text
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  today date := (now() AT TIME ZONE 'utc')::date;
+  child_limit bigint;
+  classroom_limit bigint;
+BEGIN
+  SELECT daily_limit INTO child_limit
+  FROM ai_usage_caps
+  WHERE scope = 'child' AND metric = p_metric;
+
+  SELECT daily_limit INTO classroom_limit
+  FROM ai_usage_caps
+  WHERE scope = 'classroom' AND metric = p_metric;
+
+  IF p_learner_id IS NOT NULL AND child_limit IS NOT NULL AND (
+    SELECT COALESCE(sum(amount), 0)
+    FROM ai_usage_daily
+    WHERE user_id = p_user_id
+      AND learner_id = p_learner_id
+      AND metric = p_metric
+      AND usage_date = today
+  ) >= child_limit THEN
+    RETURN 'child';
+  END IF;
+
+  IF classroom_limit IS NOT NULL AND (
+    SELECT COALESCE(sum(amount), 0)
+    FROM ai_usage_daily
+    WHERE user_id = p_user_id
+      AND metric = p_metric
+      AND usage_date = today
+  ) >= classroom_limit THEN
+    RETURN 'classroom';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_ai_usage(
+  p_user_id uuid,
+  p_learner_id uuid,
+  p_metric text,
+  p_amount bigint
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO ai_usage_daily (user_id, learner_id, metric, amount)
+  VALUES (p_user_id, p_learner_id, p_metric, p_amount)
+  ON CONFLICT (user_id, learner_id, usage_date, metric)
+  DO UPDATE SET amount = ai_usage_daily.amount + EXCLUDED.amount;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_ai_budget(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_ai_usage(uuid, uuid, text, bigint) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_ai_usage_report(p_days integer)
+RETURNS TABLE (
+  usage_date date,
+  user_id uuid,
+  email text,
+  learner_id uuid,
+  learner_name text,
+  metric text,
+  amount bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can see AI usage';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.usage_date, u.user_id, COALESCE(p.email, ''), u.learner_id, l.name, u.metric, u.amount
+  FROM ai_usage_daily u
+  LEFT JOIN profiles p ON p.id = u.user_id
+  LEFT JOIN learner_profiles l ON l.id = u.learner_id
+  WHERE u.usage_date > (now() AT TIME ZONE 'utc')::date - p_days
+  ORDER BY u.usage_date DESC, p.email, l.name NULLS FIRST, u.metric;
+END;
+$$;
@@ -0,0 +1,39 @@
+/*
+  # Page revisions always name their real author
+
+  1. Changes
+    - `page_revisions.created_by` and `author_email` are now set from the caller's session by a
+      BEFORE INSERT trigger instead of column defaults, so values sent by the client are ignored
+    - Applies to revisions added by `publish_book` as well, since it runs as the caller
+
+  2. Security
+    - Authors and admins can only add revisions under their own user id
+*/
+
+CREATE OR REPLACE FUNCTION set_page_revision_author()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.created_by := auth.uid();
+  NEW.author_email := COALESCE(auth.jwt() ->> 'email', '');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_page_revision_author ON page_revisions;
+CREATE TRIGGER set_page_revision_author
+  BEFORE INSERT ON page_revisions
+  FOR EACH ROW EXECUTE FUNCTION set_page_revision_author();
+
+DROP POLICY IF EXISTS "Authors can add page revisions" ON page_revisions;
+
+CREATE POLICY "Authors can add page revisions"
+  ON page_revisions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    current_user_role() IN ('author', 'admin')
+    AND created_by = auth.uid()
+  );
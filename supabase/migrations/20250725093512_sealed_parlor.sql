@@ -0,0 +1,23 @@
+/*
+  # Tavus conversation owners
+
+  1. New Tables
+    - `ai_conversations` - the Tavus conversations started through the ai-gateway Edge Function
+      - `conversation_id` (text, primary key) - Tavus' id for the conversation
+      - `user_id` (uuid, foreign key to auth.users) - the account that started it
+      - `created_at` (timestamp)
+
+  2. Security
+    - RLS is enabled with no policies; only the gateway's service role reads or writes it
+    - The gateway only ends conversations the caller started
+*/
+
+CREATE TABLE IF NOT EXISTS ai_conversations (
+  conversation_id text PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_conversations_user ON ai_conversations(user_id);
+
+ALTER TABLE ai_conversations ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,101 @@
+/*
+  # Reserve AI budget before each call
+
+  1. Functions
+    - `reserve_ai_budget(user_id, learner_id, metric, amount)` replaces `check_ai_budget`: it
+      checks the caps and adds the call's expected cost to today's usage in one step, returning
+      'child' or 'classroom' (and reserving nothing) when the call would go over that cap,
+      otherwise NULL
+    - `record_ai_usage(user_id, learner_id, metric, amount)` now also takes negative amounts, so
+      the gateway can give back what a call reserved but didn't use; totals never go below zero
+    - The child cap only applies when the app sends a learner; calls without one count towards
+      the classroom alone
+
+  2. Security
+    - Calls for the same account and metric reserve one at a time, so calls made together can't
+      all slip under a cap
+    - Both functions can only be run by the service role
+*/
+
+DROP FUNCTION IF EXISTS check_ai_budget(uuid, uuid, text);
+
+CREATE OR REPLACE FUNCTION reserve_ai_budget(
+  p_user_id uuid,
+  p_learner_id uuid,
+  p_metric text,
+  p_amount bigint
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  today date := (now() AT TIME ZONE 'utc')::date;
+  child_limit bigint;
+  classroom_limit bigint;
+BEGIN
+  -- Children on one account share its classroom total, so they queue behind the same lock
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text || ':' || p_metric));
+
+  SELECT daily_limit INTO child_limit
+  FROM ai_usage_caps
+  WHERE scope = 'child' AND metric = p_metric;
+
+  SELECT daily_limit INTO classroom_limit
+  FROM ai_usage_caps
+  WHERE scope = 'classroom' AND metric = p_metric;
+
+  IF p_learner_id IS NOT NULL AND child_limit IS NOT NULL AND (
+    SELECT COALESCE(sum(amount), 0)
+    FROM ai_usage_daily
+    WHERE user_id = p_user_id
+      AND learner_id = p_learner_id
+      AND metric = p_metric
+      AND usage_date = today
+  ) + p_amount > child_limit THEN
+    RETURN 'child';
+  END IF;
+
+  IF classroom_limit IS NOT NULL AND (
+    SELECT COALESCE(sum(amount), 0)
+    FROM ai_usage_daily
+    WHERE user_id = p_user_id
+      AND metric = p_metric
+      AND usage_date = today
+  ) + p_amount > classroom_limit THEN
+    RETURN 'classroom';
+  END IF;
+
+  INSERT INTO ai_usage_daily (user_id, learner_id, metric, amount)
+  VALUES (p_user_id, p_learner_id, p_metric, p_amount)
+  ON CONFLICT (user_id, learner_id, usage_date, metric)
+  DO UPDATE SET amount = ai_usage_daily.amount + EXCLUDED.amount;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_ai_usage(
+  p_user_id uuid,
+  p_learner_id uuid,
+  p_metric text,
+  p_amount bigint
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text || ':' || p_metric));
+
+  INSERT INTO ai_usage_daily (user_id, learner_id, metric, amount)
+  VALUES (p_user_id, p_learner_id, p_metric, GREATEST(p_amount, 0))
+  ON CONFLICT (user_id, learner_id, usage_date, metric)
+  DO UPDATE SET amount = GREATEST(ai_usage_daily.amount + p_amount, 0);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_ai_budget(uuid, uuid, text, bigint) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_ai_usage(uuid, uuid, text, bigint) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,78 @@
+/*
+  # Atomic page insert
+
+  1. Functions
+    - `insert_story_page(p_book_id uuid, p_page jsonb, p_position integer)` adds a page so it
+      becomes page `p_position` (one-based) and moves the pages from there on down by one, in one
+      transaction; without a position, or past the end, the page goes last. Returns the new page.
+    - The book's other pages are renumbered 1..n in their current order on the way, so any gaps
+      are closed too
+    - Pages are parked on negative numbers first, as in `renumber_story_pages`, so the
+      `(page_number, book_id)` unique constraint never sees two pages on the same number
+    - Runs as the caller (SECURITY INVOKER) so the author/admin RLS policies on `story_pages`
+      still apply; non-authors get an error
+*/
+
+CREATE OR REPLACE FUNCTION insert_story_page(
+  p_book_id uuid,
+  p_page jsonb,
+  p_position integer DEFAULT NULL
+)
+RETURNS story_pages
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  page_count integer;
+  target integer;
+  new_page story_pages;
+BEGIN
+  IF COALESCE(current_user_role(), '') NOT IN ('author', 'admin') THEN
+    RAISE EXCEPTION 'Only authors can add pages';
+  END IF;
+
+  -- Two inserts into the same book at once would both count the pages before either lands
+  PERFORM pg_advisory_xact_lock(hashtext('story_pages:' || p_book_id::text));
+
+  SELECT count(*) INTO page_count FROM story_pages WHERE book_id = p_book_id;
+  target := LEAST(GREATEST(COALESCE(p_position, page_count + 1), 1), page_count + 1);
+
+  WITH ordered AS (
+    SELECT id, row_number() OVER (ORDER BY page_number, created_at) AS position
+    FROM story_pages
+    WHERE book_id = p_book_id
+  )
+  UPDATE story_pages
+  SET page_number = -(ordered.position + CASE WHEN ordered.position >= target THEN 1 ELSE 0 END)
+  FROM ordered
+  WHERE story_pages.id = ordered.id;
+
+  UPDATE story_pages
+  SET page_number = -page_number,
+      updated_at = now()
+  WHERE book_id = p_book_id;
+
+  INSERT INTO story_pages (
+    book_id, page_number, title, text,
+    image_url, video_url, background_url, background_music_url,
+    narration_audio_url, narration_timings, quiz_data
+  )
+  VALUES (
+    p_book_id,
+    target,
+    COALESCE(p_page->>'title', ''),
+    p_page->>'text',
+    COALESCE(p_page->>'image_url', ''),
+    COALESCE(p_page->>'video_url', ''),
+    COALESCE(p_page->>'background_url', ''),
+    p_page->>'background_music_url',
+    p_page->>'narration_audio_url',
+    NULLIF(p_page->'narration_timings', 'null'::jsonb),
+    COALESCE(p_page->'quiz_data', '{"questions": []}'::jsonb)
+  )
+  RETURNING * INTO new_page;
+
+  RETURN new_page;
+END;
+$$;
@@ -0,0 +1,59 @@
+/*
+  # Page renumbering waits for page inserts
+
+  1. Functions
+    - `renumber_story_pages` now takes the same per-book lock as `insert_story_page` before it
+      counts the pages, so a reorder and an insert on the same book run one after the other;
+      otherwise the reorder could miss the new page, or park two pages on the same number
+    - Otherwise unchanged
+*/
+
+CREATE OR REPLACE FUNCTION renumber_story_pages(p_book_id uuid, p_page_ids uuid[] DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  page_count integer;
+BEGIN
+  IF COALESCE(current_user_role(), '') NOT IN ('author', 'admin') THEN
+    RAISE EXCEPTION 'Only authors can reorder pages';
+  END IF;
+
+  -- Pages added while the order is being checked would be left out of it
+  PERFORM pg_advisory_xact_lock(hashtext('story_pages:' || p_book_id::text));
+
+  SELECT count(*) INTO page_count FROM story_pages WHERE book_id = p_book_id;
+
+  IF p_page_ids IS NOT NULL AND (
+    cardinality(p_page_ids) <> page_count
+    OR (
+      SELECT count(DISTINCT id)
+      FROM story_pages
+      WHERE book_id = p_book_id AND id = ANY(p_page_ids)
+    ) <> page_count
+  ) THEN
+    RAISE EXCEPTION 'The new page order must list every page of the book exactly once';
+  END IF;
+
+  WITH ordered AS (
+    SELECT page_id, position
+    FROM unnest(p_page_ids) WITH ORDINALITY AS requested(page_id, position)
+    WHERE p_page_ids IS NOT NULL
+    UNION ALL
+    SELECT id, row_number() OVER (ORDER BY page_number, created_at)
+    FROM story_pages
+    WHERE book_id = p_book_id AND p_page_ids IS NULL
+  )
+  UPDATE story_pages
+  SET page_number = -ordered.position
+  FROM ordered
+  WHERE story_pages.id = ordered.page_id AND story_pages.book_id = p_book_id;
+
+  UPDATE story_pages
+  SET page_number = -page_number,
+      updated_at = now()
+  WHERE book_id = p_book_id;
+END;
+$$;